@@ -1,13 +1,38 @@
 'use server';
 
-import { getOverridableNodes, savePromptOverride, calculateOverrideConfig, savePromptVersion, getPromptVersions, getStateMemory, saveStateOverride, updatePromptVersion, extractStateFieldsFromGraph, extractOverridableNodesFromGraph } from '@/lib/polaris';
-import { StateMemory, OverridableNode, PromptSetVersion, AgentConfig, PolarisGraph } from '@/types/polaris';
-import { sendChatRequest, validatePolarisUrl } from '@/lib/api';
+import { getOverridableNodes, savePromptOverride, calculateOverrideConfig, savePromptVersion, getPromptVersions, getStateMemory, saveStateOverride, updatePromptVersion, extractStateFieldsFromGraph, extractOverridableNodesFromGraph, getPlaceholderAliases, resolveNodePrompts, getPolarisGraph } from '@/lib/polaris';
+import { buildGraphView } from '@/lib/graph';
+import { planGraphUpdate, resolveGraphUpdate, CurrentEdits } from '@/lib/graph-merge';
+import { PLACEHOLDER_NAME_PATTERN, RenderedNodePrompts } from '@/lib/templates';
+import { StateMemory, OverridableNode, PromptSetVersion, AgentConfig, PolarisGraph, MockPolarisScript, GraphView, GraphUpdatePlan, NodePromptType, NodePromptOverrides } from '@/types/polaris';
+import { getAgentBackend, validateApiKeyEnvVar } from '@/lib/backends';
+import { isMockModelMode } from '@/lib/mock-models';
+import { cassetteCall, withCassette, resolveCassetteOptions } from '@/lib/cassette';
+import { withBackoff, mapWithConcurrency, getConversationConcurrency, trackRetries, getRetryCount } from '@/lib/concurrency';
+import { scoreRubric, summarizeCriteria, DEFAULT_PASS_THRESHOLD } from '@/lib/rubric';
+import { buildNotesProblemDescription, buildNotesRefineInstruction, NoteWithTranscript } from '@/lib/notes';
+import { computeCalibrationMetrics, simulationTurnsToConversation } from '@/lib/calibration';
+import { compareABResults, summarizeABComparisons } from '@/lib/ab-testing';
+import { buildTestHistory } from '@/lib/test-history';
+import { normalizeFailureClusters } from '@/lib/failure-clusters';
+import { applyOptimizationEdits, buildOptimizationInstruction, isBetterCandidate, MAX_OPTIMIZATION_BUDGET } from '@/lib/optimizer';
+import { getTrialsPerPersona, passRateInterval, summarizePersonaPassRates, compareWithPreviousRun } from '@/lib/trials';
+import { registerExperimentRun, finishExperimentRun, isExperimentRunning, cancelExperimentRun } from '@/lib/experiment-runs';
+import {
+    enqueueSimulationJob,
+    waitForSimulationJob,
+    waitForSimulationJobToStop,
+    cancelSimulationJob,
+    resumeStalledSimulationJobs,
+    startSimulationJobRecovery
+} from '@/lib/simulation-jobs';
+import { CassetteOptions } from '@/types/cassette';
 import {
     loadAgents,
     registerAgent,
     getAgent,
     deleteAgent as removeAgent,
+    updateAgent as updateAgentConfig,
     loadAgentGraph,
     savePersonas,
     loadPersonas,
@@ -36,6 +61,7 @@ import {
     loadPromptSetVersions,
     loadPromptSetVersion,
     deletePromptSetVersion,
+    moveNodePromptVersions,
     // Enhanced simulation persistence
     saveOnboardingGuide as persistOnboardingGuide,
     loadOnboardingGuide as retrieveOnboardingGuide,
@@ -49,10 +75,35 @@ import {
     saveSimulationBatch,
     loadSimulationBatch,
     loadAllSimulationBatches,
-    updateSimulationBatch,
     deleteSimulationBatch,
     getNextBatchNumber,
-    loadSimulationsByBatch
+    loadSimulationsByBatch,
+    saveMockScript,
+    loadMockScript,
+    loadCassette,
+    getSimulationJobId,
+    saveCalibrationSet,
+    loadCalibrationSet,
+    saveRegressionSuiteRun,
+    loadRegressionSuiteRun,
+    loadAllRegressionSuiteRuns,
+    deleteRegressionSuiteRun,
+    saveABExperimentRun,
+    loadABExperimentRun,
+    loadAllABExperimentRuns,
+    deleteABExperimentRun,
+    savePromptOptimizationRun,
+    loadPromptOptimizationRun,
+    loadAllPromptOptimizationRuns,
+    deletePromptOptimizationRun,
+    loadPersonaSets,
+    loadPersonaSet,
+    savePersonaSet,
+    saveAgentGraph,
+    getAgentOverrides,
+    saveAgentOverrides,
+    getAgentStateOverrides,
+    saveAgentStateOverrides
 } from '@/lib/persistence';
 import {
     generatePersonas,
@@ -73,15 +124,35 @@ import {
     SimulationTurn,
     EnhancedSimulation,
     SimulationConfig,
+    SimulationMetadata,
     GeneratedSimulationOptions,
-    SimulationBatch
+    SimulationBatch,
+    SimulationJob
 } from '@/types/simulation';
 import {
     BehaviorTest,
     BehaviorExperiment,
     BehaviorTestResult,
     ConversationTurn,
-    ExperimentSummary
+    ExperimentSummary,
+    RunningExperimentState,
+    CriterionScore,
+    TurnBlame,
+    CalibrationSet,
+    CalibrationLabel,
+    CalibrationRun,
+    CalibrationPrediction,
+    LabeledConversation,
+    RegressionSuiteRun,
+    ABExperimentRun,
+    ABVariantSource,
+    ABVariant,
+    PersonaSet,
+    PreviousRunComparison,
+    TestHistoryPoint,
+    PromptOptimizationRun,
+    OptimizationCandidate,
+    FailureCluster
 } from '@/types/behavior-test';
 import {
     generateScorerPrompt,
@@ -89,7 +160,8 @@ import {
     initBraintrustExperiment,
     logToBraintrust,
     summarizeExperiment,
-    generateExperimentInsights
+    generateExperimentInsights,
+    clusterFailures
 } from '@/lib/braintrust';
 import OpenAI from 'openai';
 
@@ -108,12 +180,21 @@ export async function createAgent(
     apiUrl: string,
     graphJson: any,
     createdBy?: string,
-    description?: string
+    description?: string,
+    backendOptions?: Pick<AgentConfig, 'backend' | 'backendModel' | 'apiKeyEnvVar'>
 ): Promise<AgentConfig> {
-    // Validate URL
-    const urlValidation = validatePolarisUrl(apiUrl);
+    // Validate URL against the chosen backend
+    const backend = getAgentBackend(backendOptions?.backend);
+    const urlValidation = backend.validateUrl(apiUrl);
     if (!urlValidation.valid) {
-        throw new Error(`Invalid Polaris URL: ${urlValidation.error}`);
+        throw new Error(`Invalid ${backend.label} URL: ${urlValidation.error}`);
+    }
+
+    if (backendOptions?.apiKeyEnvVar) {
+        const keyValidation = validateApiKeyEnvVar(backendOptions.apiKeyEnvVar);
+        if (!keyValidation.valid) {
+            throw new Error(keyValidation.error);
+        }
     }
 
     // Validate graph structure
@@ -121,13 +202,165 @@ export async function createAgent(
         throw new Error('Invalid agent graph: missing nodes array');
     }
 
-    return await registerAgent(name, apiUrl, graphJson, createdBy, description);
+    return await registerAgent(name, apiUrl, graphJson, createdBy, description, backendOptions);
 }
 
 export async function deleteAgentAction(agentId: string): Promise<void> {
     await removeAgent(agentId);
 }
 
+// ============ GRAPH UPDATE ============
+
+// Our side of a graph update merge. The dashboard runs on the master version when there is one,
+// so that is the live copy of every prompt and state value. Saved overrides go on top - they are
+// edits the master hasn't picked up, and the update rewrites overrides.json.
+async function loadCurrentEdits(agentId: string): Promise<CurrentEdits> {
+    const master = await loadMasterVersion(agentId);
+    const promptOverrides = await getAgentOverrides(agentId);
+    const stateOverrides = await getAgentStateOverrides(agentId);
+    if (!master) {
+        return { prompts: promptOverrides, state: stateOverrides };
+    }
+
+    const prompts: NodePromptOverrides = Object.fromEntries(master.nodes.map(n => [n.id, {
+        systemMessagePrompt: n.systemMessagePrompt,
+        humanMessagePrompt: n.humanMessagePrompt,
+    }]));
+    for (const [nodeId, edits] of Object.entries(promptOverrides)) {
+        prompts[nodeId] = { ...prompts[nodeId], ...edits };
+    }
+    return { prompts, state: { ...master.stateValues, ...stateOverrides } };
+}
+
+function validateGraphJson(graphJson: unknown): PolarisGraph {
+    const graph = graphJson as Partial<PolarisGraph> | null;
+    if (!graph?.nodes || !Array.isArray(graph.nodes)) {
+        throw new Error('Invalid agent graph: missing nodes array');
+    }
+    return graph as PolarisGraph;
+}
+
+// Diff an updated graph.json against the agent's current one and merge our edits onto it, without saving
+export async function previewGraphUpdate(agentId: string, graphJson: unknown): Promise<GraphUpdatePlan> {
+    const newGraph = validateGraphJson(graphJson);
+    const oldGraph = await getPolarisGraph(agentId);
+    return planGraphUpdate(oldGraph, newGraph, await loadCurrentEdits(agentId));
+}
+
+// Swap in the updated graph.json, keeping overrides, versions and tests with the agent.
+// resolutions holds the chosen value for every conflict in the preview, keyed by conflict ID.
+export async function applyGraphUpdate(agentId: string, graphJson: unknown, resolutions: Record<string, string>): Promise<GraphUpdatePlan> {
+    const newGraph = validateGraphJson(graphJson);
+    const oldGraph = await getPolarisGraph(agentId);
+    const plan = planGraphUpdate(oldGraph, newGraph, await loadCurrentEdits(agentId));
+    const { promptOverrides, stateOverrides } = resolveGraphUpdate(plan, resolutions);
+
+    await saveAgentGraph(agentId, newGraph);
+    await saveAgentOverrides(agentId, promptOverrides);
+    await saveAgentStateOverrides(agentId, stateOverrides);
+
+    // Rebuild the master version on the new graph, or its stale copies would mask the update
+    if (await masterVersionExists(agentId)) {
+        const nodes = extractOverridableNodesFromGraph(newGraph).map(n => ({ ...n, ...promptOverrides[n.id] }));
+        const stateValues: Record<string, string> = {};
+        for (const field of extractStateFieldsFromGraph(newGraph)) {
+            stateValues[field.key] = field.defaultValue || '';
+        }
+        await saveMasterVersion(agentId, nodes, { ...stateValues, ...stateOverrides });
+    }
+
+    // Saved versions and per-node prompt history follow nodes whose IDs changed
+    const renamedNodes = Object.entries(plan.nodeIdMap);
+    if (renamedNodes.length > 0) {
+        for (const version of await loadPromptSetVersions(agentId)) {
+            await savePromptSetVersion(agentId, {
+                ...version,
+                nodes: version.nodes.map(n => ({ ...n, id: plan.nodeIdMap[n.id] || n.id })),
+            });
+        }
+        for (const [oldId, newId] of renamedNodes) {
+            await moveNodePromptVersions(agentId, oldId, newId);
+        }
+    }
+
+    console.log(`[GraphUpdate] Updated graph for ${agentId}: ${plan.nodeChanges.length} node changes, ${plan.conflicts.length} conflicts resolved, ${plan.dropped.length} edits dropped`);
+    return plan;
+}
+
+// ============ PLACEHOLDER ALIASES ============
+
+export async function fetchPlaceholderAliases(agentId: string): Promise<Record<string, string>> {
+    return await getPlaceholderAliases(agentId);
+}
+
+export async function updatePlaceholderAliases(agentId: string, aliases: Record<string, string>): Promise<Record<string, string>> {
+    for (const [alias, key] of Object.entries(aliases)) {
+        if (!PLACEHOLDER_NAME_PATTERN.test(alias) || !PLACEHOLDER_NAME_PATTERN.test(key)) {
+            throw new Error(`Invalid alias {${alias}} -> {${key}}: names must be letters, digits and underscores`);
+        }
+        if (alias === key) throw new Error(`Alias {${alias}} points at itself`);
+    }
+
+    const agent = await updateAgentConfig(agentId, { placeholderAliases: aliases });
+    if (!agent) throw new Error(`Agent not found: ${agentId}`);
+    return aliases;
+}
+
+// The rendered text of every node prompt with the field each span came from
+export async function explainNodePrompts(
+    agentId: string,
+    nodes: OverridableNode[],
+    stateOverrides?: Record<string, string>
+): Promise<Record<string, RenderedNodePrompts>> {
+    return await resolveNodePrompts(agentId, nodes, stateOverrides);
+}
+
+// One node's prompts rendered from the current edits, next to the same node rendered from the master version
+export async function fetchRenderedPromptPreview(
+    agentId: string,
+    node: OverridableNode,
+    stateOverrides?: Record<string, string>
+): Promise<{ current: RenderedNodePrompts; master: RenderedNodePrompts | null; masterUpdatedAt?: string }> {
+    const current = (await resolveNodePrompts(agentId, [node], stateOverrides))[node.id];
+
+    const master = await loadMasterVersion(agentId);
+    const masterNode = master?.nodes.find(n => n.id === node.id);
+    if (!master || !masterNode) return { current, master: null };
+
+    const rendered = await resolveNodePrompts(agentId, [{ ...masterNode, type: masterNode.type || 'Agent' }], master.stateValues);
+    return { current, master: rendered[node.id], masterUpdatedAt: master.lastUpdated };
+}
+
+// ============ MOCK POLARIS ============
+
+export async function fetchMockScript(agentId: string): Promise<MockPolarisScript | null> {
+    return await loadMockScript(agentId);
+}
+
+export async function updateMockScript(agentId: string, script: MockPolarisScript): Promise<void> {
+    await saveMockScript(agentId, script);
+}
+
+// Capture a real simulation's agent replies so the mock backend can replay them turn by turn
+export async function recordMockScriptFromSimulation(agentId: string, simulationId: string): Promise<MockPolarisScript> {
+    const simulation = await loadEnhancedSimulation(agentId, simulationId);
+    if (!simulation) {
+        throw new Error(`Simulation not found: ${simulationId}`);
+    }
+
+    const existing = await loadMockScript(agentId);
+    const script: MockPolarisScript = {
+        rules: existing?.rules || [],
+        recordedResponses: simulation.turns
+            .filter(t => t.role === 'assistant')
+            .map(t => t.content),
+        recordedFromSimulationId: simulationId,
+    };
+
+    await saveMockScript(agentId, script);
+    return script;
+}
+
 // ============ NODE OPERATIONS ============
 
 export async function fetchNodes(agentId: string): Promise<OverridableNode[]> {
@@ -141,6 +374,11 @@ export async function fetchNodes(agentId: string): Promise<OverridableNode[]> {
     return nodes;
 }
 
+// The agent graph laid out as in graph.json, for the read-only graph canvas
+export async function fetchGraphView(agentId: string): Promise<GraphView> {
+    return buildGraphView(await getPolarisGraph(agentId));
+}
+
 export async function saveNodeOverride(agentId: string, nodeId: string, type: 'systemMessagePrompt' | 'humanMessagePrompt', content: string) {
     await savePromptOverride(agentId, nodeId, type, content);
     return { success: true };
@@ -185,8 +423,11 @@ export async function sendChat(
             throw new Error(`Agent not found: ${agentId}`);
         }
 
+        const backend = getAgentBackend(agent.backend);
+
         console.log('sendChat called with:', {
             agentId,
+            backend: backend.type,
             apiUrl: agent.apiUrl,
             message: message.substring(0, 50) + '...',
             chatId,
@@ -195,11 +436,18 @@ export async function sendChat(
             stateOverrideKeys: stateOverrides ? Object.keys(stateOverrides) : []
         });
 
-        const overrideConfig = nodes ? await calculateOverrideConfig(agentId, nodes, stateOverrides) : undefined;
+        // Backends without their own copy of the graph always need every prompt
+        const overrideConfig = nodes
+            ? await calculateOverrideConfig(agentId, nodes, stateOverrides, backend.requiresFullPrompts)
+            : undefined;
 
         console.log('Override config:', overrideConfig ? JSON.stringify(overrideConfig).substring(0, 200) : 'none');
 
-        return await sendChatRequest(agent.apiUrl, message, chatId, overrideConfig);
+        return await cassetteCall(
+            'agent',
+            { agentId, message, chatId, overrideConfig },
+            () => withBackoff(backend.type, () => backend.sendMessage(agent, message, chatId, overrideConfig))
+        );
     } catch (error) {
         console.error('Chat Error:', error);
         throw error;
@@ -225,7 +473,12 @@ export async function sendChatWithOverrides(
 
         console.log('sendChatWithOverrides - Override config keys:', overrideConfig ? Object.keys(overrideConfig) : 'none');
 
-        return await sendChatRequest(agent.apiUrl, message, chatId, overrideConfig);
+        const backend = getAgentBackend(agent.backend);
+        return await cassetteCall(
+            'agent',
+            { agentId, message, chatId, overrideConfig },
+            () => withBackoff(backend.type, () => backend.sendMessage(agent, message, chatId, overrideConfig))
+        );
     } catch (error) {
         console.error('Chat Error:', error);
         throw error;
@@ -434,11 +687,15 @@ export async function generateTestPersonas(
     nodes: OverridableNode[]
 ): Promise<Persona[]> {
     const agentContext = extractAgentContext(nodes);
-    const newPersonas = await generateBehaviorTestPersonas(
-        test.simulationCount,
-        test.problemDescription,
-        test.personaHint,
-        agentContext
+    const newPersonas = await cassetteCall(
+        'persona-generation',
+        { count: test.simulationCount, problemDescription: test.problemDescription, personaHint: test.personaHint, agentContext },
+        () => withBackoff('openai', () => generateBehaviorTestPersonas(
+            test.simulationCount,
+            test.problemDescription,
+            test.personaHint,
+            agentContext
+        ))
     );
     return newPersonas;
 }
@@ -448,7 +705,8 @@ export async function runBehaviorSimulation(
     agentId: string,
     persona: Persona,
     nodes: OverridableNode[],
-    stateOverrides?: Record<string, string>
+    stateOverrides?: Record<string, string>,
+    signal?: AbortSignal
 ): Promise<ConversationTurn[]> {
     const turns: ConversationTurn[] = [];
     let currentHistory: { role: string; content: string }[] = [];
@@ -456,8 +714,16 @@ export async function runBehaviorSimulation(
 
     // Run 5 turns of conversation
     for (let i = 0; i < 5; i++) {
+        if (signal?.aborted) {
+            throw new Error('Experiment cancelled');
+        }
+
         // Generate user message
-        const userContent = await generateUserResponse(persona, currentHistory);
+        const userContent = await cassetteCall(
+            'persona-response',
+            { personaId: persona.id, history: currentHistory },
+            () => withBackoff('openai', () => generateUserResponse(persona, currentHistory))
+        );
         turns.push({ role: 'user', content: userContent });
         currentHistory.push({ role: 'user', content: userContent });
 
@@ -471,25 +737,46 @@ export async function runBehaviorSimulation(
             traceData: agentResponse.agentReasoning
         });
         currentHistory.push({ role: 'assistant', content: agentResponse.text });
-
-        await new Promise(r => setTimeout(r, 300));
     }
 
     return turns;
 }
 
-// Score a completed conversation
+// Score a completed conversation against every criterion of the test's rubric
 export async function scoreBehaviorConversation(
     test: BehaviorTest,
     conversation: ConversationTurn[],
     persona: Persona
-): Promise<{ score: number; rationale: string; passed: boolean }> {
-    const { score, rationale } = await scoreConversation(test.scorerPrompt, conversation, persona);
-    return {
-        score,
-        rationale,
-        passed: score >= 0.7
-    };
+): Promise<{ score: number; rationale: string; passed: boolean; criteria: CriterionScore[]; blamedTurns: TurnBlame[] }> {
+    return await scoreRubric(test, conversation, judgePrompt => cassetteCall(
+        'judge',
+        {
+            scorerPrompt: judgePrompt,
+            personaId: persona.id,
+            conversation: conversation.map(t => ({ role: t.role, content: t.content }))
+        },
+        () => withBackoff('openai', () => scoreConversation(judgePrompt, conversation, persona))
+    ));
+}
+
+// The personas a run uses: the test's frozen set plus any fresh ones it asks for, or a newly generated set
+async function resolveTestPersonas(
+    agentId: string,
+    test: BehaviorTest,
+    nodes: OverridableNode[]
+): Promise<{ personas: Persona[]; personaSetId?: string }> {
+    const frozen = test.personaSetId ? await loadPersonaSet(agentId, test.id, test.personaSetId) : null;
+    if (!frozen) {
+        if (test.personaSetId) {
+            console.warn(`[Experiment] Persona set ${test.personaSetId} not found, generating fresh personas`);
+        }
+        return { personas: await generateTestPersonas(test, nodes) };
+    }
+
+    const fresh = test.freshPersonaCount
+        ? await generateTestPersonas({ ...test, simulationCount: test.freshPersonaCount }, nodes)
+        : [];
+    return { personas: [...frozen.personas, ...fresh], personaSetId: frozen.id };
 }
 
 // Run a single persona simulation and return result
@@ -500,12 +787,15 @@ async function runSinglePersonaTest(
     nodes: OverridableNode[],
     stateOverrides: Record<string, string> | undefined,
     index: number,
-    braintrustExperiment: any
+    braintrustExperiment: any,
+    signal?: AbortSignal
 ): Promise<BehaviorTestResult> {
     console.log(`[Experiment] Starting simulation ${index + 1} for ${persona.name}`);
 
-    const conversation = await runBehaviorSimulation(agentId, persona, nodes, stateOverrides);
-    const { score, rationale, passed } = await scoreBehaviorConversation(test, conversation, persona);
+    const { result: { conversation, score, rationale, passed, criteria, blamedTurns }, retries } = await trackRetries(async () => {
+        const conversation = await runBehaviorSimulation(agentId, persona, nodes, stateOverrides, signal);
+        return { conversation, ...await scoreBehaviorConversation(test, conversation, persona) };
+    });
 
     const result: BehaviorTestResult = {
         id: `result-${Date.now()}-${index}`,
@@ -515,154 +805,1231 @@ async function runSinglePersonaTest(
         score,
         passed,
         rationale,
+        criteria,
+        blamedTurns: blamedTurns.length > 0 ? blamedTurns : undefined,
         scoredAt: new Date().toISOString(),
+        retryCount: retries,
+    };
+
+    if (braintrustExperiment) {
+        try {
+            await logToBraintrust(braintrustExperiment, test, result);
+        } catch (error) {
+            console.error('Failed to log to Braintrust:', error);
+        }
+    }
+
+    console.log(`[Experiment] Completed simulation ${index + 1} for ${persona.name} - Score: ${score}`);
+    return result;
+}
+
+// Where an experiment came from, and optionally the personas to run instead of generating a fresh set
+interface ExperimentLaunchOptions {
+    versionId?: string;
+    suiteRunId?: string;
+    abRunId?: string;
+    optimizationRunId?: string;
+    personas?: Persona[];
+}
+
+// Create the experiment record and start running it. `done` settles when the run finishes;
+// until then progress and partial results are saved to the experiment file as they arrive.
+async function launchBehaviorExperiment(
+    agentId: string,
+    test: BehaviorTest,
+    nodes: OverridableNode[],
+    stateOverrides?: Record<string, string>,
+    cassette?: CassetteOptions,
+    options: ExperimentLaunchOptions = {}
+): Promise<{ experiment: BehaviorExperiment; done: Promise<BehaviorExperiment> }> {
+    const { personas, ...origin } = options;
+    const experimentId = `exp-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+    const cassetteOptions = resolveCassetteOptions(cassette, experimentId);
+
+    const experiment: BehaviorExperiment = {
+        id: experimentId,
+        testId: test.id,
+        test,
+        results: [],
+        summary: {
+            total: 0,
+            passed: 0,
+            failed: 0,
+            passRate: 0,
+            avgScore: 0,
+        },
+        status: 'running',
+        createdAt: new Date().toISOString(),
+        cassetteId: cassetteOptions?.cassetteId,
+        progress: {
+            completed: 0,
+            total: test.simulationCount * getTrialsPerPersona(test),
+        },
+        ...origin,
+    };
+
+    await saveBehaviorExperiment(agentId, experiment);
+    console.log(`[Experiment] Created experiment record: ${experimentId}`);
+
+    const signal = registerExperimentRun(experimentId);
+    const execute = () => executeBehaviorExperiment(agentId, experiment, nodes, stateOverrides, signal, personas);
+
+    const done = (cassetteOptions
+        ? withCassette(agentId, cassetteOptions, { type: 'experiment', id: experimentId }, { nodes, stateOverrides }, execute)
+        : execute()
+    ).finally(() => finishExperimentRun(experimentId));
+
+    return { experiment, done };
+}
+
+// Run a complete behavior experiment, optionally recording it to or replaying it from a cassette
+export async function runBehaviorExperiment(
+    agentId: string,
+    test: BehaviorTest,
+    nodes: OverridableNode[],
+    stateOverrides?: Record<string, string>,
+    cassette?: CassetteOptions
+): Promise<BehaviorExperiment> {
+    const { done } = await launchBehaviorExperiment(agentId, test, nodes, stateOverrides, cassette);
+    return await done;
+}
+
+// Start a behavior experiment and return immediately - poll fetchRunningExperimentState for progress
+export async function startBehaviorExperiment(
+    agentId: string,
+    test: BehaviorTest,
+    nodes: OverridableNode[],
+    stateOverrides?: Record<string, string>,
+    cassette?: CassetteOptions,
+    versionId?: string
+): Promise<BehaviorExperiment> {
+    const { experiment, done } = await launchBehaviorExperiment(agentId, test, nodes, stateOverrides, cassette, { versionId });
+    done.catch(error => console.error(`[Experiment] ${experiment.id} failed:`, error));
+    return experiment;
+}
+
+export async function fetchRunningExperimentState(
+    agentId: string,
+    experimentId: string
+): Promise<RunningExperimentState | null> {
+    const experiment = await loadBehaviorExperiment(agentId, experimentId);
+    if (!experiment) return null;
+
+    // A 'running' experiment that no process is running was orphaned by a restart
+    if (experiment.status === 'running' && !isExperimentRunning(experimentId)) {
+        experiment.status = 'failed';
+        experiment.completedAt = new Date().toISOString();
+        await saveBehaviorExperiment(agentId, experiment);
+    }
+
+    return {
+        experimentId,
+        test: experiment.test,
+        status: experiment.status,
+        progress: experiment.progress || {
+            completed: experiment.results.length,
+            total: experiment.summary.total,
+        },
+        results: experiment.results,
+        summary: experiment.summary,
+    };
+}
+
+// Stop a running experiment. Conversations in flight stop at their next turn and are dropped;
+// finished results are kept and summarized.
+export async function cancelBehaviorExperiment(agentId: string, experimentId: string): Promise<BehaviorExperiment | null> {
+    if (!cancelExperimentRun(experimentId)) {
+        const experiment = await loadBehaviorExperiment(agentId, experimentId);
+        if (experiment?.status === 'running') {
+            experiment.status = 'cancelled';
+            experiment.completedAt = new Date().toISOString();
+            await saveBehaviorExperiment(agentId, experiment);
+        }
+        return experiment;
+    }
+    return await loadBehaviorExperiment(agentId, experimentId);
+}
+
+// Re-run a recorded experiment from its cassette with the prompts it was recorded with.
+// Passing a new scorer prompt rescores the replayed conversations live - personas and
+// agent replies still come from the cassette, so only the judge calls cost anything.
+export async function replayBehaviorExperiment(
+    agentId: string,
+    experimentId: string,
+    scorerPrompt?: string
+): Promise<BehaviorExperiment> {
+    const original = await loadBehaviorExperiment(agentId, experimentId);
+    if (!original?.cassetteId) {
+        throw new Error(`No cassette recorded for experiment: ${experimentId}`);
+    }
+
+    const cassette = await loadCassette(agentId, original.cassetteId);
+    if (!cassette) {
+        throw new Error(`Cassette not found: ${original.cassetteId}`);
+    }
+
+    const test = scorerPrompt ? { ...original.test, scorerPrompt } : original.test;
+
+    // Run the recorded personas - resolving them again could pick a different list and miss the cassette
+    const { done } = await launchBehaviorExperiment(agentId, test, cassette.nodes, cassette.stateOverrides, {
+        mode: 'replay',
+        cassetteId: cassette.id,
+        liveKinds: scorerPrompt ? ['judge', 'insights', 'failure-clusters'] : [],
+    }, { personas: original.personas });
+    return await done;
+}
+
+async function executeBehaviorExperiment(
+    agentId: string,
+    experiment: BehaviorExperiment,
+    nodes: OverridableNode[],
+    stateOverrides: Record<string, string> | undefined,
+    signal: AbortSignal,
+    fixedPersonas?: Persona[]
+): Promise<BehaviorExperiment> {
+    const { test } = experiment;
+    const trialsPerPersona = getTrialsPerPersona(test);
+    const startTime = Date.now();
+    console.log(`[Experiment] Starting behavior experiment: ${test.name}`);
+
+    // Workers finish in any order - write the experiment file one save at a time
+    let pendingSave: Promise<void> = Promise.resolve();
+    const saveProgress = () => {
+        pendingSave = pendingSave
+            .then(() => saveBehaviorExperiment(agentId, experiment))
+            .catch(error => console.error('Failed to save experiment progress:', error));
+        return pendingSave;
+    };
+
+    let braintrustExperiment: any = null;
+    let braintrustUrl: string | undefined;
+
+    try {
+        // Mock runs stay offline, so they aren't logged to Braintrust
+        if (!isMockModelMode()) {
+            try {
+                const { experiment: btExperiment } = await initBraintrustExperiment(test.name);
+                braintrustExperiment = btExperiment;
+                console.log('[Experiment] Braintrust experiment initialized');
+            } catch (error) {
+                console.error('Failed to init Braintrust experiment:', error);
+            }
+        }
+
+        let personas = fixedPersonas;
+        if (!personas) {
+            console.log(`[Experiment] Preparing personas for ${test.name}...`);
+            experiment.progress = { completed: 0, total: test.simulationCount * trialsPerPersona, currentPersona: 'Generating personas...' };
+            await saveProgress();
+
+            const resolved = await resolveTestPersonas(agentId, test, nodes);
+            personas = resolved.personas;
+            experiment.personaSetId = resolved.personaSetId;
+            console.log(`[Experiment] Using ${personas.length} personas${resolved.personaSetId ? ` (frozen set ${resolved.personaSetId})` : ''}`);
+        }
+        experiment.personas = personas;
+
+        // Each persona runs trialsPerPersona separate conversations
+        const runs = personas.flatMap(persona =>
+            Array.from({ length: trialsPerPersona }, (_, t) => ({ persona, trial: t + 1 }))
+        );
+        experiment.progress = { completed: 0, total: runs.length };
+        await saveProgress();
+
+        const concurrency = getConversationConcurrency();
+        console.log(`[Experiment] Starting ${runs.length} simulations (${trialsPerPersona} per persona), ${concurrency} at a time...`);
+
+        const resultsWithNulls = await mapWithConcurrency(runs, concurrency, async ({ persona, trial }, index) => {
+            if (signal.aborted) return null;
+
+            experiment.progress = { ...experiment.progress!, currentPersona: persona.name };
+            const result = await runSinglePersonaTest(agentId, persona, test, nodes, stateOverrides, index, braintrustExperiment, signal)
+                .then(r => trialsPerPersona > 1 ? { ...r, trial } : r)
+                .catch(error => {
+                    console.error(`[Experiment] Failed simulation for ${persona.name} (trial ${trial}):`, error);
+                    return null;
+                });
+
+            // Publish each result as it lands so the client sees the live pass rate
+            if (result) {
+                experiment.results = [...experiment.results, result];
+                experiment.summary = calculateSummary(experiment.results, Date.now() - startTime);
+            }
+            experiment.progress = { ...experiment.progress!, completed: experiment.progress!.completed + 1 };
+            await saveProgress();
+
+            return result;
+        });
+        const results = resultsWithNulls.filter((r): r is BehaviorTestResult => r !== null);
+
+        console.log(`[Experiment] All simulations complete. ${results.length}/${runs.length} succeeded`);
+
+        if (braintrustExperiment) {
+            try {
+                const { url } = await summarizeExperiment(braintrustExperiment);
+                braintrustUrl = url;
+            } catch (error) {
+                console.error('Failed to summarize Braintrust experiment:', error);
+            }
+        }
+
+        let aiInsights = { aiSummary: '', recommendations: [] as string[] };
+        if (!signal.aborted) {
+            console.log('[Experiment] Generating AI insights...');
+            try {
+                aiInsights = await cassetteCall(
+                    'insights',
+                    {
+                        scorerPrompt: test.scorerPrompt,
+                        results: results.map(r => ({ personaId: r.personaId, score: r.score, rationale: r.rationale }))
+                    },
+                    () => withBackoff('openai', () => generateExperimentInsights(test, results))
+                );
+                console.log('[Experiment] AI insights generated');
+            } catch (error) {
+                console.error('Failed to generate AI insights:', error);
+            }
+        }
+
+        let failureClusters: FailureCluster[] | undefined;
+        if (!signal.aborted && results.some(r => !r.passed)) {
+            console.log('[Experiment] Clustering failures...');
+            try {
+                failureClusters = await findFailureClusters(test, results);
+                console.log(`[Experiment] Found ${failureClusters.length} failure clusters`);
+            } catch (error) {
+                console.error('Failed to cluster failures:', error);
+            }
+        }
+
+        experiment.results = results;
+        const summary = calculateSummary(results, Date.now() - startTime);
+        experiment.summary = {
+            ...summary,
+            trialsPerPersona,
+            previousRun: await compareWithPreviousExperiment(agentId, experiment, summary),
+            failureClusters,
+            aiSummary: aiInsights.aiSummary,
+            recommendations: aiInsights.recommendations
+        };
+        experiment.braintrustUrl = braintrustUrl;
+        experiment.status = signal.aborted ? 'cancelled' : 'completed';
+    } catch (error) {
+        console.error(`[Experiment] ${experiment.id} failed:`, error);
+        experiment.status = 'failed';
+        throw error;
+    } finally {
+        experiment.progress = { ...(experiment.progress || { completed: 0, total: 0 }), currentPersona: undefined };
+        experiment.completedAt = new Date().toISOString();
+        await saveProgress();
+    }
+
+    console.log(`[Experiment] Experiment ${experiment.status}: ${experiment.summary.passRate}% pass rate`);
+
+    return experiment;
+}
+
+function calculateSummary(results: BehaviorTestResult[], duration: number): ExperimentSummary {
+    const passed = results.filter(r => r.passed).length;
+    const failed = results.length - passed;
+    const avgScore = results.length > 0
+        ? results.reduce((sum, r) => sum + r.score, 0) / results.length
+        : 0;
+
+    return {
+        total: results.length,
+        passed,
+        failed,
+        passRate: results.length > 0 ? Math.round((passed / results.length) * 100) : 0,
+        avgScore: Math.round(avgScore * 100) / 100,
+        duration,
+        criteria: summarizeCriteria(results),
+        passRateInterval: results.length > 0 ? passRateInterval(passed, results.length) : undefined,
+        personas: summarizePersonaPassRates(results),
+    };
+}
+
+async function findFailureClusters(test: BehaviorTest, results: BehaviorTestResult[]): Promise<FailureCluster[]> {
+    const failures = results.filter(r => !r.passed);
+    const raw = await cassetteCall(
+        'failure-clusters',
+        {
+            problemDescription: test.problemDescription,
+            failures: failures.map(r => ({ personaId: r.personaId, rationale: r.rationale, conversation: r.conversation.map(t => t.content) }))
+        },
+        () => withBackoff('openai', () => clusterFailures(test, failures))
+    );
+    return normalizeFailureClusters(raw, failures);
+}
+
+// Group a finished experiment's failures again, e.g. for runs from before clustering existed
+export async function clusterExperimentFailures(agentId: string, experimentId: string): Promise<BehaviorExperiment> {
+    const experiment = await loadBehaviorExperiment(agentId, experimentId);
+    if (!experiment) {
+        throw new Error(`Experiment ${experimentId} not found`);
+    }
+    if (experiment.status === 'running') {
+        throw new Error('Experiment is still running');
+    }
+
+    experiment.summary.failureClusters = experiment.results.some(r => !r.passed)
+        ? await findFailureClusters(experiment.test, experiment.results)
+        : [];
+    await saveBehaviorExperiment(agentId, experiment);
+    return experiment;
+}
+
+// Test the pass rate against the most recent earlier completed run of the same test.
+// The other side of an A/B run is skipped - that comparison lives in the A/B report -
+// and so are optimizer candidates, which ran throwaway configs.
+async function compareWithPreviousExperiment(
+    agentId: string,
+    experiment: BehaviorExperiment,
+    summary: ExperimentSummary
+): Promise<PreviousRunComparison | undefined> {
+    if (summary.total === 0) return undefined;
+
+    const previous = (await loadAllBehaviorExperiments(agentId)).find(e =>
+        e.id !== experiment.id &&
+        e.testId === experiment.testId &&
+        e.status === 'completed' &&
+        e.summary.total > 0 &&
+        e.createdAt < experiment.createdAt &&
+        !e.optimizationRunId &&
+        !(experiment.abRunId && e.abRunId === experiment.abRunId)
+    );
+    return previous ? compareWithPreviousRun(summary.passed, summary.total, previous) : undefined;
+}
+
+export async function fetchBehaviorTests(agentId: string): Promise<BehaviorTest[]> {
+    return await loadBehaviorTests(agentId);
+}
+
+// Save edits made before running (scorer prompt, rubric) so regression suites run the test as approved
+export async function updateBehaviorTest(agentId: string, test: BehaviorTest): Promise<void> {
+    await saveBehaviorTest(agentId, test);
+}
+
+async function loadSavedTest(agentId: string, testId: string): Promise<BehaviorTest> {
+    const test = (await loadBehaviorTests(agentId)).find(t => t.id === testId);
+    if (!test) {
+        throw new Error(`Behavior test ${testId} not found`);
+    }
+    return test;
+}
+
+// Start a new experiment for a saved test, picking up its frozen personas and latest edits
+export async function rerunBehaviorTest(
+    agentId: string,
+    testId: string,
+    nodes: OverridableNode[],
+    stateOverrides?: Record<string, string>,
+    versionId?: string
+): Promise<BehaviorExperiment> {
+    const test = await loadSavedTest(agentId, testId);
+    return await startBehaviorExperiment(agentId, test, nodes, stateOverrides, undefined, versionId);
+}
+
+// Pass rate and score over time for one test, labeled with the prompt version each run used
+export async function fetchBehaviorTestHistory(agentId: string, testId: string): Promise<TestHistoryPoint[]> {
+    const [experiments, versions] = await Promise.all([
+        loadAllBehaviorExperiments(agentId),
+        loadPromptSetVersions(agentId),
+    ]);
+    return buildTestHistory(experiments, testId, versions);
+}
+
+// ============ PERSONA SETS ============
+
+// Newest version first
+export async function fetchPersonaSets(agentId: string, testId: string): Promise<PersonaSet[]> {
+    return (await loadPersonaSets(agentId, testId)).sort((a, b) => b.version - a.version);
+}
+
+// Save personas as the next version of the test's frozen set and make the test run on it
+export async function savePersonaSetVersion(
+    agentId: string,
+    testId: string,
+    personas: Persona[],
+    name?: string,
+    sourceExperimentId?: string
+): Promise<{ test: BehaviorTest; personaSet: PersonaSet }> {
+    if (personas.length === 0) {
+        throw new Error('A persona set needs at least one persona');
+    }
+
+    const test = await loadSavedTest(agentId, testId);
+    const existing = await loadPersonaSets(agentId, testId);
+    const latest = existing.reduce<PersonaSet | null>((max, s) => !max || s.version > max.version ? s : max, null);
+
+    const personaSet: PersonaSet = {
+        id: `persona-set-${Date.now()}`,
+        testId,
+        name: name || latest?.name || `${test.name} personas`,
+        version: (latest?.version || 0) + 1,
+        personas,
+        sourceExperimentId: sourceExperimentId || latest?.sourceExperimentId,
+        createdAt: new Date().toISOString(),
     };
+    await savePersonaSet(agentId, personaSet);
+
+    const updatedTest: BehaviorTest = { ...test, personaSetId: personaSet.id };
+    await saveBehaviorTest(agentId, updatedTest);
+
+    console.log(`[Personas] Froze ${personas.length} personas as ${personaSet.name} v${personaSet.version}`);
+    return { test: updatedTest, personaSet };
+}
+
+// Freeze the personas an experiment ran on, so later runs of its test reuse them
+export async function freezeExperimentPersonas(
+    agentId: string,
+    experimentId: string,
+    name?: string
+): Promise<{ test: BehaviorTest; personaSet: PersonaSet }> {
+    const experiment = await loadBehaviorExperiment(agentId, experimentId);
+    if (!experiment) {
+        throw new Error(`Experiment ${experimentId} not found`);
+    }
+
+    // Older experiments didn't record their personas; their results still carry them
+    const personas = experiment.personas || experiment.results.map(r => r.persona);
+
+    // The test may only exist inside the experiment (e.g. created before tests were saved on run)
+    if (!(await loadBehaviorTests(agentId)).some(t => t.id === experiment.testId)) {
+        await saveBehaviorTest(agentId, experiment.test);
+    }
+
+    return await savePersonaSetVersion(agentId, experiment.testId, personas, name, experimentId);
+}
+
+// Pick which frozen set version the test runs on (null to go back to fresh personas every run)
+export async function updateTestPersonaSettings(
+    agentId: string,
+    testId: string,
+    personaSetId: string | null,
+    freshPersonaCount: number
+): Promise<BehaviorTest> {
+    const test = await loadSavedTest(agentId, testId);
+    const updatedTest: BehaviorTest = {
+        ...test,
+        personaSetId: personaSetId || undefined,
+        freshPersonaCount: freshPersonaCount > 0 ? freshPersonaCount : undefined,
+    };
+    await saveBehaviorTest(agentId, updatedTest);
+    return updatedTest;
+}
+
+export async function deleteBehaviorTestAction(agentId: string, testId: string): Promise<BehaviorTest[]> {
+    return await removeBehaviorTest(agentId, testId);
+}
+
+export async function fetchBehaviorExperiments(agentId: string): Promise<BehaviorExperiment[]> {
+    return await loadAllBehaviorExperiments(agentId);
+}
+
+export async function fetchBehaviorExperiment(agentId: string, experimentId: string): Promise<BehaviorExperiment | null> {
+    return await loadBehaviorExperiment(agentId, experimentId);
+}
+
+export async function deleteBehaviorExperimentAction(agentId: string, experimentId: string): Promise<void> {
+    await removeBehaviorExperiment(agentId, experimentId);
+}
+
+export async function clearBehaviorExperiments(agentId: string): Promise<void> {
+    await clearAllBehaviorExperiments(agentId);
+}
+
+// ============ REGRESSION SUITES ============
+
+// Each test must reach this pass rate for the suite to pass, unless the caller sets its own bar
+const DEFAULT_SUITE_MIN_PASS_RATE = 80;
+
+// Run every saved behavior test against a prompt version and return immediately.
+// Poll fetchRegressionSuiteRun for the report as each test's experiment finishes.
+export async function startRegressionSuite(
+    agentId: string,
+    versionId: string,
+    minPassRate: number = DEFAULT_SUITE_MIN_PASS_RATE
+): Promise<RegressionSuiteRun> {
+    const version = await loadPromptSetVersion(agentId, versionId);
+    const versionConfig = await getVersionConfig(agentId, versionId);
+    if (!version || !versionConfig) {
+        throw new Error(`Prompt version ${versionId} not found`);
+    }
+
+    const tests = await loadBehaviorTests(agentId);
+    if (tests.length === 0) {
+        throw new Error('No saved behavior tests to run');
+    }
+
+    const suiteRun: RegressionSuiteRun = {
+        id: `suite-${Date.now()}`,
+        versionId,
+        versionName: version.name,
+        minPassRate,
+        tests: tests.map(test => ({ testId: test.id, testName: test.name, status: 'pending' })),
+        status: 'running',
+        createdAt: new Date().toISOString(),
+    };
+    await saveRegressionSuiteRun(agentId, suiteRun);
+    console.log(`[Suite] Running ${tests.length} behavior tests against ${version.name}`);
+
+    const signal = registerExperimentRun(suiteRun.id);
+    executeRegressionSuite(agentId, suiteRun, tests, versionConfig, signal)
+        .catch(error => console.error(`[Suite] ${suiteRun.id} failed:`, error))
+        .finally(() => finishExperimentRun(suiteRun.id));
+
+    return suiteRun;
+}
+
+// Tests run one after another - each experiment already runs its conversations in parallel
+async function executeRegressionSuite(
+    agentId: string,
+    suiteRun: RegressionSuiteRun,
+    tests: BehaviorTest[],
+    versionConfig: { nodes: OverridableNode[]; stateValues: Record<string, string> },
+    signal: AbortSignal
+): Promise<void> {
+    try {
+        for (const [index, test] of tests.entries()) {
+            const testRun = suiteRun.tests[index];
+            if (signal.aborted) {
+                testRun.status = 'cancelled';
+                continue;
+            }
+
+            // Stopping the suite stops the experiment in flight
+            let stopExperiment = () => {};
+            try {
+                const { experiment, done } = await launchBehaviorExperiment(
+                    agentId,
+                    test,
+                    versionConfig.nodes,
+                    versionConfig.stateValues,
+                    undefined,
+                    { versionId: suiteRun.versionId, suiteRunId: suiteRun.id }
+                );
+                stopExperiment = () => cancelExperimentRun(experiment.id);
+                signal.addEventListener('abort', stopExperiment);
+
+                testRun.experimentId = experiment.id;
+                testRun.status = 'running';
+                await saveRegressionSuiteRun(agentId, suiteRun);
+
+                const finished = await done;
+                testRun.status = finished.status === 'running' ? 'failed' : finished.status;
+                testRun.passRate = finished.summary.passRate;
+                testRun.passed = finished.summary.passed;
+                testRun.total = finished.summary.total;
+                testRun.verdict = finished.status === 'completed' && finished.summary.passRate >= suiteRun.minPassRate
+                    ? 'pass'
+                    : 'fail';
+            } catch (error) {
+                testRun.status = 'failed';
+                testRun.verdict = 'fail';
+                testRun.error = error instanceof Error ? error.message : 'Unknown error';
+            } finally {
+                signal.removeEventListener('abort', stopExperiment);
+            }
+
+            await saveRegressionSuiteRun(agentId, suiteRun);
+        }
+
+        const totals = suiteRun.tests.reduce(
+            (acc, t) => ({ passed: acc.passed + (t.passed || 0), total: acc.total + (t.total || 0) }),
+            { passed: 0, total: 0 }
+        );
+        suiteRun.overallPassRate = totals.total > 0 ? Math.round((totals.passed / totals.total) * 100) : 0;
+        suiteRun.status = signal.aborted ? 'cancelled' : 'completed';
+        // A cancelled suite didn't check every test, so it can't clear the version
+        suiteRun.verdict = !signal.aborted && suiteRun.tests.every(t => t.verdict === 'pass') ? 'pass' : 'fail';
+    } catch (error) {
+        console.error('[Suite] Regression suite failed:', error);
+        suiteRun.status = 'failed';
+        suiteRun.verdict = 'fail';
+    }
+
+    suiteRun.completedAt = new Date().toISOString();
+    await saveRegressionSuiteRun(agentId, suiteRun);
+    console.log(`[Suite] ${suiteRun.versionName}: ${suiteRun.verdict?.toUpperCase()} (${suiteRun.overallPassRate ?? 0}% overall)`);
+}
+
+export async function fetchRegressionSuiteRuns(agentId: string): Promise<RegressionSuiteRun[]> {
+    return await loadAllRegressionSuiteRuns(agentId);
+}
+
+export async function fetchRegressionSuiteRun(agentId: string, runId: string): Promise<RegressionSuiteRun | null> {
+    const suiteRun = await loadRegressionSuiteRun(agentId, runId);
+
+    // A 'running' suite that no process is running was orphaned by a restart
+    if (suiteRun?.status === 'running' && !isExperimentRunning(runId)) {
+        suiteRun.status = 'failed';
+        suiteRun.verdict = 'fail';
+        suiteRun.completedAt = new Date().toISOString();
+        await saveRegressionSuiteRun(agentId, suiteRun);
+    }
+
+    return suiteRun;
+}
+
+export async function cancelRegressionSuite(agentId: string, runId: string): Promise<RegressionSuiteRun | null> {
+    cancelExperimentRun(runId);
+    return await fetchRegressionSuiteRun(agentId, runId);
+}
+
+export async function deleteRegressionSuiteRunAction(agentId: string, runId: string): Promise<void> {
+    await deleteRegressionSuiteRun(agentId, runId);
+}
+
+// ============ A/B EXPERIMENTS ============
+
+// The prompts and state a variant runs with, plus a label for the report
+async function resolveABVariant(
+    agentId: string,
+    source: ABVariantSource,
+    current: { nodes: OverridableNode[]; stateOverrides?: Record<string, string> }
+): Promise<{ variant: ABVariant; nodes: OverridableNode[]; stateValues: Record<string, string> }> {
+    switch (source.kind) {
+        case 'current':
+            return {
+                variant: { label: 'Current Config', source },
+                nodes: current.nodes,
+                stateValues: current.stateOverrides || {},
+            };
+        case 'master': {
+            const master = await loadMasterVersion(agentId);
+            if (!master) {
+                throw new Error('No master version saved for this agent');
+            }
+            return {
+                variant: { label: 'Master', source },
+                nodes: master.nodes.map(n => ({ ...n, type: n.type || 'Agent' })),
+                stateValues: master.stateValues,
+            };
+        }
+        case 'version': {
+            const version = await loadPromptSetVersion(agentId, source.versionId);
+            const config = await getVersionConfig(agentId, source.versionId);
+            if (!version || !config) {
+                throw new Error(`Prompt version ${source.versionId} not found`);
+            }
+            return { variant: { label: version.name, source }, nodes: config.nodes, stateValues: config.stateValues };
+        }
+    }
+}
+
+// Run one test against two variants on the same personas and return immediately.
+// Poll fetchABExperimentRun for the paired comparison once both sides finish.
+export async function startABExperiment(
+    agentId: string,
+    test: BehaviorTest,
+    sourceA: ABVariantSource,
+    sourceB: ABVariantSource,
+    current: { nodes: OverridableNode[]; stateOverrides?: Record<string, string> }
+): Promise<ABExperimentRun> {
+    const a = await resolveABVariant(agentId, sourceA, current);
+    const b = await resolveABVariant(agentId, sourceB, current);
+
+    const abRun: ABExperimentRun = {
+        id: `ab-${Date.now()}`,
+        testId: test.id,
+        test,
+        variantA: a.variant,
+        variantB: b.variant,
+        personas: [],
+        status: 'running',
+        comparisons: [],
+        createdAt: new Date().toISOString(),
+    };
+    await saveABExperimentRun(agentId, abRun);
+    console.log(`[A/B] ${test.name}: ${a.variant.label} vs ${b.variant.label}`);
+
+    const signal = registerExperimentRun(abRun.id);
+    executeABExperiment(agentId, abRun, a, b, signal)
+        .catch(error => console.error(`[A/B] ${abRun.id} failed:`, error))
+        .finally(() => finishExperimentRun(abRun.id));
 
-    if (braintrustExperiment) {
+    return abRun;
+}
+
+async function executeABExperiment(
+    agentId: string,
+    abRun: ABExperimentRun,
+    a: { nodes: OverridableNode[]; stateValues: Record<string, string> },
+    b: { nodes: OverridableNode[]; stateValues: Record<string, string> },
+    signal: AbortSignal
+): Promise<void> {
+    const experimentIds: string[] = [];
+    const stopExperiments = () => experimentIds.forEach(id => cancelExperimentRun(id));
+    signal.addEventListener('abort', stopExperiments);
+
+    try {
+        // One persona set for both sides, so each persona's scores are directly comparable
+        ({ personas: abRun.personas } = await resolveTestPersonas(agentId, abRun.test, a.nodes));
+        await saveABExperimentRun(agentId, abRun);
+        if (signal.aborted) {
+            throw new Error('A/B experiment cancelled');
+        }
+
+        // Both sides run together - the shared backend pools keep the combined load in check.
+        // Side A is already running while side B launches, so its failure is handled from the start:
+        // either side throwing stops the other.
+        const sideA = await launchBehaviorExperiment(agentId, abRun.test, a.nodes, a.stateValues, undefined, {
+            abRunId: abRun.id,
+            personas: abRun.personas,
+            versionId: abRun.variantA.source.kind === 'version' ? abRun.variantA.source.versionId : undefined,
+        });
+        experimentIds.push(sideA.experiment.id);
+        sideA.done.catch(stopExperiments);
+
+        let sideB: Awaited<ReturnType<typeof launchBehaviorExperiment>>;
         try {
-            await logToBraintrust(braintrustExperiment, test, result);
+            sideB = await launchBehaviorExperiment(agentId, abRun.test, b.nodes, b.stateValues, undefined, {
+                abRunId: abRun.id,
+                personas: abRun.personas,
+                versionId: abRun.variantB.source.kind === 'version' ? abRun.variantB.source.versionId : undefined,
+            });
         } catch (error) {
-            console.error('Failed to log to Braintrust:', error);
+            stopExperiments();
+            await sideA.done.catch(() => undefined);
+            throw error;
         }
+        experimentIds.push(sideB.experiment.id);
+        sideB.done.catch(stopExperiments);
+        abRun.variantA.experimentId = sideA.experiment.id;
+        abRun.variantB.experimentId = sideB.experiment.id;
+        await saveABExperimentRun(agentId, abRun);
+
+        // Wait for both to stop before reporting, even when one of them failed
+        const [settledA, settledB] = await Promise.allSettled([sideA.done, sideB.done]);
+        if (settledA.status === 'rejected') throw settledA.reason;
+        if (settledB.status === 'rejected') throw settledB.reason;
+        const [experimentA, experimentB] = [settledA.value, settledB.value];
+
+        abRun.comparisons = compareABResults(experimentA.results, experimentB.results);
+        abRun.summary = summarizeABComparisons(abRun.comparisons);
+        abRun.status = signal.aborted
+            ? 'cancelled'
+            : experimentA.status === 'failed' || experimentB.status === 'failed' ? 'failed' : 'completed';
+
+        console.log(`[A/B] ${abRun.test.name}: mean delta ${abRun.summary.meanDelta}, ${abRun.summary.wins}W/${abRun.summary.losses}L/${abRun.summary.ties}T, p=${abRun.summary.pValue}`);
+    } catch (error) {
+        abRun.status = signal.aborted ? 'cancelled' : 'failed';
+        abRun.error = error instanceof Error ? error.message : 'Unknown error';
+    } finally {
+        signal.removeEventListener('abort', stopExperiments);
     }
 
-    console.log(`[Experiment] Completed simulation ${index + 1} for ${persona.name} - Score: ${score}`);
-    return result;
+    abRun.completedAt = new Date().toISOString();
+    await saveABExperimentRun(agentId, abRun);
 }
 
-// Run a complete behavior experiment
-export async function runBehaviorExperiment(
-    agentId: string,
-    test: BehaviorTest,
-    nodes: OverridableNode[],
-    stateOverrides?: Record<string, string>
-): Promise<BehaviorExperiment> {
-    const startTime = Date.now();
-    console.log(`[Experiment] Starting behavior experiment: ${test.name}`);
+export async function fetchABExperimentRuns(agentId: string): Promise<ABExperimentRun[]> {
+    return await loadAllABExperimentRuns(agentId);
+}
 
-    let braintrustExperiment: any = null;
-    let braintrustUrl: string | undefined;
+export async function fetchABExperimentRun(agentId: string, runId: string): Promise<ABExperimentRun | null> {
+    const abRun = await loadABExperimentRun(agentId, runId);
 
-    try {
-        const { experiment } = await initBraintrustExperiment(test.name);
-        braintrustExperiment = experiment;
-        console.log('[Experiment] Braintrust experiment initialized');
-    } catch (error) {
-        console.error('Failed to init Braintrust experiment:', error);
+    // A 'running' A/B run that no process is running was orphaned by a restart
+    if (abRun?.status === 'running' && !isExperimentRunning(runId)) {
+        abRun.status = 'failed';
+        abRun.error = 'Interrupted before both variants finished';
+        abRun.completedAt = new Date().toISOString();
+        await saveABExperimentRun(agentId, abRun);
     }
 
-    console.log(`[Experiment] Generating ${test.simulationCount} personas...`);
-    const personas = await generateTestPersonas(test, nodes);
-    console.log(`[Experiment] Generated ${personas.length} personas`);
+    return abRun;
+}
 
-    const experimentId = `exp-${Date.now()}`;
-    const experiment: BehaviorExperiment = {
-        id: experimentId,
+export async function cancelABExperiment(agentId: string, runId: string): Promise<ABExperimentRun | null> {
+    cancelExperimentRun(runId);
+    return await fetchABExperimentRun(agentId, runId);
+}
+
+export async function deleteABExperimentRunAction(agentId: string, runId: string): Promise<void> {
+    await deleteABExperimentRun(agentId, runId);
+}
+
+// ============ PROMPT OPTIMIZATION ============
+
+// Search for a better prompt config for one test: propose edits to the best candidate so far,
+// run the test on each, keep whichever scores best. Runs in the background like the suite.
+export async function startPromptOptimization(
+    agentId: string,
+    testId: string,
+    source: ABVariantSource,
+    budget: number,
+    current: { nodes: OverridableNode[]; stateOverrides?: Record<string, string> }
+): Promise<PromptOptimizationRun> {
+    const test = await loadSavedTest(agentId, testId);
+    const starting = await resolveABVariant(agentId, source, current);
+    const candidateBudget = Math.min(Math.max(1, Math.floor(budget)), MAX_OPTIMIZATION_BUDGET);
+
+    const optimizationRun: PromptOptimizationRun = {
+        id: `opt-${Date.now()}`,
         testId: test.id,
+        testName: test.name,
         test,
-        results: [],
-        summary: {
-            total: personas.length,
-            passed: 0,
-            failed: 0,
-            passRate: 0,
-            avgScore: 0,
-        },
+        startingLabel: starting.variant.label,
+        budget: candidateBudget,
+        personas: [],
+        candidates: [{
+            id: `cand-${Date.now()}-0`,
+            iteration: 0,
+            edits: [],
+            changeSummary: `Starting config (${starting.variant.label})`,
+            nodes: starting.nodes,
+            stateValues: starting.stateValues,
+            status: 'pending',
+        }],
         status: 'running',
         createdAt: new Date().toISOString(),
     };
+    await savePromptOptimizationRun(agentId, optimizationRun);
+    console.log(`[Optimizer] ${test.name}: up to ${candidateBudget} candidates from ${starting.variant.label}`);
 
-    await saveBehaviorExperiment(agentId, experiment);
-    console.log(`[Experiment] Created experiment record: ${experimentId}`);
+    const signal = registerExperimentRun(optimizationRun.id);
+    executePromptOptimization(agentId, optimizationRun, signal)
+        .catch(error => console.error(`[Optimizer] ${optimizationRun.id} failed:`, error))
+        .finally(() => finishExperimentRun(optimizationRun.id));
+
+    return optimizationRun;
+}
 
-    console.log(`[Experiment] Starting ${personas.length} simulations in parallel...`);
+// Run the test on one candidate and record its scores. Returns the finished experiment's results.
+async function scoreOptimizationCandidate(
+    agentId: string,
+    optimizationRun: PromptOptimizationRun,
+    candidate: OptimizationCandidate,
+    signal: AbortSignal
+): Promise<BehaviorTestResult[]> {
+    // Stopping the optimizer stops the experiment in flight
+    let stopExperiment = () => {};
+    try {
+        const { experiment, done } = await launchBehaviorExperiment(
+            agentId,
+            optimizationRun.test,
+            candidate.nodes,
+            candidate.stateValues,
+            undefined,
+            { optimizationRunId: optimizationRun.id, personas: optimizationRun.personas }
+        );
+        stopExperiment = () => cancelExperimentRun(experiment.id);
+        signal.addEventListener('abort', stopExperiment);
+
+        candidate.experimentId = experiment.id;
+        candidate.status = 'running';
+        await savePromptOptimizationRun(agentId, optimizationRun);
+
+        const finished = await done;
+        candidate.status = finished.status === 'running' ? 'failed' : finished.status;
+        candidate.passed = finished.summary.passed;
+        candidate.total = finished.summary.total;
+        candidate.passRate = finished.summary.passRate;
+        candidate.avgScore = finished.summary.avgScore;
+        return finished.results;
+    } catch (error) {
+        candidate.status = 'failed';
+        candidate.error = error instanceof Error ? error.message : 'Unknown error';
+        return [];
+    } finally {
+        signal.removeEventListener('abort', stopExperiment);
+        await savePromptOptimizationRun(agentId, optimizationRun);
+    }
+}
 
-    const resultPromises = personas.map((persona, index) =>
-        runSinglePersonaTest(agentId, persona, test, nodes, stateOverrides, index, braintrustExperiment)
-            .catch(error => {
-                console.error(`[Experiment] Failed simulation for ${persona.name}:`, error);
-                return null;
-            })
-    );
+async function executePromptOptimization(
+    agentId: string,
+    optimizationRun: PromptOptimizationRun,
+    signal: AbortSignal
+): Promise<void> {
+    const { test } = optimizationRun;
 
-    const resultsWithNulls = await Promise.all(resultPromises);
-    const results = resultsWithNulls.filter((r): r is BehaviorTestResult => r !== null);
+    try {
+        // Every candidate talks to the same personas, so score changes come from the edits
+        const [baseline] = optimizationRun.candidates;
+        ({ personas: optimizationRun.personas } = await resolveTestPersonas(agentId, test, baseline.nodes));
+        await savePromptOptimizationRun(agentId, optimizationRun);
+
+        let best = baseline;
+        let bestResults = await scoreOptimizationCandidate(agentId, optimizationRun, baseline, signal);
+        if (baseline.status !== 'completed') {
+            throw new Error(baseline.error || 'Starting config failed to run');
+        }
+        optimizationRun.bestCandidateId = baseline.id;
+        console.log(`[Optimizer] Starting config: ${baseline.passRate}% pass rate`);
 
-    console.log(`[Experiment] All simulations complete. ${results.length}/${personas.length} succeeded`);
+        for (let iteration = 1; iteration <= optimizationRun.budget; iteration++) {
+            if (signal.aborted || best.passRate === 100) break;
 
-    if (braintrustExperiment) {
-        try {
-            const { url } = await summarizeExperiment(braintrustExperiment);
-            braintrustUrl = url;
-        } catch (error) {
-            console.error('Failed to summarize Braintrust experiment:', error);
+            const instruction = buildOptimizationInstruction(
+                test,
+                best,
+                bestResults.filter(r => !r.passed),
+                optimizationRun.candidates
+            );
+
+            const candidate: OptimizationCandidate = {
+                id: `cand-${Date.now()}-${iteration}`,
+                iteration,
+                parentId: best.id,
+                edits: [],
+                nodes: best.nodes,
+                stateValues: best.stateValues,
+                status: 'pending',
+            };
+            optimizationRun.candidates.push(candidate);
+
+            try {
+                const proposal = await withBackoff('openai', () =>
+                    refinePromptWithAI(instruction, best.nodes, best.stateValues)
+                );
+                candidate.edits = proposal.refinements
+                    .filter(r => r.refined !== r.original)
+                    .map(r => ({
+                        fieldType: r.fieldType,
+                        field: r.field,
+                        nodeId: r.nodeId || undefined,
+                        promptType: r.fieldType === 'node' ? r.promptType : undefined,
+                        before: r.original,
+                        after: r.refined,
+                        explanation: r.explanation,
+                    }));
+                candidate.changeSummary = proposal.summary;
+            } catch (error) {
+                candidate.error = error instanceof Error ? error.message : 'Unknown error';
+            }
+
+            if (candidate.edits.length === 0) {
+                candidate.status = 'failed';
+                candidate.error = candidate.error || 'No edits proposed';
+                await savePromptOptimizationRun(agentId, optimizationRun);
+                continue;
+            }
+
+            ({ nodes: candidate.nodes, stateValues: candidate.stateValues } =
+                applyOptimizationEdits(best.nodes, best.stateValues, candidate.edits));
+            const results = await scoreOptimizationCandidate(agentId, optimizationRun, candidate, signal);
+
+            console.log(`[Optimizer] Candidate ${iteration}: ${candidate.status === 'completed' ? `${candidate.passRate}%` : candidate.status} (best ${best.passRate}%)`);
+            if (isBetterCandidate(candidate, best)) {
+                best = candidate;
+                bestResults = results;
+                optimizationRun.bestCandidateId = candidate.id;
+                await savePromptOptimizationRun(agentId, optimizationRun);
+            }
         }
-    }
 
-    console.log('[Experiment] Generating AI insights...');
-    let aiInsights = { aiSummary: '', recommendations: [] as string[] };
-    try {
-        aiInsights = await generateExperimentInsights(test, results);
-        console.log('[Experiment] AI insights generated');
+        // Saved as a version only - an unreviewed run must not change the master config, so a person promotes it
+        if (best.iteration > 0 && best.experimentId) {
+            const version: PromptSetVersion = {
+                id: `version-${Date.now()}`,
+                name: `${test.name} - optimized (${baseline.passRate}% to ${best.passRate}%)`,
+                description: `Prompt optimizer, candidate ${best.iteration} of ${optimizationRun.candidates.length - 1}: ${best.changeSummary || ''}`.trim(),
+                createdAt: new Date().toISOString(),
+                nodes: best.nodes.map(n => ({
+                    id: n.id,
+                    label: n.label,
+                    type: n.type,
+                    systemMessagePrompt: n.systemMessagePrompt,
+                    humanMessagePrompt: n.humanMessagePrompt,
+                })),
+                stateValues: { ...best.stateValues },
+                basedOnExperimentId: best.experimentId,
+            };
+            await savePromptSetVersion(agentId, version);
+            optimizationRun.savedVersionId = version.id;
+            optimizationRun.savedVersionName = version.name;
+            console.log(`[Optimizer] Saved winner as version: ${version.name}`);
+        }
+
+        optimizationRun.status = signal.aborted ? 'cancelled' : 'completed';
     } catch (error) {
-        console.error('Failed to generate AI insights:', error);
+        optimizationRun.status = signal.aborted ? 'cancelled' : 'failed';
+        optimizationRun.error = error instanceof Error ? error.message : 'Unknown error';
     }
 
-    experiment.results = results;
-    experiment.summary = {
-        ...calculateSummary(results, Date.now() - startTime),
-        aiSummary: aiInsights.aiSummary,
-        recommendations: aiInsights.recommendations
-    };
-    experiment.braintrustUrl = braintrustUrl;
-    experiment.status = 'completed';
-    experiment.completedAt = new Date().toISOString();
+    for (const candidate of optimizationRun.candidates) {
+        if (candidate.status === 'pending' || candidate.status === 'running') {
+            candidate.status = signal.aborted ? 'cancelled' : 'failed';
+        }
+    }
+    optimizationRun.completedAt = new Date().toISOString();
+    await savePromptOptimizationRun(agentId, optimizationRun);
+}
 
-    await saveBehaviorExperiment(agentId, experiment);
-    console.log(`[Experiment] Experiment completed: ${experiment.summary.passRate}% pass rate`);
+export async function fetchPromptOptimizationRuns(agentId: string, testId: string): Promise<PromptOptimizationRun[]> {
+    return (await loadAllPromptOptimizationRuns(agentId)).filter(r => r.testId === testId);
+}
 
-    return experiment;
+export async function fetchPromptOptimizationRun(agentId: string, runId: string): Promise<PromptOptimizationRun | null> {
+    const optimizationRun = await loadPromptOptimizationRun(agentId, runId);
+
+    // A 'running' optimization that no process is running was orphaned by a restart
+    if (optimizationRun?.status === 'running' && !isExperimentRunning(runId)) {
+        optimizationRun.status = 'failed';
+        optimizationRun.completedAt = new Date().toISOString();
+        await savePromptOptimizationRun(agentId, optimizationRun);
+    }
+
+    return optimizationRun;
 }
 
-function calculateSummary(results: BehaviorTestResult[], duration: number): ExperimentSummary {
-    const passed = results.filter(r => r.passed).length;
-    const failed = results.length - passed;
-    const avgScore = results.length > 0
-        ? results.reduce((sum, r) => sum + r.score, 0) / results.length
-        : 0;
+export async function cancelPromptOptimization(agentId: string, runId: string): Promise<PromptOptimizationRun | null> {
+    cancelExperimentRun(runId);
+    return await fetchPromptOptimizationRun(agentId, runId);
+}
 
-    return {
-        total: results.length,
-        passed,
-        failed,
-        passRate: results.length > 0 ? Math.round((passed / results.length) * 100) : 0,
-        avgScore: Math.round(avgScore * 100) / 100,
-        duration,
-    };
+export async function deletePromptOptimizationRunAction(agentId: string, runId: string): Promise<void> {
+    await deletePromptOptimizationRun(agentId, runId);
 }
 
-export async function fetchBehaviorTests(agentId: string): Promise<BehaviorTest[]> {
-    return await loadBehaviorTests(agentId);
+// ============ JUDGE CALIBRATION ============
+
+export async function fetchCalibrationSet(agentId: string, test: Pick<BehaviorTest, 'id' | 'name'>): Promise<CalibrationSet> {
+    const now = new Date().toISOString();
+    return await loadCalibrationSet(agentId, test.id) || {
+        testId: test.id,
+        testName: test.name,
+        conversations: [],
+        runs: [],
+        createdAt: now,
+        updatedAt: now,
+    };
 }
 
-export async function deleteBehaviorTestAction(agentId: string, testId: string): Promise<BehaviorTest[]> {
-    return await removeBehaviorTest(agentId, testId);
+// Add a labeled transcript, replacing any earlier label for the same source conversation
+async function addLabeledConversation(
+    agentId: string,
+    test: BehaviorTest,
+    labeled: Omit<LabeledConversation, 'id' | 'labeledAt'>
+): Promise<CalibrationSet> {
+    const set = await fetchCalibrationSet(agentId, test);
+    const sourceKey = JSON.stringify(labeled.source);
+
+    set.conversations = [
+        ...set.conversations.filter(c => JSON.stringify(c.source) !== sourceKey),
+        { ...labeled, id: `labeled-${Date.now()}`, labeledAt: new Date().toISOString() },
+    ];
+
+    await saveCalibrationSet(agentId, set);
+    return set;
 }
 
-export async function fetchBehaviorExperiments(agentId: string): Promise<BehaviorExperiment[]> {
-    return await loadAllBehaviorExperiments(agentId);
+export async function labelBehaviorResult(
+    agentId: string,
+    test: BehaviorTest,
+    experimentId: string,
+    resultId: string,
+    label: CalibrationLabel,
+    notes?: string
+): Promise<CalibrationSet> {
+    const experiment = await loadBehaviorExperiment(agentId, experimentId);
+    const result = experiment?.results.find(r => r.id === resultId);
+    if (!result) {
+        throw new Error(`Result ${resultId} not found in experiment ${experimentId}`);
+    }
+
+    return await addLabeledConversation(agentId, test, {
+        source: { type: 'behavior-result', resultId, experimentId },
+        persona: result.persona,
+        conversation: result.conversation,
+        label,
+        notes,
+    });
 }
 
-export async function fetchBehaviorExperiment(agentId: string, experimentId: string): Promise<BehaviorExperiment | null> {
-    return await loadBehaviorExperiment(agentId, experimentId);
+export async function labelSimulation(
+    agentId: string,
+    test: BehaviorTest,
+    simulationId: string,
+    label: CalibrationLabel,
+    notes?: string
+): Promise<CalibrationSet> {
+    const simulation = await loadEnhancedSimulation(agentId, simulationId);
+    if (!simulation) {
+        throw new Error(`Simulation ${simulationId} not found`);
+    }
+
+    return await addLabeledConversation(agentId, test, {
+        source: { type: 'simulation', simulationId, batchId: simulation.batchId },
+        persona: simulation.metadata.persona,
+        conversation: simulationTurnsToConversation(simulation.turns),
+        label,
+        notes,
+    });
 }
 
-export async function deleteBehaviorExperimentAction(agentId: string, experimentId: string): Promise<void> {
-    await removeBehaviorExperiment(agentId, experimentId);
+export async function removeCalibrationLabel(
+    agentId: string,
+    test: BehaviorTest,
+    conversationId: string
+): Promise<CalibrationSet> {
+    const set = await fetchCalibrationSet(agentId, test);
+    set.conversations = set.conversations.filter(c => c.id !== conversationId);
+    await saveCalibrationSet(agentId, set);
+    return set;
 }
 
-export async function clearBehaviorExperiments(agentId: string): Promise<void> {
-    await clearAllBehaviorExperiments(agentId);
+// Score every labeled conversation with a scorer prompt and measure agreement with the labels
+export async function runJudgeCalibration(
+    agentId: string,
+    test: BehaviorTest,
+    scorerPrompt: string,
+    passThreshold: number = DEFAULT_PASS_THRESHOLD
+): Promise<CalibrationRun> {
+    const set = await fetchCalibrationSet(agentId, test);
+    if (set.conversations.length === 0) {
+        throw new Error('Label some conversations before calibrating the judge');
+    }
+
+    console.log(`[Calibration] Scoring ${set.conversations.length} labeled conversations for ${test.name}`);
+
+    const predictions = await mapWithConcurrency(
+        set.conversations,
+        getConversationConcurrency(),
+        async (labeled): Promise<CalibrationPrediction> => {
+            try {
+                const { score, rationale } = await withBackoff('openai', () =>
+                    scoreConversation(scorerPrompt, labeled.conversation, labeled.persona)
+                );
+                return {
+                    conversationId: labeled.id,
+                    label: labeled.label,
+                    predicted: score >= passThreshold ? 'pass' : 'fail',
+                    score,
+                    rationale,
+                };
+            } catch (error) {
+                // No verdict - the metrics leave it out and count it as an error
+                const message = error instanceof Error ? error.message : 'Unknown error';
+                return {
+                    conversationId: labeled.id,
+                    label: labeled.label,
+                    rationale: `Error: ${message}`,
+                    error: message,
+                };
+            }
+        }
+    );
+
+    const run: CalibrationRun = {
+        id: `calibration-${Date.now()}`,
+        scorerPrompt,
+        passThreshold,
+        predictions,
+        metrics: computeCalibrationMetrics(predictions),
+        createdAt: new Date().toISOString(),
+    };
+
+    // Labels added or removed while the judge ran must survive, so add the run to the set as it is now
+    const latest = await fetchCalibrationSet(agentId, test);
+    latest.runs = [run, ...latest.runs];
+    await saveCalibrationSet(agentId, latest);
+
+    console.log(`[Calibration] ${test.name}: ${run.metrics.agreement}% agreement, precision ${run.metrics.precision}, recall ${run.metrics.recall}, ${run.metrics.errors} errors`);
+    return run;
 }
 
 // ============ MASTER VERSION ============
@@ -694,7 +2061,8 @@ export async function createPromptVersion(
     nodes: OverridableNode[],
     stateOverrides: Record<string, string>,
     description?: string,
-    basedOnExperimentId?: string
+    basedOnExperimentId?: string,
+    resolvedNoteIds?: string[]
 ): Promise<PromptSetVersion> {
     const version: PromptSetVersion = {
         id: `version-${Date.now()}`,
@@ -718,6 +2086,12 @@ export async function createPromptVersion(
     await saveMasterVersion(agentId, nodes, stateOverrides);
     console.log(`[Master] Master version synced with new version: ${name}`);
 
+    // Notes this version was refined from are fixed by it
+    if (resolvedNoteIds && resolvedNoteIds.length > 0) {
+        await resolveNotesWithVersion(agentId, resolvedNoteIds, version.id, `Fixed in version "${name}"`);
+        console.log(`[Notes] Resolved ${resolvedNoteIds.length} notes with version: ${name}`);
+    }
+
     return version;
 }
 
@@ -768,6 +2142,11 @@ export async function refinePrompt(
     nodeLabel?: string,
     agentContext?: PromptRefineContext
 ) {
+    // Mock mode runs offline - keep the prompt as it is
+    if (isMockModelMode()) {
+        return currentPrompt;
+    }
+
     if (!process.env.OPENAI_API_KEY) {
         throw new Error("Missing OPENAI_API_KEY");
     }
@@ -861,6 +2240,10 @@ IMPORTANT:
 }
 
 export async function optimizeGlobalPrompts(chatHistory: string, nodes: OverridableNode[], userRule?: string) {
+    if (isMockModelMode()) {
+        return [];
+    }
+
     if (!process.env.OPENAI_API_KEY) {
         throw new Error("Missing OPENAI_API_KEY");
     }
@@ -910,6 +2293,10 @@ export async function optimizeGlobalPrompts(chatHistory: string, nodes: Overrida
 
 // Refine a behavior test description using AI
 export async function refineBehaviorTestPrompt(problemDescription: string): Promise<string> {
+    if (isMockModelMode()) {
+        return problemDescription;
+    }
+
     if (!process.env.OPENAI_API_KEY) {
         throw new Error("Missing OPENAI_API_KEY");
     }
@@ -945,6 +2332,7 @@ interface RefinementResult {
     field: string;
     fieldType: 'state' | 'node';
     nodeId?: string;
+    promptType?: NodePromptType;    // Node prompt the refinement rewrites
     original: string;
     refined: string;
     explanation: string;
@@ -960,6 +2348,10 @@ export async function refinePromptWithAI(
     nodes: OverridableNode[],
     stateOverrides: Record<string, string>
 ): Promise<RefinePromptResponse> {
+    if (isMockModelMode()) {
+        return { refinements: [], summary: 'Mock mode: no refinements suggested' };
+    }
+
     if (!process.env.OPENAI_API_KEY) {
         throw new Error('Missing OPENAI_API_KEY');
     }
@@ -1060,7 +2452,9 @@ IMPORTANT:
             if (refinement.fieldType === 'state') {
                 refinement.original = stateOverrides[refinement.field] || '';
             } else if (refinement.fieldType === 'node' && refinement.nodeId) {
+                // Only system prompts are shown to the model, so that is what it rewrote
                 const node = nodes.find(n => n.id === refinement.nodeId);
+                refinement.promptType = 'systemMessagePrompt';
                 refinement.original = node?.systemMessagePrompt || '';
             }
         }
@@ -1073,6 +2467,21 @@ IMPORTANT:
     }
 }
 
+// Refine against reviewer notes instead of a typed instruction. Saving the result with
+// createPromptVersion and the same note ids resolves them.
+export async function refinePromptFromNotes(
+    agentId: string,
+    noteIds: string[],
+    nodes: OverridableNode[],
+    stateOverrides: Record<string, string>
+): Promise<RefinePromptResponse> {
+    // Resolved notes were already fixed by a saved version - refine against the open ones only
+    const entries = (await loadNotesWithTranscripts(agentId, noteIds)).filter(e => !e.note.resolved);
+    if (entries.length === 0) throw new Error('None of the selected notes are unresolved');
+
+    return await refinePromptWithAI(buildNotesRefineInstruction(entries), nodes, stateOverrides);
+}
+
 // ============ ONBOARDING GUIDE ============
 
 export async function saveOnboardingGuide(agentId: string, guideText: string): Promise<void> {
@@ -1130,7 +2539,8 @@ export async function startSimulationBatch(
     agentId: string,
     config: SimulationConfig,
     nodes: OverridableNode[],
-    stateOverrides?: Record<string, string>
+    stateOverrides?: Record<string, string>,
+    cassette?: CassetteOptions
 ): Promise<{ batch: SimulationBatch; simulations: EnhancedSimulation[] }> {
     const { selectedPersonas, selectedEmotions, selectedIntents, simulationCount } = config;
 
@@ -1138,39 +2548,84 @@ export async function startSimulationBatch(
         throw new Error('Please select at least one persona, emotion, and intent.');
     }
 
+    // Create simulation configs with random combinations
+    const simulationMetadata: SimulationMetadata[] = [];
+
+    for (let i = 0; i < simulationCount; i++) {
+        simulationMetadata.push({
+            name: generateRandomName(),
+            persona: selectedPersonas[Math.floor(Math.random() * selectedPersonas.length)],
+            intent: selectedIntents[Math.floor(Math.random() * selectedIntents.length)],
+            emotion: selectedEmotions[Math.floor(Math.random() * selectedEmotions.length)],
+        });
+    }
+
+    return await launchSimulationBatch(agentId, simulationMetadata, nodes, stateOverrides, cassette);
+}
+
+// Re-run a recorded batch from its cassette: same customers, same prompts, and persona
+// and agent replies served from disk. Returns immediately like startSimulationBatch.
+export async function replaySimulationBatch(
+    agentId: string,
+    batchId: string
+): Promise<{ batch: SimulationBatch; simulations: EnhancedSimulation[] }> {
+    const original = await loadSimulationBatch(agentId, batchId);
+    if (!original?.cassetteId) {
+        throw new Error(`No cassette recorded for batch: ${batchId}`);
+    }
+
+    const cassette = await loadCassette(agentId, original.cassetteId);
+    if (!cassette) {
+        throw new Error(`Cassette not found: ${original.cassetteId}`);
+    }
+
+    const originalSimulations = await loadSimulationsByBatch(agentId, batchId);
+    const simulationMetadata = originalSimulations.map(({ metadata: { name, persona, intent, emotion, customerPhone, customerEmail } }) => ({
+        name,
+        persona,
+        intent,
+        emotion,
+        customerPhone,
+        customerEmail,
+    }));
+
+    return await launchSimulationBatch(agentId, simulationMetadata, cassette.nodes, cassette.stateOverrides, {
+        mode: 'replay',
+        cassetteId: cassette.id,
+    });
+}
+
+async function launchSimulationBatch(
+    agentId: string,
+    simulationMetadata: SimulationMetadata[],
+    nodes: OverridableNode[],
+    stateOverrides?: Record<string, string>,
+    cassette?: CassetteOptions
+): Promise<{ batch: SimulationBatch; simulations: EnhancedSimulation[] }> {
     // Create a new batch
     const batchNumber = await getNextBatchNumber(agentId);
     const batchId = `batch-${Date.now()}`;
+    const cassetteOptions = resolveCassetteOptions(cassette, batchId);
     const batch: SimulationBatch = {
         id: batchId,
         name: `Round ${batchNumber}`,
         createdAt: new Date().toISOString(),
-        status: 'running',
-        simulationCount: simulationCount,
+        status: 'queued',
+        simulationCount: simulationMetadata.length,
         completedCount: 0,
         reviewedCount: 0,
+        cassetteId: cassetteOptions?.cassetteId,
     };
     await saveSimulationBatch(agentId, batch);
 
-    // Create simulation configs with random combinations
     const simulations: EnhancedSimulation[] = [];
 
-    for (let i = 0; i < simulationCount; i++) {
-        const persona = selectedPersonas[Math.floor(Math.random() * selectedPersonas.length)];
-        const emotion = selectedEmotions[Math.floor(Math.random() * selectedEmotions.length)];
-        const intent = selectedIntents[Math.floor(Math.random() * selectedIntents.length)];
-        const customerName = generateRandomName();
-
+    for (let i = 0; i < simulationMetadata.length; i++) {
         const simulation: EnhancedSimulation = {
             id: `sim-${Date.now()}-${i}`,
             batchId: batchId,
             simulationNumber: i + 1,
-            metadata: {
-                name: customerName,
-                persona,
-                intent,
-                emotion,
-            },
+            metadata: simulationMetadata[i],
             turns: [],
             createdAt: new Date().toISOString(),
             status: 'running',
@@ -1180,38 +2635,42 @@ export async function startSimulationBatch(
         await saveEnhancedSimulation(agentId, simulation);
     }
 
-    // Start running simulations in the background (don't await)
-    runSimulationsInBackground(agentId, batchId, simulations, nodes, stateOverrides);
+    // Queue the batch as a durable job - it survives restarts and can be cancelled
+    const job: SimulationJob = {
+        id: getSimulationJobId(batchId),
+        agentId,
+        batchId,
+        status: 'queued',
+        nodes,
+        stateOverrides,
+        cassette: cassetteOptions || undefined,
+        attempts: 0,
+        createdAt: new Date().toISOString(),
+    };
+    await enqueueSimulationJob(job, runSimulationJob);
 
     // Return immediately with batch and initial simulations
     return { batch, simulations };
 }
 
-// Runs simulations in the background and updates batch status
-async function runSimulationsInBackground(
-    agentId: string,
-    batchId: string,
-    simulations: EnhancedSimulation[],
-    nodes: OverridableNode[],
-    stateOverrides?: Record<string, string>
-): Promise<void> {
-    // Run all simulations in parallel
-    const runPromises = simulations.map(sim =>
-        runSingleEnhancedSimulation(agentId, batchId, sim, nodes, stateOverrides)
-    );
-
-    await Promise.all(runPromises);
+// Job runner for simulation batches. Resumed jobs only run the simulations that hadn't finished.
+async function runSimulationJob(job: SimulationJob, signal: AbortSignal): Promise<void> {
+    const { agentId, batchId, nodes, stateOverrides } = job;
+    const simulations = (await loadSimulationsByBatch(agentId, batchId)).filter(s => s.status === 'running');
 
-    // Update batch status when all complete
-    const updatedSimulations = await loadSimulationsByBatch(agentId, batchId);
-    const completedCount = updatedSimulations.filter(s => s.status === 'completed').length;
-    const failedCount = updatedSimulations.filter(s => s.status === 'failed').length;
+    // Run simulations through the shared pool, a few conversations at a time
+    const runAll = async () => {
+        await mapWithConcurrency(simulations, getConversationConcurrency(), sim =>
+            trackRetries(() => runSingleEnhancedSimulation(agentId, batchId, sim, nodes, stateOverrides, signal))
+        );
+    };
 
-    await updateSimulationBatch(agentId, batchId, {
-        status: failedCount > 0 ? 'partial' : 'completed',
-        completedAt: new Date().toISOString(),
-        completedCount: completedCount + failedCount,
-    });
+    const cassetteOptions = job.cassette ? resolveCassetteOptions(job.cassette, batchId) : null;
+    if (cassetteOptions) {
+        await withCassette(agentId, cassetteOptions, { type: 'batch', id: batchId }, { nodes, stateOverrides }, runAll);
+    } else {
+        await runAll();
+    }
 }
 
 // Legacy function for backward compatibility
@@ -1224,18 +2683,7 @@ export async function runEnhancedSimulationBatch(
     const result = await startSimulationBatch(agentId, config, nodes, stateOverrides);
 
     // Wait for all to complete (legacy behavior)
-    await new Promise<void>(resolve => {
-        const checkComplete = async () => {
-            const sims = await loadSimulationsByBatch(agentId, result.batch.id);
-            const allDone = sims.every(s => s.status !== 'running');
-            if (allDone) {
-                resolve();
-            } else {
-                setTimeout(checkComplete, 1000);
-            }
-        };
-        checkComplete();
-    });
+    await waitForSimulationJob(getSimulationJobId(result.batch.id));
 
     return await loadSimulationsByBatch(agentId, result.batch.id);
 }
@@ -1245,29 +2693,68 @@ async function runSingleEnhancedSimulation(
     batchId: string,
     simulation: EnhancedSimulation,
     nodes: OverridableNode[],
-    stateOverrides?: Record<string, string>
+    stateOverrides?: Record<string, string>,
+    signal?: AbortSignal
 ): Promise<void> {
     const { metadata } = simulation;
     const { persona, emotion, intent, name: customerName } = metadata;
-    const customerPhone = generateRandomPhone();
-    const customerEmail = generateRandomEmail(customerName);
+    // Drawn once and saved with the first turn, so a resumed simulation keeps the same customer
+    const customerPhone = metadata.customerPhone || generateRandomPhone();
+    const customerEmail = metadata.customerEmail || generateRandomEmail(customerName);
+    Object.assign(metadata, { customerPhone, customerEmail });
 
     const MAX_TURNS = 20;
-    let chatId: string | undefined;
-    const history: { role: string; content: string }[] = [];
-    const turns: SimulationTurn[] = [];
+    const previousRetries = simulation.retryCount || 0;
+
+    // Pick up from the last saved turn when a resumed job re-runs this simulation
+    let chatId: string | undefined = simulation.chatId;
+    const turns: SimulationTurn[] = [...simulation.turns];
+    const history: { role: string; content: string }[] = turns.map(t => ({ role: t.role, content: t.content }));
+
+    // A trailing user turn means the run stopped before the agent answered it, unless
+    // that message was the one that ended the conversation
+    const lastTurn = turns[turns.length - 1];
+    let pendingMessage = lastTurn?.role === 'user' && !metadata.outcome ? lastTurn.content : undefined;
+    const startTurn = turns.filter(t => t.role === 'user').length - (pendingMessage ? 1 : 0);
+
+    if (turns.length > 0) {
+        console.log(`[Simulation ${simulation.simulationNumber}] Resuming at turn ${startTurn + 1}`);
+    }
 
     try {
-        for (let turn = 0; turn < MAX_TURNS; turn++) {
+        for (let turn = startTurn; turn < MAX_TURNS && !metadata.outcome; turn++) {
+            if (signal?.aborted) {
+                simulation.status = 'cancelled';
+                simulation.metadata.outcome = 'Cancelled';
+                break;
+            }
+
+            if (pendingMessage) {
+                const agentResponse = await sendChat(agentId, pendingMessage, chatId, nodes, stateOverrides);
+                pendingMessage = undefined;
+                chatId = agentResponse.chatId;
+                turns.push({ role: 'assistant', content: agentResponse.text, traceData: agentResponse.agentReasoning });
+                history.push({ role: 'assistant', content: agentResponse.text });
+                simulation.turns = [...turns];
+                simulation.chatId = chatId;
+                await saveEnhancedSimulation(agentId, simulation);
+                continue;
+            }
+
             // Generate user message
-            const userResponse = await generateEnhancedUserResponse(
-                persona,
-                emotion,
-                intent,
-                history,
-                customerName,
-                customerPhone,
-                customerEmail
+            // Contact details are random per run, so they are left out of the cassette key
+            const userResponse = await cassetteCall(
+                'persona-response',
+                { personaId: persona.id, emotionId: emotion.id, intentId: intent.id, history },
+                () => withBackoff('openai', () => generateEnhancedUserResponse(
+                    persona,
+                    emotion,
+                    intent,
+                    history,
+                    customerName,
+                    customerPhone,
+                    customerEmail
+                ))
             );
 
             // Add user turn
@@ -1278,13 +2765,16 @@ async function runSingleEnhancedSimulation(
             turns.push(userTurn);
             history.push({ role: 'user', content: userResponse.message });
 
+            // Check if simulation should end - recorded with the turn so a resume doesn't answer it
+            if (userResponse.isComplete) {
+                simulation.metadata.outcome = userResponse.outcome || 'Conversation completed';
+            }
+
             // Save progress
             simulation.turns = [...turns];
             await saveEnhancedSimulation(agentId, simulation);
 
-            // Check if simulation should end
             if (userResponse.isComplete) {
-                simulation.metadata.outcome = userResponse.outcome || 'Conversation completed';
                 break;
             }
 
@@ -1305,23 +2795,25 @@ async function runSingleEnhancedSimulation(
             simulation.turns = [...turns];
             simulation.chatId = chatId;
             await saveEnhancedSimulation(agentId, simulation);
-
-            // Small delay to avoid rate limits
-            await new Promise(r => setTimeout(r, 500));
         }
 
         // Mark as completed
-        simulation.status = 'completed';
+        if (simulation.status !== 'cancelled') {
+            simulation.status = 'completed';
+        }
         simulation.completedAt = new Date().toISOString();
         if (!simulation.metadata.outcome) {
             simulation.metadata.outcome = 'Maximum turns reached';
         }
     } catch (error) {
         console.error(`[Simulation ${simulation.simulationNumber}] Error:`, error);
-        simulation.status = 'failed';
-        simulation.metadata.outcome = `Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
+        simulation.status = signal?.aborted ? 'cancelled' : 'failed';
+        simulation.metadata.outcome = signal?.aborted
+            ? 'Cancelled'
+            : `Error: ${error instanceof Error ? error.message : 'Unknown error'}`;
     }
 
+    simulation.retryCount = previousRetries + getRetryCount();
     await saveEnhancedSimulation(agentId, simulation);
 }
 
@@ -1335,7 +2827,15 @@ export async function clearEnhancedSimulations(agentId: string): Promise<void> {
 
 // ============ SIMULATION BATCHES ============
 
+// Called once from src/instrumentation.ts when the server starts, so queued and stalled jobs
+// resume even if nobody opens the batch list
+export async function startSimulationJobRecoveryOnBoot(): Promise<void> {
+    startSimulationJobRecovery(async () => (await loadAgents()).map(a => a.id), runSimulationJob);
+}
+
 export async function fetchSimulationBatches(agentId: string): Promise<SimulationBatch[]> {
+    // Batches are polled while they run, so this is where jobs orphaned by a restart get picked back up
+    await resumeStalledSimulationJobs(agentId, runSimulationJob);
     return await loadAllSimulationBatches(agentId);
 }
 
@@ -1352,7 +2852,16 @@ export async function fetchBatchWithSimulations(
     return { batch, simulations };
 }
 
+export async function cancelSimulationBatch(agentId: string, batchId: string): Promise<SimulationBatch | null> {
+    await cancelSimulationJob(agentId, getSimulationJobId(batchId));
+    return await loadSimulationBatch(agentId, batchId);
+}
+
 export async function removeBatch(agentId: string, batchId: string): Promise<void> {
+    const jobId = getSimulationJobId(batchId);
+    await cancelSimulationJob(agentId, jobId);
+    // In-flight simulations save once more as they stop - delete only after that, or they'd leave orphans
+    await waitForSimulationJobToStop(agentId, jobId);
     await deleteSimulationBatch(agentId, batchId);
 }
 
@@ -1365,6 +2874,7 @@ import {
     updateNoteResolved as updateResolved,
     deleteSimulationNote as deleteNote,
     clearSimulationNotes as clearNotes,
+    resolveSimulationNotesWithVersion as resolveNotesWithVersion,
     updateSimulationReviewed
 } from '@/lib/persistence';
 
@@ -1377,11 +2887,13 @@ export async function addSimulationNote(
     simulationId: string,
     turnIndex: number,
     turnRole: 'user' | 'assistant',
-    comment: string
+    comment: string,
+    experimentId?: string
 ): Promise<SimulationNote[]> {
     const note: SimulationNote = {
         id: `note-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
         simulationId,
+        experimentId,
         turnIndex,
         turnRole,
         comment,
@@ -1403,6 +2915,52 @@ export async function clearAllSimulationNotes(agentId: string): Promise<void> {
     await clearNotes(agentId);
 }
 
+// Notes with the conversation each was left on - a simulation, or a behavior test result
+async function loadNotesWithTranscripts(agentId: string, noteIds: string[]): Promise<NoteWithTranscript[]> {
+    const notes = (await loadNotes(agentId)).filter(n => noteIds.includes(n.id));
+
+    const entries: NoteWithTranscript[] = [];
+    for (const note of notes) {
+        const turns = note.experimentId
+            ? (await loadBehaviorExperiment(agentId, note.experimentId))?.results.find(r => r.id === note.simulationId)?.conversation
+            : (await loadEnhancedSimulation(agentId, note.simulationId))?.turns;
+        entries.push({ note, turns: turns || [] });
+    }
+    return entries;
+}
+
+// Draft a behavior test from reviewer notes, so feedback on a bad turn becomes a regression check.
+// The draft is saved unrun - it shows up in the Tests tab for review.
+export async function createBehaviorTestFromNotes(
+    agentId: string,
+    noteIds: string[],
+    simulationCount: number = 10
+): Promise<BehaviorTest> {
+    const entries = (await loadNotesWithTranscripts(agentId, noteIds)).filter(e => {
+        if (e.turns.length === 0) console.warn(`[Notes] Conversation for note ${e.note.id} not found, skipping`);
+        return e.turns.length > 0;
+    });
+    if (entries.length === 0) throw new Error('None of the selected notes have a conversation to draft a test from');
+
+    const problemDescription = buildNotesProblemDescription(entries);
+    const { scorerPrompt, testName, personaHint } = await generateScorerPrompt(problemDescription);
+
+    const test: BehaviorTest = {
+        id: `test-${Date.now()}`,
+        name: testName,
+        problemDescription,
+        scorerPrompt,
+        personaHint,
+        simulationCount,
+        createdAt: new Date().toISOString(),
+        sourceNoteIds: entries.map(e => e.note.id),
+    };
+
+    await saveBehaviorTest(agentId, test);
+    console.log(`[Notes] Drafted test "${test.name}" from ${entries.length} notes`);
+    return test;
+}
+
 // ============ SIMULATION REVIEWED STATUS ============
 
 export async function toggleSimulationReviewed(
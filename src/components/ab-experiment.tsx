@@ -0,0 +1,380 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Play, Square, Trash2, GitCompare, ExternalLink } from 'lucide-react';
+import {
+    fetchBehaviorTests,
+    startABExperiment,
+    fetchABExperimentRuns,
+    fetchABExperimentRun,
+    cancelABExperiment,
+    deleteABExperimentRunAction
+} from '@/app/actions';
+import { ABExperimentRun, ABVariantSource, BehaviorTest } from '@/types/behavior-test';
+import { OverridableNode, PromptSetVersion } from '@/types/polaris';
+
+interface ABExperimentDialogProps {
+    agentId: string;
+    nodes: OverridableNode[];
+    stateOverrides?: Record<string, string>;
+    versions: PromptSetVersion[];
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onOpenExperiment: (experimentId: string) => void;
+}
+
+// Select values for variant sources: 'current', 'master' or a version id
+export function toVariantSource(value: string): ABVariantSource {
+    if (value === 'current' || value === 'master') return { kind: value };
+    return { kind: 'version', versionId: value };
+}
+
+// Compare two prompt configs on one shared persona set
+export function ABExperimentDialog({
+    agentId,
+    nodes,
+    stateOverrides,
+    versions,
+    open,
+    onOpenChange,
+    onOpenExperiment
+}: ABExperimentDialogProps) {
+    const [tests, setTests] = useState<BehaviorTest[]>([]);
+    const [abRuns, setABRuns] = useState<ABExperimentRun[]>([]);
+    const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+    const [testId, setTestId] = useState<string>('');
+    const [variantA, setVariantA] = useState<string>('master');
+    const [variantB, setVariantB] = useState<string>('current');
+    const [isStarting, setIsStarting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!open) return;
+        fetchBehaviorTests(agentId).then(loaded => {
+            setTests(loaded);
+            setTestId(prev => prev || loaded[loaded.length - 1]?.id || '');
+        }).catch(console.error);
+        fetchABExperimentRuns(agentId).then(runs => {
+            setABRuns(runs);
+            setSelectedRunId(prev => prev || runs[0]?.id || null);
+        }).catch(console.error);
+    }, [open, agentId]);
+
+    const runningRunIds = abRuns.filter(r => r.status === 'running').map(r => r.id).join(',');
+
+    // Poll running A/B runs until both of their experiments finish
+    useEffect(() => {
+        if (!open || !runningRunIds) return;
+
+        const interval = setInterval(async () => {
+            try {
+                const updates = await Promise.all(runningRunIds.split(',').map(id => fetchABExperimentRun(agentId, id)));
+                setABRuns(prev => prev.map(r => updates.find(u => u?.id === r.id) || r));
+            } catch (err) {
+                console.error('Failed to fetch A/B progress:', err);
+            }
+        }, 2000);
+
+        return () => clearInterval(interval);
+    }, [open, agentId, runningRunIds]);
+
+    const handleStart = async () => {
+        const test = tests.find(t => t.id === testId);
+        if (!test) return;
+
+        setIsStarting(true);
+        setError(null);
+        try {
+            const abRun = await startABExperiment(
+                agentId,
+                test,
+                toVariantSource(variantA),
+                toVariantSource(variantB),
+                { nodes, stateOverrides }
+            );
+            setABRuns(prev => [abRun, ...prev]);
+            setSelectedRunId(abRun.id);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to start A/B experiment');
+        } finally {
+            setIsStarting(false);
+        }
+    };
+
+    const handleCancel = async (runId: string) => {
+        const updated = await cancelABExperiment(agentId, runId);
+        if (updated) {
+            setABRuns(prev => prev.map(r => r.id === updated.id ? updated : r));
+        }
+    };
+
+    const handleDelete = async (runId: string) => {
+        if (!confirm('Delete this A/B comparison? Both experiments are kept.')) return;
+        await deleteABExperimentRunAction(agentId, runId);
+        setABRuns(prev => prev.filter(r => r.id !== runId));
+        setSelectedRunId(prev => prev === runId ? null : prev);
+    };
+
+    const selectedRun = abRuns.find(r => r.id === selectedRunId);
+
+    const variantOptions = (
+        <SelectContent>
+            <SelectItem value="current">Current Config</SelectItem>
+            <SelectItem value="master">Master</SelectItem>
+            {versions.map((v) => (
+                <SelectItem key={v.id} value={v.id}>{v.name}</SelectItem>
+            ))}
+        </SelectContent>
+    );
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <GitCompare className="h-4 w-4" />
+                        A/B Experiment
+                    </DialogTitle>
+                    <DialogDescription>
+                        Runs one behavior test against two configs on the same personas and compares their scores persona by persona.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {/* Launch */}
+                <div className="grid grid-cols-[1fr_1fr_1fr_auto] gap-2 items-end">
+                    <div className="space-y-1">
+                        <label className="text-[10px] text-muted-foreground">Test</label>
+                        <Select value={testId} onValueChange={setTestId}>
+                            <SelectTrigger className="h-8 text-xs">
+                                <SelectValue placeholder="Select test..." />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {tests.map((t) => (
+                                    <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-1">
+                        <label className="text-[10px] text-muted-foreground">A (baseline)</label>
+                        <Select value={variantA} onValueChange={setVariantA}>
+                            <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                            {variantOptions}
+                        </Select>
+                    </div>
+                    <div className="space-y-1">
+                        <label className="text-[10px] text-muted-foreground">B (candidate)</label>
+                        <Select value={variantB} onValueChange={setVariantB}>
+                            <SelectTrigger className="h-8 text-xs"><SelectValue /></SelectTrigger>
+                            {variantOptions}
+                        </Select>
+                    </div>
+                    <Button
+                        size="sm"
+                        onClick={handleStart}
+                        disabled={!testId || variantA === variantB || isStarting}
+                    >
+                        {isStarting ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Play className="h-3 w-3 mr-1" />}
+                        Run A/B
+                    </Button>
+                </div>
+                {error && <p className="text-xs text-destructive">{error}</p>}
+
+                <div className="grid grid-cols-[220px_1fr] gap-4 min-h-[300px]">
+                    {/* Past A/B runs */}
+                    <div className="space-y-1.5 border-r border-border pr-4">
+                        {abRuns.length === 0 && (
+                            <p className="text-xs text-muted-foreground">No A/B runs yet.</p>
+                        )}
+                        {abRuns.map((run) => (
+                            <button
+                                key={run.id}
+                                className={`w-full text-left p-2 rounded border text-xs transition-colors ${run.id === selectedRunId
+                                    ? 'bg-primary/5 border-primary/20'
+                                    : 'border-border hover:bg-muted/10'
+                                    }`}
+                                onClick={() => setSelectedRunId(run.id)}
+                            >
+                                <div className="font-medium text-foreground truncate">{run.test.name}</div>
+                                <div className="text-[10px] text-muted-foreground truncate">
+                                    {run.variantA.label} vs {run.variantB.label}
+                                </div>
+                                <div className="flex items-center justify-between mt-1">
+                                    <span className="text-[10px] text-muted-foreground">{new Date(run.createdAt).toLocaleDateString()}</span>
+                                    {run.status === 'running' ? (
+                                        <Loader2 className="h-3 w-3 animate-spin text-primary" />
+                                    ) : run.summary && (
+                                        <span className={`text-[10px] font-medium ${getDeltaColor(run.summary.meanDelta)}`}>
+                                            {formatDelta(run.summary.meanDelta)}
+                                        </span>
+                                    )}
+                                </div>
+                            </button>
+                        ))}
+                    </div>
+
+                    {/* Report */}
+                    {selectedRun ? (
+                        <ABRunReport
+                            run={selectedRun}
+                            onCancel={() => handleCancel(selectedRun.id)}
+                            onDelete={() => handleDelete(selectedRun.id)}
+                            onOpenExperiment={onOpenExperiment}
+                        />
+                    ) : (
+                        <div className="flex items-center justify-center text-xs text-muted-foreground">
+                            Select an A/B run to see the comparison
+                        </div>
+                    )}
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+function formatDelta(delta: number): string {
+    return `${delta > 0 ? '+' : ''}${delta.toFixed(2)}`;
+}
+
+function getDeltaColor(delta: number): string {
+    if (delta > 0) return 'text-emerald-500';
+    if (delta < 0) return 'text-red-500';
+    return 'text-muted-foreground';
+}
+
+function ABRunReport({
+    run,
+    onCancel,
+    onDelete,
+    onOpenExperiment
+}: {
+    run: ABExperimentRun;
+    onCancel: () => void;
+    onDelete: () => void;
+    onOpenExperiment: (experimentId: string) => void;
+}) {
+    const { summary } = run;
+
+    return (
+        <div className="space-y-3 min-w-0">
+            <div className="flex items-start justify-between gap-2">
+                <div>
+                    <h4 className="text-sm font-medium text-foreground">{run.test.name}</h4>
+                    <div className="flex items-center gap-3 text-[10px] text-muted-foreground mt-0.5">
+                        {[run.variantA, run.variantB].map((variant, i) => (
+                            <span key={i} className="flex items-center gap-1">
+                                {i === 0 ? 'A' : 'B'}: {variant.label}
+                                {variant.experimentId && (
+                                    <button
+                                        className="hover:text-primary transition-colors"
+                                        onClick={() => onOpenExperiment(variant.experimentId!)}
+                                        title="Open experiment"
+                                    >
+                                        <ExternalLink className="h-3 w-3" />
+                                    </button>
+                                )}
+                            </span>
+                        ))}
+                    </div>
+                </div>
+                {run.status === 'running' ? (
+                    <Button variant="outline" size="sm" className="h-7 text-xs" onClick={onCancel}>
+                        <Square className="h-3 w-3 mr-1" />
+                        Stop
+                    </Button>
+                ) : (
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 text-muted-foreground hover:text-destructive"
+                        onClick={onDelete}
+                    >
+                        <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                )}
+            </div>
+
+            {run.status === 'running' && (
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                    {run.personas.length === 0
+                        ? 'Generating shared personas...'
+                        : `Running ${run.personas.length} personas against both variants...`}
+                </div>
+            )}
+            {run.error && <p className="text-xs text-destructive">{run.error}</p>}
+
+            {summary && (
+                <>
+                    <div className="grid grid-cols-4 gap-2">
+                        <div className="bg-muted/10 rounded-lg p-2 text-center border border-border">
+                            <div className={`text-lg font-bold ${getDeltaColor(summary.meanDelta)}`}>{formatDelta(summary.meanDelta)}</div>
+                            <div className="text-[10px] text-muted-foreground">Mean Delta (B - A)</div>
+                        </div>
+                        <div className="bg-muted/10 rounded-lg p-2 text-center border border-border">
+                            <div className="text-lg font-bold text-foreground">
+                                {summary.wins}/{summary.losses}/{summary.ties}
+                            </div>
+                            <div className="text-[10px] text-muted-foreground">B Wins / Losses / Ties</div>
+                        </div>
+                        <div className="bg-muted/10 rounded-lg p-2 text-center border border-border">
+                            <div className="text-lg font-bold text-foreground">
+                                {summary.passRateA}% → {summary.passRateB}%
+                            </div>
+                            <div className="text-[10px] text-muted-foreground">Pass Rate</div>
+                        </div>
+                        <div className="bg-muted/10 rounded-lg p-2 text-center border border-border">
+                            <div className="text-lg font-bold text-foreground">{summary.pValue.toFixed(3)}</div>
+                            <div className="text-[10px] text-muted-foreground">p-value (sign test)</div>
+                        </div>
+                    </div>
+                    <div className="flex items-center gap-2 text-xs">
+                        {summary.significant ? (
+                            <Badge variant="outline" className={summary.meanDelta >= 0
+                                ? 'bg-emerald-500/10 text-emerald-500 border-emerald-500/20'
+                                : 'bg-red-500/10 text-red-500 border-red-500/20'}>
+                                Significant {summary.meanDelta >= 0 ? 'improvement' : 'regression'}
+                            </Badge>
+                        ) : (
+                            <Badge variant="outline" className="bg-muted text-muted-foreground border-border">
+                                Not significant
+                            </Badge>
+                        )}
+                        <span className="text-muted-foreground">
+                            {summary.pairs} paired personas{run.personas.length > summary.pairs && `, ${run.personas.length - summary.pairs} left out after errors`}
+                        </span>
+                    </div>
+
+                    {/* Per-persona deltas, biggest changes first */}
+                    <div className="rounded-lg border border-border divide-y divide-border max-h-[300px] overflow-y-auto">
+                        {[...run.comparisons]
+                            .sort((x, y) => Math.abs(y.delta) - Math.abs(x.delta))
+                            .map((c) => (
+                                <div key={c.personaId} className="flex items-center justify-between gap-2 px-3 py-1.5 text-xs">
+                                    <span className="truncate text-foreground">{c.personaName}</span>
+                                    <div className="flex items-center gap-3 shrink-0 tabular-nums">
+                                        <span className={c.passedA ? 'text-emerald-500' : 'text-red-500'}>{c.scoreA.toFixed(2)}</span>
+                                        <span className="text-muted-foreground">→</span>
+                                        <span className={c.passedB ? 'text-emerald-500' : 'text-red-500'}>{c.scoreB.toFixed(2)}</span>
+                                        <span className={`w-12 text-right font-medium ${getDeltaColor(c.outcome === 'tie' ? 0 : c.delta)}`}>
+                                            {formatDelta(c.delta)}
+                                        </span>
+                                    </div>
+                                </div>
+                            ))}
+                    </div>
+                </>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,303 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Workflow, ZoomIn, ZoomOut, RefreshCw } from 'lucide-react';
+import { GraphView, GraphViewNode, OverridableNode } from '@/types/polaris';
+import { EnhancedSimulation, SimulationBatch } from '@/types/simulation';
+import { fetchGraphView, fetchSimulationBatches, fetchBatchSimulations } from '@/app/actions';
+import { getTraceVisits } from '@/lib/graph';
+
+interface AgentGraphProps {
+    agentId: string;
+    nodes: OverridableNode[];                    // Current prompts, including unsaved edits
+    onOpenNode: (nodeId: string) => void;
+}
+
+// Node boxes are drawn compact rather than at their editor height, which is mostly input fields
+const NODE_HEIGHT = 96;
+const CONDITION_ROW_HEIGHT = 26;
+const CANVAS_PADDING = 80;
+const ZOOM_STEPS = [0.2, 0.25, 0.35, 0.5, 0.7, 1];
+const NO_SIMULATION = 'none';
+
+const NODE_TYPE_STYLES: Record<string, { fill: string; stroke: string }> = {
+    Start: { fill: 'fill-emerald-500/10', stroke: 'stroke-emerald-500/60' },
+    LLMNode: { fill: 'fill-purple-500/10', stroke: 'stroke-purple-500/60' },
+    Condition: { fill: 'fill-amber-500/10', stroke: 'stroke-amber-500/60' },
+    Agent: { fill: 'fill-blue-500/10', stroke: 'stroke-blue-500/60' },
+    End: { fill: 'fill-muted', stroke: 'stroke-muted-foreground/60' },
+};
+const DEFAULT_NODE_STYLE = { fill: 'fill-card', stroke: 'stroke-border' };
+
+function truncate(text: string, length: number): string {
+    return text.length > length ? `${text.slice(0, length - 1)}...` : text;
+}
+
+function getNodeHeight(node: GraphViewNode): number {
+    return NODE_HEIGHT + (node.conditions?.length || 0) * CONDITION_ROW_HEIGHT;
+}
+
+// Read-only canvas of the agent graph. Overridden nodes are outlined; picking a simulation
+// lights up the nodes and edges its trace walked through.
+export function AgentGraph({ agentId, nodes, onOpenNode }: AgentGraphProps) {
+    const [view, setView] = useState<GraphView | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [zoomIndex, setZoomIndex] = useState(2);
+
+    const [batches, setBatches] = useState<SimulationBatch[]>([]);
+    const [selectedBatchId, setSelectedBatchId] = useState<string>('');
+    const [batchSimulations, setBatchSimulations] = useState<EnhancedSimulation[]>([]);
+    const [selectedSimulationId, setSelectedSimulationId] = useState<string>(NO_SIMULATION);
+
+    useEffect(() => {
+        fetchGraphView(agentId)
+            .then(setView)
+            .catch(err => setError(err instanceof Error ? err.message : 'Failed to load graph'));
+        fetchSimulationBatches(agentId).then(setBatches).catch(console.error);
+    }, [agentId]);
+
+    useEffect(() => {
+        if (!selectedBatchId) return;
+        fetchBatchSimulations(agentId, selectedBatchId)
+            .then(sims => setBatchSimulations(sims.filter(s => s.status !== 'running')))
+            .catch(console.error);
+    }, [agentId, selectedBatchId]);
+
+    const selectedSimulation = batchSimulations.find(s => s.id === selectedSimulationId);
+    const visits = useMemo(
+        () => selectedSimulation ? getTraceVisits(selectedSimulation.turns) : null,
+        [selectedSimulation]
+    );
+
+    // Nodes whose current prompts differ from the graph's defaults
+    const overriddenIds = useMemo(() => {
+        const ids = new Set<string>();
+        for (const graphNode of view?.nodes || []) {
+            const node = nodes.find(n => n.id === graphNode.id);
+            if (!node || !graphNode.defaultPrompts) continue;
+            if (node.systemMessagePrompt !== graphNode.defaultPrompts.systemMessagePrompt ||
+                node.humanMessagePrompt !== graphNode.defaultPrompts.humanMessagePrompt) {
+                ids.add(graphNode.id);
+            }
+        }
+        return ids;
+    }, [view, nodes]);
+
+    const handleBatchChange = (batchId: string) => {
+        setSelectedBatchId(batchId);
+        setBatchSimulations([]);
+        setSelectedSimulationId(NO_SIMULATION);
+    };
+
+    if (error) {
+        return (
+            <Card className="bg-card border-border shadow-none">
+                <CardContent className="py-8 text-center text-sm text-red-500">{error}</CardContent>
+            </Card>
+        );
+    }
+
+    if (!view) {
+        return (
+            <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+                <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                Loading graph...
+            </div>
+        );
+    }
+
+    const zoom = ZOOM_STEPS[zoomIndex];
+    const nodesById = new Map(view.nodes.map(n => [n.id, n]));
+    const minX = Math.min(...view.nodes.map(n => n.position.x)) - CANVAS_PADDING;
+    const minY = Math.min(...view.nodes.map(n => n.position.y)) - CANVAS_PADDING;
+    const maxX = Math.max(...view.nodes.map(n => n.position.x + n.width)) + CANVAS_PADDING;
+    const maxY = Math.max(...view.nodes.map(n => n.position.y + getNodeHeight(n))) + CANVAS_PADDING;
+    const editableIds = new Set(nodes.map(n => n.id));
+    const visitedEdgeKeys = new Set(visits?.edgeKeys || []);
+
+    return (
+        <Card className="h-full flex flex-col bg-card border-border shadow-none">
+            <CardHeader className="pb-4 shrink-0">
+                <div className="flex items-start justify-between gap-4">
+                    <div>
+                        <CardTitle className="flex items-center gap-2 text-lg font-serif">
+                            <Workflow className="h-5 w-5" />
+                            Agent Graph
+                        </CardTitle>
+                        <CardDescription className="text-muted-foreground">
+                            The flow from graph.json. Click a node with prompts to open its editor.
+                        </CardDescription>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <Select value={selectedBatchId} onValueChange={handleBatchChange}>
+                            <SelectTrigger className="w-[160px] bg-muted/30 border-border">
+                                <SelectValue placeholder="Simulation batch" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {batches.map(batch => (
+                                    <SelectItem key={batch.id} value={batch.id}>{batch.name}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <Select value={selectedSimulationId} onValueChange={setSelectedSimulationId} disabled={!selectedBatchId}>
+                            <SelectTrigger className="w-[220px] bg-muted/30 border-border">
+                                <SelectValue placeholder="Trace a simulation" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={NO_SIMULATION}>No simulation</SelectItem>
+                                {batchSimulations.map(sim => (
+                                    <SelectItem key={sim.id} value={sim.id}>
+                                        #{sim.simulationNumber} {sim.metadata.name} ({sim.metadata.intent.name})
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => setZoomIndex(i => Math.max(0, i - 1))}
+                            disabled={zoomIndex === 0}
+                            title="Zoom out"
+                        >
+                            <ZoomOut className="h-4 w-4" />
+                        </Button>
+                        <Button
+                            variant="outline"
+                            size="icon"
+                            onClick={() => setZoomIndex(i => Math.min(ZOOM_STEPS.length - 1, i + 1))}
+                            disabled={zoomIndex === ZOOM_STEPS.length - 1}
+                            title="Zoom in"
+                        >
+                            <ZoomIn className="h-4 w-4" />
+                        </Button>
+                    </div>
+                </div>
+                <div className="flex items-center gap-4 text-[10px] text-muted-foreground">
+                    <span className="flex items-center gap-1.5">
+                        <span className="h-2.5 w-2.5 rounded-sm border-2 border-amber-500" />
+                        Overridden prompts ({overriddenIds.size})
+                    </span>
+                    {visits && (
+                        <span className="flex items-center gap-1.5">
+                            <span className="h-2.5 w-2.5 rounded-sm bg-primary" />
+                            Visited in simulation #{selectedSimulation?.simulationNumber} ({Object.keys(visits.nodeVisits).length} nodes)
+                        </span>
+                    )}
+                </div>
+            </CardHeader>
+            <CardContent className="flex-1 min-h-0 overflow-auto">
+                <svg
+                    width={(maxX - minX) * zoom}
+                    height={(maxY - minY) * zoom}
+                    viewBox={`${minX} ${minY} ${maxX - minX} ${maxY - minY}`}
+                    className="select-none"
+                >
+                    <defs>
+                        <marker id="graph-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">
+                            <path d="M 0 0 L 10 5 L 0 10 z" className="fill-muted-foreground" />
+                        </marker>
+                        <marker id="graph-arrow-visited" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                            <path d="M 0 0 L 10 5 L 0 10 z" className="fill-primary" />
+                        </marker>
+                    </defs>
+
+                    {view.edges.map(edge => {
+                        const source = nodesById.get(edge.source);
+                        const target = nodesById.get(edge.target);
+                        if (!source || !target) return null;
+
+                        const sx = source.position.x + source.width;
+                        const sy = source.position.y + getNodeHeight(source) / 2;
+                        const tx = target.position.x;
+                        const ty = target.position.y + getNodeHeight(target) / 2;
+                        const bend = Math.max(60, Math.abs(tx - sx) / 2);
+                        const isVisited = visitedEdgeKeys.has(`${edge.source}->${edge.target}`);
+
+                        return (
+                            <g key={edge.id}>
+                                <path
+                                    d={`M ${sx} ${sy} C ${sx + bend} ${sy}, ${tx - bend} ${ty}, ${tx} ${ty}`}
+                                    fill="none"
+                                    strokeWidth={isVisited ? 8 : edge.sequential ? 3 : 2}
+                                    strokeDasharray={edge.sequential ? undefined : '8 8'}
+                                    className={isVisited ? 'stroke-primary' : edge.sequential ? 'stroke-muted-foreground' : 'stroke-border'}
+                                    markerEnd={edge.sequential ? `url(#${isVisited ? 'graph-arrow-visited' : 'graph-arrow'})` : undefined}
+                                />
+                                {edge.route && (
+                                    <text
+                                        x={(sx + tx) / 2}
+                                        y={(sy + ty) / 2 - 10}
+                                        textAnchor="middle"
+                                        fontSize={22}
+                                        stroke="var(--background)"
+                                        strokeWidth={8}
+                                        paintOrder="stroke"
+                                        className={isVisited ? 'fill-primary font-medium' : 'fill-amber-600'}
+                                    >
+                                        {edge.route}
+                                    </text>
+                                )}
+                            </g>
+                        );
+                    })}
+
+                    {view.nodes.map(node => {
+                        const height = getNodeHeight(node);
+                        const isEditable = editableIds.has(node.id);
+                        const isOverridden = overriddenIds.has(node.id);
+                        const visitCount = visits?.nodeVisits[node.id] || 0;
+                        const isDimmed = !!visits && node.sequential && visitCount === 0;
+                        const style = NODE_TYPE_STYLES[node.type] || DEFAULT_NODE_STYLE;
+
+                        return (
+                            <g
+                                key={node.id}
+                                transform={`translate(${node.position.x}, ${node.position.y})`}
+                                opacity={isDimmed ? 0.4 : node.sequential ? 1 : 0.7}
+                                className={isEditable ? 'cursor-pointer' : undefined}
+                                onClick={isEditable ? () => onOpenNode(node.id) : undefined}
+                            >
+                                <title>{isEditable ? `${node.label} - open prompt editor` : node.label}</title>
+                                <rect
+                                    width={node.width}
+                                    height={height}
+                                    rx={16}
+                                    strokeWidth={isOverridden ? 6 : 2}
+                                    className={`${style.fill} ${isOverridden ? 'stroke-amber-500' : style.stroke}`}
+                                />
+                                {visitCount > 0 && (
+                                    <rect width={node.width} height={height} rx={16} className="fill-primary/15 stroke-primary" strokeWidth={4} />
+                                )}
+                                <text x={20} y={40} fontSize={26} className="fill-foreground font-medium">
+                                    {truncate(node.label, 20)}
+                                </text>
+                                <text x={20} y={74} fontSize={18} className="fill-muted-foreground">
+                                    {node.type}{isOverridden ? ' · overridden' : ''}
+                                </text>
+                                {visitCount > 0 && (
+                                    <text x={node.width - 20} y={74} fontSize={18} textAnchor="end" className="fill-primary font-medium">
+                                        visited {visitCount}x
+                                    </text>
+                                )}
+                                {node.conditions?.map((condition, i) => (
+                                    <text key={condition.output} x={20} y={NODE_HEIGHT + i * CONDITION_ROW_HEIGHT + 4} fontSize={16} className="fill-muted-foreground">
+                                        {truncate(condition.rule || condition.output, 32)}
+                                    </text>
+                                ))}
+                            </g>
+                        );
+                    })}
+                </svg>
+            </CardContent>
+        </Card>
+    );
+}
@@ -7,9 +7,12 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
-import { Plus, Upload, Trash2, Sparkles, ExternalLink, Loader2, ArrowRight } from 'lucide-react';
-import { AgentConfig } from '@/types/polaris';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Plus, Upload, Trash2, Sparkles, ExternalLink, Loader2, ArrowRight, GitMerge } from 'lucide-react';
+import { AgentConfig, AgentBackendType } from '@/types/polaris';
 import { fetchAgents, createAgent, deleteAgentAction } from '@/app/actions';
+import { UpdateGraphDialog } from '@/components/update-graph-dialog';
 
 interface AgentSelectorProps {
     onAgentSelect: (agentId: string) => void;
@@ -21,10 +24,14 @@ export function AgentSelector({ onAgentSelect, selectedAgentId }: AgentSelectorP
     const [loading, setLoading] = useState(true);
     const [isCreateOpen, setIsCreateOpen] = useState(false);
     const [creating, setCreating] = useState(false);
+    const [updateGraphAgent, setUpdateGraphAgent] = useState<AgentConfig | null>(null);
 
     // Form state
     const [name, setName] = useState('');
     const [apiUrl, setApiUrl] = useState('');
+    const [backend, setBackend] = useState<AgentBackendType>('polaris');
+    const [backendModel, setBackendModel] = useState('');
+    const [apiKeyEnvVar, setApiKeyEnvVar] = useState('');
     const [graphJson, setGraphJson] = useState('');
     const [createdBy, setCreatedBy] = useState('');
     const [description, setDescription] = useState('');
@@ -71,8 +78,12 @@ export function AgentSelector({ onAgentSelect, selectedAgentId }: AgentSelectorP
             setError('Please enter an agent name');
             return;
         }
-        if (!apiUrl.trim()) {
-            setError('Please enter the Polaris API URL');
+        if (!apiUrl.trim() && backend !== 'mock') {
+            setError(backend === 'polaris' ? 'Please enter the Polaris API URL' : 'Please enter the chat completions URL');
+            return;
+        }
+        if (backend === 'openai-compatible' && !backendModel.trim()) {
+            setError('Please enter the model name');
             return;
         }
         if (!graphJson.trim()) {
@@ -90,12 +101,20 @@ export function AgentSelector({ onAgentSelect, selectedAgentId }: AgentSelectorP
                 apiUrl.trim(),
                 parsedJson,
                 createdBy.trim() || undefined,
-                description.trim() || undefined
+                description.trim() || undefined,
+                {
+                    backend,
+                    backendModel: backend === 'openai-compatible' ? backendModel.trim() : undefined,
+                    apiKeyEnvVar: backend === 'openai-compatible' ? apiKeyEnvVar.trim() || undefined : undefined,
+                }
             );
 
             // Reset form
             setName('');
             setApiUrl('');
+            setBackend('polaris');
+            setBackendModel('');
+            setApiKeyEnvVar('');
             setGraphJson('');
             setCreatedBy('');
             setDescription('');
@@ -170,7 +189,14 @@ export function AgentSelector({ onAgentSelect, selectedAgentId }: AgentSelectorP
                             <div className="flex items-start gap-2.5">
                                 <Sparkles className="h-4 w-4 text-primary shrink-0 mt-0.5" />
                                 <div className="flex-1 min-w-0">
-                                    <h3 className="font-medium text-sm truncate">{agent.name}</h3>
+                                    <div className="flex items-center gap-1.5">
+                                        <h3 className="font-medium text-sm truncate">{agent.name}</h3>
+                                        {agent.backend && agent.backend !== 'polaris' && (
+                                            <Badge variant="outline" className="text-[10px] h-4 px-1.5 shrink-0">
+                                                {BACKEND_LABELS[agent.backend]}
+                                            </Badge>
+                                        )}
+                                    </div>
                                     {agent.description && (
                                         <p className="text-xs text-muted-foreground truncate mt-0.5">
                                             {agent.description}
@@ -181,6 +207,15 @@ export function AgentSelector({ onAgentSelect, selectedAgentId }: AgentSelectorP
                                     </p>
                                 </div>
                             </div>
+                            <Button
+                                variant="ghost"
+                                size="icon-sm"
+                                className="absolute top-2 right-9 opacity-0 group-hover:opacity-100 h-6 w-6 text-muted-foreground hover:text-foreground"
+                                onClick={(e) => { e.stopPropagation(); setUpdateGraphAgent(agent); }}
+                                title="Update graph"
+                            >
+                                <GitMerge className="h-3.5 w-3.5" />
+                            </Button>
                             <Button
                                 variant="ghost"
                                 size="icon-sm"
@@ -205,6 +240,12 @@ export function AgentSelector({ onAgentSelect, selectedAgentId }: AgentSelectorP
                             setName={setName}
                             apiUrl={apiUrl}
                             setApiUrl={setApiUrl}
+                            backend={backend}
+                            setBackend={setBackend}
+                            backendModel={backendModel}
+                            setBackendModel={setBackendModel}
+                            apiKeyEnvVar={apiKeyEnvVar}
+                            setApiKeyEnvVar={setApiKeyEnvVar}
                             graphJson={graphJson}
                             setGraphJson={setGraphJson}
                             createdBy={createdBy}
@@ -219,15 +260,33 @@ export function AgentSelector({ onAgentSelect, selectedAgentId }: AgentSelectorP
                     </Dialog>
                 </div>
             </div>
+
+            <UpdateGraphDialog
+                agent={updateGraphAgent}
+                onOpenChange={(open) => { if (!open) setUpdateGraphAgent(null); }}
+                onUpdated={loadAgents}
+            />
         </div>
     );
 }
 
+const BACKEND_LABELS: Record<AgentBackendType, string> = {
+    'polaris': 'Polaris',
+    'openai-compatible': 'OpenAI-compatible',
+    'mock': 'Local mock',
+};
+
 interface CreateAgentDialogProps {
     name: string;
     setName: (v: string) => void;
     apiUrl: string;
     setApiUrl: (v: string) => void;
+    backend: AgentBackendType;
+    setBackend: (v: AgentBackendType) => void;
+    backendModel: string;
+    setBackendModel: (v: string) => void;
+    apiKeyEnvVar: string;
+    setApiKeyEnvVar: (v: string) => void;
     graphJson: string;
     setGraphJson: (v: string) => void;
     createdBy: string;
@@ -245,6 +304,12 @@ function CreateAgentDialog({
     setName,
     apiUrl,
     setApiUrl,
+    backend,
+    setBackend,
+    backendModel,
+    setBackendModel,
+    apiKeyEnvVar,
+    setApiKeyEnvVar,
     graphJson,
     setGraphJson,
     createdBy,
@@ -277,18 +342,67 @@ function CreateAgentDialog({
                 </div>
 
                 <div className="space-y-2">
-                    <Label htmlFor="apiUrl">API URL</Label>
-                    <Input
-                        id="apiUrl"
-                        placeholder="https://polaris.invoca.net/api/v1/prediction/..."
-                        value={apiUrl}
-                        onChange={(e) => setApiUrl(e.target.value)}
-                    />
-                    <p className="text-xs text-muted-foreground">
-                        Supported: polaris.invoca.net or polaris.invocadev.com
-                    </p>
+                    <Label>Backend</Label>
+                    <Select value={backend} onValueChange={(v) => setBackend(v as AgentBackendType)}>
+                        <SelectTrigger>
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {(Object.keys(BACKEND_LABELS) as AgentBackendType[]).map((type) => (
+                                <SelectItem key={type} value={type}>
+                                    {BACKEND_LABELS[type]}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
                 </div>
 
+                {backend !== 'mock' && (
+                    <div className="space-y-2">
+                        <Label htmlFor="apiUrl">API URL</Label>
+                        <Input
+                            id="apiUrl"
+                            placeholder={backend === 'polaris'
+                                ? 'https://polaris.invoca.net/api/v1/prediction/...'
+                                : 'https://api.openai.com/v1/chat/completions'}
+                            value={apiUrl}
+                            onChange={(e) => setApiUrl(e.target.value)}
+                        />
+                        <p className="text-xs text-muted-foreground">
+                            {backend === 'polaris'
+                                ? 'Supported: polaris.invoca.net or polaris.invocadev.com'
+                                : 'Any endpoint implementing the OpenAI chat completions API'}
+                        </p>
+                    </div>
+                )}
+
+                {backend === 'openai-compatible' && (
+                    <div className="space-y-2">
+                        <Label htmlFor="backendModel">Model</Label>
+                        <Input
+                            id="backendModel"
+                            placeholder="e.g., gpt-4o"
+                            value={backendModel}
+                            onChange={(e) => setBackendModel(e.target.value)}
+                        />
+                    </div>
+                )}
+
+                {backend === 'openai-compatible' && (
+                    <div className="space-y-2">
+                        <Label htmlFor="apiKeyEnvVar">API Key Env Var (optional)</Label>
+                        <Input
+                            id="apiKeyEnvVar"
+                            placeholder="e.g., AGENT_API_KEY_SUPPORT_BOT"
+                            value={apiKeyEnvVar}
+                            onChange={(e) => setApiKeyEnvVar(e.target.value)}
+                        />
+                        <p className="text-xs text-muted-foreground">
+                            Server env var holding the bearer token. Must start with AGENT_API_KEY_.
+                        </p>
+                    </div>
+                )}
+
                 <div className="space-y-2">
                     <Label>Agent JSON Configuration</Label>
                     <div className="flex items-center gap-2">
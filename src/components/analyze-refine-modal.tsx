@@ -1,11 +1,12 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import {
     Dialog,
     DialogContent,
@@ -29,9 +30,11 @@ import {
     FileText,
     Settings,
     Edit3,
+    MessageCircle,
 } from 'lucide-react';
 import { OverridableNode, StateMemory, PromptSetVersion } from '@/types/polaris';
-import { refinePromptWithAI, createPromptVersion } from '@/app/actions';
+import { SimulationNote } from '@/types/simulation';
+import { refinePromptWithAI, refinePromptFromNotes, createPromptVersion, fetchSimulationNotes } from '@/app/actions';
 import { UnifiedDiff } from '@/components/unified-diff';
 
 interface AnalyzeRefineModalProps {
@@ -87,6 +90,19 @@ export function AnalyzeRefineModal({
     // Editable refinements - track user edits to AI suggestions
     const [editedRefinements, setEditedRefinements] = useState<Record<string, string>>({});
 
+    // Unresolved reviewer notes to refine from; the ones behind the current suggestions are
+    // resolved when the version is saved
+    const [unresolvedNotes, setUnresolvedNotes] = useState<SimulationNote[]>([]);
+    const [selectedNoteIds, setSelectedNoteIds] = useState<Set<string>>(new Set());
+    const [refinedNoteIds, setRefinedNoteIds] = useState<string[]>([]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        fetchSimulationNotes(agentId)
+            .then(notes => setUnresolvedNotes(notes.filter(n => !n.resolved)))
+            .catch(console.error);
+    }, [isOpen, agentId]);
+
     // Build list of all editable targets (state fields + nodes)
     const editableTargets = [
         ...REFINABLE_STATE_FIELDS.map(f => ({
@@ -127,21 +143,42 @@ export function AnalyzeRefineModal({
         });
     };
 
+    const toggleNote = (noteId: string) => {
+        setSelectedNoteIds(prev => {
+            const next = new Set(prev);
+            if (next.has(noteId)) {
+                next.delete(noteId);
+            } else {
+                next.add(noteId);
+            }
+            return next;
+        });
+    };
+
     const handleRefine = async () => {
         if (!instruction.trim()) return;
+        await runRefinement(() => refinePromptWithAI(instruction, nodes, stateOverrides), []);
+    };
+
+    const handleRefineFromNotes = async () => {
+        if (selectedNoteIds.size === 0) return;
+        const noteIds = [...selectedNoteIds];
+        await runRefinement(() => refinePromptFromNotes(agentId, noteIds, nodes, stateOverrides), noteIds);
+    };
 
+    const runRefinement = async (
+        refine: () => Promise<{ refinements: RefinementResult[] }>,
+        noteIds: string[]
+    ) => {
         setIsRefining(true);
         setRefinementResults([]);
         setAcceptedChanges(new Set());
         setEditedRefinements({});
+        setRefinedNoteIds(noteIds);
 
         try {
             // Call the AI to analyze and suggest refinements
-            const result = await refinePromptWithAI(
-                instruction,
-                nodes,
-                stateOverrides
-            );
+            const result = await refine();
 
             if (result.refinements && result.refinements.length > 0) {
                 setRefinementResults(result.refinements);
@@ -233,7 +270,11 @@ export function AnalyzeRefineModal({
                 versionName,
                 updatedNodes,
                 updatedState,
-                `Refined: ${instruction.substring(0, 100)}...`
+                refinedNoteIds.length > 0
+                    ? `Fixed ${refinedNoteIds.length} reviewer ${refinedNoteIds.length === 1 ? 'note' : 'notes'}`
+                    : `Refined: ${instruction.substring(0, 100)}...`,
+                undefined,
+                refinedNoteIds
             );
 
             setVersionName('');
@@ -254,6 +295,8 @@ export function AnalyzeRefineModal({
         setEditedRefinements({});
         setShowSaveVersion(false);
         setVersionName('');
+        setSelectedNoteIds(new Set());
+        setRefinedNoteIds([]);
         onClose();
     };
 
@@ -339,6 +382,54 @@ export function AnalyzeRefineModal({
                         </Button>
                     </div>
 
+                    {/* Refine from unresolved reviewer notes */}
+                    {unresolvedNotes.length > 0 && (
+                        <Collapsible
+                            open={expandedSections.has('notes')}
+                            onOpenChange={() => toggleSection('notes')}
+                        >
+                            <CollapsibleTrigger className="flex items-center gap-2 w-full text-left p-3 border border-border rounded-lg hover:bg-muted/30 transition-colors">
+                                {expandedSections.has('notes') ? (
+                                    <ChevronDown className="h-4 w-4 text-muted-foreground" />
+                                ) : (
+                                    <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                                )}
+                                <MessageCircle className="h-4 w-4 text-muted-foreground" />
+                                <span className="font-medium text-sm text-foreground">Fix Reviewer Notes</span>
+                                <Badge variant="secondary" className="ml-2 text-xs bg-muted text-muted-foreground">
+                                    {unresolvedNotes.length} unresolved
+                                </Badge>
+                            </CollapsibleTrigger>
+                            <CollapsibleContent className="mt-2 p-3 border border-border rounded-lg bg-muted/20 space-y-3">
+                                <div className="space-y-2">
+                                    {unresolvedNotes.map((note) => (
+                                        <label key={note.id} className="flex items-start gap-2 text-xs cursor-pointer">
+                                            <Checkbox
+                                                checked={selectedNoteIds.has(note.id)}
+                                                onCheckedChange={() => toggleNote(note.id)}
+                                                disabled={isRefining}
+                                                className="mt-0.5"
+                                            />
+                                            <span className="flex-1 text-foreground">{note.comment}</span>
+                                            <Badge variant="outline" className="text-[9px] px-1 py-0 border-border text-muted-foreground shrink-0">
+                                                {note.experimentId ? 'Behavior test' : note.turnRole === 'user' ? 'Customer' : 'Agent'}
+                                            </Badge>
+                                        </label>
+                                    ))}
+                                </div>
+                                <Button
+                                    onClick={handleRefineFromNotes}
+                                    disabled={isRefining || selectedNoteIds.size === 0}
+                                    variant="outline"
+                                    className="w-full border-border"
+                                >
+                                    <Sparkles className="mr-2 h-4 w-4" />
+                                    Fix {selectedNoteIds.size} Selected {selectedNoteIds.size === 1 ? 'Note' : 'Notes'}
+                                </Button>
+                            </CollapsibleContent>
+                        </Collapsible>
+                    )}
+
                     {/* Refinement Results */}
                     {refinementResults.length > 0 && (
                         <div className="border border-primary/30 rounded-lg bg-card overflow-hidden">
@@ -445,6 +536,11 @@ export function AnalyzeRefineModal({
                                 <Save className="h-4 w-4 text-primary" />
                                 <span className="font-medium text-sm text-foreground">Save as New Version</span>
                             </div>
+                            {refinedNoteIds.length > 0 && (
+                                <p className="text-xs text-muted-foreground">
+                                    Saving resolves the {refinedNoteIds.length} reviewer {refinedNoteIds.length === 1 ? 'note' : 'notes'} these changes were made for.
+                                </p>
+                            )}
                             <div className="flex gap-2">
                                 <Input
                                     value={versionName}
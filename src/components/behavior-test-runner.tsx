@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -28,7 +29,21 @@ import {
     Sparkles,
     Wand2,
     Lightbulb,
-    FileText
+    FileText,
+    Square,
+    Plus,
+    X,
+    Scale,
+    ThumbsUp,
+    ThumbsDown,
+    ClipboardCheck,
+    GitCompare,
+    Snowflake,
+    RotateCcw,
+    LineChart,
+    Layers,
+    MessageSquare,
+    Check
 } from 'lucide-react';
 import {
     Collapsible,
@@ -43,11 +58,32 @@ import {
     fetchPromptVersions,
     deletePromptVersionAction,
     getVersionConfig,
-    refineBehaviorTestPrompt
+    refineBehaviorTestPrompt,
+    startBehaviorExperiment,
+    fetchRunningExperimentState,
+    cancelBehaviorExperiment,
+    fetchCalibrationSet,
+    labelBehaviorResult,
+    updateBehaviorTest,
+    rerunBehaviorTest,
+    clusterExperimentFailures,
+    fetchSimulationNotes,
+    addSimulationNote,
+    fetchBehaviorTests,
+    deleteBehaviorTestAction
 } from '@/app/actions';
-import { BehaviorExperiment, BehaviorTestResult, BehaviorTest } from '@/types/behavior-test';
+import { BehaviorExperiment, BehaviorTestResult, BehaviorTest, RunningExperimentState, ScoringCriterion, BehaviorAssertion, BehaviorAssertionKind, JsonSchema, CalibrationSet, CalibrationLabel, PreviousRunComparison, TurnBlame } from '@/types/behavior-test';
+import { SimulationNote } from '@/types/simulation';
+import { ASSERTION_LABELS, createDefaultAssertion } from '@/lib/assertions';
 import { OverridableNode, PromptSetVersion } from '@/types/polaris';
 import { TracePanel } from '@/components/trace-panel';
+import { JudgeCalibrationDialog } from '@/components/judge-calibration';
+import { RegressionSuiteDialog } from '@/components/regression-suite';
+import { ABExperimentDialog } from '@/components/ab-experiment';
+import { PersonaSetDialog } from '@/components/persona-set-editor';
+import { TestHistoryDialog } from '@/components/test-history';
+import { PromptOptimizationDialog } from '@/components/prompt-optimization';
+import { FailureClusterList } from '@/components/failure-clusters';
 
 interface BehaviorTestRunnerProps {
     agentId: string;
@@ -59,17 +95,18 @@ interface BehaviorTestRunnerProps {
 export function BehaviorTestRunner({ agentId, nodes, stateOverrides, onApplySnapshot }: BehaviorTestRunnerProps) {
     const [problemDescription, setProblemDescription] = useState('');
     const [simulationCount, setSimulationCount] = useState<number>(10);
+    const [trialsPerPersona, setTrialsPerPersona] = useState<number>(1);
     const [isRunning, setIsRunning] = useState(false);
     const [experiments, setExperiments] = useState<BehaviorExperiment[]>([]);
     const [selectedExperiment, setSelectedExperiment] = useState<BehaviorExperiment | null>(null);
     const [expandedResults, setExpandedResults] = useState<Set<string>>(new Set());
     const [isLoading, setIsLoading] = useState(true);
-    const [runningProgress, setRunningProgress] = useState<{
-        completed: number;
-        total: number;
-        currentPersona?: string;
-    } | null>(null);
+    const [runningExperimentId, setRunningExperimentId] = useState<string | null>(null);
+    const [runningProgress, setRunningProgress] = useState<RunningExperimentState['progress'] | null>(null);
+    const [isCancelling, setIsCancelling] = useState(false);
     const [filter, setFilter] = useState<'all' | 'passed' | 'failed'>('all');
+    const [clusterFilter, setClusterFilter] = useState<string | null>(null);
+    const [isClustering, setIsClustering] = useState(false);
     const [showScorerPrompt, setShowScorerPrompt] = useState(false);
     const [isRefining, setIsRefining] = useState(false);
 
@@ -77,17 +114,138 @@ export function BehaviorTestRunner({ agentId, nodes, stateOverrides, onApplySnap
     const [pendingTest, setPendingTest] = useState<BehaviorTest | null>(null);
     const [isGeneratingTest, setIsGeneratingTest] = useState(false);
     const [editableScorerPrompt, setEditableScorerPrompt] = useState('');
+    const [editableCriteria, setEditableCriteria] = useState<ScoringCriterion[]>([]);
+
+    // Tests drafted from reviewer notes that have not been run yet
+    const [savedTests, setSavedTests] = useState<BehaviorTest[]>([]);
+    const noteDrafts = savedTests.filter(t => t.sourceNoteIds && !experiments.some(e => e.testId === t.id));
 
     // Prompt Set Versions
     const [versions, setVersions] = useState<PromptSetVersion[]>([]);
     const [selectedVersionId, setSelectedVersionId] = useState<string>('current');
 
+    // Human labels for the selected test, to calibrate its judge
+    const [calibrationSet, setCalibrationSet] = useState<CalibrationSet | null>(null);
+    const [isCalibrationOpen, setIsCalibrationOpen] = useState(false);
+    const [isSuiteOpen, setIsSuiteOpen] = useState(false);
+    const [isABOpen, setIsABOpen] = useState(false);
+    const [isPersonaSetOpen, setIsPersonaSetOpen] = useState(false);
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+    const [isOptimizerOpen, setIsOptimizerOpen] = useState(false);
+
+    // Notes taken on the selected experiment's conversations
+    const [experimentNotes, setExperimentNotes] = useState<SimulationNote[]>([]);
+
     // Load experiments and versions on mount
     useEffect(() => {
         loadExperiments();
         loadVersions();
     }, []);
 
+    useEffect(() => {
+        fetchBehaviorTests(agentId).then(setSavedTests).catch(console.error);
+    }, [agentId]);
+
+    // Poll the running experiment for progress and partial results until it settles
+    useEffect(() => {
+        if (!runningExperimentId) return;
+
+        const interval = setInterval(async () => {
+            try {
+                const state = await fetchRunningExperimentState(agentId, runningExperimentId);
+                if (!state) return;
+
+                setRunningProgress(state.progress);
+                const applyState = (exp: BehaviorExperiment): BehaviorExperiment =>
+                    exp.id === state.experimentId
+                        ? { ...exp, status: state.status, results: state.results, summary: state.summary }
+                        : exp;
+                setSelectedExperiment(prev => prev ? applyState(prev) : prev);
+                setExperiments(prev => prev.map(applyState));
+
+                if (state.status !== 'running') {
+                    clearInterval(interval);
+                    setRunningExperimentId(null);
+                    setRunningProgress(null);
+                    setIsRunning(false);
+                    setIsCancelling(false);
+
+                    // Reload for the final saved state, including AI insights
+                    const refreshed = await fetchBehaviorExperiments(agentId);
+                    setExperiments(refreshed);
+                    const finished = refreshed.find(e => e.id === state.experimentId);
+                    setSelectedExperiment(prev => prev?.id === state.experimentId && finished ? finished : prev);
+                }
+            } catch (error) {
+                console.error('Failed to fetch experiment progress:', error);
+            }
+        }, 1500);
+
+        return () => clearInterval(interval);
+    }, [agentId, runningExperimentId]);
+
+    // Reload labels when switching to a different test, not on every progress update
+    const selectedTestId = selectedExperiment?.test.id;
+    const selectedTestName = selectedExperiment?.test.name;
+    useEffect(() => {
+        if (!selectedTestId || !selectedTestName) return;
+        fetchCalibrationSet(agentId, { id: selectedTestId, name: selectedTestName })
+            .then(setCalibrationSet)
+            .catch(console.error);
+    }, [agentId, selectedTestId, selectedTestName]);
+
+    const selectedExperimentId = selectedExperiment?.id;
+    useEffect(() => {
+        if (!selectedExperimentId) return;
+        fetchSimulationNotes(agentId)
+            .then(notes => setExperimentNotes(notes.filter(n => n.experimentId === selectedExperimentId)))
+            .catch(console.error);
+    }, [agentId, selectedExperimentId]);
+
+    // Jump from a release report or A/B comparison to one of the experiments it ran
+    const handleOpenLinkedExperiment = async (experimentId: string) => {
+        const refreshed = await fetchBehaviorExperiments(agentId);
+        setExperiments(refreshed);
+        const experiment = refreshed.find(e => e.id === experimentId);
+        if (experiment) {
+            setSelectedExperiment(experiment);
+            if (experiment.status === 'running') {
+                setRunningExperimentId(experiment.id);
+            }
+        }
+        setIsSuiteOpen(false);
+        setIsABOpen(false);
+        setIsHistoryOpen(false);
+        setIsOptimizerOpen(false);
+    };
+
+    const handleLabelResult = async (resultId: string, label: CalibrationLabel) => {
+        if (!selectedExperiment) return;
+        try {
+            setCalibrationSet(await labelBehaviorResult(agentId, selectedExperiment.test, selectedExperiment.id, resultId, label));
+        } catch (error) {
+            console.error('Failed to label result:', error);
+        }
+    };
+
+    // Turn a judged deduction into a note on that agent turn
+    const handleAddBlameNote = async (resultId: string, blame: TurnBlame) => {
+        if (!selectedExperiment) return;
+        try {
+            const notes = await addSimulationNote(
+                agentId,
+                resultId,
+                blame.turnIndex,
+                'assistant',
+                getBlameNoteComment(blame),
+                selectedExperiment.id
+            );
+            setExperimentNotes(notes.filter(n => n.experimentId === selectedExperiment.id));
+        } catch (error) {
+            console.error('Failed to add note:', error);
+        }
+    };
+
     const loadExperiments = async () => {
         setIsLoading(true);
         try {
@@ -96,6 +254,13 @@ export function BehaviorTestRunner({ agentId, nodes, stateOverrides, onApplySnap
             if (loaded.length > 0 && !selectedExperiment) {
                 setSelectedExperiment(loaded[0]);
             }
+            // Re-attach to an experiment that was still running when the page was left
+            const running = loaded.find(e => e.status === 'running');
+            if (running) {
+                setRunningExperimentId(running.id);
+                setRunningProgress(running.progress || null);
+                setIsRunning(true);
+            }
         } catch (error) {
             console.error('Failed to load experiments:', error);
         } finally {
@@ -174,6 +339,7 @@ export function BehaviorTestRunner({ agentId, nodes, stateOverrides, onApplySnap
             const test = await createBehaviorTest(agentId, problemDescription, simulationCount);
             setPendingTest(test);
             setEditableScorerPrompt(test.scorerPrompt);
+            setEditableCriteria(test.criteria || []);
             console.log('Test generated, scorer prompt ready for review');
         } catch (error) {
             console.error('Failed to generate test:', error);
@@ -183,12 +349,29 @@ export function BehaviorTestRunner({ agentId, nodes, stateOverrides, onApplySnap
         }
     };
 
+    // Review a test drafted from notes the same way as a freshly generated one
+    const handleOpenDraft = (test: BehaviorTest) => {
+        setPendingTest(test);
+        setEditableScorerPrompt(test.scorerPrompt);
+        setEditableCriteria(test.criteria || []);
+        setSimulationCount(test.simulationCount);
+    };
+
+    const handleDiscardDraft = async (testId: string) => {
+        try {
+            setSavedTests(await deleteBehaviorTestAction(agentId, testId));
+        } catch (error) {
+            console.error('Failed to discard draft:', error);
+        }
+    };
+
     // Step 2: Run the experiment with the approved scorer prompt
     const handleRunTest = async () => {
         if (!pendingTest) return;
 
         setIsRunning(true);
-        setRunningProgress({ completed: 0, total: simulationCount });
+        setRunningProgress({ completed: 0, total: simulationCount * trialsPerPersona });
+        let started = false;
 
         try {
             // Get the config to use (current or from selected version)
@@ -197,46 +380,71 @@ export function BehaviorTestRunner({ agentId, nodes, stateOverrides, onApplySnap
                 ? 'Current Config'
                 : versions.find(v => v.id === selectedVersionId)?.name || 'Unknown Version';
 
-            console.log(`Starting experiment with ${simulationCount} simulations using: ${versionName}`);
+            console.log(`Starting experiment with ${simulationCount} personas x ${trialsPerPersona} trials using: ${versionName}`);
 
             // Update the test with the (possibly edited) scorer prompt
             const testToRun: BehaviorTest = {
                 ...pendingTest,
                 scorerPrompt: editableScorerPrompt,
+                criteria: editableCriteria.length > 0 ? editableCriteria : undefined,
+                trialsPerPersona,
             };
+            await updateBehaviorTest(agentId, testToRun);
 
-            // Import the run function dynamically to avoid server/client issues
-            const { runBehaviorExperiment } = await import('@/app/actions');
-
-            // Run the experiment with the selected version's config
-            const experiment = await runBehaviorExperiment(
+            // Start the experiment on the server - progress is polled until it finishes
+            const experiment = await startBehaviorExperiment(
                 agentId,
                 testToRun,
                 testNodes,
-                testState
+                testState,
+                undefined,
+                selectedVersionId === 'current' ? undefined : selectedVersionId
             );
+            started = true;
 
-            console.log('Experiment completed:', experiment.summary);
-
-            // Refresh experiments list from saved files
-            await loadExperiments();
-
-            // Re-fetch the completed experiment to ensure we have the final saved state
-            const refreshedExperiments = await fetchBehaviorExperiments(agentId);
-            const completedExp = refreshedExperiments.find(e => e.id === experiment.id);
-            setSelectedExperiment(completedExp || experiment);
+            setExperiments(prev => [experiment, ...prev]);
+            setSelectedExperiment(experiment);
+            setRunningExperimentId(experiment.id);
 
             // Clear the form and pending test
             setProblemDescription('');
             setPendingTest(null);
             setEditableScorerPrompt('');
+            setEditableCriteria([]);
 
         } catch (error) {
             console.error('Failed to run behavior test:', error);
             alert('Failed to run behavior test. Check console for details.');
         } finally {
+            if (!started) {
+                setIsRunning(false);
+                setRunningProgress(null);
+            }
+        }
+    };
+
+    // Run the selected experiment's test again - with its frozen personas, if it has any
+    const handleRerunTest = async () => {
+        if (!selectedExperiment) return;
+
+        setIsRunning(true);
+        try {
+            const { testNodes, testState } = await getTestConfig();
+            const experiment = await rerunBehaviorTest(
+                agentId,
+                selectedExperiment.testId,
+                testNodes,
+                testState,
+                selectedVersionId === 'current' ? undefined : selectedVersionId
+            );
+            setExperiments(prev => [experiment, ...prev]);
+            setSelectedExperiment(experiment);
+            setRunningExperimentId(experiment.id);
+            setRunningProgress(experiment.progress || null);
+        } catch (error) {
+            console.error('Failed to re-run behavior test:', error);
+            alert('Failed to re-run behavior test. Check console for details.');
             setIsRunning(false);
-            setRunningProgress(null);
         }
     };
 
@@ -244,6 +452,20 @@ export function BehaviorTestRunner({ agentId, nodes, stateOverrides, onApplySnap
     const handleCancelTest = () => {
         setPendingTest(null);
         setEditableScorerPrompt('');
+        setEditableCriteria([]);
+    };
+
+    // Stop the running experiment on the server; polling picks up the final state
+    const handleStopExperiment = async () => {
+        if (!runningExperimentId) return;
+
+        setIsCancelling(true);
+        try {
+            await cancelBehaviorExperiment(agentId, runningExperimentId);
+        } catch (error) {
+            console.error('Failed to cancel experiment:', error);
+            setIsCancelling(false);
+        }
     };
 
     const handleDeleteExperiment = async (experimentId: string) => {
@@ -260,6 +482,28 @@ export function BehaviorTestRunner({ agentId, nodes, stateOverrides, onApplySnap
         }
     };
 
+    const handleClusterFailures = async () => {
+        if (!selectedExperiment) return;
+
+        setIsClustering(true);
+        try {
+            const updated = await clusterExperimentFailures(agentId, selectedExperiment.id);
+            setExperiments(prev => prev.map(e => e.id === updated.id ? updated : e));
+            setSelectedExperiment(updated);
+        } catch (error) {
+            console.error('Failed to cluster failures:', error);
+            alert('Failed to group failures. Check console for details.');
+        } finally {
+            setIsClustering(false);
+        }
+    };
+
+    // Jump from a cluster's example to that conversation in the results list
+    const handleOpenClusterResult = (clusterId: string, resultId: string) => {
+        setClusterFilter(clusterId);
+        setExpandedResults(prev => new Set(prev).add(resultId));
+    };
+
     const toggleResultExpanded = (resultId: string) => {
         setExpandedResults(prev => {
             const next = new Set(prev);
@@ -284,7 +528,11 @@ export function BehaviorTestRunner({ agentId, nodes, stateOverrides, onApplySnap
         return <XCircle className="h-4 w-4 text-red-500" />;
     };
 
+    // Cluster ids are unique per experiment, so a filter left over from another experiment matches nothing
+    const activeCluster = selectedExperiment?.summary.failureClusters?.find(c => c.id === clusterFilter);
+
     const filteredResults = selectedExperiment?.results.filter(r => {
+        if (activeCluster) return activeCluster.resultIds.includes(r.id);
         if (filter === 'passed') return r.passed;
         if (filter === 'failed') return !r.passed;
         return true;
@@ -383,6 +631,39 @@ export function BehaviorTestRunner({ agentId, nodes, stateOverrides, onApplySnap
                                         )}
                                     </Button>
                                 </div>
+
+                                {noteDrafts.length > 0 && (
+                                    <div className="space-y-1.5">
+                                        <label className="text-xs font-medium text-muted-foreground">Drafted from notes</label>
+                                        {noteDrafts.map((test) => (
+                                            <div key={test.id} className="flex items-center justify-between gap-2 px-3 py-2 rounded-lg border border-border text-xs">
+                                                <div className="min-w-0">
+                                                    <div className="font-medium text-foreground truncate">{test.name}</div>
+                                                    <div className="text-[10px] text-muted-foreground">
+                                                        {test.sourceNoteIds?.length} {test.sourceNoteIds?.length === 1 ? 'note' : 'notes'} · {new Date(test.createdAt).toLocaleDateString()}
+                                                    </div>
+                                                </div>
+                                                <div className="flex items-center gap-1 shrink-0">
+                                                    <Button
+                                                        variant="outline"
+                                                        size="sm"
+                                                        className="h-6 px-2 text-xs"
+                                                        onClick={() => handleOpenDraft(test)}
+                                                    >
+                                                        Review
+                                                    </Button>
+                                                    <button
+                                                        className="p-1 text-muted-foreground hover:text-destructive transition-colors"
+                                                        onClick={() => handleDiscardDraft(test.id)}
+                                                        title="Discard draft"
+                                                    >
+                                                        <Trash2 className="h-3.5 w-3.5" />
+                                                    </button>
+                                                </div>
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
                             </>
                         )}
 
@@ -399,6 +680,17 @@ export function BehaviorTestRunner({ agentId, nodes, stateOverrides, onApplySnap
                                     </Badge>
                                 </div>
 
+                                {pendingTest.sourceNoteIds && (
+                                    <div className="space-y-1">
+                                        <label className="text-xs font-medium text-muted-foreground">
+                                            Drafted from {pendingTest.sourceNoteIds.length} reviewer {pendingTest.sourceNoteIds.length === 1 ? 'note' : 'notes'}
+                                        </label>
+                                        <pre className="max-h-[160px] overflow-y-auto p-2 rounded border border-border bg-muted/20 text-[10px] text-muted-foreground whitespace-pre-wrap">
+                                            {pendingTest.problemDescription}
+                                        </pre>
+                                    </div>
+                                )}
+
                                 <div className="space-y-2">
                                     <label className="text-xs font-medium text-muted-foreground">
                                         Review & Edit Scorer Prompt
@@ -409,10 +701,39 @@ export function BehaviorTestRunner({ agentId, nodes, stateOverrides, onApplySnap
                                         className="min-h-[200px] font-mono text-xs bg-muted/30 border-border resize-y"
                                     />
                                     <p className="text-[10px] text-muted-foreground">
-                                        This prompt will be used to evaluate each conversation. Edit if needed.
+                                        {editableCriteria.length > 0
+                                            ? 'Used by judge criteria that have no prompt of their own.'
+                                            : 'This prompt will be used to evaluate each conversation. Edit if needed.'}
                                     </p>
                                 </div>
 
+                                <CriteriaEditor
+                                    criteria={editableCriteria}
+                                    defaultJudgePrompt={editableScorerPrompt}
+                                    onChange={setEditableCriteria}
+                                />
+
+                                <div className="flex items-center gap-2">
+                                    <span className="text-xs text-muted-foreground">Trials per persona</span>
+                                    <Select
+                                        value={trialsPerPersona.toString()}
+                                        onValueChange={(v) => setTrialsPerPersona(Number(v))}
+                                    >
+                                        <SelectTrigger className="h-8 w-[80px] text-xs bg-muted/30 border-border">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="1">1</SelectItem>
+                                            <SelectItem value="3">3</SelectItem>
+                                            <SelectItem value="5">5</SelectItem>
+                                            <SelectItem value="10">10</SelectItem>
+                                        </SelectContent>
+                                    </Select>
+                                    <span className="text-[10px] text-muted-foreground">
+                                        More trials give tighter confidence intervals on the pass rate.
+                                    </span>
+                                </div>
+
                                 <div className="flex items-center gap-2">
                                     <Button
                                         variant="outline"
@@ -426,7 +747,7 @@ export function BehaviorTestRunner({ agentId, nodes, stateOverrides, onApplySnap
                                         className="flex-1 bg-emerald-600 hover:bg-emerald-700 text-white"
                                     >
                                         <Play className="mr-2 h-4 w-4" />
-                                        Approve & Run ({simulationCount} tests)
+                                        Approve & Run ({simulationCount * trialsPerPersona} tests)
                                     </Button>
                                 </div>
                             </div>
@@ -438,18 +759,43 @@ export function BehaviorTestRunner({ agentId, nodes, stateOverrides, onApplySnap
                                 <div className="flex items-center gap-2">
                                     <div className="h-2 flex-1 bg-muted rounded-full overflow-hidden">
                                         <div
-                                            className="h-full bg-primary animate-pulse"
-                                            style={{ width: '100%' }}
+                                            className="h-full bg-primary transition-all"
+                                            style={{
+                                                width: runningProgress && runningProgress.total > 0
+                                                    ? `${Math.round((runningProgress.completed / runningProgress.total) * 100)}%`
+                                                    : '0%'
+                                            }}
                                         />
                                     </div>
+                                    <span className="text-xs text-muted-foreground tabular-nums">
+                                        {runningProgress?.completed ?? 0}/{runningProgress?.total ?? simulationCount * trialsPerPersona}
+                                    </span>
                                 </div>
                                 <div className="flex items-center gap-2 text-xs text-muted-foreground">
                                     <Loader2 className="h-3 w-3 animate-spin" />
-                                    <span>Running {simulationCount} simulations in parallel...</span>
+                                    <span className="truncate">
+                                        {isCancelling
+                                            ? 'Stopping...'
+                                            : runningProgress?.currentPersona
+                                                ? `Running: ${runningProgress.currentPersona}`
+                                                : 'Starting...'}
+                                    </span>
                                 </div>
-                                <p className="text-[10px] text-muted-foreground/60">
-                                    This may take a few minutes. Check terminal for progress logs.
-                                </p>
+                                {selectedExperiment?.id === runningExperimentId && selectedExperiment.results.length > 0 && (
+                                    <p className="text-[10px] text-muted-foreground">
+                                        {selectedExperiment.summary.passRate}% passing so far ({selectedExperiment.summary.passed}/{selectedExperiment.results.length})
+                                    </p>
+                                )}
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={handleStopExperiment}
+                                    disabled={isCancelling || !runningExperimentId}
+                                    className="w-full h-7 text-xs border-border text-muted-foreground hover:text-destructive"
+                                >
+                                    <Square className="mr-1.5 h-3 w-3" />
+                                    Stop Experiment
+                                </Button>
                             </div>
                         )}
 
@@ -520,6 +866,27 @@ export function BehaviorTestRunner({ agentId, nodes, stateOverrides, onApplySnap
                                 </div>
                             )}
 
+                            <div className="grid grid-cols-2 gap-2">
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="h-7 text-xs border-border text-muted-foreground"
+                                    onClick={() => setIsSuiteOpen(true)}
+                                >
+                                    <ClipboardCheck className="h-3 w-3 mr-1" />
+                                    Regression Suite
+                                </Button>
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="h-7 text-xs border-border text-muted-foreground"
+                                    onClick={() => setIsABOpen(true)}
+                                >
+                                    <GitCompare className="h-3 w-3 mr-1" />
+                                    A/B Test
+                                </Button>
+                            </div>
+
                             {/* Quick save current config */}
                             {versions.length === 0 && (
                                 <div className="text-[10px] text-muted-foreground text-center py-2">
@@ -530,6 +897,25 @@ export function BehaviorTestRunner({ agentId, nodes, stateOverrides, onApplySnap
                     </CardContent>
                 </Card>
 
+                <RegressionSuiteDialog
+                    agentId={agentId}
+                    versions={versions}
+                    defaultVersionId={selectedVersionId !== 'current' ? selectedVersionId : undefined}
+                    open={isSuiteOpen}
+                    onOpenChange={setIsSuiteOpen}
+                    onOpenExperiment={handleOpenLinkedExperiment}
+                />
+
+                <ABExperimentDialog
+                    agentId={agentId}
+                    nodes={nodes}
+                    stateOverrides={stateOverrides}
+                    versions={versions}
+                    open={isABOpen}
+                    onOpenChange={setIsABOpen}
+                    onOpenExperiment={handleOpenLinkedExperiment}
+                />
+
                 {/* Experiment History */}
                 <div className="flex-1 flex flex-col min-h-0 border border-border rounded-lg bg-card overflow-hidden">
                     <div className="p-3 border-b border-border shrink-0 flex items-center justify-between">
@@ -616,12 +1002,74 @@ export function BehaviorTestRunner({ agentId, nodes, stateOverrides, onApplySnap
                                                 Running
                                             </Badge>
                                         )}
+                                        {selectedExperiment.status === 'cancelled' && (
+                                            <Badge variant="outline" className="bg-muted text-muted-foreground border-border">
+                                                Cancelled
+                                            </Badge>
+                                        )}
+                                        {selectedExperiment.personaSetId && (
+                                            <Badge variant="outline" className="bg-muted text-muted-foreground border-border" title="Ran on a frozen persona set">
+                                                <Snowflake className="h-3 w-3 mr-1" />
+                                                Frozen personas
+                                            </Badge>
+                                        )}
                                     </h3>
                                     <p className="max-w-xl text-sm text-muted-foreground">
                                         {selectedExperiment.test.problemDescription}
                                     </p>
                                 </div>
                                 <div className="flex items-center gap-2">
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        className="text-xs border-border text-muted-foreground"
+                                        onClick={handleRerunTest}
+                                        disabled={isRunning}
+                                    >
+                                        <RotateCcw className="h-3 w-3 mr-1" />
+                                        Re-run
+                                    </Button>
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        className="text-xs border-border text-muted-foreground"
+                                        onClick={() => setIsPersonaSetOpen(true)}
+                                    >
+                                        <Snowflake className="h-3 w-3 mr-1" />
+                                        Personas
+                                    </Button>
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        className="text-xs border-border text-muted-foreground"
+                                        onClick={() => setIsHistoryOpen(true)}
+                                    >
+                                        <LineChart className="h-3 w-3 mr-1" />
+                                        History
+                                    </Button>
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        className="text-xs border-border text-muted-foreground"
+                                        onClick={() => setIsOptimizerOpen(true)}
+                                    >
+                                        <Wand2 className="h-3 w-3 mr-1" />
+                                        Optimize
+                                    </Button>
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        className="text-xs border-border text-muted-foreground"
+                                        onClick={() => setIsCalibrationOpen(true)}
+                                    >
+                                        <Scale className="h-3 w-3 mr-1" />
+                                        Calibrate Judge
+                                        {calibrationSet && calibrationSet.conversations.length > 0 && (
+                                            <Badge variant="secondary" className="ml-1.5 text-[10px] px-1.5 bg-muted text-muted-foreground">
+                                                {calibrationSet.conversations.length}
+                                            </Badge>
+                                        )}
+                                    </Button>
                                     {selectedExperiment.braintrustUrl && (
                                         <Button
                                             variant="outline"
@@ -657,6 +1105,11 @@ export function BehaviorTestRunner({ agentId, nodes, stateOverrides, onApplySnap
                                         {selectedExperiment.summary.passRate}%
                                     </div>
                                     <div className="text-xs opacity-80">Pass Rate</div>
+                                    {selectedExperiment.summary.passRateInterval && (
+                                        <div className="text-[10px] opacity-70" title="95% confidence interval">
+                                            95% CI {selectedExperiment.summary.passRateInterval.low}-{selectedExperiment.summary.passRateInterval.high}%
+                                        </div>
+                                    )}
                                 </div>
                                 <div className="bg-muted/10 rounded-lg p-3 text-center border border-border">
                                     <div className="text-2xl font-bold text-foreground">
@@ -666,14 +1119,83 @@ export function BehaviorTestRunner({ agentId, nodes, stateOverrides, onApplySnap
                                 </div>
                                 <div className="bg-muted/10 rounded-lg p-3 text-center border border-border">
                                     <div className="text-2xl font-bold text-foreground">
-                                        {selectedExperiment.status === 'completed'
-                                            ? formatDuration(selectedExperiment.summary.duration)
-                                            : 'Running...'}
+                                        {selectedExperiment.status === 'running'
+                                            ? 'Running...'
+                                            : formatDuration(selectedExperiment.summary.duration)}
                                     </div>
                                     <div className="text-xs text-muted-foreground">Duration</div>
                                 </div>
                             </div>
 
+                            {/* Significance against the previous run of this test */}
+                            {selectedExperiment.summary.previousRun && (
+                                <PreviousRunLine comparison={selectedExperiment.summary.previousRun} />
+                            )}
+
+                            {/* Per-persona pass rates across repeated trials */}
+                            {(selectedExperiment.summary.trialsPerPersona ?? 1) > 1 && selectedExperiment.summary.personas && (
+                                <div className="mt-4 rounded-lg border border-border divide-y divide-border">
+                                    {selectedExperiment.summary.personas.map((p) => (
+                                        <div key={p.personaId} className="flex items-center justify-between px-3 py-2 text-xs">
+                                            <div className="flex items-center gap-2 min-w-0">
+                                                {getStatusIcon(p.passRate)}
+                                                <span className="truncate text-foreground">{p.personaName}</span>
+                                            </div>
+                                            <div className="flex items-center gap-3 shrink-0 text-muted-foreground">
+                                                <span>{p.passed}/{p.total} trials passed</span>
+                                                <span>95% CI {p.interval.low}-{p.interval.high}%</span>
+                                                <Badge variant="outline" className={`text-[10px] ${getStatusColor(p.passRate)}`}>
+                                                    {p.passRate}%
+                                                </Badge>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+
+                            {/* Per-criterion breakdown for rubric tests */}
+                            {selectedExperiment.summary.criteria && selectedExperiment.summary.criteria.length > 1 && (
+                                <div className="mt-4 rounded-lg border border-border divide-y divide-border">
+                                    {selectedExperiment.summary.criteria.map((c) => (
+                                        <div key={c.criterionId} className="flex items-center justify-between px-3 py-2 text-xs">
+                                            <div className="flex items-center gap-2 min-w-0">
+                                                {getStatusIcon(c.passRate)}
+                                                <span className="truncate text-foreground">{c.name}</span>
+                                            </div>
+                                            <div className="flex items-center gap-3 shrink-0 text-muted-foreground">
+                                                <span>{c.passed}/{c.passed + c.failed} passed</span>
+                                                <span>avg {c.avgScore.toFixed(2)}</span>
+                                                <Badge variant="outline" className={`text-[10px] ${getStatusColor(c.passRate)}`}>
+                                                    {c.passRate}%
+                                                </Badge>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+
+                            {/* Failure modes across the failed conversations */}
+                            {selectedExperiment.summary.failureClusters && selectedExperiment.summary.failureClusters.length > 0 ? (
+                                <FailureClusterList
+                                    clusters={selectedExperiment.summary.failureClusters}
+                                    results={selectedExperiment.results}
+                                    activeClusterId={activeCluster?.id ?? null}
+                                    onSelectCluster={setClusterFilter}
+                                    onOpenResult={handleOpenClusterResult}
+                                />
+                            ) : selectedExperiment.status !== 'running' && selectedExperiment.summary.failed > 0 && (
+                                <Button
+                                    variant="outline"
+                                    size="sm"
+                                    className="mt-4 text-xs border-border text-muted-foreground"
+                                    onClick={handleClusterFailures}
+                                    disabled={isClustering}
+                                >
+                                    {isClustering ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Layers className="h-3 w-3 mr-1" />}
+                                    Group Failures by Mode
+                                </Button>
+                            )}
+
                             {/* AI Summary - Always show when completed */}
                             {selectedExperiment.status === 'completed' && selectedExperiment.summary.aiSummary && (
                                 <div className={`mt-4 p-4 rounded-lg border ${selectedExperiment.summary.passRate === 100
@@ -778,10 +1300,13 @@ export function BehaviorTestRunner({ agentId, nodes, stateOverrides, onApplySnap
                             {(['all', 'passed', 'failed'] as const).map((f) => (
                                 <Button
                                     key={f}
-                                    variant={filter === f ? 'default' : 'outline'}
+                                    variant={filter === f && !activeCluster ? 'default' : 'outline'}
                                     size="sm"
-                                    className={`text-xs ${filter === f ? 'bg-primary text-primary-foreground' : 'text-muted-foreground border-border'}`}
-                                    onClick={() => setFilter(f)}
+                                    className={`text-xs ${filter === f && !activeCluster ? 'bg-primary text-primary-foreground' : 'text-muted-foreground border-border'}`}
+                                    onClick={() => {
+                                        setFilter(f);
+                                        setClusterFilter(null);
+                                    }}
                                 >
                                     {f === 'all' ? 'All' : f === 'passed' ? 'Passed' : 'Failed'}
                                     <Badge variant="secondary" className="ml-1.5 text-[10px] px-1.5 bg-muted text-muted-foreground">
@@ -793,6 +1318,18 @@ export function BehaviorTestRunner({ agentId, nodes, stateOverrides, onApplySnap
                                     </Badge>
                                 </Button>
                             ))}
+                            {activeCluster && (
+                                <Badge variant="outline" className="ml-auto text-xs bg-red-500/10 text-red-500 border-red-500/20">
+                                    {activeCluster.name} ({activeCluster.resultIds.length})
+                                    <button
+                                        className="ml-1.5 hover:text-foreground"
+                                        onClick={() => setClusterFilter(null)}
+                                        title="Clear failure mode filter"
+                                    >
+                                        <X className="h-3 w-3" />
+                                    </button>
+                                </Badge>
+                            )}
                         </div>
 
                         {/* Results List */}
@@ -805,16 +1342,58 @@ export function BehaviorTestRunner({ agentId, nodes, stateOverrides, onApplySnap
                                             result={result}
                                             isExpanded={expandedResults.has(result.id)}
                                             onToggle={() => toggleResultExpanded(result.id)}
+                                            humanLabel={calibrationSet?.conversations.find(c =>
+                                                c.source.type === 'behavior-result' && c.source.resultId === result.id
+                                            )?.label}
+                                            onLabel={(label) => handleLabelResult(result.id, label)}
+                                            notes={experimentNotes.filter(n => n.simulationId === result.id)}
+                                            onAddNote={(blame) => handleAddBlameNote(result.id, blame)}
                                         />
                                     ))}
                                     {filteredResults.length === 0 && (
                                         <div className="text-center py-8 text-muted-foreground/50">
-                                            <p className="text-sm">No {filter !== 'all' ? filter : ''} results</p>
+                                            <p className="text-sm">No {activeCluster ? '' : filter !== 'all' ? filter : ''} results</p>
                                         </div>
                                     )}
                                 </div>
                             </ScrollArea>
                         </div>
+
+                        <JudgeCalibrationDialog
+                            agentId={agentId}
+                            test={selectedExperiment.test}
+                            calibrationSet={calibrationSet}
+                            onCalibrationSetChange={setCalibrationSet}
+                            open={isCalibrationOpen}
+                            onOpenChange={setIsCalibrationOpen}
+                        />
+                        <PersonaSetDialog
+                            agentId={agentId}
+                            experiment={selectedExperiment}
+                            open={isPersonaSetOpen}
+                            onOpenChange={setIsPersonaSetOpen}
+                        />
+                        <TestHistoryDialog
+                            agentId={agentId}
+                            test={selectedExperiment.test}
+                            open={isHistoryOpen}
+                            onOpenChange={setIsHistoryOpen}
+                            onOpenExperiment={handleOpenLinkedExperiment}
+                        />
+                        <PromptOptimizationDialog
+                            agentId={agentId}
+                            test={selectedExperiment.test}
+                            nodes={nodes}
+                            stateOverrides={stateOverrides}
+                            versions={versions}
+                            open={isOptimizerOpen}
+                            onOpenChange={(open) => {
+                                setIsOptimizerOpen(open);
+                                // Pick up a winner the optimizer saved as a version
+                                if (!open) loadVersions();
+                            }}
+                            onOpenExperiment={handleOpenLinkedExperiment}
+                        />
                     </>
                 ) : (
                     <div className="flex-1 flex flex-col items-center justify-center text-muted-foreground/40">
@@ -828,16 +1407,52 @@ export function BehaviorTestRunner({ agentId, nodes, stateOverrides, onApplySnap
     );
 }
 
+function PreviousRunLine({ comparison }: { comparison: PreviousRunComparison }) {
+    const direction = comparison.delta > 0 ? 'up' : comparison.delta < 0 ? 'down' : 'unchanged';
+    return (
+        <div className={`mt-4 px-3 py-2 rounded-lg border text-xs ${!comparison.significant
+            ? 'border-border text-muted-foreground'
+            : comparison.delta > 0
+                ? 'bg-emerald-500/10 border-emerald-500/20 text-emerald-500'
+                : 'bg-red-500/10 border-red-500/20 text-red-500'
+            }`}>
+            {direction === 'unchanged' ? 'Unchanged' : `${direction === 'up' ? 'Up' : 'Down'} ${Math.abs(comparison.delta)} points`} from
+            the previous run ({comparison.passRate}%, {comparison.passed}/{comparison.total} on {new Date(comparison.createdAt).toLocaleDateString()})
+            {' · '}
+            {comparison.significant
+                ? `statistically significant (p = ${comparison.pValue})`
+                : `within noise (p = ${comparison.pValue}) - run more trials to tell`}
+        </div>
+    );
+}
+
+function getBlameNoteComment(blame: TurnBlame): string {
+    return blame.criterionName ? `${blame.criterionName}: ${blame.comment}` : blame.comment;
+}
+
 // Result Card Component
 function ResultCard({
     result,
     isExpanded,
-    onToggle
+    onToggle,
+    humanLabel,
+    onLabel,
+    notes,
+    onAddNote
 }: {
     result: BehaviorTestResult;
     isExpanded: boolean;
     onToggle: () => void;
+    humanLabel?: CalibrationLabel;
+    onLabel: (label: CalibrationLabel) => void;
+    notes: SimulationNote[];
+    onAddNote: (blame: TurnBlame) => void;
 }) {
+    const blamedTurns = result.blamedTurns || [];
+    const blamedTurnCount = new Set(blamedTurns.map(b => b.turnIndex)).size;
+    const isNoted = (blame: TurnBlame) =>
+        notes.some(n => n.turnIndex === blame.turnIndex && n.comment === getBlameNoteComment(blame));
+
     return (
         <div className={`border rounded-lg overflow-hidden transition-all ${result.passed ? 'border-emerald-500/20' : 'border-red-500/20'
             }`}>
@@ -855,11 +1470,19 @@ function ResultCard({
                             <XCircle className="h-5 w-5 text-red-500" />
                         )}
                         <div>
-                            <div className="font-medium text-sm text-foreground">{result.persona.name}</div>
+                            <div className="font-medium text-sm text-foreground">
+                                {result.persona.name}
+                                {result.trial && <span className="ml-1.5 text-xs font-normal text-muted-foreground">trial {result.trial}</span>}
+                            </div>
                             <div className="text-xs text-muted-foreground">{result.persona.role}</div>
                         </div>
                     </div>
                     <div className="flex items-center gap-3">
+                        {blamedTurnCount > 0 && (
+                            <span className="text-[10px] text-red-500">
+                                {blamedTurnCount} {blamedTurnCount === 1 ? 'turn' : 'turns'} blamed
+                            </span>
+                        )}
                         <Badge
                             variant="outline"
                             className={result.passed
@@ -877,6 +1500,24 @@ function ResultCard({
                     </div>
                 </div>
 
+                {/* Per-criterion results for rubric tests */}
+                {result.criteria && result.criteria.length > 1 && (
+                    <div className="flex flex-wrap gap-1 mt-2 pl-8">
+                        {result.criteria.map((c) => (
+                            <Badge
+                                key={c.criterionId}
+                                variant="outline"
+                                className={`text-[10px] ${c.passed
+                                    ? 'bg-emerald-500/10 text-emerald-500 border-emerald-500/20'
+                                    : 'bg-red-500/10 text-red-500 border-red-500/20'
+                                    }`}
+                            >
+                                {c.name}: {c.score.toFixed(2)}
+                            </Badge>
+                        ))}
+                    </div>
+                )}
+
                 {/* Rationale preview */}
                 {!isExpanded && (
                     <p className="text-xs text-muted-foreground mt-2 line-clamp-2 pl-8">
@@ -891,32 +1532,89 @@ function ResultCard({
                     {/* Rationale */}
                     <div className="p-4 bg-muted/10 border-b border-border">
                         <div className="text-xs font-medium text-muted-foreground mb-1">Judge's Rationale</div>
-                        <p className="text-sm text-foreground">{result.rationale}</p>
+                        <p className="text-sm text-foreground whitespace-pre-wrap">{result.rationale}</p>
+                    </div>
+
+                    {/* Human label for judge calibration */}
+                    <div className="px-4 py-2 flex items-center gap-2 border-b border-border">
+                        <span className="text-xs text-muted-foreground">Your verdict:</span>
+                        <Button
+                            variant={humanLabel === 'pass' ? 'default' : 'outline'}
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                            onClick={() => onLabel('pass')}
+                        >
+                            <ThumbsUp className="h-3 w-3 mr-1" />
+                            Pass
+                        </Button>
+                        <Button
+                            variant={humanLabel === 'fail' ? 'destructive' : 'outline'}
+                            size="sm"
+                            className="h-6 px-2 text-xs"
+                            onClick={() => onLabel('fail')}
+                        >
+                            <ThumbsDown className="h-3 w-3 mr-1" />
+                            Fail
+                        </Button>
+                        {humanLabel && humanLabel !== (result.passed ? 'pass' : 'fail') && (
+                            <span className="text-[10px] text-amber-500">Disagrees with the judge</span>
+                        )}
                     </div>
 
                     {/* Conversation */}
                     <div className="p-4">
                         <div className="text-xs font-medium text-muted-foreground mb-3">Conversation</div>
                         <div className="space-y-3">
-                            {result.conversation.map((turn, i) => (
-                                <div
-                                    key={i}
-                                    className={`flex ${turn.role === 'user' ? 'justify-end' : 'justify-start'}`}
-                                >
-                                    <div className={`max-w-[85%] rounded-lg p-3 ${turn.role === 'user'
-                                        ? 'bg-primary text-primary-foreground'
-                                        : 'bg-muted/30 border border-border'
-                                        }`}>
-                                        <div className={`text-[10px] font-medium mb-1 ${turn.role === 'user' ? 'text-primary-foreground/80' : 'text-muted-foreground'}`}>
-                                            {turn.role === 'user' ? 'Lead' : 'Agent'}
+                            {result.conversation.map((turn, i) => {
+                                const turnBlame = blamedTurns.filter(b => b.turnIndex === i);
+                                return (
+                                    <div
+                                        key={i}
+                                        className={`flex ${turn.role === 'user' ? 'justify-end' : 'justify-start'}`}
+                                    >
+                                        <div className={`max-w-[85%] rounded-lg p-3 ${turn.role === 'user'
+                                            ? 'bg-primary text-primary-foreground'
+                                            : turnBlame.length > 0
+                                                ? 'bg-red-500/5 border border-red-500/40'
+                                                : 'bg-muted/30 border border-border'
+                                            }`}>
+                                            <div className={`text-[10px] font-medium mb-1 ${turn.role === 'user' ? 'text-primary-foreground/80' : 'text-muted-foreground'}`}>
+                                                {turn.role === 'user' ? 'Lead' : 'Agent'}
+                                            </div>
+                                            <p className={`text-sm whitespace-pre-wrap ${turn.role === 'user' ? 'text-primary-foreground' : 'text-foreground'}`}>
+                                                {turn.content}
+                                            </p>
+                                            {turn.traceData && <TracePanel reasoning={turn.traceData} />}
+
+                                            {/* Why the judge deducted points for this turn */}
+                                            {turnBlame.map((blame, j) => (
+                                                <div key={j} className="mt-2 pt-2 border-t border-red-500/20 flex items-start justify-between gap-2 text-xs">
+                                                    <p className="text-red-500">
+                                                        {blame.criterionName && <span className="font-medium">{blame.criterionName}: </span>}
+                                                        {blame.comment}
+                                                    </p>
+                                                    {isNoted(blame) ? (
+                                                        <span className="flex items-center gap-1 shrink-0 text-[10px] text-muted-foreground">
+                                                            <Check className="h-3 w-3" />
+                                                            Noted
+                                                        </span>
+                                                    ) : (
+                                                        <Button
+                                                            variant="outline"
+                                                            size="sm"
+                                                            className="h-6 px-2 text-[10px] shrink-0"
+                                                            onClick={() => onAddNote(blame)}
+                                                        >
+                                                            <MessageSquare className="h-3 w-3 mr-1" />
+                                                            Add as note
+                                                        </Button>
+                                                    )}
+                                                </div>
+                                            ))}
                                         </div>
-                                        <p className={`text-sm whitespace-pre-wrap ${turn.role === 'user' ? 'text-primary-foreground' : 'text-foreground'}`}>
-                                            {turn.content}
-                                        </p>
-                                        {turn.traceData && <TracePanel reasoning={turn.traceData} />}
                                     </div>
-                                </div>
-                            ))}
+                                );
+                            })}
                         </div>
                     </div>
                 </div>
@@ -924,3 +1622,271 @@ function ResultCard({
         </div>
     );
 }
+
+// Edit a test's scoring rubric: named criteria, each judged by an LLM prompt or a code assertion
+function CriteriaEditor({
+    criteria,
+    defaultJudgePrompt,
+    onChange
+}: {
+    criteria: ScoringCriterion[];
+    defaultJudgePrompt: string;
+    onChange: (criteria: ScoringCriterion[]) => void;
+}) {
+    const updateCriterion = (id: string, updates: Partial<ScoringCriterion>) => {
+        onChange(criteria.map(c => c.id === id ? { ...c, ...updates } : c));
+    };
+
+    const updateCheck = (criterion: ScoringCriterion, updates: Partial<BehaviorAssertion>) => {
+        updateCriterion(criterion.id, { check: { ...criterion.check, ...updates } as BehaviorAssertion });
+    };
+
+    const addCriterion = () => {
+        onChange([
+            ...criteria,
+            {
+                id: `criterion-${Date.now()}`,
+                name: `Criterion ${criteria.length + 1}`,
+                weight: 1,
+                passThreshold: 0.7,
+                type: 'llm-judge',
+                judgePrompt: defaultJudgePrompt,
+            },
+        ]);
+    };
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between">
+                <label className="text-xs font-medium text-muted-foreground">
+                    Criteria {criteria.length > 0 && `(${criteria.length})`}
+                </label>
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={addCriterion}
+                    className="h-6 text-[10px] text-primary hover:text-primary hover:bg-primary/10"
+                >
+                    <Plus className="h-3 w-3 mr-1" />
+                    Add Criterion
+                </Button>
+            </div>
+
+            {criteria.length === 0 && (
+                <p className="text-[10px] text-muted-foreground">
+                    No criteria - each conversation gets one score from the prompt above, passing at 0.7.
+                </p>
+            )}
+
+            {criteria.map((criterion) => (
+                <div key={criterion.id} className="p-2 rounded-md border border-border bg-muted/10 space-y-2">
+                    <div className="flex items-center gap-2">
+                        <Input
+                            value={criterion.name}
+                            onChange={(e) => updateCriterion(criterion.id, { name: e.target.value })}
+                            className="h-7 text-xs bg-background border-border"
+                        />
+                        <button
+                            className="p-1 text-muted-foreground hover:text-destructive transition-colors"
+                            onClick={() => onChange(criteria.filter(c => c.id !== criterion.id))}
+                            title="Remove criterion"
+                        >
+                            <X className="h-3.5 w-3.5" />
+                        </button>
+                    </div>
+
+                    <div className="grid grid-cols-3 gap-2">
+                        <Select
+                            value={criterion.type === 'check' ? criterion.check?.kind || 'regex' : 'llm-judge'}
+                            onValueChange={(v) => updateCriterion(criterion.id, v === 'llm-judge'
+                                ? { type: 'llm-judge', check: undefined, judgePrompt: criterion.judgePrompt || defaultJudgePrompt }
+                                : { type: 'check', check: createDefaultAssertion(v as BehaviorAssertionKind) })}
+                        >
+                            <SelectTrigger className="h-7 text-[10px] bg-background border-border">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value="llm-judge">LLM judge</SelectItem>
+                                {Object.entries(ASSERTION_LABELS).map(([kind, label]) => (
+                                    <SelectItem key={kind} value={kind}>{label}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                        <div className="flex items-center gap-1">
+                            <span className="text-[10px] text-muted-foreground">Weight</span>
+                            <Input
+                                type="number"
+                                min={0}
+                                step={0.5}
+                                value={criterion.weight}
+                                onChange={(e) => updateCriterion(criterion.id, { weight: Number(e.target.value) })}
+                                className="h-7 text-xs bg-background border-border"
+                            />
+                        </div>
+                        <div className="flex items-center gap-1">
+                            <span className="text-[10px] text-muted-foreground">Pass</span>
+                            <Input
+                                type="number"
+                                min={0}
+                                max={1}
+                                step={0.05}
+                                value={criterion.passThreshold}
+                                onChange={(e) => updateCriterion(criterion.id, { passThreshold: Number(e.target.value) })}
+                                className="h-7 text-xs bg-background border-border"
+                            />
+                        </div>
+                    </div>
+
+                    {criterion.type === 'llm-judge' && (
+                        <Textarea
+                            value={criterion.judgePrompt || ''}
+                            onChange={(e) => updateCriterion(criterion.id, { judgePrompt: e.target.value })}
+                            className="min-h-[80px] font-mono text-[10px] bg-background border-border resize-y"
+                        />
+                    )}
+
+                    {criterion.check?.kind === 'regex' && (
+                        <div className="flex items-center gap-2">
+                            <Select
+                                value={criterion.check.mode}
+                                onValueChange={(v) => updateCheck(criterion, { mode: v as 'must-match' | 'must-not-match' })}
+                            >
+                                <SelectTrigger className="h-7 w-[130px] text-[10px] bg-background border-border">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="must-match">Must match</SelectItem>
+                                    <SelectItem value="must-not-match">Must not match</SelectItem>
+                                </SelectContent>
+                            </Select>
+                            <Input
+                                value={criterion.check.pattern}
+                                placeholder="e.g. \$\d+"
+                                onChange={(e) => updateCheck(criterion, { pattern: e.target.value })}
+                                className="h-7 font-mono text-xs bg-background border-border"
+                            />
+                        </div>
+                    )}
+
+                    {criterion.check?.kind === 'max-length' && (
+                        <div className="flex items-center gap-2">
+                            <span className="text-[10px] text-muted-foreground">Max characters per agent message</span>
+                            <Input
+                                type="number"
+                                min={1}
+                                value={criterion.check.maxChars}
+                                onChange={(e) => updateCheck(criterion, { maxChars: Number(e.target.value) })}
+                                className="h-7 w-24 text-xs bg-background border-border"
+                            />
+                        </div>
+                    )}
+
+                    {criterion.check?.kind === 'turn-position' && (
+                        <div className="space-y-1.5">
+                            <Input
+                                value={criterion.check.pattern}
+                                placeholder="Agent must say, e.g. phone number"
+                                onChange={(e) => updateCheck(criterion, { pattern: e.target.value })}
+                                className="h-7 font-mono text-xs bg-background border-border"
+                            />
+                            <div className="flex items-center gap-2">
+                                <span className="text-[10px] text-muted-foreground shrink-0">Within first</span>
+                                <Input
+                                    type="number"
+                                    min={1}
+                                    value={criterion.check.withinTurns ?? ''}
+                                    placeholder="any"
+                                    onChange={(e) => updateCheck(criterion, {
+                                        withinTurns: e.target.value ? Number(e.target.value) : undefined
+                                    })}
+                                    className="h-7 w-16 text-xs bg-background border-border"
+                                />
+                                <span className="text-[10px] text-muted-foreground shrink-0">turns, before</span>
+                                <Input
+                                    value={criterion.check.beforePattern || ''}
+                                    placeholder="e.g. booked|confirmed"
+                                    onChange={(e) => updateCheck(criterion, { beforePattern: e.target.value || undefined })}
+                                    className="h-7 font-mono text-xs bg-background border-border"
+                                />
+                            </div>
+                        </div>
+                    )}
+
+                    {criterion.check?.kind === 'tool-called' && (
+                        <div className="flex items-center gap-2">
+                            <Select
+                                value={criterion.check.mode}
+                                onValueChange={(v) => updateCheck(criterion, { mode: v as 'must-call' | 'must-not-call' })}
+                            >
+                                <SelectTrigger className="h-7 w-[130px] text-[10px] bg-background border-border">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="must-call">Must call</SelectItem>
+                                    <SelectItem value="must-not-call">Must not call</SelectItem>
+                                </SelectContent>
+                            </Select>
+                            <Input
+                                value={criterion.check.tool}
+                                placeholder="Tool name"
+                                onChange={(e) => updateCheck(criterion, { tool: e.target.value })}
+                                className="h-7 font-mono text-xs bg-background border-border"
+                            />
+                        </div>
+                    )}
+
+                    {criterion.check?.kind === 'tool-input-schema' && (
+                        <SchemaCheckEditor
+                            tool={criterion.check.tool}
+                            schema={criterion.check.schema}
+                            onChange={(updates) => updateCheck(criterion, updates)}
+                        />
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+}
+
+// Tool name plus a JSON Schema textarea that only commits valid JSON
+function SchemaCheckEditor({
+    tool,
+    schema,
+    onChange
+}: {
+    tool: string;
+    schema: JsonSchema;
+    onChange: (updates: { tool?: string; schema?: JsonSchema }) => void;
+}) {
+    const [schemaText, setSchemaText] = useState(() => JSON.stringify(schema, null, 2));
+    const [schemaError, setSchemaError] = useState<string | null>(null);
+
+    const handleSchemaChange = (text: string) => {
+        setSchemaText(text);
+        try {
+            onChange({ schema: JSON.parse(text) });
+            setSchemaError(null);
+        } catch (error) {
+            setSchemaError(error instanceof Error ? error.message : 'Invalid JSON');
+        }
+    };
+
+    return (
+        <div className="space-y-1.5">
+            <Input
+                value={tool}
+                placeholder="Tool name"
+                onChange={(e) => onChange({ tool: e.target.value })}
+                className="h-7 font-mono text-xs bg-background border-border"
+            />
+            <Textarea
+                value={schemaText}
+                onChange={(e) => handleSchemaChange(e.target.value)}
+                className="min-h-[80px] font-mono text-[10px] bg-background border-border resize-y"
+            />
+            {schemaError && (
+                <p className="text-[10px] text-destructive">{schemaError}</p>
+            )}
+        </div>
+    );
+}
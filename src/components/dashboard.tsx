@@ -7,6 +7,7 @@ import { ChatInterface } from '@/components/chat-interface';
 import { SimulationManager } from '@/components/simulation-manager';
 import { StateEditor } from '@/components/state-editor';
 import { BehaviorTestRunner } from '@/components/behavior-test-runner';
+import { AgentGraph } from '@/components/agent-graph';
 import { AnalyzeRefineModal } from '@/components/analyze-refine-modal';
 import { OnboardingGuideModal } from '@/components/onboarding-guide-modal';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -14,8 +15,9 @@ import { Button } from '@/components/ui/button';
 import { ChatMessage } from '@/lib/api';
 import { Persona } from '@/types/simulation';
 import { PromptSetVersion } from '@/types/polaris';
-import { fetchStateMemory, fetchPromptVersions, getVersionConfig, createPromptVersion, fetchMasterVersion, updateMasterVersion, saveOnboardingGuide, loadOnboardingGuide } from '@/app/actions';
-import { Sparkles, History, Save, Loader2, Cloud, CloudOff, BookOpen, FileText, MessageSquare, Play, FlaskConical } from 'lucide-react';
+import { fetchStateMemory, fetchPromptVersions, getVersionConfig, createPromptVersion, fetchMasterVersion, updateMasterVersion, saveOnboardingGuide, loadOnboardingGuide, fetchPlaceholderAliases } from '@/app/actions';
+import { DEFAULT_PLACEHOLDER_ALIASES } from '@/lib/templates';
+import { Sparkles, History, Save, Loader2, Cloud, CloudOff, BookOpen, FileText, MessageSquare, Play, FlaskConical, Workflow } from 'lucide-react';
 import {
     Select,
     SelectContent,
@@ -49,6 +51,11 @@ export function Dashboard({ agentId, initialNodes, initialStateMemory }: Dashboa
     // State memory for agent configuration
     const [stateMemory, setStateMemory] = useState<StateMemory | null>(initialStateMemory || null);
     const [stateOverrides, setStateOverrides] = useState<Record<string, string>>({});
+    const [placeholderAliases, setPlaceholderAliases] = useState<Record<string, string>>(DEFAULT_PLACEHOLDER_ALIASES);
+
+    // Sidebar tab, and the node editor to scroll to once the Prompts tab has rendered
+    const [activeTab, setActiveTab] = useState('prompts');
+    const pendingEditorNodeRef = useRef<string | null>(null);
 
     // Persistent Chat State
     const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
@@ -236,6 +243,10 @@ export function Dashboard({ agentId, initialNodes, initialStateMemory }: Dashboa
         }
     }, [agentId, initialStateMemory]);
 
+    useEffect(() => {
+        fetchPlaceholderAliases(agentId).then(setPlaceholderAliases).catch(console.error);
+    }, [agentId]);
+
     // Initialize state overrides from state memory ONLY if no master version exists
     // Master version takes priority over default state memory values
     useEffect(() => {
@@ -278,6 +289,18 @@ export function Dashboard({ agentId, initialNodes, initialStateMemory }: Dashboa
         setSimulationResults([]);
     };
 
+    // Open a node's prompt editor from the graph canvas
+    const handleOpenNodeEditor = (nodeId: string) => {
+        pendingEditorNodeRef.current = nodeId;
+        setActiveTab('prompts');
+    };
+
+    useEffect(() => {
+        if (activeTab !== 'prompts' || !pendingEditorNodeRef.current) return;
+        document.getElementById(pendingEditorNodeRef.current)?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+        pendingEditorNodeRef.current = null;
+    }, [activeTab]);
+
     // Calculate overrides by comparing current nodes with initial nodes
     const getOverrides = () => {
         return nodes.filter(n => {
@@ -418,7 +441,7 @@ export function Dashboard({ agentId, initialNodes, initialStateMemory }: Dashboa
                     </div>
                 </header>
 
-                <Tabs defaultValue="prompts" orientation="vertical" className="flex-1 w-full overflow-hidden">
+                <Tabs value={activeTab} onValueChange={setActiveTab} orientation="vertical" className="flex-1 w-full overflow-hidden">
                     <div className="flex h-full">
                         {/* Left Sidebar */}
                         <aside className="w-56 flex-shrink-0 flex flex-col border-r border-sidebar-border bg-transparent z-20">
@@ -431,6 +454,13 @@ export function Dashboard({ agentId, initialNodes, initialStateMemory }: Dashboa
                                         <FileText className="h-4 w-4 mr-2" />
                                         <span>Prompts</span>
                                     </TabsTrigger>
+                                    <TabsTrigger
+                                        value="graph"
+                                        className="w-full justify-start px-3 py-2 h-9 text-sm font-medium text-muted-foreground data-[state=active]:text-foreground data-[state=active]:bg-primary/10 data-[state=active]:shadow-none transition-all rounded-md hover:text-foreground hover:bg-muted/50 ring-0 focus-visible:ring-0 outline-none"
+                                    >
+                                        <Workflow className="h-4 w-4 mr-2" />
+                                        <span>Graph</span>
+                                    </TabsTrigger>
                                     <TabsTrigger
                                         value="simulation"
                                         className="w-full justify-start px-3 py-2 h-9 text-sm font-medium text-muted-foreground data-[state=active]:text-foreground data-[state=active]:bg-primary/10 data-[state=active]:shadow-none transition-all rounded-md hover:text-foreground hover:bg-muted/50 ring-0 focus-visible:ring-0 outline-none"
@@ -493,6 +523,8 @@ export function Dashboard({ agentId, initialNodes, initialStateMemory }: Dashboa
                                         agentId={agentId}
                                         stateMemory={stateMemory}
                                         onStateChange={handleStateChange}
+                                        placeholderAliases={placeholderAliases}
+                                        onPlaceholderAliasesChange={setPlaceholderAliases}
                                         currentOverrides={stateOverrides}
                                         allNodes={nodes}
                                     />
@@ -506,12 +538,19 @@ export function Dashboard({ agentId, initialNodes, initialStateMemory }: Dashboa
                                                 onUpdate={(type, content) => handleUpdateNode(node.id, type, content)}
                                                 allNodes={nodes}
                                                 stateFields={stateOverrides}
+                                                stateMemory={stateMemory}
+                                                placeholderAliases={placeholderAliases}
                                             />
                                         </div>
                                     ))}
                                 </div>
                             </TabsContent>
 
+                            {/* Graph Tab - Full Height */}
+                            <TabsContent value="graph" className="flex-1 overflow-hidden p-4 m-0 focus-visible:ring-0 outline-none">
+                                <AgentGraph agentId={agentId} nodes={nodes} onOpenNode={handleOpenNodeEditor} />
+                            </TabsContent>
+
                             {/* Simulation Tab - Full Height */}
                             <TabsContent value="simulation" className="flex-1 overflow-hidden p-4 m-0 focus-visible:ring-0 outline-none">
                                 <SimulationManager
@@ -0,0 +1,93 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Layers, Users } from 'lucide-react';
+import { BehaviorTestResult, FailureCluster } from '@/types/behavior-test';
+
+interface FailureClusterListProps {
+    clusters: FailureCluster[];
+    results: BehaviorTestResult[];
+    activeClusterId: string | null;
+    onSelectCluster: (clusterId: string | null) => void;
+    onOpenResult: (clusterId: string, resultId: string) => void;
+}
+
+// Failure modes for one experiment, largest first. Selecting one narrows the results list to it.
+export function FailureClusterList({ clusters, results, activeClusterId, onSelectCluster, onOpenResult }: FailureClusterListProps) {
+    const totalFailures = clusters.reduce((sum, c) => sum + c.resultIds.length, 0);
+    const resultsById = new Map(results.map(r => [r.id, r]));
+
+    return (
+        <div className="mt-4 rounded-lg border border-border">
+            <div className="flex items-center gap-2 px-3 py-2 border-b border-border">
+                <Layers className="h-4 w-4 text-muted-foreground" />
+                <h4 className="text-sm font-medium text-foreground">Failure Modes</h4>
+                <span className="text-[10px] text-muted-foreground">
+                    {totalFailures} failures in {clusters.length} {clusters.length === 1 ? 'group' : 'groups'}
+                </span>
+            </div>
+            <div className="divide-y divide-border">
+                {clusters.map((cluster) => {
+                    const isActive = cluster.id === activeClusterId;
+                    const share = totalFailures > 0 ? (cluster.resultIds.length / totalFailures) * 100 : 0;
+                    return (
+                        <div key={cluster.id} className={`px-3 py-2 text-xs ${isActive ? 'bg-primary/5' : ''}`}>
+                            <button
+                                className="w-full text-left space-y-1"
+                                onClick={() => onSelectCluster(isActive ? null : cluster.id)}
+                                title={isActive ? 'Show all results' : 'Show only this failure mode'}
+                            >
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className="font-medium text-foreground truncate">{cluster.name}</span>
+                                    <div className="flex items-center gap-2 shrink-0 text-muted-foreground">
+                                        <span className="flex items-center gap-1" title={cluster.personas.map(p => p.personaName).join(', ')}>
+                                            <Users className="h-3 w-3" />
+                                            {cluster.personas.length}
+                                        </span>
+                                        <Badge
+                                            variant="outline"
+                                            className="text-[10px] bg-red-500/10 text-red-500 border-red-500/20"
+                                        >
+                                            {cluster.resultIds.length}
+                                        </Badge>
+                                    </div>
+                                </div>
+                                <div className="h-1 rounded-full bg-muted overflow-hidden">
+                                    <div className="h-full bg-red-500/60" style={{ width: `${share}%` }} />
+                                </div>
+                                {cluster.description && (
+                                    <p className="text-muted-foreground">{cluster.description}</p>
+                                )}
+                            </button>
+
+                            {isActive && (
+                                <div className="mt-2 space-y-1.5">
+                                    <div className="text-[10px] text-muted-foreground">
+                                        Personas: {cluster.personas.map(p => p.personaName).join(', ')}
+                                    </div>
+                                    {cluster.exampleResultIds.map((resultId) => {
+                                        const result = resultsById.get(resultId);
+                                        if (!result) return null;
+                                        return (
+                                            <button
+                                                key={resultId}
+                                                className="w-full text-left p-2 rounded border border-border hover:bg-muted/10 transition-colors"
+                                                onClick={() => onOpenResult(cluster.id, resultId)}
+                                            >
+                                                <div className="flex items-center justify-between gap-2">
+                                                    <span className="font-medium text-foreground">{result.persona.name}</span>
+                                                    <span className="text-[10px] text-muted-foreground">Score {result.score.toFixed(2)}</span>
+                                                </div>
+                                                <p className="text-muted-foreground line-clamp-2">{result.rationale}</p>
+                                            </button>
+                                        );
+                                    })}
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+}
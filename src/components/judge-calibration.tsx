@@ -0,0 +1,381 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Play, ThumbsUp, ThumbsDown, Trash2, Scale } from 'lucide-react';
+import {
+    runJudgeCalibration,
+    labelSimulation,
+    removeCalibrationLabel,
+    fetchSimulationBatches,
+    fetchBatchSimulations
+} from '@/app/actions';
+import { BehaviorTest, CalibrationLabel, CalibrationRun, CalibrationSet } from '@/types/behavior-test';
+import { EnhancedSimulation, SimulationBatch } from '@/types/simulation';
+
+interface JudgeCalibrationDialogProps {
+    agentId: string;
+    test: BehaviorTest;
+    calibrationSet: CalibrationSet | null;
+    onCalibrationSetChange: (set: CalibrationSet) => void;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+// Measure how well a scorer prompt agrees with hand-labeled conversations before trusting it
+export function JudgeCalibrationDialog({
+    agentId,
+    test,
+    calibrationSet,
+    onCalibrationSetChange,
+    open,
+    onOpenChange
+}: JudgeCalibrationDialogProps) {
+    const [scorerPrompt, setScorerPrompt] = useState(test.scorerPrompt);
+    const [passThreshold, setPassThreshold] = useState(0.7);
+    const [isRunning, setIsRunning] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+
+    // Simulation transcripts that can be labeled alongside experiment results
+    const [batches, setBatches] = useState<SimulationBatch[]>([]);
+    const [selectedBatchId, setSelectedBatchId] = useState<string>('');
+    const [batchSimulations, setBatchSimulations] = useState<EnhancedSimulation[]>([]);
+
+    useEffect(() => {
+        setScorerPrompt(test.scorerPrompt);
+        setSelectedRunId(null);
+    }, [test.id, test.scorerPrompt]);
+
+    useEffect(() => {
+        if (!open) return;
+        fetchSimulationBatches(agentId).then(setBatches).catch(console.error);
+    }, [open, agentId]);
+
+    useEffect(() => {
+        if (!selectedBatchId) return;
+        fetchBatchSimulations(agentId, selectedBatchId)
+            .then(sims => setBatchSimulations(sims.filter(s => s.status === 'completed')))
+            .catch(console.error);
+    }, [agentId, selectedBatchId]);
+
+    const conversations = calibrationSet?.conversations || [];
+    const runs = calibrationSet?.runs || [];
+    const selectedRun = runs.find(r => r.id === selectedRunId) || runs[0];
+
+    const getSimulationLabel = (simulationId: string): CalibrationLabel | undefined =>
+        conversations.find(c => c.source.type === 'simulation' && c.source.simulationId === simulationId)?.label;
+
+    const handleLabelSimulation = async (simulationId: string, label: CalibrationLabel) => {
+        try {
+            onCalibrationSetChange(await labelSimulation(agentId, test, simulationId, label));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to label simulation');
+        }
+    };
+
+    const handleRemoveLabel = async (conversationId: string) => {
+        onCalibrationSetChange(await removeCalibrationLabel(agentId, test, conversationId));
+    };
+
+    const handleRunCalibration = async () => {
+        setIsRunning(true);
+        setError(null);
+        try {
+            const run = await runJudgeCalibration(agentId, test, scorerPrompt, passThreshold);
+            if (calibrationSet) {
+                onCalibrationSetChange({ ...calibrationSet, runs: [run, ...calibrationSet.runs] });
+            }
+            setSelectedRunId(run.id);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Calibration failed');
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    const passCount = conversations.filter(c => c.label === 'pass').length;
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <Scale className="h-4 w-4" />
+                        Calibrate Judge: {test.name}
+                    </DialogTitle>
+                    <DialogDescription>
+                        Label conversations pass/fail yourself, then check how often the scorer prompt agrees.
+                        Label results from the experiment list, or simulations below.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="grid grid-cols-2 gap-6">
+                    {/* Left: labeled conversations */}
+                    <div className="space-y-4 min-w-0">
+                        <div className="flex items-center justify-between">
+                            <h4 className="text-sm font-medium text-foreground">Labeled Conversations</h4>
+                            <div className="flex gap-1.5">
+                                <Badge variant="outline" className="text-[10px] bg-emerald-500/10 text-emerald-500 border-emerald-500/20">
+                                    {passCount} pass
+                                </Badge>
+                                <Badge variant="outline" className="text-[10px] bg-red-500/10 text-red-500 border-red-500/20">
+                                    {conversations.length - passCount} fail
+                                </Badge>
+                            </div>
+                        </div>
+
+                        <div className="max-h-[200px] overflow-y-auto space-y-1.5">
+                            {conversations.length === 0 && (
+                                <p className="text-xs text-muted-foreground">No labels yet.</p>
+                            )}
+                            {conversations.map((c) => (
+                                <div key={c.id} className="flex items-center justify-between gap-2 px-2 py-1.5 rounded border border-border text-xs">
+                                    <div className="flex items-center gap-2 min-w-0">
+                                        {c.label === 'pass'
+                                            ? <ThumbsUp className="h-3 w-3 shrink-0 text-emerald-500" />
+                                            : <ThumbsDown className="h-3 w-3 shrink-0 text-red-500" />}
+                                        <span className="truncate text-foreground">{c.persona.name}</span>
+                                        <span className="text-muted-foreground shrink-0">
+                                            {c.source.type === 'simulation' ? 'simulation' : 'experiment'}
+                                        </span>
+                                    </div>
+                                    <button
+                                        className="p-1 text-muted-foreground hover:text-destructive transition-colors"
+                                        onClick={() => handleRemoveLabel(c.id)}
+                                        title="Remove label"
+                                    >
+                                        <Trash2 className="h-3 w-3" />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+
+                        <div className="space-y-2">
+                            <label className="text-xs font-medium text-muted-foreground">Label simulations</label>
+                            <Select value={selectedBatchId} onValueChange={setSelectedBatchId}>
+                                <SelectTrigger className="h-8 text-xs">
+                                    <SelectValue placeholder="Choose a simulation batch" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {batches.map((batch) => (
+                                        <SelectItem key={batch.id} value={batch.id}>{batch.name}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            {selectedBatchId && (
+                                <div className="max-h-[200px] overflow-y-auto space-y-1.5">
+                                    {batchSimulations.map((sim) => {
+                                        const label = getSimulationLabel(sim.id);
+                                        return (
+                                            <div key={sim.id} className="flex items-center justify-between gap-2 px-2 py-1.5 rounded border border-border text-xs">
+                                                <span className="truncate text-foreground" title={sim.metadata.outcome}>
+                                                    #{sim.simulationNumber} {sim.metadata.name}
+                                                </span>
+                                                <div className="flex gap-1 shrink-0">
+                                                    <Button
+                                                        variant={label === 'pass' ? 'default' : 'outline'}
+                                                        size="sm"
+                                                        className="h-6 px-2"
+                                                        onClick={() => handleLabelSimulation(sim.id, 'pass')}
+                                                    >
+                                                        <ThumbsUp className="h-3 w-3" />
+                                                    </Button>
+                                                    <Button
+                                                        variant={label === 'fail' ? 'destructive' : 'outline'}
+                                                        size="sm"
+                                                        className="h-6 px-2"
+                                                        onClick={() => handleLabelSimulation(sim.id, 'fail')}
+                                                    >
+                                                        <ThumbsDown className="h-3 w-3" />
+                                                    </Button>
+                                                </div>
+                                            </div>
+                                        );
+                                    })}
+                                    {batchSimulations.length === 0 && (
+                                        <p className="text-xs text-muted-foreground">No completed simulations in this batch.</p>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    </div>
+
+                    {/* Right: scorer prompt and results */}
+                    <div className="space-y-4 min-w-0">
+                        <div className="space-y-2">
+                            <label className="text-xs font-medium text-muted-foreground">Scorer Prompt</label>
+                            <Textarea
+                                value={scorerPrompt}
+                                onChange={(e) => setScorerPrompt(e.target.value)}
+                                className="min-h-[140px] font-mono text-xs resize-y"
+                            />
+                            <div className="flex items-center gap-2">
+                                <span className="text-xs text-muted-foreground">Pass at</span>
+                                <Input
+                                    type="number"
+                                    min={0}
+                                    max={1}
+                                    step={0.05}
+                                    value={passThreshold}
+                                    onChange={(e) => setPassThreshold(Number(e.target.value))}
+                                    className="h-8 w-20 text-xs"
+                                />
+                                <Button
+                                    size="sm"
+                                    className="ml-auto"
+                                    onClick={handleRunCalibration}
+                                    disabled={isRunning || conversations.length === 0 || !scorerPrompt.trim()}
+                                >
+                                    {isRunning ? (
+                                        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                                    ) : (
+                                        <Play className="h-3 w-3 mr-1" />
+                                    )}
+                                    Run Calibration
+                                </Button>
+                            </div>
+                            {error && <p className="text-xs text-destructive">{error}</p>}
+                        </div>
+
+                        {selectedRun && (
+                            <CalibrationRunResults
+                                run={selectedRun}
+                                onUsePrompt={() => {
+                                    setScorerPrompt(selectedRun.scorerPrompt);
+                                    setPassThreshold(selectedRun.passThreshold);
+                                }}
+                            />
+                        )}
+
+                        {runs.length > 1 && (
+                            <div className="space-y-1">
+                                <label className="text-xs font-medium text-muted-foreground">History</label>
+                                {runs.map((run) => (
+                                    <button
+                                        key={run.id}
+                                        className={`w-full flex items-center justify-between px-2 py-1 rounded text-xs transition-colors ${run.id === selectedRun?.id ? 'bg-muted' : 'hover:bg-muted/50'}`}
+                                        onClick={() => setSelectedRunId(run.id)}
+                                    >
+                                        <span className="text-muted-foreground">{new Date(run.createdAt).toLocaleString()}</span>
+                                        <span className="text-foreground">
+                                            {run.metrics.agreement}% agree, F1 {run.metrics.f1.toFixed(2)}
+                                            {!!run.metrics.errors && <span className="text-amber-500">, {run.metrics.errors} errors</span>}
+                                        </span>
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+// Agreement stats, confusion matrix and the conversations the judge got wrong
+function CalibrationRunResults({ run, onUsePrompt }: { run: CalibrationRun; onUsePrompt: () => void }) {
+    const { metrics } = run;
+    const disagreements = run.predictions.filter(p => p.predicted && p.predicted !== p.label);
+    const errored = run.predictions.filter(p => p.error);
+
+    return (
+        <div className="space-y-3">
+            <div className="grid grid-cols-4 gap-2">
+                {[
+                    { label: 'Agreement', value: `${metrics.agreement}%` },
+                    { label: 'Precision', value: metrics.precision.toFixed(2) },
+                    { label: 'Recall', value: metrics.recall.toFixed(2) },
+                    { label: 'F1', value: metrics.f1.toFixed(2) },
+                ].map((stat) => (
+                    <div key={stat.label} className="bg-muted/10 rounded-lg p-2 text-center border border-border">
+                        <div className="text-lg font-bold text-foreground">{stat.value}</div>
+                        <div className="text-[10px] text-muted-foreground">{stat.label}</div>
+                    </div>
+                ))}
+            </div>
+            <p className="text-[10px] text-muted-foreground">
+                Precision and recall treat a failure as the positive case: recall is how many of your failures the judge caught.
+            </p>
+            {errored.length > 0 && (
+                <p className="text-[10px] text-amber-500">
+                    The judge errored on {errored.length} of {run.predictions.length} conversations. They are left out of these numbers.
+                </p>
+            )}
+
+            {/* Confusion matrix: rows are human labels, columns are judge verdicts */}
+            <table className="w-full text-xs border border-border rounded">
+                <thead>
+                    <tr className="text-muted-foreground">
+                        <th className="p-1.5 text-left font-normal"></th>
+                        <th className="p-1.5 font-normal">Judge pass</th>
+                        <th className="p-1.5 font-normal">Judge fail</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    <tr>
+                        <td className="p-1.5 text-muted-foreground">Human pass</td>
+                        <td className="p-1.5 text-center bg-emerald-500/10 text-emerald-500">{metrics.confusion.truePass}</td>
+                        <td className="p-1.5 text-center bg-red-500/10 text-red-500">{metrics.confusion.falseFail}</td>
+                    </tr>
+                    <tr>
+                        <td className="p-1.5 text-muted-foreground">Human fail</td>
+                        <td className="p-1.5 text-center bg-red-500/10 text-red-500">{metrics.confusion.falsePass}</td>
+                        <td className="p-1.5 text-center bg-emerald-500/10 text-emerald-500">{metrics.confusion.trueFail}</td>
+                    </tr>
+                </tbody>
+            </table>
+
+            {disagreements.length > 0 && (
+                <div className="space-y-1.5">
+                    <label className="text-xs font-medium text-muted-foreground">
+                        Disagreements ({disagreements.length})
+                    </label>
+                    <div className="max-h-[180px] overflow-y-auto space-y-1.5">
+                        {disagreements.map((p) => (
+                            <div key={p.conversationId} className="p-2 rounded border border-border text-xs space-y-1">
+                                <div className="text-muted-foreground">
+                                    You: <span className="text-foreground">{p.label}</span> · Judge: <span className="text-foreground">{p.predicted}</span> ({(p.score ?? 0).toFixed(2)})
+                                </div>
+                                <p className="text-foreground line-clamp-3">{p.rationale}</p>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {errored.length > 0 && (
+                <div className="space-y-1.5">
+                    <label className="text-xs font-medium text-muted-foreground">
+                        Judge errors ({errored.length})
+                    </label>
+                    <div className="max-h-[120px] overflow-y-auto space-y-1.5">
+                        {errored.map((p) => (
+                            <div key={p.conversationId} className="p-2 rounded border border-amber-500/30 text-xs space-y-1">
+                                <div className="text-muted-foreground">
+                                    You: <span className="text-foreground">{p.label}</span> · Judge: <span className="text-amber-500">error</span>
+                                </div>
+                                <p className="text-foreground line-clamp-2">{p.error}</p>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            <Button variant="ghost" size="sm" className="text-xs text-muted-foreground" onClick={onUsePrompt}>
+                Load this run&apos;s prompt
+            </Button>
+        </div>
+    );
+}
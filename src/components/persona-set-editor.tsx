@@ -0,0 +1,284 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Snowflake, Plus, X, Save } from 'lucide-react';
+import {
+    fetchBehaviorTests,
+    fetchPersonaSets,
+    freezeExperimentPersonas,
+    savePersonaSetVersion,
+    updateTestPersonaSettings
+} from '@/app/actions';
+import { BehaviorExperiment, BehaviorTest, PersonaSet } from '@/types/behavior-test';
+import { Persona } from '@/types/simulation';
+
+interface PersonaSetDialogProps {
+    agentId: string;
+    experiment: BehaviorExperiment;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+// 'fresh' in the version picker means no frozen set - personas are generated each run
+const FRESH_PERSONAS = 'fresh';
+
+// Freeze, inspect and edit the persona fixture a behavior test runs on
+export function PersonaSetDialog({ agentId, experiment, open, onOpenChange }: PersonaSetDialogProps) {
+    const [savedTest, setSavedTest] = useState<BehaviorTest | null>(null);
+    const [personaSets, setPersonaSets] = useState<PersonaSet[]>([]);
+    const [viewedSetId, setViewedSetId] = useState<string>(FRESH_PERSONAS);
+    const [draftPersonas, setDraftPersonas] = useState<Persona[]>([]);
+    const [setName, setSetName] = useState('');
+    const [freshCount, setFreshCount] = useState(0);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const experimentPersonas = experiment.personas || experiment.results.map(r => r.persona);
+
+    useEffect(() => {
+        if (!open) return;
+        const load = async () => {
+            const [tests, sets] = await Promise.all([
+                fetchBehaviorTests(agentId),
+                fetchPersonaSets(agentId, experiment.testId),
+            ]);
+            const test = tests.find(t => t.id === experiment.testId) || null;
+            const activeSet = sets.find(s => s.id === test?.personaSetId) || sets[0];
+            setSavedTest(test);
+            setPersonaSets(sets);
+            setViewedSetId(activeSet?.id || FRESH_PERSONAS);
+            setDraftPersonas(activeSet?.personas || []);
+            setSetName(activeSet?.name || `${experiment.test.name} personas`);
+            setFreshCount(test?.freshPersonaCount || 0);
+            setError(null);
+        };
+        load().catch(console.error);
+    }, [open, agentId, experiment.testId, experiment.test.name]);
+
+    const viewedSet = personaSets.find(s => s.id === viewedSetId);
+    const activeSetId = savedTest?.personaSetId;
+    const isDirty = !!viewedSet && JSON.stringify(viewedSet.personas) !== JSON.stringify(draftPersonas);
+
+    const applyResult = (result: { test: BehaviorTest; personaSet: PersonaSet }) => {
+        setSavedTest(result.test);
+        setPersonaSets(prev => [result.personaSet, ...prev]);
+        setViewedSetId(result.personaSet.id);
+        setDraftPersonas(result.personaSet.personas);
+    };
+
+    const runSave = async (save: () => Promise<void>) => {
+        setIsSaving(true);
+        setError(null);
+        try {
+            await save();
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save personas');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleFreeze = () => runSave(async () => {
+        applyResult(await freezeExperimentPersonas(agentId, experiment.id, setName));
+    });
+
+    const handleSaveVersion = () => runSave(async () => {
+        applyResult(await savePersonaSetVersion(agentId, experiment.testId, draftPersonas, setName));
+    });
+
+    const handleSaveSettings = (personaSetId: string | null, count: number) => runSave(async () => {
+        setSavedTest(await updateTestPersonaSettings(agentId, experiment.testId, personaSetId, count));
+    });
+
+    const handleViewSet = (setId: string) => {
+        setViewedSetId(setId);
+        setDraftPersonas(personaSets.find(s => s.id === setId)?.personas || []);
+    };
+
+    const updatePersona = (id: string, updates: Partial<Persona>) => {
+        setDraftPersonas(prev => prev.map(p => p.id === id ? { ...p, ...updates } : p));
+    };
+
+    const addPersona = () => {
+        setDraftPersonas(prev => [...prev, {
+            id: `persona-${Date.now()}`,
+            name: 'New Persona',
+            role: '',
+            goal: '',
+            context: '',
+            tone: '',
+        }]);
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <Snowflake className="h-4 w-4" />
+                        Personas: {experiment.test.name}
+                    </DialogTitle>
+                    <DialogDescription>
+                        Freeze a persona set so every run of this test talks to the same leads, and pass rates move with your prompts instead of persona noise.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {/* Which set the test runs on */}
+                <div className="p-3 rounded-lg border border-border bg-muted/10 space-y-2">
+                    <div className="flex items-center gap-2">
+                        <span className="text-xs text-muted-foreground shrink-0">Runs use</span>
+                        <Select
+                            value={activeSetId || FRESH_PERSONAS}
+                            onValueChange={(v) => handleSaveSettings(v === FRESH_PERSONAS ? null : v, freshCount)}
+                            disabled={!savedTest || isSaving}
+                        >
+                            <SelectTrigger className="h-8 text-xs flex-1">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={FRESH_PERSONAS}>Fresh personas every run</SelectItem>
+                                {personaSets.map((s) => (
+                                    <SelectItem key={s.id} value={s.id}>
+                                        {s.name} v{s.version} ({s.personas.length})
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    {activeSetId && (
+                        <div className="flex items-center gap-2">
+                            <span className="text-xs text-muted-foreground shrink-0">Plus</span>
+                            <Input
+                                type="number"
+                                min={0}
+                                value={freshCount}
+                                onChange={(e) => setFreshCount(Number(e.target.value))}
+                                onBlur={() => handleSaveSettings(activeSetId, freshCount)}
+                                className="h-8 w-20 text-xs"
+                            />
+                            <span className="text-xs text-muted-foreground">freshly generated personas each run</span>
+                        </div>
+                    )}
+                    {!savedTest && (
+                        <p className="text-[10px] text-muted-foreground">Freeze personas first to save this test&apos;s persona settings.</p>
+                    )}
+                </div>
+
+                {/* Freeze from this experiment */}
+                <div className="flex items-center gap-2">
+                    <Input
+                        value={setName}
+                        onChange={(e) => setSetName(e.target.value)}
+                        placeholder="Persona set name"
+                        className="h-8 text-xs flex-1"
+                    />
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={handleFreeze}
+                        disabled={isSaving || experimentPersonas.length === 0}
+                    >
+                        {isSaving ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Snowflake className="h-3 w-3 mr-1" />}
+                        Freeze this experiment&apos;s {experimentPersonas.length} personas
+                    </Button>
+                </div>
+                {error && <p className="text-xs text-destructive">{error}</p>}
+
+                {/* Inspect and edit a version */}
+                {personaSets.length > 0 && (
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between gap-2">
+                            <Select value={viewedSetId} onValueChange={handleViewSet}>
+                                <SelectTrigger className="h-8 text-xs w-[260px]">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {personaSets.map((s) => (
+                                        <SelectItem key={s.id} value={s.id}>
+                                            {s.name} v{s.version} - {new Date(s.createdAt).toLocaleDateString()}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <div className="flex items-center gap-2">
+                                {viewedSetId === activeSetId && (
+                                    <Badge variant="outline" className="text-[10px] bg-primary/10 text-primary border-primary/20">In use</Badge>
+                                )}
+                                <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={addPersona}>
+                                    <Plus className="h-3 w-3 mr-1" />
+                                    Add
+                                </Button>
+                                <Button
+                                    size="sm"
+                                    className="h-7 text-xs"
+                                    onClick={handleSaveVersion}
+                                    disabled={!isDirty || isSaving || draftPersonas.length === 0}
+                                >
+                                    <Save className="h-3 w-3 mr-1" />
+                                    Save as v{Math.max(...personaSets.map(s => s.version)) + 1}
+                                </Button>
+                            </div>
+                        </div>
+
+                        <div className="space-y-2">
+                            {draftPersonas.map((persona) => (
+                                <div key={persona.id} className="p-2 rounded-md border border-border space-y-1.5">
+                                    <div className="flex items-center gap-2">
+                                        <Input
+                                            value={persona.name}
+                                            onChange={(e) => updatePersona(persona.id, { name: e.target.value })}
+                                            className="h-7 text-xs font-medium"
+                                        />
+                                        <Input
+                                            value={persona.role}
+                                            placeholder="Role"
+                                            onChange={(e) => updatePersona(persona.id, { role: e.target.value })}
+                                            className="h-7 text-xs"
+                                        />
+                                        <Input
+                                            value={persona.tone}
+                                            placeholder="Tone"
+                                            onChange={(e) => updatePersona(persona.id, { tone: e.target.value })}
+                                            className="h-7 text-xs w-32"
+                                        />
+                                        <button
+                                            className="p-1 text-muted-foreground hover:text-destructive transition-colors"
+                                            onClick={() => setDraftPersonas(prev => prev.filter(p => p.id !== persona.id))}
+                                            title="Remove persona"
+                                        >
+                                            <X className="h-3.5 w-3.5" />
+                                        </button>
+                                    </div>
+                                    <Input
+                                        value={persona.goal}
+                                        placeholder="Goal"
+                                        onChange={(e) => updatePersona(persona.id, { goal: e.target.value })}
+                                        className="h-7 text-xs"
+                                    />
+                                    <Textarea
+                                        value={persona.context}
+                                        placeholder="Context"
+                                        onChange={(e) => updatePersona(persona.id, { context: e.target.value })}
+                                        className="min-h-[48px] text-xs resize-y"
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -1,16 +1,19 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
-import { OverridableNode, PromptVersion } from '@/types/polaris';
+import { OverridableNode, PromptVersion, StateMemory } from '@/types/polaris';
 import { saveNodeOverride, saveVersion, fetchVersions, updateVersion } from '@/app/actions';
 import { motion } from 'framer-motion';
-import { Save, RefreshCw, History, GitBranch, SplitSquareHorizontal } from 'lucide-react';
+import { Save, RefreshCw, History, GitBranch, SplitSquareHorizontal, Eye } from 'lucide-react';
 import { PromptOptimizer } from '@/components/prompt-optimizer';
 import { PromptComparison } from '@/components/prompt-comparison';
+import { RenderedPromptPreview } from '@/components/rendered-prompt-preview';
+import { TemplateLintIssues } from '@/components/template-lint-issues';
+import { lintTemplates, getNodeLintIssues, mergeStateValues, TemplateLintIssue } from '@/lib/template-lint';
 import {
     Select,
     SelectContent,
@@ -36,9 +39,11 @@ interface PromptEditorProps {
     onUpdate?: (type: 'systemMessagePrompt' | 'humanMessagePrompt', content: string) => void;
     allNodes?: OverridableNode[];
     stateFields?: Record<string, string>;
+    stateMemory?: StateMemory | null;
+    placeholderAliases?: Record<string, string>;
 }
 
-export function PromptEditor({ agentId, node, onUpdate, allNodes, stateFields }: PromptEditorProps) {
+export function PromptEditor({ agentId, node, onUpdate, allNodes, stateFields, stateMemory, placeholderAliases }: PromptEditorProps) {
     const [systemPrompt, setSystemPrompt] = useState(node.systemMessagePrompt || '');
     const [humanPrompt, setHumanPrompt] = useState(node.humanMessagePrompt || '');
     const [isSaving, setIsSaving] = useState(false);
@@ -48,6 +53,15 @@ export function PromptEditor({ agentId, node, onUpdate, allNodes, stateFields }:
     const [isVersionDialogOpen, setIsVersionDialogOpen] = useState(false);
     const [isCompareDialogOpen, setIsCompareDialogOpen] = useState(false);
     const [compareVersionId, setCompareVersionId] = useState<string>('');
+    const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+    const [lintIssues, setLintIssues] = useState<TemplateLintIssue[]>([]);
+
+    // The node as it would be sent with the unsaved edits, for the rendered preview
+    const draftNode = useMemo(() => ({
+        ...node,
+        systemMessagePrompt: node.systemMessagePrompt !== undefined ? systemPrompt : undefined,
+        humanMessagePrompt: node.humanMessagePrompt !== undefined ? humanPrompt : undefined,
+    }), [node, systemPrompt, humanPrompt]);
 
     // Sync local state when node prop changes (e.g., when master version loads)
     useEffect(() => {
@@ -109,6 +123,14 @@ export function PromptEditor({ agentId, node, onUpdate, allNodes, stateFields }:
                 await loadVersions();
             }
 
+            // Check the saved prompts' placeholders against the state fields
+            if (stateMemory) {
+                const savedNode = { ...node, systemMessagePrompt: systemPrompt, humanMessagePrompt: humanPrompt };
+                const nodes = (allNodes || [node]).map(n => n.id === node.id ? savedNode : n);
+                const issues = lintTemplates(nodes, stateMemory.fields, mergeStateValues(stateMemory.fields, stateFields), placeholderAliases);
+                setLintIssues(getNodeLintIssues(issues, node.id));
+            }
+
             // Simulate network delay for effect
             await new Promise(resolve => setTimeout(resolve, 500));
         } catch (error) {
@@ -236,8 +258,27 @@ export function PromptEditor({ agentId, node, onUpdate, allNodes, stateFields }:
                             )}
                         </DialogContent>
                     </Dialog>
+
+                    <Button
+                        variant="outline"
+                        size="sm"
+                        className="ml-2 border-border text-muted-foreground hover:text-foreground"
+                        onClick={() => setIsPreviewOpen(true)}
+                    >
+                        <Eye className="h-4 w-4 mr-2" />
+                        Preview
+                    </Button>
+                    <RenderedPromptPreview
+                        agentId={agentId}
+                        node={draftNode}
+                        stateOverrides={stateFields}
+                        open={isPreviewOpen}
+                        onOpenChange={setIsPreviewOpen}
+                    />
                 </CardHeader>
                 <CardContent className="space-y-6">
+                    <TemplateLintIssues issues={lintIssues} showPromptType={node.humanMessagePrompt !== undefined} />
+
                     {node.systemMessagePrompt !== undefined && (
                         <div className="space-y-2">
                             <div className="flex justify-between items-center">
@@ -0,0 +1,364 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Play, Square, Trash2, Wand2, ExternalLink, ChevronDown, ChevronUp, Trophy } from 'lucide-react';
+import {
+    startPromptOptimization,
+    fetchPromptOptimizationRuns,
+    fetchPromptOptimizationRun,
+    cancelPromptOptimization,
+    deletePromptOptimizationRunAction
+} from '@/app/actions';
+import { BehaviorTest, OptimizationCandidate, PromptOptimizationRun } from '@/types/behavior-test';
+import { OverridableNode, PromptSetVersion } from '@/types/polaris';
+import { DEFAULT_OPTIMIZATION_BUDGET, MAX_OPTIMIZATION_BUDGET } from '@/lib/optimizer';
+import { toVariantSource } from '@/components/ab-experiment';
+import { UnifiedDiff } from '@/components/unified-diff';
+
+interface PromptOptimizationDialogProps {
+    agentId: string;
+    test: Pick<BehaviorTest, 'id' | 'name'>;
+    nodes: OverridableNode[];
+    stateOverrides?: Record<string, string>;
+    versions: PromptSetVersion[];
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onOpenExperiment: (experimentId: string) => void;
+}
+
+// Let the optimizer edit prompts against one test until it runs out of budget or hits 100%
+export function PromptOptimizationDialog({
+    agentId,
+    test,
+    nodes,
+    stateOverrides,
+    versions,
+    open,
+    onOpenChange,
+    onOpenExperiment
+}: PromptOptimizationDialogProps) {
+    const [runs, setRuns] = useState<PromptOptimizationRun[]>([]);
+    const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+    const [startFrom, setStartFrom] = useState<string>('current');
+    const [budget, setBudget] = useState(DEFAULT_OPTIMIZATION_BUDGET);
+    const [isStarting, setIsStarting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!open) return;
+        fetchPromptOptimizationRuns(agentId, test.id).then(loaded => {
+            setRuns(loaded);
+            setSelectedRunId(loaded[0]?.id || null);
+        }).catch(console.error);
+    }, [open, agentId, test.id]);
+
+    const runningRunId = runs.find(r => r.status === 'running')?.id;
+
+    // Poll the running optimization until it finishes
+    useEffect(() => {
+        if (!open || !runningRunId) return;
+
+        const interval = setInterval(async () => {
+            try {
+                const latest = await fetchPromptOptimizationRun(agentId, runningRunId);
+                if (!latest) return;
+                setRuns(prev => prev.map(r => r.id === latest.id ? latest : r));
+            } catch (err) {
+                console.error('Failed to fetch optimization progress:', err);
+            }
+        }, 2000);
+
+        return () => clearInterval(interval);
+    }, [open, agentId, runningRunId]);
+
+    const handleStart = async () => {
+        setIsStarting(true);
+        setError(null);
+        try {
+            const optimizationRun = await startPromptOptimization(
+                agentId,
+                test.id,
+                toVariantSource(startFrom),
+                budget,
+                { nodes, stateOverrides }
+            );
+            setRuns(prev => [optimizationRun, ...prev]);
+            setSelectedRunId(optimizationRun.id);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to start optimizer');
+        } finally {
+            setIsStarting(false);
+        }
+    };
+
+    const handleCancel = async (runId: string) => {
+        const updated = await cancelPromptOptimization(agentId, runId);
+        if (updated) {
+            setRuns(prev => prev.map(r => r.id === updated.id ? updated : r));
+        }
+    };
+
+    const handleDelete = async (runId: string) => {
+        if (!confirm('Delete this optimization run? Its experiments and any saved version are kept.')) return;
+        await deletePromptOptimizationRunAction(agentId, runId);
+        setRuns(prev => prev.filter(r => r.id !== runId));
+        setSelectedRunId(prev => prev === runId ? null : prev);
+    };
+
+    const selectedRun = runs.find(r => r.id === selectedRunId);
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <Wand2 className="h-4 w-4" />
+                        Optimize: {test.name}
+                    </DialogTitle>
+                    <DialogDescription>
+                        Proposes prompt and state edits from the failing conversations, runs this test on each candidate with the same personas, and keeps the best. The winner is saved as a new version.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {/* Launch */}
+                <div className="flex items-center gap-2">
+                    <span className="text-xs text-muted-foreground shrink-0">Start from</span>
+                    <Select value={startFrom} onValueChange={setStartFrom}>
+                        <SelectTrigger className="h-8 text-xs flex-1">
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value="current">Current Config</SelectItem>
+                            <SelectItem value="master">Master</SelectItem>
+                            {versions.map((v) => (
+                                <SelectItem key={v.id} value={v.id}>{v.name}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <span className="text-xs text-muted-foreground shrink-0">Budget</span>
+                    <Input
+                        type="number"
+                        min={1}
+                        max={MAX_OPTIMIZATION_BUDGET}
+                        value={budget}
+                        onChange={(e) => setBudget(Number(e.target.value))}
+                        className="h-8 w-16 text-xs"
+                    />
+                    <span className="text-xs text-muted-foreground shrink-0">candidates</span>
+                    <Button
+                        size="sm"
+                        onClick={handleStart}
+                        disabled={isStarting || !!runningRunId || budget < 1}
+                    >
+                        {isStarting ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Play className="h-3 w-3 mr-1" />}
+                        Optimize
+                    </Button>
+                </div>
+                <p className="text-[10px] text-muted-foreground">
+                    Each candidate is a full run of the test, so a budget of {budget} costs {budget + 1} experiments including the starting config.
+                </p>
+                {error && <p className="text-xs text-destructive">{error}</p>}
+
+                <div className="grid grid-cols-[200px_1fr] gap-4 min-h-[300px]">
+                    {/* Past optimization runs for this test */}
+                    <div className="space-y-1.5 border-r border-border pr-4">
+                        {runs.length === 0 && (
+                            <p className="text-xs text-muted-foreground">No optimization runs yet.</p>
+                        )}
+                        {runs.map((run) => {
+                            const best = run.candidates.find(c => c.id === run.bestCandidateId);
+                            return (
+                                <button
+                                    key={run.id}
+                                    className={`w-full text-left p-2 rounded border text-xs transition-colors ${run.id === selectedRunId
+                                        ? 'bg-primary/5 border-primary/20'
+                                        : 'border-border hover:bg-muted/10'
+                                        }`}
+                                    onClick={() => setSelectedRunId(run.id)}
+                                >
+                                    <div className="font-medium text-foreground truncate">From {run.startingLabel}</div>
+                                    <div className="flex items-center justify-between mt-1">
+                                        <span className="text-[10px] text-muted-foreground">{new Date(run.createdAt).toLocaleDateString()}</span>
+                                        {run.status === 'running' ? (
+                                            <Loader2 className="h-3 w-3 animate-spin text-primary" />
+                                        ) : best?.passRate !== undefined && (
+                                            <span className="text-[10px] font-medium text-foreground">
+                                                {run.candidates[0].passRate ?? 0}% → {best.passRate}%
+                                            </span>
+                                        )}
+                                    </div>
+                                </button>
+                            );
+                        })}
+                    </div>
+
+                    {/* Trajectory */}
+                    {selectedRun ? (
+                        <OptimizationReport
+                            run={selectedRun}
+                            onCancel={() => handleCancel(selectedRun.id)}
+                            onDelete={() => handleDelete(selectedRun.id)}
+                            onOpenExperiment={onOpenExperiment}
+                        />
+                    ) : (
+                        <div className="flex items-center justify-center text-xs text-muted-foreground">
+                            Select an optimization run to see its trajectory
+                        </div>
+                    )}
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+function OptimizationReport({
+    run,
+    onCancel,
+    onDelete,
+    onOpenExperiment
+}: {
+    run: PromptOptimizationRun;
+    onCancel: () => void;
+    onDelete: () => void;
+    onOpenExperiment: (experimentId: string) => void;
+}) {
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+    const tried = run.candidates.length - 1;
+
+    return (
+        <div className="space-y-3 min-w-0">
+            <div className="flex items-start justify-between gap-2">
+                <div>
+                    <h4 className="text-sm font-medium text-foreground">From {run.startingLabel}</h4>
+                    <p className="text-[10px] text-muted-foreground">
+                        {tried}/{run.budget} candidates tried on {run.personas.length} shared personas
+                        {run.status !== 'running' && ` · ${run.status}`}
+                    </p>
+                </div>
+                {run.status === 'running' ? (
+                    <Button variant="outline" size="sm" className="h-7 text-xs" onClick={onCancel}>
+                        <Square className="h-3 w-3 mr-1" />
+                        Stop
+                    </Button>
+                ) : (
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 text-muted-foreground hover:text-destructive"
+                        onClick={onDelete}
+                    >
+                        <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                )}
+            </div>
+
+            {run.error && <p className="text-xs text-destructive">{run.error}</p>}
+            {run.savedVersionName && (
+                <div className="flex items-center gap-2 px-3 py-2 rounded-lg border text-xs bg-emerald-500/10 border-emerald-500/20 text-emerald-500">
+                    <Trophy className="h-3.5 w-3.5 shrink-0" />
+                    Saved the winner as version &quot;{run.savedVersionName}&quot;
+                </div>
+            )}
+            {run.status !== 'running' && !run.savedVersionName && run.candidates[0].status === 'completed' && (
+                <p className="text-xs text-muted-foreground">No candidate beat the starting config, so no version was saved.</p>
+            )}
+
+            <div className="rounded-lg border border-border divide-y divide-border">
+                {run.candidates.map((candidate) => (
+                    <CandidateRow
+                        key={candidate.id}
+                        candidate={candidate}
+                        isBest={candidate.id === run.bestCandidateId}
+                        isExpanded={expandedId === candidate.id}
+                        onToggle={() => setExpandedId(prev => prev === candidate.id ? null : candidate.id)}
+                        onOpenExperiment={onOpenExperiment}
+                    />
+                ))}
+            </div>
+        </div>
+    );
+}
+
+function CandidateRow({
+    candidate,
+    isBest,
+    isExpanded,
+    onToggle,
+    onOpenExperiment
+}: {
+    candidate: OptimizationCandidate;
+    isBest: boolean;
+    isExpanded: boolean;
+    onToggle: () => void;
+    onOpenExperiment: (experimentId: string) => void;
+}) {
+    return (
+        <div className="text-xs">
+            <div className="flex items-center justify-between gap-2 px-3 py-2">
+                <button className="flex items-center gap-2 min-w-0 text-left" onClick={onToggle} disabled={candidate.edits.length === 0}>
+                    <span className="text-muted-foreground shrink-0 w-5">#{candidate.iteration}</span>
+                    <span className="truncate text-foreground">{candidate.changeSummary || 'Proposing edits...'}</span>
+                    {candidate.edits.length > 0 && (
+                        isExpanded
+                            ? <ChevronUp className="h-3 w-3 shrink-0 text-muted-foreground" />
+                            : <ChevronDown className="h-3 w-3 shrink-0 text-muted-foreground" />
+                    )}
+                </button>
+                <div className="flex items-center gap-2 shrink-0 text-muted-foreground">
+                    {isBest && (
+                        <Badge variant="outline" className="text-[10px] bg-emerald-500/10 text-emerald-500 border-emerald-500/20">Best</Badge>
+                    )}
+                    {candidate.error && (
+                        <span className="text-destructive truncate max-w-[160px]" title={candidate.error}>{candidate.error}</span>
+                    )}
+                    {candidate.status === 'running' || candidate.status === 'pending' ? (
+                        <Loader2 className="h-3 w-3 animate-spin text-primary" />
+                    ) : candidate.passRate !== undefined && (
+                        <>
+                            <span>avg {candidate.avgScore?.toFixed(2)}</span>
+                            <Badge variant="outline" className="text-[10px] border-border text-foreground">
+                                {candidate.passRate}%
+                            </Badge>
+                        </>
+                    )}
+                    {candidate.experimentId && (
+                        <button
+                            className="p-1 hover:text-primary transition-colors"
+                            onClick={() => onOpenExperiment(candidate.experimentId!)}
+                            title="Open experiment"
+                        >
+                            <ExternalLink className="h-3.5 w-3.5" />
+                        </button>
+                    )}
+                </div>
+            </div>
+            {isExpanded && (
+                <div className="px-3 pb-3 space-y-3">
+                    {candidate.edits.map((edit) => (
+                        <div key={`${edit.fieldType}-${edit.nodeId || edit.field}`} className="space-y-1">
+                            <div className="flex items-center gap-2">
+                                <Badge variant="outline" className="text-[10px] border-border text-muted-foreground">
+                                    {edit.fieldType === 'state' ? 'State Field' : 'Node Prompt'}
+                                </Badge>
+                                <span className="font-medium text-foreground">{edit.field}</span>
+                            </div>
+                            <p className="text-[10px] text-muted-foreground">{edit.explanation}</p>
+                            <UnifiedDiff original={edit.before} modified={edit.after} />
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,310 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Play, Square, CheckCircle2, XCircle, Ban, Clock, ExternalLink, Trash2, ClipboardCheck } from 'lucide-react';
+import {
+    startRegressionSuite,
+    fetchRegressionSuiteRuns,
+    fetchRegressionSuiteRun,
+    cancelRegressionSuite,
+    deleteRegressionSuiteRunAction
+} from '@/app/actions';
+import { RegressionSuiteRun, RegressionSuiteTestRun } from '@/types/behavior-test';
+import { PromptSetVersion } from '@/types/polaris';
+
+interface RegressionSuiteDialogProps {
+    agentId: string;
+    versions: PromptSetVersion[];
+    defaultVersionId?: string;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onOpenExperiment: (experimentId: string) => void;
+}
+
+// Run every saved behavior test against a prompt version and show the release report
+export function RegressionSuiteDialog({
+    agentId,
+    versions,
+    defaultVersionId,
+    open,
+    onOpenChange,
+    onOpenExperiment
+}: RegressionSuiteDialogProps) {
+    const [suiteRuns, setSuiteRuns] = useState<RegressionSuiteRun[]>([]);
+    const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+    const [versionId, setVersionId] = useState<string>('');
+    const [minPassRate, setMinPassRate] = useState(80);
+    const [isStarting, setIsStarting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!open) return;
+        setVersionId(prev => prev || defaultVersionId || versions[0]?.id || '');
+        fetchRegressionSuiteRuns(agentId).then(runs => {
+            setSuiteRuns(runs);
+            setSelectedRunId(prev => prev || runs[0]?.id || null);
+        }).catch(console.error);
+    }, [open, agentId, defaultVersionId, versions]);
+
+    const runningRunId = suiteRuns.find(r => r.status === 'running')?.id;
+
+    // Poll the running suite until every test has finished
+    useEffect(() => {
+        if (!open || !runningRunId) return;
+
+        const interval = setInterval(async () => {
+            try {
+                const latest = await fetchRegressionSuiteRun(agentId, runningRunId);
+                if (!latest) return;
+                setSuiteRuns(prev => prev.map(r => r.id === latest.id ? latest : r));
+            } catch (err) {
+                console.error('Failed to fetch suite progress:', err);
+            }
+        }, 2000);
+
+        return () => clearInterval(interval);
+    }, [open, agentId, runningRunId]);
+
+    const handleStart = async () => {
+        if (!versionId) return;
+        setIsStarting(true);
+        setError(null);
+        try {
+            const suiteRun = await startRegressionSuite(agentId, versionId, minPassRate);
+            setSuiteRuns(prev => [suiteRun, ...prev]);
+            setSelectedRunId(suiteRun.id);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to start regression suite');
+        } finally {
+            setIsStarting(false);
+        }
+    };
+
+    const handleCancel = async (runId: string) => {
+        const updated = await cancelRegressionSuite(agentId, runId);
+        if (updated) {
+            setSuiteRuns(prev => prev.map(r => r.id === updated.id ? updated : r));
+        }
+    };
+
+    const handleDelete = async (runId: string) => {
+        if (!confirm('Delete this release report? The experiments it ran are kept.')) return;
+        await deleteRegressionSuiteRunAction(agentId, runId);
+        setSuiteRuns(prev => prev.filter(r => r.id !== runId));
+        setSelectedRunId(prev => prev === runId ? null : prev);
+    };
+
+    const selectedRun = suiteRuns.find(r => r.id === selectedRunId);
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <ClipboardCheck className="h-4 w-4" />
+                        Regression Suite
+                    </DialogTitle>
+                    <DialogDescription>
+                        Runs every saved behavior test against a prompt version. The version passes only if every test reaches the minimum pass rate.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {/* Launch */}
+                <div className="flex items-center gap-2">
+                    <Select value={versionId} onValueChange={setVersionId}>
+                        <SelectTrigger className="h-8 text-xs flex-1">
+                            <SelectValue placeholder="Select prompt version..." />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {versions.map((v) => (
+                                <SelectItem key={v.id} value={v.id}>{v.name}</SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <span className="text-xs text-muted-foreground shrink-0">Min pass rate</span>
+                    <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={minPassRate}
+                        onChange={(e) => setMinPassRate(Number(e.target.value))}
+                        className="h-8 w-16 text-xs"
+                    />
+                    <span className="text-xs text-muted-foreground">%</span>
+                    <Button
+                        size="sm"
+                        onClick={handleStart}
+                        disabled={!versionId || isStarting || !!runningRunId}
+                    >
+                        {isStarting ? <Loader2 className="h-3 w-3 mr-1 animate-spin" /> : <Play className="h-3 w-3 mr-1" />}
+                        Run All Tests
+                    </Button>
+                </div>
+                {versions.length === 0 && (
+                    <p className="text-xs text-muted-foreground">Save a prompt version first - suites run against saved versions.</p>
+                )}
+                {error && <p className="text-xs text-destructive">{error}</p>}
+
+                <div className="grid grid-cols-[220px_1fr] gap-4 min-h-[300px]">
+                    {/* Past suite runs */}
+                    <div className="space-y-1.5 border-r border-border pr-4">
+                        {suiteRuns.length === 0 && (
+                            <p className="text-xs text-muted-foreground">No suite runs yet.</p>
+                        )}
+                        {suiteRuns.map((run) => (
+                            <button
+                                key={run.id}
+                                className={`w-full text-left p-2 rounded border text-xs transition-colors ${run.id === selectedRunId
+                                    ? 'bg-primary/5 border-primary/20'
+                                    : 'border-border hover:bg-muted/10'
+                                    }`}
+                                onClick={() => setSelectedRunId(run.id)}
+                            >
+                                <div className="flex items-center justify-between gap-2">
+                                    <span className="font-medium text-foreground truncate">{run.versionName}</span>
+                                    <SuiteVerdictBadge run={run} />
+                                </div>
+                                <div className="text-[10px] text-muted-foreground mt-1">
+                                    {new Date(run.createdAt).toLocaleString()}
+                                </div>
+                            </button>
+                        ))}
+                    </div>
+
+                    {/* Report */}
+                    {selectedRun ? (
+                        <div className="space-y-3 min-w-0">
+                            <div className="flex items-center justify-between">
+                                <div>
+                                    <h4 className="text-sm font-medium text-foreground">{selectedRun.versionName}</h4>
+                                    <p className="text-[10px] text-muted-foreground">
+                                        {selectedRun.tests.filter(t => t.verdict === 'pass').length}/{selectedRun.tests.length} tests at or above {selectedRun.minPassRate}%
+                                        {selectedRun.overallPassRate !== undefined && ` · ${selectedRun.overallPassRate}% of all conversations passed`}
+                                    </p>
+                                </div>
+                                <div className="flex items-center gap-1">
+                                    {selectedRun.status === 'running' ? (
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            className="h-7 text-xs"
+                                            onClick={() => handleCancel(selectedRun.id)}
+                                        >
+                                            <Square className="h-3 w-3 mr-1" />
+                                            Stop
+                                        </Button>
+                                    ) : (
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            className="h-7 text-muted-foreground hover:text-destructive"
+                                            onClick={() => handleDelete(selectedRun.id)}
+                                        >
+                                            <Trash2 className="h-3.5 w-3.5" />
+                                        </Button>
+                                    )}
+                                </div>
+                            </div>
+
+                            <div className="rounded-lg border border-border divide-y divide-border">
+                                {selectedRun.tests.map((testRun) => (
+                                    <SuiteTestRow
+                                        key={testRun.testId}
+                                        testRun={testRun}
+                                        minPassRate={selectedRun.minPassRate}
+                                        onOpenExperiment={onOpenExperiment}
+                                    />
+                                ))}
+                            </div>
+                        </div>
+                    ) : (
+                        <div className="flex items-center justify-center text-xs text-muted-foreground">
+                            Select a suite run to see its report
+                        </div>
+                    )}
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+function SuiteVerdictBadge({ run }: { run: RegressionSuiteRun }) {
+    if (run.status === 'running') {
+        return (
+            <Badge variant="outline" className="text-[10px] bg-primary/10 text-primary border-primary/20 animate-pulse">
+                Running
+            </Badge>
+        );
+    }
+    return run.verdict === 'pass' ? (
+        <Badge variant="outline" className="text-[10px] bg-emerald-500/10 text-emerald-500 border-emerald-500/20">PASS</Badge>
+    ) : (
+        <Badge variant="outline" className="text-[10px] bg-red-500/10 text-red-500 border-red-500/20">
+            {run.status === 'cancelled' ? 'CANCELLED' : 'FAIL'}
+        </Badge>
+    );
+}
+
+function SuiteTestRow({
+    testRun,
+    minPassRate,
+    onOpenExperiment
+}: {
+    testRun: RegressionSuiteTestRun;
+    minPassRate: number;
+    onOpenExperiment: (experimentId: string) => void;
+}) {
+    const icon = testRun.status === 'running'
+        ? <Loader2 className="h-4 w-4 animate-spin text-primary" />
+        : testRun.status === 'pending'
+            ? <Clock className="h-4 w-4 text-muted-foreground" />
+            : testRun.status === 'cancelled'
+                ? <Ban className="h-4 w-4 text-muted-foreground" />
+                : testRun.verdict === 'pass'
+                    ? <CheckCircle2 className="h-4 w-4 text-emerald-500" />
+                    : <XCircle className="h-4 w-4 text-red-500" />;
+
+    return (
+        <div className="flex items-center justify-between gap-2 px-3 py-2 text-xs">
+            <div className="flex items-center gap-2 min-w-0">
+                {icon}
+                <span className="truncate text-foreground">{testRun.testName}</span>
+            </div>
+            <div className="flex items-center gap-3 shrink-0 text-muted-foreground">
+                {testRun.error && <span className="text-destructive truncate max-w-[160px]" title={testRun.error}>{testRun.error}</span>}
+                {testRun.total !== undefined && <span>{testRun.passed}/{testRun.total} passed</span>}
+                {testRun.passRate !== undefined && (
+                    <Badge
+                        variant="outline"
+                        className={`text-[10px] ${testRun.passRate >= minPassRate
+                            ? 'bg-emerald-500/10 text-emerald-500 border-emerald-500/20'
+                            : 'bg-red-500/10 text-red-500 border-red-500/20'
+                            }`}
+                    >
+                        {testRun.passRate}%
+                    </Badge>
+                )}
+                {testRun.experimentId && (
+                    <button
+                        className="p-1 hover:text-primary transition-colors"
+                        onClick={() => onOpenExperiment(testRun.experimentId!)}
+                        title="Open experiment"
+                    >
+                        <ExternalLink className="h-3.5 w-3.5" />
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,208 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { diffLines } from 'diff';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog';
+import { RefreshCw, AlertTriangle } from 'lucide-react';
+import { OverridableNode } from '@/types/polaris';
+import { fetchRenderedPromptPreview } from '@/app/actions';
+import { estimateTokenCount, RenderedNodePrompts, TemplateResolution } from '@/lib/templates';
+
+type PromptType = keyof RenderedNodePrompts;
+type PreviewView = 'rendered' | 'diff';
+
+interface RenderedPromptPreviewProps {
+    agentId: string;
+    node: OverridableNode;                       // The draft, with unsaved edits
+    stateOverrides?: Record<string, string>;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+}
+
+const PROMPT_TYPE_LABELS: Record<PromptType, string> = {
+    systemMessagePrompt: 'System Prompt',
+    humanMessagePrompt: 'Human Prompt',
+};
+
+// Injected text is tinted by the outermost field it came from
+const FIELD_COLORS = [
+    'bg-blue-500/15',
+    'bg-emerald-500/15',
+    'bg-amber-500/15',
+    'bg-purple-500/15',
+    'bg-pink-500/15',
+];
+
+// Exactly what the override config sends this node, next to what the master version sends it
+export function RenderedPromptPreview({ agentId, node, stateOverrides, open, onOpenChange }: RenderedPromptPreviewProps) {
+    const [preview, setPreview] = useState<Awaited<ReturnType<typeof fetchRenderedPromptPreview>> | null>(null);
+    const [view, setView] = useState<PreviewView>('rendered');
+
+    useEffect(() => {
+        if (!open) return;
+        let cancelled = false;
+        fetchRenderedPromptPreview(agentId, node, stateOverrides).then(result => {
+            if (!cancelled) setPreview(result);
+        }).catch(error => {
+            console.error('[RenderedPromptPreview] Failed to render prompts:', error);
+        });
+        return () => { cancelled = true; };
+    }, [open, agentId, node, stateOverrides]);
+
+    const promptTypes = (Object.keys(PROMPT_TYPE_LABELS) as PromptType[]).filter(type => node[type] !== undefined);
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-4xl h-[80vh] flex flex-col">
+                <DialogHeader>
+                    <DialogTitle>Rendered Prompt: {node.label}</DialogTitle>
+                    <DialogDescription>
+                        The prompts this node receives with the current edits and state values injected.
+                        {preview?.masterUpdatedAt && ` Compared against the master version from ${new Date(preview.masterUpdatedAt).toLocaleString()}.`}
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="flex items-center gap-2">
+                    <Button variant={view === 'rendered' ? 'secondary' : 'ghost'} size="sm" onClick={() => setView('rendered')}>
+                        Rendered
+                    </Button>
+                    <Button
+                        variant={view === 'diff' ? 'secondary' : 'ghost'}
+                        size="sm"
+                        onClick={() => setView('diff')}
+                        disabled={!preview?.master}
+                        title={preview && !preview.master ? 'No master version includes this node' : undefined}
+                    >
+                        Diff vs Master
+                    </Button>
+                </div>
+
+                {!preview ? (
+                    <div className="flex-1 flex items-center justify-center text-sm text-muted-foreground">
+                        <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                        Rendering...
+                    </div>
+                ) : (
+                    <ScrollArea className="flex-1 min-h-0">
+                        <div className="space-y-6 pr-4">
+                            {promptTypes.map(type => (
+                                <RenderedPromptSection
+                                    key={type}
+                                    label={PROMPT_TYPE_LABELS[type]}
+                                    current={preview.current[type]}
+                                    master={preview.master?.[type]}
+                                    hasMaster={!!preview.master}
+                                    view={view}
+                                />
+                            ))}
+                        </div>
+                    </ScrollArea>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+interface RenderedPromptSectionProps {
+    label: string;
+    current?: TemplateResolution;
+    master?: TemplateResolution;
+    hasMaster: boolean;
+    view: PreviewView;
+}
+
+function RenderedPromptSection({ label, current, master, hasMaster, view }: RenderedPromptSectionProps) {
+    const currentText = current?.text || '';
+    const masterText = master?.text || '';
+    const tokens = estimateTokenCount(currentText);
+    const tokenDelta = tokens - estimateTokenCount(masterText);
+    const fieldColors = new Map((current?.referencedKeys || []).map((key, i) => [key, FIELD_COLORS[i % FIELD_COLORS.length]]));
+
+    return (
+        <div className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+                <h4 className="font-medium text-foreground">{label}</h4>
+                <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <span title="Estimated at about four characters per token">~{tokens.toLocaleString()} tokens</span>
+                    {hasMaster && (
+                        <Badge
+                            variant="outline"
+                            className={`text-[10px] ${tokenDelta > 0
+                                ? 'bg-amber-500/10 text-amber-600 border-amber-500/20'
+                                : tokenDelta < 0
+                                    ? 'bg-emerald-500/10 text-emerald-600 border-emerald-500/20'
+                                    : 'bg-muted text-muted-foreground'
+                                }`}
+                        >
+                            {tokenDelta > 0 ? '+' : ''}{tokenDelta.toLocaleString()} vs master
+                        </Badge>
+                    )}
+                </div>
+            </div>
+
+            {current && (current.unresolved.length > 0 || current.cycles.length > 0) && (
+                <div className="flex items-start gap-2 px-3 py-1.5 rounded border text-xs bg-amber-500/10 border-amber-500/20 text-amber-600">
+                    <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                    <span>
+                        {[
+                            ...current.unresolved.map(name => `{${name}}`),
+                            ...current.cycles.map(cycle => cycle.map(key => `{${key}}`).join(' -> ')),
+                        ].join(', ')} left as written
+                    </span>
+                </div>
+            )}
+
+            {view === 'rendered' ? (
+                <div className="space-y-2">
+                    <pre className="whitespace-pre-wrap text-sm font-mono text-foreground p-3 rounded-lg border border-border bg-muted/30">
+                        {current?.segments.length ? current.segments.map((segment, i) => (
+                            segment.fieldPath.length === 0 ? (
+                                <span key={i}>{segment.text}</span>
+                            ) : (
+                                <span
+                                    key={i}
+                                    className={`rounded-sm ${fieldColors.get(segment.fieldPath[0])}`}
+                                    title={segment.fieldPath.map(key => `{${key}}`).join(' > ')}
+                                >
+                                    {segment.text}
+                                </span>
+                            )
+                        )) : '(empty)'}
+                    </pre>
+                    {fieldColors.size > 0 && (
+                        <div className="flex flex-wrap gap-1.5 text-[10px] font-mono">
+                            {[...fieldColors].map(([key, color]) => (
+                                <span key={key} className={`px-1.5 py-0.5 rounded ${color} text-foreground`}>{`{${key}}`}</span>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            ) : (
+                <pre className="whitespace-pre-wrap text-sm font-mono text-foreground rounded-lg border border-border overflow-hidden">
+                    {diffLines(masterText, currentText).map((part, i) => (
+                        <div
+                            key={i}
+                            className={`px-3 ${part.added
+                                ? 'bg-emerald-500/15'
+                                : part.removed
+                                    ? 'bg-red-500/15 line-through text-muted-foreground'
+                                    : ''
+                                }`}
+                        >
+                            {part.value}
+                        </div>
+                    ))}
+                </pre>
+            )}
+        </div>
+    );
+}
@@ -13,6 +13,7 @@ import {
     fetchSimulationBatches,
     fetchBatchSimulations,
     removeBatch,
+    cancelSimulationBatch,
     loadOnboardingGuide
 } from '@/app/actions';
 import {
@@ -103,7 +104,7 @@ export function SimulationManager({
                 setSelectedBatchId(existingBatches[0].id);
                 setViewMode('results');
                 // Start polling if any batch is running
-                if (existingBatches.some(b => b.status === 'running')) {
+                if (existingBatches.some(b => b.status === 'running' || b.status === 'queued')) {
                     startPolling();
                 }
             } else {
@@ -180,7 +181,7 @@ export function SimulationManager({
                 const simsMap: Record<string, EnhancedSimulation[]> = { ...batchSimulations };
                 let hasRunning = false;
                 for (const batch of updatedBatches) {
-                    if (batch.status === 'running') {
+                    if (batch.status === 'running' || batch.status === 'queued') {
                         hasRunning = true;
                         simsMap[batch.id] = await fetchBatchSimulations(agentId, batch.id);
                     }
@@ -209,6 +210,20 @@ export function SimulationManager({
         setViewMode('config');
     };
 
+    const handleCancelBatch = async (batchId: string) => {
+        try {
+            const updated = await cancelSimulationBatch(agentId, batchId);
+            if (updated) {
+                setBatches(prev => prev.map(b => b.id === batchId ? updated : b));
+            }
+            const sims = await fetchBatchSimulations(agentId, batchId);
+            setBatchSimulations(prev => ({ ...prev, [batchId]: sims }));
+        } catch (err) {
+            console.error('Failed to cancel batch:', err);
+            setError(err instanceof Error ? err.message : 'Failed to cancel batch');
+        }
+    };
+
     const handleDeleteBatch = async (batchId: string) => {
         if (window.confirm('This will delete this batch and all its simulations. Are you sure?')) {
             await removeBatch(agentId, batchId);
@@ -321,6 +336,7 @@ export function SimulationManager({
                     selectedBatchId={selectedBatchId}
                     onSelectBatch={setSelectedBatchId}
                     onDeleteBatch={handleDeleteBatch}
+                    onCancelBatch={handleCancelBatch}
                     onBackToConfig={handleBackToConfig}
                     onDownload={handleDownload}
                     onSimulationsUpdate={(batchId, sims) => {
@@ -29,16 +29,21 @@ import {
     Eye,
     ChevronDown,
     ChevronRight,
-    Plus
+    Plus,
+    Ban,
+    Square,
+    FlaskConical
 } from 'lucide-react';
 import { EnhancedSimulation, SimulationNote, SimulationBatch } from '@/types/simulation';
+import { BehaviorTest } from '@/types/behavior-test';
 import { TracePanel } from '@/components/trace-panel';
 import {
     fetchSimulationNotes,
     addSimulationNote,
     toggleNoteResolved,
     removeSimulationNote,
-    toggleSimulationReviewed
+    toggleSimulationReviewed,
+    createBehaviorTestFromNotes
 } from '@/app/actions';
 
 interface SimulationResultsViewProps {
@@ -48,6 +53,7 @@ interface SimulationResultsViewProps {
     selectedBatchId: string | null;
     onSelectBatch: (batchId: string) => void;
     onDeleteBatch: (batchId: string) => void;
+    onCancelBatch?: (batchId: string) => void;
     onBackToConfig: () => void;
     onDownload: (batchId: string) => void;
     onSimulationsUpdate?: (batchId: string, simulations: EnhancedSimulation[]) => void;
@@ -60,6 +66,7 @@ export function SimulationResultsView({
     selectedBatchId,
     onSelectBatch,
     onDeleteBatch,
+    onCancelBatch,
     onBackToConfig,
     onDownload,
     onSimulationsUpdate,
@@ -74,6 +81,11 @@ export function SimulationResultsView({
     const [resolvingNoteId, setResolvingNoteId] = useState<string | null>(null);
     const [resolutionComment, setResolutionComment] = useState('');
 
+    // Notes picked to draft a behavior test from
+    const [testNoteIds, setTestNoteIds] = useState<Set<string>>(new Set());
+    const [isDraftingTest, setIsDraftingTest] = useState(false);
+    const [draftedTest, setDraftedTest] = useState<BehaviorTest | null>(null);
+
     // Get simulations for selected batch
     const currentBatchSimulations = selectedBatchId ? batchSimulations[selectedBatchId] || [] : [];
     const selectedSimulation = currentBatchSimulations.find(s => s.id === selectedSimulationId);
@@ -178,6 +190,34 @@ export function SimulationResultsView({
         setNotes(updatedNotes);
     };
 
+    const toggleTestNote = (noteId: string) => {
+        setTestNoteIds(prev => {
+            const next = new Set(prev);
+            if (next.has(noteId)) {
+                next.delete(noteId);
+            } else {
+                next.add(noteId);
+            }
+            return next;
+        });
+    };
+
+    const handleDraftTest = async () => {
+        if (testNoteIds.size === 0) return;
+
+        setIsDraftingTest(true);
+        try {
+            const test = await createBehaviorTestFromNotes(agentId, [...testNoteIds]);
+            setDraftedTest(test);
+            setTestNoteIds(new Set());
+        } catch (error) {
+            console.error('Failed to draft test from notes:', error);
+            alert('Failed to draft a test from these notes. Check console for details.');
+        } finally {
+            setIsDraftingTest(false);
+        }
+    };
+
     const handleToggleReviewed = async (simulationId: string, reviewed: boolean) => {
         if (!selectedBatchId) return;
 
@@ -214,6 +254,8 @@ export function SimulationResultsView({
                 return <XCircle className="h-3.5 w-3.5 text-destructive" />;
             case 'running':
                 return <Loader2 className="h-3.5 w-3.5 text-primary animate-spin" />;
+            case 'cancelled':
+                return <Ban className="h-3.5 w-3.5 text-muted-foreground" />;
         }
     };
 
@@ -223,8 +265,12 @@ export function SimulationResultsView({
                 return <CheckCircle className="h-3.5 w-3.5 text-primary" />;
             case 'partial':
                 return <XCircle className="h-3.5 w-3.5 text-amber-500" />;
+            case 'queued':
+                return <Clock className="h-3.5 w-3.5 text-muted-foreground" />;
             case 'running':
                 return <Loader2 className="h-3.5 w-3.5 text-primary animate-spin" />;
+            case 'cancelled':
+                return <Ban className="h-3.5 w-3.5 text-muted-foreground" />;
         }
     };
 
@@ -309,10 +355,41 @@ export function SimulationResultsView({
                         <div className="p-3 border-b border-border bg-muted/30">
                             <div className="flex items-center justify-between">
                                 <span className="font-medium text-xs text-foreground">All Feedback Notes</span>
-                                <Badge variant="secondary" className="text-xs bg-muted text-muted-foreground">
-                                    {notes.length}
-                                </Badge>
+                                <div className="flex items-center gap-2">
+                                    {testNoteIds.size > 0 && (
+                                        <Button
+                                            size="sm"
+                                            className="h-6 px-2 text-[10px]"
+                                            onClick={handleDraftTest}
+                                            disabled={isDraftingTest}
+                                        >
+                                            {isDraftingTest ? (
+                                                <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                                            ) : (
+                                                <FlaskConical className="h-3 w-3 mr-1" />
+                                            )}
+                                            Draft Test ({testNoteIds.size})
+                                        </Button>
+                                    )}
+                                    <Badge variant="secondary" className="text-xs bg-muted text-muted-foreground">
+                                        {notes.length}
+                                    </Badge>
+                                </div>
                             </div>
+                            {draftedTest && (
+                                <div className="mt-2 p-2 flex items-start justify-between gap-2 rounded border border-primary/20 bg-primary/5 text-[10px] text-foreground">
+                                    <span>
+                                        Drafted &quot;{draftedTest.name}&quot; from {draftedTest.sourceNoteIds?.length} {draftedTest.sourceNoteIds?.length === 1 ? 'note' : 'notes'}.
+                                        Review and run it in the Tests tab.
+                                    </span>
+                                    <button
+                                        className="text-muted-foreground hover:text-foreground shrink-0"
+                                        onClick={() => setDraftedTest(null)}
+                                    >
+                                        <X className="h-3 w-3" />
+                                    </button>
+                                </div>
+                            )}
                         </div>
                         {notes.length === 0 ? (
                             <div className="p-6 text-center text-muted-foreground">
@@ -357,8 +434,23 @@ export function SimulationResultsView({
                                                 }`}>
                                                     {note.turnRole === 'user' ? 'Customer' : 'Agent'}
                                                 </Badge>
+                                                {note.experimentId && (
+                                                    <Badge variant="outline" className="text-[9px] px-1 py-0 bg-muted text-muted-foreground border-border">
+                                                        Behavior test
+                                                    </Badge>
+                                                )}
                                             </div>
                                             <div className="flex items-center gap-1">
+                                                <button
+                                                    className={`transition-colors p-0.5 ${testNoteIds.has(note.id)
+                                                        ? 'text-primary'
+                                                        : 'text-muted-foreground hover:text-foreground'
+                                                        }`}
+                                                    onClick={() => toggleTestNote(note.id)}
+                                                    title={testNoteIds.has(note.id) ? 'Remove from the test draft' : 'Include in a behavior test draft'}
+                                                >
+                                                    <FlaskConical className="h-3 w-3" />
+                                                </button>
                                                 <button
                                                     className="text-muted-foreground hover:text-foreground transition-colors p-0.5"
                                                     onClick={() => {
@@ -478,6 +570,15 @@ export function SimulationResultsView({
                                                 {getBatchStatusIcon(batch.status)}
                                             </div>
                                             <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+                                                {onCancelBatch && (batch.status === 'running' || batch.status === 'queued') && (
+                                                    <button
+                                                        className="p-1 text-muted-foreground hover:text-destructive transition-colors"
+                                                        onClick={() => onCancelBatch(batch.id)}
+                                                        title="Cancel batch"
+                                                    >
+                                                        <Square className="h-3.5 w-3.5" />
+                                                    </button>
+                                                )}
                                                 <button
                                                     className="p-1 text-muted-foreground hover:text-foreground transition-colors"
                                                     onClick={() => onDownload(batch.id)}
@@ -7,10 +7,12 @@ import { Textarea } from '@/components/ui/textarea';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
-import { Save, RefreshCw, Settings2 } from 'lucide-react';
+import { Save, RefreshCw, Settings2, Plus, X } from 'lucide-react';
 import { StateMemory, StateField, OverridableNode } from '@/types/polaris';
-import { updateStateField } from '@/app/actions';
+import { updateStateField, updatePlaceholderAliases } from '@/app/actions';
 import { PromptOptimizer } from '@/components/prompt-optimizer';
+import { TemplateLintIssues } from '@/components/template-lint-issues';
+import { lintTemplates, getFieldLintIssues, mergeStateValues, TemplateLintIssue } from '@/lib/template-lint';
 
 interface StateEditorProps {
     agentId: string;
@@ -18,6 +20,8 @@ interface StateEditorProps {
     onStateChange: (key: string, value: string) => void;
     currentOverrides?: Record<string, string>;
     allNodes?: OverridableNode[];
+    placeholderAliases?: Record<string, string>;
+    onPlaceholderAliasesChange?: (aliases: Record<string, string>) => void;
 }
 
 // Fields to hide from editing (system/internal fields - typically set during conversation)
@@ -41,7 +45,7 @@ function isLargeTextField(key: string): boolean {
     return largeFieldPatterns.some(pattern => lowerKey.includes(pattern));
 }
 
-export function StateEditor({ agentId, stateMemory, onStateChange, currentOverrides, allNodes }: StateEditorProps) {
+export function StateEditor({ agentId, stateMemory, onStateChange, currentOverrides, allNodes, placeholderAliases, onPlaceholderAliasesChange }: StateEditorProps) {
     const [localValues, setLocalValues] = useState<Record<string, string>>(() => {
         // Initialize from stateMemory on first render
         const values: Record<string, string> = {};
@@ -51,6 +55,7 @@ export function StateEditor({ agentId, stateMemory, onStateChange, currentOverri
         return values;
     });
     const [isSaving, setIsSaving] = useState<Record<string, boolean>>({});
+    const [lintIssues, setLintIssues] = useState<Record<string, TemplateLintIssue[]>>({});
 
     // Re-initialize when stateMemory or currentOverrides change
     // This ensures StateEditor updates when master version loads
@@ -74,6 +79,11 @@ export function StateEditor({ agentId, stateMemory, onStateChange, currentOverri
             await updateStateField(agentId, key, localValues[key]);
             onStateChange(key, localValues[key]);
             console.log('Save successful for:', key);
+
+            // Check the saved value's placeholders, and whether prompts use the field
+            const values = mergeStateValues(stateMemory.fields, { ...currentOverrides, [key]: localValues[key] });
+            const issues = lintTemplates(allNodes || [], stateMemory.fields, values, placeholderAliases);
+            setLintIssues(prev => ({ ...prev, [key]: getFieldLintIssues(issues, key) }));
         } catch (error) {
             console.error('Failed to save state field:', error);
         } finally {
@@ -137,6 +147,7 @@ export function StateEditor({ agentId, stateMemory, onStateChange, currentOverri
                         placeholder={`Enter ${formatFieldName(field.key)}...`}
                     />
                 )}
+                <TemplateLintIssues issues={lintIssues[field.key] || []} />
             </div>
         );
     };
@@ -165,11 +176,123 @@ export function StateEditor({ agentId, stateMemory, onStateChange, currentOverri
                     const isLarge = isLargeTextField(field.key);
                     return renderField(field, isLarge);
                 })}
+
+                {placeholderAliases && onPlaceholderAliasesChange && (
+                    <PlaceholderAliasEditor
+                        agentId={agentId}
+                        aliases={placeholderAliases}
+                        fieldKeys={stateMemory.fields.map(f => f.key)}
+                        onChange={onPlaceholderAliasesChange}
+                    />
+                )}
             </CardContent>
         </Card>
     );
 }
 
+// Extra placeholder names that read another state field, e.g. {system_base} -> brand_system_base
+function PlaceholderAliasEditor({
+    agentId,
+    aliases,
+    fieldKeys,
+    onChange
+}: {
+    agentId: string;
+    aliases: Record<string, string>;
+    fieldKeys: string[];
+    onChange: (aliases: Record<string, string>) => void;
+}) {
+    // null while the saved aliases are shown unedited
+    const [draft, setDraft] = useState<{ alias: string; key: string }[] | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const rows = draft ?? Object.entries(aliases).map(([alias, key]) => ({ alias, key }));
+
+    const updateRow = (index: number, updates: Partial<{ alias: string; key: string }>) => {
+        setDraft(rows.map((row, i) => i === index ? { ...row, ...updates } : row));
+    };
+
+    const handleSave = async () => {
+        setIsSaving(true);
+        setError(null);
+        try {
+            const saved = await updatePlaceholderAliases(
+                agentId,
+                Object.fromEntries(rows.filter(r => r.alias.trim()).map(r => [r.alias.trim(), r.key.trim()]))
+            );
+            onChange(saved);
+            setDraft(null);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to save aliases');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="space-y-2 p-4 bg-muted/10 rounded-lg border border-border">
+            <div className="flex justify-between items-center">
+                <div className="flex items-center gap-2">
+                    <Label className="text-foreground font-medium">Placeholder Aliases</Label>
+                    {draft && <Badge variant="secondary" className="bg-primary/20 text-primary border-primary/20">Modified</Badge>}
+                </div>
+                <Button
+                    onClick={handleSave}
+                    disabled={isSaving || !draft}
+                    size="sm"
+                    className="bg-primary text-primary-foreground hover:bg-primary/90"
+                >
+                    {isSaving ? <RefreshCw className="h-3 w-3 mr-1 animate-spin" /> : <Save className="h-3 w-3 mr-1" />}
+                    Save
+                </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+                Prompts can write {'{alias}'} to read another state field. Placeholders inside field values are resolved too.
+            </p>
+            {rows.map((row, i) => (
+                <div key={i} className="flex items-center gap-2">
+                    <Input
+                        value={row.alias}
+                        onChange={(e) => updateRow(i, { alias: e.target.value })}
+                        className="font-mono text-sm bg-muted/30 border-border"
+                        placeholder="alias"
+                    />
+                    <span className="text-muted-foreground text-xs shrink-0">reads</span>
+                    <Input
+                        value={row.key}
+                        onChange={(e) => updateRow(i, { key: e.target.value })}
+                        className="font-mono text-sm bg-muted/30 border-border"
+                        placeholder="state_field"
+                        list="placeholder-alias-fields"
+                    />
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive"
+                        onClick={() => setDraft(rows.filter((_, j) => j !== i))}
+                    >
+                        <X className="h-3.5 w-3.5" />
+                    </Button>
+                </div>
+            ))}
+            <datalist id="placeholder-alias-fields">
+                {fieldKeys.map(key => <option key={key} value={key} />)}
+            </datalist>
+            <Button
+                variant="outline"
+                size="sm"
+                className="border-border text-muted-foreground hover:text-foreground"
+                onClick={() => setDraft([...rows, { alias: '', key: '' }])}
+            >
+                <Plus className="h-3 w-3 mr-1" />
+                Add Alias
+            </Button>
+            {error && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+    );
+}
+
 function formatFieldName(key: string): string {
     return key
         .replace(/_/g, ' ')
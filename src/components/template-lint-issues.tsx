@@ -0,0 +1,40 @@
+'use client';
+
+import { AlertCircle, AlertTriangle } from 'lucide-react';
+import { TemplateLintIssue } from '@/lib/template-lint';
+
+const PROMPT_TYPE_LABELS = {
+    systemMessagePrompt: 'System',
+    humanMessagePrompt: 'Human',
+};
+
+// Template problems found when a prompt or state field was last saved
+export function TemplateLintIssues({ issues, showPromptType }: { issues: TemplateLintIssue[]; showPromptType?: boolean }) {
+    if (issues.length === 0) return null;
+
+    return (
+        <div className="space-y-1">
+            {issues.map((issue, i) => (
+                <div
+                    key={i}
+                    className={`flex items-start gap-2 px-3 py-1.5 rounded border text-xs ${issue.severity === 'error'
+                        ? 'bg-red-500/10 border-red-500/20 text-red-500'
+                        : 'bg-amber-500/10 border-amber-500/20 text-amber-600'
+                        }`}
+                >
+                    {issue.severity === 'error' ? (
+                        <AlertCircle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                    ) : (
+                        <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                    )}
+                    <span>
+                        {showPromptType && issue.location.type === 'node' && (
+                            <span className="font-medium">{PROMPT_TYPE_LABELS[issue.location.promptType]}: </span>
+                        )}
+                        {issue.message}
+                    </span>
+                </div>
+            ))}
+        </div>
+    );
+}
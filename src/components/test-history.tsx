@@ -0,0 +1,191 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Loader2, LineChart, TrendingDown, ExternalLink } from 'lucide-react';
+import { fetchBehaviorTestHistory } from '@/app/actions';
+import { BehaviorTest, TestHistoryPoint } from '@/types/behavior-test';
+
+interface TestHistoryDialogProps {
+    agentId: string;
+    test: Pick<BehaviorTest, 'id' | 'name'>;
+    open: boolean;
+    onOpenChange: (open: boolean) => void;
+    onOpenExperiment: (experimentId: string) => void;
+}
+
+const ORIGIN_LABELS: Record<TestHistoryPoint['origin'], string> = {
+    run: 'Run',
+    suite: 'Suite',
+    ab: 'A/B',
+};
+
+// Chart geometry in SVG units - the chart scales to the dialog width
+const CHART_WIDTH = 640;
+const CHART_HEIGHT = 220;
+const PADDING = { top: 28, right: 16, bottom: 20, left: 36 };
+
+// Pass rate and average score across every completed run of a test, marked where the prompt version changed
+export function TestHistoryDialog({ agentId, test, open, onOpenChange, onOpenExperiment }: TestHistoryDialogProps) {
+    // null until the first load finishes
+    const [history, setHistory] = useState<TestHistoryPoint[] | null>(null);
+
+    useEffect(() => {
+        if (!open) return;
+        fetchBehaviorTestHistory(agentId, test.id)
+            .then(setHistory)
+            .catch(console.error);
+    }, [open, agentId, test.id]);
+
+    const regressions = history?.filter(p => p.regression) || [];
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <LineChart className="h-4 w-4" />
+                        History: {test.name}
+                    </DialogTitle>
+                    <DialogDescription>
+                        Pass rate and average score for every completed run of this test. Dashed lines mark a change of prompt version.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {!history ? (
+                    <div className="flex items-center justify-center py-12">
+                        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+                    </div>
+                ) : history.length === 0 ? (
+                    <p className="text-xs text-muted-foreground py-8 text-center">No completed runs of this test yet.</p>
+                ) : (
+                    <div className="space-y-4">
+                        <HistoryChart history={history} />
+
+                        <div className="flex items-center gap-4 text-[10px] text-muted-foreground">
+                            <span className="flex items-center gap-1.5"><span className="h-0.5 w-4 bg-primary" />Pass rate (95% CI)</span>
+                            <span className="flex items-center gap-1.5"><span className="h-0.5 w-4 bg-muted-foreground" />Avg score x 100</span>
+                            <span className="flex items-center gap-1.5"><span className="h-2 w-2 rounded-full bg-red-500" />Significant drop</span>
+                        </div>
+
+                        {regressions.length > 0 && (
+                            <div className="space-y-1">
+                                {regressions.map((p) => (
+                                    <div key={p.experimentId} className="flex items-center gap-2 px-3 py-2 rounded-lg border text-xs bg-red-500/10 border-red-500/20 text-red-500">
+                                        <TrendingDown className="h-3.5 w-3.5 shrink-0" />
+                                        Dropped from {p.regression!.fromPassRate}% to {p.passRate}% on {new Date(p.createdAt).toLocaleDateString()}
+                                        {p.versionChanged ? `, the first run on ${p.versionName}` : ` (${p.versionName})`}
+                                        <span className="opacity-70">p = {p.regression!.pValue}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        {/* Runs, newest first */}
+                        <div className="rounded-lg border border-border divide-y divide-border">
+                            {[...history].reverse().map((p) => (
+                                <div key={p.experimentId} className="flex items-center justify-between gap-2 px-3 py-2 text-xs">
+                                    <div className="flex items-center gap-2 min-w-0">
+                                        <span className="text-muted-foreground shrink-0">{new Date(p.createdAt).toLocaleString()}</span>
+                                        <span className="truncate text-foreground">{p.versionName}</span>
+                                        <Badge variant="outline" className="text-[10px] border-border text-muted-foreground">
+                                            {ORIGIN_LABELS[p.origin]}
+                                        </Badge>
+                                    </div>
+                                    <div className="flex items-center gap-3 shrink-0 text-muted-foreground">
+                                        <span>{p.passed}/{p.total} passed</span>
+                                        {p.passRateInterval && <span>95% CI {p.passRateInterval.low}-{p.passRateInterval.high}%</span>}
+                                        <span>avg {p.avgScore.toFixed(2)}</span>
+                                        <Badge
+                                            variant="outline"
+                                            className={`text-[10px] ${p.regression
+                                                ? 'bg-red-500/10 text-red-500 border-red-500/20'
+                                                : 'border-border text-foreground'
+                                                }`}
+                                        >
+                                            {p.passRate}%
+                                        </Badge>
+                                        <button
+                                            className="p-1 hover:text-primary transition-colors"
+                                            onClick={() => onOpenExperiment(p.experimentId)}
+                                            title="Open experiment"
+                                        >
+                                            <ExternalLink className="h-3.5 w-3.5" />
+                                        </button>
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+            </DialogContent>
+        </Dialog>
+    );
+}
+
+function HistoryChart({ history }: { history: TestHistoryPoint[] }) {
+    const plotWidth = CHART_WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = CHART_HEIGHT - PADDING.top - PADDING.bottom;
+
+    // Runs are spaced evenly rather than by date so bursts of runs stay readable
+    const x = (i: number) => PADDING.left + (history.length > 1 ? (i / (history.length - 1)) * plotWidth : plotWidth / 2);
+    const y = (percent: number) => PADDING.top + (1 - percent / 100) * plotHeight;
+    const line = (values: number[]) => values.map((v, i) => `${i === 0 ? 'M' : 'L'}${x(i)},${y(v)}`).join(' ');
+
+    return (
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto rounded-lg border border-border bg-muted/10">
+            {/* Gridlines */}
+            {[0, 25, 50, 75, 100].map((tick) => (
+                <g key={tick}>
+                    <line x1={PADDING.left} x2={CHART_WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} className="stroke-border" strokeWidth={0.5} />
+                    <text x={PADDING.left - 6} y={y(tick) + 3} textAnchor="end" className="fill-muted-foreground text-[9px]">{tick}%</text>
+                </g>
+            ))}
+
+            {/* Version changes, labeled with the version the run switched to */}
+            {history.map((p, i) => (i === 0 || p.versionChanged) && (
+                <g key={`version-${p.experimentId}`}>
+                    {i > 0 && (
+                        <line x1={x(i)} x2={x(i)} y1={PADDING.top} y2={CHART_HEIGHT - PADDING.bottom} className="stroke-muted-foreground" strokeWidth={0.75} strokeDasharray="3 3" />
+                    )}
+                    <text x={x(i)} y={PADDING.top - 8} textAnchor={i === 0 ? 'start' : 'middle'} className="fill-muted-foreground text-[9px]">
+                        {p.versionName}
+                    </text>
+                </g>
+            ))}
+
+            {/* Confidence intervals */}
+            {history.map((p, i) => p.passRateInterval && (
+                <line
+                    key={`ci-${p.experimentId}`}
+                    x1={x(i)}
+                    x2={x(i)}
+                    y1={y(p.passRateInterval.low)}
+                    y2={y(p.passRateInterval.high)}
+                    className="stroke-primary"
+                    strokeOpacity={0.3}
+                    strokeWidth={4}
+                    strokeLinecap="round"
+                />
+            ))}
+
+            <path d={line(history.map(p => p.avgScore * 100))} fill="none" className="stroke-muted-foreground" strokeWidth={1.5} />
+            <path d={line(history.map(p => p.passRate))} fill="none" className="stroke-primary" strokeWidth={2} />
+
+            {history.map((p, i) => (
+                <circle
+                    key={`point-${p.experimentId}`}
+                    cx={x(i)}
+                    cy={y(p.passRate)}
+                    r={p.regression ? 4 : 3}
+                    className={p.regression ? 'fill-red-500' : 'fill-primary'}
+                >
+                    <title>
+                        {`${new Date(p.createdAt).toLocaleString()} - ${p.versionName}: ${p.passRate}% (${p.passed}/${p.total}), avg ${p.avgScore.toFixed(2)}`}
+                    </title>
+                </circle>
+            ))}
+        </svg>
+    );
+}
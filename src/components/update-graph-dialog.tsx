@@ -0,0 +1,293 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Upload, Loader2, Plus, Minus, Pencil, AlertTriangle, GitMerge } from 'lucide-react';
+import { AgentConfig, GraphMergeConflict, GraphMergeTarget, GraphNodeChange, GraphUpdatePlan } from '@/types/polaris';
+import { previewGraphUpdate, applyGraphUpdate } from '@/app/actions';
+
+interface UpdateGraphDialogProps {
+    agent: AgentConfig | null;
+    onOpenChange: (open: boolean) => void;
+    onUpdated?: () => void;
+}
+
+type ConflictChoice = 'ours' | 'theirs' | 'edit';
+
+const PROMPT_TYPE_LABELS = {
+    systemMessagePrompt: 'system prompt',
+    humanMessagePrompt: 'human prompt',
+};
+
+function describeTarget(target: GraphMergeTarget): string {
+    return target.type === 'prompt'
+        ? `${target.nodeLabel} ${PROMPT_TYPE_LABELS[target.promptType]}`
+        : `State field ${target.key}`;
+}
+
+function describeNodeChange(change: GraphNodeChange): string {
+    const details: string[] = [];
+    if (change.previousLabel) details.push(`renamed from ${change.previousLabel}`);
+    if (change.previousId) details.push(`ID ${change.previousId} → ${change.nodeId}`);
+    if (change.changedPrompts) details.push(`default ${change.changedPrompts.map(t => PROMPT_TYPE_LABELS[t]).join(' and ')} changed`);
+    return details.join(', ');
+}
+
+// Re-import graph.json for an existing agent: preview what changed, settle conflicting edits, then apply
+export function UpdateGraphDialog({ agent, onOpenChange, onUpdated }: UpdateGraphDialogProps) {
+    const [graphJson, setGraphJson] = useState('');
+    const [plan, setPlan] = useState<GraphUpdatePlan | null>(null);
+    const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+    const [edits, setEdits] = useState<Record<string, string>>({});
+    const [isWorking, setIsWorking] = useState(false);
+    const [error, setError] = useState('');
+
+    const handleOpenChange = (open: boolean) => {
+        if (!open) {
+            setGraphJson('');
+            setPlan(null);
+            setChoices({});
+            setEdits({});
+            setError('');
+        }
+        onOpenChange(open);
+    };
+
+    const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        setGraphJson(await file.text());
+        setPlan(null);
+        setError('');
+    };
+
+    const parseGraphJson = () => {
+        try {
+            return JSON.parse(graphJson);
+        } catch {
+            throw new Error('Invalid JSON');
+        }
+    };
+
+    const handlePreview = async () => {
+        if (!agent) return;
+        setIsWorking(true);
+        setError('');
+        try {
+            setPlan(await previewGraphUpdate(agent.id, parseGraphJson()));
+            setChoices({});
+            setEdits({});
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to compare graphs');
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const getResolution = (conflict: GraphMergeConflict): string | undefined => {
+        const choice = choices[conflict.id];
+        if (choice === 'ours') return conflict.ours;
+        if (choice === 'theirs') return conflict.theirs;
+        if (choice === 'edit') return edits[conflict.id] ?? conflict.ours;
+        return undefined;
+    };
+
+    const handleApply = async () => {
+        if (!agent || !plan) return;
+        const resolutions: Record<string, string> = {};
+        for (const conflict of plan.conflicts) {
+            const value = getResolution(conflict);
+            if (value !== undefined) resolutions[conflict.id] = value;
+        }
+
+        setIsWorking(true);
+        setError('');
+        try {
+            await applyGraphUpdate(agent.id, parseGraphJson(), resolutions);
+            onUpdated?.();
+            handleOpenChange(false);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to update graph');
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const unresolvedCount = plan ? plan.conflicts.filter(c => getResolution(c) === undefined).length : 0;
+    const keptCount = plan
+        ? Object.values(plan.promptOverrides).reduce((sum, prompts) => sum + Object.keys(prompts).length, 0) + Object.keys(plan.stateOverrides).length
+        : 0;
+
+    return (
+        <Dialog open={!!agent} onOpenChange={handleOpenChange}>
+            <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <GitMerge className="h-4 w-4" />
+                        Update Graph: {agent?.name}
+                    </DialogTitle>
+                    <DialogDescription>
+                        Import the agent&apos;s latest graph.json from Polaris. Prompt and state edits are merged onto the new
+                        defaults, and versions and tests stay with the agent.
+                    </DialogDescription>
+                </DialogHeader>
+
+                <div className="space-y-2">
+                    <Label>Updated Agent JSON</Label>
+                    <div className="flex items-center gap-2">
+                        <Button variant="outline" size="sm" className="gap-2" asChild>
+                            <label className="cursor-pointer">
+                                <Upload className="h-4 w-4" />
+                                Upload JSON
+                                <input type="file" accept=".json" className="hidden" onChange={handleFileUpload} />
+                            </label>
+                        </Button>
+                        <Button size="sm" onClick={handlePreview} disabled={!graphJson.trim() || isWorking}>
+                            {isWorking && !plan ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+                            Compare
+                        </Button>
+                    </div>
+                    <Textarea
+                        placeholder='{"nodes": [...], ...}'
+                        value={graphJson}
+                        onChange={(e) => { setGraphJson(e.target.value); setPlan(null); }}
+                        className="font-mono text-xs h-20"
+                    />
+                </div>
+
+                {plan && (
+                    <div className="space-y-4">
+                        <div className="flex flex-wrap gap-1.5">
+                            <Badge variant="outline" className="text-[10px]">{plan.nodeChanges.length} node changes</Badge>
+                            <Badge variant="outline" className="text-[10px]">{plan.stateFieldChanges.length} state field changes</Badge>
+                            <Badge variant="outline" className="text-[10px] bg-emerald-500/10 text-emerald-600 border-emerald-500/20">{keptCount} edits kept</Badge>
+                            {plan.adopted.length > 0 && (
+                                <Badge variant="outline" className="text-[10px]">{plan.adopted.length} already in new defaults</Badge>
+                            )}
+                            {plan.dropped.length > 0 && (
+                                <Badge variant="outline" className="text-[10px] bg-amber-500/10 text-amber-600 border-amber-500/20">{plan.dropped.length} edits dropped</Badge>
+                            )}
+                            {plan.conflicts.length > 0 && (
+                                <Badge variant="outline" className="text-[10px] bg-red-500/10 text-red-500 border-red-500/20">{plan.conflicts.length} conflicts</Badge>
+                            )}
+                        </div>
+
+                        {plan.nodeChanges.length > 0 && (
+                            <div className="space-y-1">
+                                <h4 className="text-sm font-medium text-foreground">Nodes</h4>
+                                {plan.nodeChanges.map(change => (
+                                    <div key={`${change.kind}-${change.nodeId}`} className="flex items-start gap-2 text-xs">
+                                        {change.kind === 'added' && <Plus className="h-3.5 w-3.5 mt-0.5 shrink-0 text-emerald-500" />}
+                                        {change.kind === 'removed' && <Minus className="h-3.5 w-3.5 mt-0.5 shrink-0 text-red-500" />}
+                                        {change.kind === 'changed' && <Pencil className="h-3.5 w-3.5 mt-0.5 shrink-0 text-amber-500" />}
+                                        <span>
+                                            <span className="font-medium text-foreground">{change.label}</span>
+                                            <span className="text-muted-foreground"> ({change.type}) {change.kind === 'changed' ? describeNodeChange(change) : change.kind}</span>
+                                        </span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        {plan.stateFieldChanges.length > 0 && (
+                            <div className="space-y-1">
+                                <h4 className="text-sm font-medium text-foreground">State Fields</h4>
+                                <div className="flex flex-wrap gap-1.5">
+                                    {plan.stateFieldChanges.map(change => (
+                                        <Badge
+                                            key={change.key}
+                                            variant="outline"
+                                            className={`text-[10px] font-mono ${change.kind === 'added'
+                                                ? 'bg-emerald-500/10 text-emerald-600 border-emerald-500/20'
+                                                : change.kind === 'removed'
+                                                    ? 'bg-red-500/10 text-red-500 border-red-500/20'
+                                                    : 'bg-amber-500/10 text-amber-600 border-amber-500/20'
+                                                }`}
+                                            title={change.kind === 'default-changed' ? 'Default value changed' : change.kind}
+                                        >
+                                            {change.kind === 'added' ? '+' : change.kind === 'removed' ? '-' : '~'} {change.key}
+                                        </Badge>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        {plan.dropped.length > 0 && (
+                            <div className="space-y-1">
+                                {plan.dropped.map(({ target }) => (
+                                    <div
+                                        key={describeTarget(target)}
+                                        className="flex items-start gap-2 px-3 py-1.5 rounded border text-xs bg-amber-500/10 border-amber-500/20 text-amber-600"
+                                    >
+                                        <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                                        <span>Your edit to {describeTarget(target)} is dropped - the new graph no longer has it.</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        {plan.conflicts.length > 0 && (
+                            <div className="space-y-3">
+                                <h4 className="text-sm font-medium text-foreground">
+                                    Conflicts {unresolvedCount > 0 && <span className="text-xs text-red-500 font-normal">({unresolvedCount} to resolve)</span>}
+                                </h4>
+                                {plan.conflicts.map(conflict => (
+                                    <div key={conflict.id} className="rounded-lg border border-border p-3 space-y-2">
+                                        <div className="flex items-center justify-between gap-2">
+                                            <span className="text-xs font-medium text-foreground">{describeTarget(conflict.target)}</span>
+                                            <div className="flex gap-1">
+                                                {(['ours', 'theirs', 'edit'] as ConflictChoice[]).map(choice => (
+                                                    <Button
+                                                        key={choice}
+                                                        variant={choices[conflict.id] === choice ? 'secondary' : 'ghost'}
+                                                        size="sm"
+                                                        className="h-7 text-xs"
+                                                        onClick={() => setChoices(prev => ({ ...prev, [conflict.id]: choice }))}
+                                                    >
+                                                        {choice === 'ours' ? 'Keep mine' : choice === 'theirs' ? 'Take new default' : 'Edit'}
+                                                    </Button>
+                                                ))}
+                                            </div>
+                                        </div>
+                                        {choices[conflict.id] === 'edit' ? (
+                                            <Textarea
+                                                value={edits[conflict.id] ?? conflict.ours}
+                                                onChange={(e) => setEdits(prev => ({ ...prev, [conflict.id]: e.target.value }))}
+                                                className="font-mono text-xs h-40"
+                                            />
+                                        ) : (
+                                            <div className="grid grid-cols-2 gap-2">
+                                                <div className={`rounded border p-2 ${choices[conflict.id] === 'ours' ? 'border-primary' : 'border-border'}`}>
+                                                    <p className="text-[10px] text-muted-foreground mb-1">Mine</p>
+                                                    <pre className="whitespace-pre-wrap text-xs font-mono text-foreground max-h-40 overflow-y-auto">{conflict.ours || '(empty)'}</pre>
+                                                </div>
+                                                <div className={`rounded border p-2 ${choices[conflict.id] === 'theirs' ? 'border-primary' : 'border-border'}`}>
+                                                    <p className="text-[10px] text-muted-foreground mb-1">New default</p>
+                                                    <pre className="whitespace-pre-wrap text-xs font-mono text-foreground max-h-40 overflow-y-auto">{conflict.theirs || '(empty)'}</pre>
+                                                </div>
+                                            </div>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {error && <p className="text-sm text-red-500">{error}</p>}
+
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => handleOpenChange(false)}>Cancel</Button>
+                    <Button onClick={handleApply} disabled={!plan || unresolvedCount > 0 || isWorking}>
+                        {isWorking && plan ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <GitMerge className="h-4 w-4 mr-2" />}
+                        Apply Update
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+}
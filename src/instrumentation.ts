@@ -0,0 +1,8 @@
+// Runs once when the Next.js server starts
+export async function register() {
+    if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+    // Simulation jobs left queued or running by the previous server process pick back up
+    const { startSimulationJobRecoveryOnBoot } = await import('@/app/actions');
+    await startSimulationJobRecoveryOnBoot();
+}
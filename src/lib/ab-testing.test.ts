@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { BehaviorTestResult } from '@/types/behavior-test';
+import { compareABResults, summarizeABComparisons } from './ab-testing';
+
+function result(personaId: string, score: number, passed = score >= 0.7): BehaviorTestResult {
+    return {
+        id: `${personaId}-${score}`,
+        personaId,
+        persona: { id: personaId, name: `Persona ${personaId}`, role: 'Customer', goal: 'Book', context: '', tone: 'Calm' },
+        conversation: [],
+        score,
+        passed,
+        rationale: '',
+        scoredAt: '2026-01-01T00:00:00.000Z',
+    };
+}
+
+describe('compareABResults', () => {
+    it('pairs results by persona and scores B against A', () => {
+        const comparisons = compareABResults(
+            [result('p1', 0.4), result('p2', 0.9), result('p3', 0.5)],
+            [result('p1', 0.8), result('p2', 0.6), result('p3', 0.52)]
+        );
+
+        expect(comparisons.map(c => [c.personaId, c.delta, c.outcome])).toEqual([
+            ['p1', 0.4, 'win'],
+            ['p2', -0.3, 'loss'],
+            ['p3', 0.02, 'tie'],
+        ]);
+        expect(comparisons[0]).toMatchObject({ personaName: 'Persona p1', passedA: false, passedB: true });
+    });
+
+    it('compares each persona on its mean score over repeated trials, passing on a majority', () => {
+        const comparisons = compareABResults(
+            [result('p1', 0.9), result('p1', 0.3), result('p1', 0.3)],
+            [result('p1', 0.8), result('p1', 0.8), result('p1', 0.2)]
+        );
+
+        expect(comparisons).toHaveLength(1);
+        expect(comparisons[0]).toMatchObject({ scoreA: 0.5, scoreB: 0.6, delta: 0.1, outcome: 'win', passedA: false, passedB: true });
+    });
+
+    it('leaves out personas missing from either side', () => {
+        const comparisons = compareABResults([result('p1', 0.5), result('p2', 0.5)], [result('p2', 0.9), result('p3', 0.9)]);
+        expect(comparisons.map(c => c.personaId)).toEqual(['p2']);
+    });
+});
+
+describe('summarizeABComparisons', () => {
+    it('counts outcomes and runs the sign test on wins and losses', () => {
+        const a = Array.from({ length: 8 }, (_, i) => result(`p${i}`, 0.5));
+        const b = Array.from({ length: 8 }, (_, i) => result(`p${i}`, 0.9));
+        const summary = summarizeABComparisons(compareABResults(a, b));
+
+        expect(summary).toMatchObject({
+            pairs: 8,
+            meanScoreA: 0.5,
+            meanScoreB: 0.9,
+            meanDelta: 0.4,
+            passRateA: 0,
+            passRateB: 100,
+            wins: 8,
+            losses: 0,
+            ties: 0,
+            pValue: 0.008,
+            significant: true,
+        });
+    });
+
+    it('is not significant with no pairs', () => {
+        expect(summarizeABComparisons([])).toMatchObject({ pairs: 0, pValue: 1, significant: false, passRateA: 0 });
+    });
+});
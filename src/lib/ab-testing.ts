@@ -0,0 +1,67 @@
+import { ABPersonaComparison, ABSummary, BehaviorTestResult } from '@/types/behavior-test';
+import { mean, signTestPValue } from './stats';
+
+// Score differences smaller than this count as a tie - judges rarely return identical floats
+const TIE_EPSILON = 0.05;
+const SIGNIFICANCE_LEVEL = 0.05;
+
+// A persona's trials collapsed into one data point: mean score, and passed when most trials passed
+function collapseTrials(results: BehaviorTestResult[]): Map<string, { result: BehaviorTestResult; score: number; passed: boolean }> {
+    const byPersona = new Map<string, BehaviorTestResult[]>();
+    for (const result of results) {
+        byPersona.set(result.personaId, [...(byPersona.get(result.personaId) || []), result]);
+    }
+
+    return new Map(Array.from(byPersona, ([personaId, trials]) => [personaId, {
+        result: trials[0],
+        score: mean(trials.map(r => r.score)),
+        passed: trials.filter(r => r.passed).length * 2 > trials.length,
+    }]));
+}
+
+// Pair up the two variants' results by persona. Personas that errored under either variant are left out.
+// With repeated trials each persona is compared on its mean score, so the sign test still sees one pair per persona.
+export function compareABResults(resultsA: BehaviorTestResult[], resultsB: BehaviorTestResult[]): ABPersonaComparison[] {
+    const byPersonaB = collapseTrials(resultsB);
+
+    return Array.from(collapseTrials(resultsA).values()).flatMap(a => {
+        const b = byPersonaB.get(a.result.personaId);
+        if (!b) return [];
+
+        const scoreA = Math.round(a.score * 1000) / 1000;
+        const scoreB = Math.round(b.score * 1000) / 1000;
+        const delta = Math.round((scoreB - scoreA) * 1000) / 1000;
+        return [{
+            personaId: a.result.personaId,
+            personaName: a.result.persona.name,
+            scoreA,
+            scoreB,
+            passedA: a.passed,
+            passedB: b.passed,
+            delta,
+            outcome: Math.abs(delta) < TIE_EPSILON ? 'tie' : delta > 0 ? 'win' : 'loss',
+        }];
+    });
+}
+
+export function summarizeABComparisons(comparisons: ABPersonaComparison[]): ABSummary {
+    const wins = comparisons.filter(c => c.outcome === 'win').length;
+    const losses = comparisons.filter(c => c.outcome === 'loss').length;
+    const pValue = signTestPValue(wins, losses);
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+    const passRate = (passed: number) => comparisons.length > 0 ? Math.round((passed / comparisons.length) * 100) : 0;
+
+    return {
+        pairs: comparisons.length,
+        meanScoreA: round(mean(comparisons.map(c => c.scoreA))),
+        meanScoreB: round(mean(comparisons.map(c => c.scoreB))),
+        meanDelta: round(mean(comparisons.map(c => c.delta))),
+        passRateA: passRate(comparisons.filter(c => c.passedA).length),
+        passRateB: passRate(comparisons.filter(c => c.passedB).length),
+        wins,
+        losses,
+        ties: comparisons.length - wins - losses,
+        pValue: round(pValue),
+        significant: pValue < SIGNIFICANCE_LEVEL,
+    };
+}
@@ -44,7 +44,8 @@ export async function sendChatRequest(
         chatId: payload.chatId,
         hasOverrideConfig: !!payload.overrideConfig,
         overrideConfigKeys: payload.overrideConfig ? Object.keys(payload.overrideConfig) : [],
-        systemMessagePromptNodes: payload.overrideConfig?.systemMessagePrompt ? Object.keys(payload.overrideConfig.systemMessagePrompt) : []
+        systemMessagePromptNodes: payload.overrideConfig?.systemMessagePrompt ? Object.keys(payload.overrideConfig.systemMessagePrompt) : [],
+        humanMessagePromptNodes: payload.overrideConfig?.humanMessagePrompt ? Object.keys(payload.overrideConfig.humanMessagePrompt) : []
     });
     console.log('Full payload:', JSON.stringify(payload, null, 2).substring(0, 2000));
 
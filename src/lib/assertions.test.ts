@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { ConversationTurn } from '@/types/behavior-test';
+import { runAssertion, validateJsonSchema } from './assertions';
+
+const conversation: ConversationTurn[] = [
+    { role: 'user', content: 'Hi, can I book an appointment?' },
+    { role: 'assistant', content: 'Sure! What is your phone number?' },
+    { role: 'user', content: 'It is 555-0100.' },
+    {
+        role: 'assistant',
+        content: 'Thanks, you are booked for Tuesday.',
+        traceData: [{ usedTools: [{ tool: 'book_appointment', toolInput: '{"day":"Tuesday","phone":"555-0100"}' }] }],
+    },
+];
+
+describe('regex assertions', () => {
+    it('matches case-insensitively by default', () => {
+        const result = runAssertion({ kind: 'regex', pattern: 'PHONE NUMBER', mode: 'must-match' }, conversation);
+        expect(result.score).toBe(1);
+        expect(result.rationale).toContain('Agent message 1');
+    });
+
+    it('blames the agent turn that matches a forbidden pattern', () => {
+        const result = runAssertion({ kind: 'regex', pattern: 'booked', mode: 'must-not-match' }, conversation);
+        expect(result.score).toBe(0);
+        expect(result.blamedTurns).toEqual([{ turnIndex: 3, comment: 'Matches forbidden /booked/' }]);
+    });
+
+    it('ignores global and sticky flags, which would carry lastIndex between messages', () => {
+        for (const flags of ['g', 'y', 'giy']) {
+            const result = runAssertion({ kind: 'regex', pattern: 'Tuesday', flags, mode: 'must-match' }, conversation);
+            expect(result.score).toBe(1);
+        }
+    });
+
+    it('fails on an invalid pattern', () => {
+        expect(runAssertion({ kind: 'regex', pattern: '(', mode: 'must-match' }, conversation).score).toBe(0);
+    });
+});
+
+describe('max-length assertions', () => {
+    it('scores the share of agent messages within the limit', () => {
+        const result = runAssertion({ kind: 'max-length', maxChars: 33 }, conversation);
+        expect(result.score).toBe(0.5);
+        expect(result.blamedTurns?.map(b => b.turnIndex)).toEqual([3]);
+    });
+});
+
+describe('turn-position assertions', () => {
+    it('passes when the pattern first matches within the allowed turns', () => {
+        expect(runAssertion({ kind: 'turn-position', pattern: 'phone', withinTurns: 1 }, conversation).score).toBe(1);
+    });
+
+    it('fails when the pattern first matches too late', () => {
+        expect(runAssertion({ kind: 'turn-position', pattern: 'booked', withinTurns: 1 }, conversation).score).toBe(0);
+    });
+
+    it('fails when the before pattern matches first', () => {
+        const result = runAssertion({ kind: 'turn-position', pattern: 'booked', beforePattern: 'phone' }, conversation);
+        expect(result.score).toBe(0);
+        expect(result.rationale).toContain('before /booked/');
+    });
+
+    it('passes when neither pattern occurs', () => {
+        expect(runAssertion({ kind: 'turn-position', pattern: 'refund', beforePattern: 'card' }, conversation).score).toBe(1);
+    });
+});
+
+describe('tool assertions', () => {
+    it('finds tool calls in the agent trace', () => {
+        expect(runAssertion({ kind: 'tool-called', tool: 'book_appointment', mode: 'must-call' }, conversation).score).toBe(1);
+        expect(runAssertion({ kind: 'tool-called', tool: 'book_appointment', mode: 'must-not-call' }, conversation).score).toBe(0);
+        expect(runAssertion({ kind: 'tool-called', tool: 'cancel', mode: 'must-call' }, conversation).score).toBe(0);
+    });
+
+    it('validates parsed tool inputs against the schema', () => {
+        const valid = runAssertion({
+            kind: 'tool-input-schema',
+            tool: 'book_appointment',
+            schema: { type: 'object', required: ['day', 'phone'], properties: { day: { type: 'string', enum: ['Monday', 'Tuesday'] } } },
+        }, conversation);
+        expect(valid.score).toBe(1);
+
+        const invalid = runAssertion({
+            kind: 'tool-input-schema',
+            tool: 'book_appointment',
+            schema: { type: 'object', required: ['email'] },
+        }, conversation);
+        expect(invalid.score).toBe(0);
+        expect(invalid.rationale).toContain('$.email is required');
+    });
+});
+
+describe('validateJsonSchema', () => {
+    it('reports each violation with its path', () => {
+        const errors = validateJsonSchema(
+            { name: 'A', tags: ['x', 3], extra: true },
+            {
+                type: 'object',
+                additionalProperties: false,
+                properties: {
+                    name: { type: 'string', minLength: 2 },
+                    tags: { type: 'array', items: { type: 'string' } },
+                },
+            }
+        );
+        expect(errors).toEqual([
+            '$.name should have at least 2 characters',
+            '$.tags[1] should be string, got integer',
+            '$ has unexpected extra',
+        ]);
+    });
+
+    it('accepts integers where numbers are expected', () => {
+        expect(validateJsonSchema(3, { type: 'number', minimum: 1, maximum: 5 })).toEqual([]);
+    });
+});
@@ -0,0 +1,248 @@
+import { BehaviorAssertion, BehaviorAssertionKind, ConversationTurn, JsonSchema, TurnBlame } from '@/types/behavior-test';
+
+export interface AssertionResult {
+    score: number;      // 0-1
+    rationale: string;
+    blamedTurns?: TurnBlame[];  // Agent turns the check failed on, where it can point at them
+}
+
+interface ToolCall {
+    tool: string;
+    input: unknown;
+    agentTurn: number;  // 1-based index among the agent's messages
+}
+
+export const ASSERTION_LABELS: Record<BehaviorAssertionKind, string> = {
+    'regex': 'Regex check',
+    'max-length': 'Length limit',
+    'turn-position': 'Turn position',
+    'tool-called': 'Tool called',
+    'tool-input-schema': 'Tool input schema',
+};
+
+// Starting point for each kind when one is picked in the editor
+export function createDefaultAssertion(kind: BehaviorAssertionKind): BehaviorAssertion {
+    switch (kind) {
+        case 'regex':
+            return { kind, pattern: '', mode: 'must-not-match' };
+        case 'max-length':
+            return { kind, maxChars: 300 };
+        case 'turn-position':
+            return { kind, pattern: '', withinTurns: 3 };
+        case 'tool-called':
+            return { kind, tool: '', mode: 'must-call' };
+        case 'tool-input-schema':
+            return { kind, tool: '', schema: { type: 'object', properties: {}, required: [] } };
+    }
+}
+
+// ============ HELPERS ============
+
+function compilePattern(pattern: string, flags?: string): RegExp | null {
+    try {
+        // Case-insensitive unless the assertion says otherwise - agents rarely match case exactly.
+        // g and y would make test() carry lastIndex from one message to the next.
+        return new RegExp(pattern, (flags ?? 'i').replace(/[gy]/g, ''));
+    } catch {
+        return null;
+    }
+}
+
+function getAgentTurns(conversation: ConversationTurn[]): ConversationTurn[] {
+    return conversation.filter(t => t.role === 'assistant');
+}
+
+// Tool calls from each agent turn's trace (Polaris agentReasoning steps and their usedTools)
+function getToolCalls(conversation: ConversationTurn[]): ToolCall[] {
+    const calls: ToolCall[] = [];
+
+    getAgentTurns(conversation).forEach((turn, index) => {
+        if (!Array.isArray(turn.traceData)) return;
+        for (const step of turn.traceData) {
+            if (!Array.isArray(step?.usedTools)) continue;
+            for (const used of step.usedTools) {
+                if (!used?.tool) continue;
+                let input: unknown = used.toolInput;
+                if (typeof input === 'string') {
+                    try {
+                        input = JSON.parse(input);
+                    } catch { /* keep as string */ }
+                }
+                calls.push({ tool: String(used.tool), input, agentTurn: index + 1 });
+            }
+        }
+    });
+
+    return calls;
+}
+
+// ============ JSON SCHEMA ============
+
+function getJsonType(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+    return typeof value;
+}
+
+// Returns the first few violations, each prefixed with the path where it occurred
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+    const errors: string[] = [];
+    const actualType = getJsonType(value);
+
+    if (schema.type) {
+        const typeMatches = schema.type === actualType || (schema.type === 'number' && actualType === 'integer');
+        if (!typeMatches) {
+            return [`${path} should be ${schema.type}, got ${actualType}`];
+        }
+    }
+
+    if (schema.enum && !schema.enum.some(option => JSON.stringify(option) === JSON.stringify(value))) {
+        errors.push(`${path} should be one of ${schema.enum.map(o => JSON.stringify(o)).join(', ')}`);
+    }
+
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            errors.push(`${path} should have at least ${schema.minLength} characters`);
+        }
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+            errors.push(`${path} should have at most ${schema.maxLength} characters`);
+        }
+        if (schema.pattern !== undefined && !compilePattern(schema.pattern, '')?.test(value)) {
+            errors.push(`${path} should match /${schema.pattern}/`);
+        }
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            errors.push(`${path} should be >= ${schema.minimum}`);
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            errors.push(`${path} should be <= ${schema.maximum}`);
+        }
+    }
+
+    if (Array.isArray(value) && schema.items) {
+        value.forEach((item, i) => errors.push(...validateJsonSchema(item, schema.items!, `${path}[${i}]`)));
+    }
+
+    if (actualType === 'object') {
+        const record = value as Record<string, unknown>;
+        for (const key of schema.required || []) {
+            if (record[key] === undefined) {
+                errors.push(`${path}.${key} is required`);
+            }
+        }
+        for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+            if (record[key] !== undefined) {
+                errors.push(...validateJsonSchema(record[key], propertySchema, `${path}.${key}`));
+            }
+        }
+        if (schema.additionalProperties === false) {
+            const extra = Object.keys(record).filter(key => !schema.properties?.[key]);
+            if (extra.length > 0) {
+                errors.push(`${path} has unexpected ${extra.join(', ')}`);
+            }
+        }
+    }
+
+    return errors;
+}
+
+// ============ ASSERTIONS ============
+
+export function runAssertion(assertion: BehaviorAssertion, conversation: ConversationTurn[]): AssertionResult {
+    const agentTurns = getAgentTurns(conversation);
+
+    switch (assertion.kind) {
+        case 'regex': {
+            const regex = compilePattern(assertion.pattern, assertion.flags);
+            if (!regex) {
+                return { score: 0, rationale: `Invalid pattern: ${assertion.pattern}` };
+            }
+            const matchIndex = agentTurns.findIndex(t => regex.test(t.content));
+            if (assertion.mode === 'must-match') {
+                return matchIndex >= 0
+                    ? { score: 1, rationale: `Agent message ${matchIndex + 1} matches /${assertion.pattern}/` }
+                    : { score: 0, rationale: `No agent message matches /${assertion.pattern}/` };
+            }
+            return matchIndex >= 0
+                ? {
+                    score: 0,
+                    rationale: `Agent message ${matchIndex + 1} matches forbidden /${assertion.pattern}/`,
+                    blamedTurns: [{ turnIndex: conversation.indexOf(agentTurns[matchIndex]), comment: `Matches forbidden /${assertion.pattern}/` }]
+                }
+                : { score: 1, rationale: `No agent message matches /${assertion.pattern}/` };
+        }
+
+        case 'max-length': {
+            const tooLong = agentTurns.filter(t => t.content.length > assertion.maxChars);
+            return tooLong.length === 0
+                ? { score: 1, rationale: `All agent messages are within ${assertion.maxChars} characters` }
+                : {
+                    score: 1 - tooLong.length / agentTurns.length,
+                    rationale: `${tooLong.length}/${agentTurns.length} agent messages exceed ${assertion.maxChars} characters`,
+                    blamedTurns: tooLong.map(t => ({
+                        turnIndex: conversation.indexOf(t),
+                        comment: `${t.content.length} characters, over the ${assertion.maxChars} limit`
+                    }))
+                };
+        }
+
+        case 'turn-position': {
+            const regex = compilePattern(assertion.pattern, assertion.flags);
+            const beforeRegex = assertion.beforePattern ? compilePattern(assertion.beforePattern, assertion.flags) : undefined;
+            if (!regex || beforeRegex === null) {
+                return { score: 0, rationale: `Invalid pattern: ${assertion.pattern} / ${assertion.beforePattern}` };
+            }
+
+            const matchIndex = agentTurns.findIndex(t => regex.test(t.content));
+            const beforeIndex = beforeRegex ? agentTurns.findIndex(t => beforeRegex.test(t.content)) : -1;
+
+            if (matchIndex < 0) {
+                // Nothing to order against if neither happened - e.g. no booking means no early phone request was needed
+                return beforeRegex && beforeIndex < 0 && !assertion.withinTurns
+                    ? { score: 1, rationale: `Neither /${assertion.pattern}/ nor /${assertion.beforePattern}/ occurred` }
+                    : { score: 0, rationale: `No agent message matches /${assertion.pattern}/` };
+            }
+            if (assertion.withinTurns && matchIndex + 1 > assertion.withinTurns) {
+                return { score: 0, rationale: `/${assertion.pattern}/ first matched in agent message ${matchIndex + 1}, after the first ${assertion.withinTurns}` };
+            }
+            if (beforeRegex && beforeIndex >= 0 && beforeIndex < matchIndex) {
+                return { score: 0, rationale: `/${assertion.beforePattern}/ matched in agent message ${beforeIndex + 1}, before /${assertion.pattern}/ in message ${matchIndex + 1}` };
+            }
+            return { score: 1, rationale: `/${assertion.pattern}/ first matched in agent message ${matchIndex + 1}` };
+        }
+
+        case 'tool-called': {
+            const calls = getToolCalls(conversation).filter(c => c.tool === assertion.tool);
+            if (assertion.mode === 'must-call') {
+                return calls.length > 0
+                    ? { score: 1, rationale: `${assertion.tool} called ${calls.length}x, first in agent message ${calls[0].agentTurn}` }
+                    : { score: 0, rationale: `${assertion.tool} was never called` };
+            }
+            return calls.length > 0
+                ? { score: 0, rationale: `${assertion.tool} was called in agent message ${calls[0].agentTurn}` }
+                : { score: 1, rationale: `${assertion.tool} was never called` };
+        }
+
+        case 'tool-input-schema': {
+            const calls = getToolCalls(conversation).filter(c => c.tool === assertion.tool);
+            // Whether the tool should be called at all is a separate tool-called assertion
+            if (calls.length === 0) {
+                return { score: 1, rationale: `${assertion.tool} was never called, nothing to validate` };
+            }
+            const invalid = calls
+                .map(call => ({ call, errors: validateJsonSchema(call.input, assertion.schema) }))
+                .filter(({ errors }) => errors.length > 0);
+            if (invalid.length === 0) {
+                return { score: 1, rationale: `All ${calls.length} ${assertion.tool} calls match the schema` };
+            }
+            const { call, errors } = invalid[0];
+            return {
+                score: 1 - invalid.length / calls.length,
+                rationale: `${invalid.length}/${calls.length} ${assertion.tool} calls don't match the schema (agent message ${call.agentTurn}: ${errors.slice(0, 3).join('; ')})`
+            };
+        }
+    }
+}
@@ -0,0 +1,230 @@
+import { AgentConfig, AgentBackendType, OverrideConfig, ChatHistoryMessage } from '@/types/polaris';
+import { ChatResponse, sendChatRequest, validatePolarisUrl } from './api';
+import { runMockPolarisTurn } from './mock-polaris';
+import { isMockModelMode } from './mock-models';
+import { loadAgentGraph, loadMockScript, loadChatHistory, saveChatHistory } from './persistence';
+
+// A chat backend that simulations, behavior tests and chat can talk to.
+// Every adapter returns the Polaris ChatResponse shape so callers don't care which one runs.
+export interface AgentBackend {
+    type: AgentBackendType;
+    label: string;
+    // When true, the full prompt set must be sent on every request because the
+    // backend has no copy of the agent graph to fall back on
+    requiresFullPrompts: boolean;
+    validateUrl: (url: string) => { valid: boolean; error?: string };
+    sendMessage: (
+        agent: AgentConfig,
+        message: string,
+        chatId?: string,
+        overrideConfig?: OverrideConfig
+    ) => Promise<ChatResponse>;
+}
+
+// Only env vars under this prefix can be named as an agent's API key, so an agent
+// can't be pointed at OPENAI_API_KEY or any other server secret
+export const API_KEY_ENV_PREFIX = 'AGENT_API_KEY_';
+
+// Chat ids double as file names for stored histories
+const CHAT_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+function createChatId(prefix: string): string {
+    return `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+}
+
+// Conversation history for backends that are stateless between requests, stored per chat.
+// Polaris keeps its own memory server-side, so only the local adapters use this.
+async function loadHistory(agentId: string, chatId: string): Promise<ChatHistoryMessage[]> {
+    if (!CHAT_ID_PATTERN.test(chatId)) {
+        throw new Error(`Invalid chat id: ${chatId}`);
+    }
+    return await loadChatHistory(agentId, chatId);
+}
+
+// Flatten node prompt overrides into a single system message, in node order
+function buildSystemMessage(overrideConfig?: OverrideConfig): string {
+    const systemPrompts = overrideConfig?.systemMessagePrompt || {};
+    const humanPrompts = overrideConfig?.humanMessagePrompt || {};
+    const nodeIds = Array.from(new Set([...Object.keys(systemPrompts), ...Object.keys(humanPrompts)]));
+
+    return nodeIds
+        .map(nodeId => [systemPrompts[nodeId], humanPrompts[nodeId]].filter(Boolean).join('\n\n'))
+        .filter(Boolean)
+        .join('\n\n');
+}
+
+// ============ POLARIS ============
+
+export const polarisBackend: AgentBackend = {
+    type: 'polaris',
+    label: 'Polaris',
+    requiresFullPrompts: false,
+    validateUrl: validatePolarisUrl,
+    sendMessage: (agent, message, chatId, overrideConfig) =>
+        sendChatRequest(agent.apiUrl, message, chatId, overrideConfig),
+};
+
+// ============ OPENAI-COMPATIBLE ============
+
+// Validate an OpenAI-compatible chat completions URL
+export function validateChatCompletionsUrl(url: string): { valid: boolean; error?: string } {
+    try {
+        const parsed = new URL(url);
+
+        // The agent's API key is sent along, so never over plain http
+        if (parsed.protocol !== 'https:') {
+            return { valid: false, error: 'URL must use https' };
+        }
+
+        if (!parsed.pathname.endsWith('/chat/completions')) {
+            return {
+                valid: false,
+                error: 'URL must point to a /chat/completions endpoint'
+            };
+        }
+
+        return { valid: true };
+    } catch {
+        return { valid: false, error: 'Invalid URL format' };
+    }
+}
+
+export function validateApiKeyEnvVar(name: string): { valid: boolean; error?: string } {
+    if (!name.startsWith(API_KEY_ENV_PREFIX) || !/^[A-Z0-9_]+$/.test(name) || name === API_KEY_ENV_PREFIX) {
+        return { valid: false, error: `API key env var must be named ${API_KEY_ENV_PREFIX}<NAME>` };
+    }
+    return { valid: true };
+}
+
+export const openAICompatibleBackend: AgentBackend = {
+    type: 'openai-compatible',
+    label: 'OpenAI-compatible',
+    requiresFullPrompts: true,
+    validateUrl: validateChatCompletionsUrl,
+    sendMessage: async (agent, message, chatId, overrideConfig) => {
+        // Re-checked here as well - agents.json may predate the validation in createAgent
+        const urlValidation = validateChatCompletionsUrl(agent.apiUrl);
+        if (!urlValidation.valid) {
+            throw new Error(`Invalid OpenAI-compatible URL: ${urlValidation.error}`);
+        }
+
+        const activeChatId = chatId || createChatId('chat');
+        const history = await loadHistory(agent.id, activeChatId);
+        const systemMessage = buildSystemMessage(overrideConfig);
+
+        const messages: ChatHistoryMessage[] = [
+            ...(systemMessage ? [{ role: 'system' as const, content: systemMessage }] : []),
+            ...history,
+            { role: 'user', content: message },
+        ];
+
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (agent.apiKeyEnvVar) {
+            const keyValidation = validateApiKeyEnvVar(agent.apiKeyEnvVar);
+            if (!keyValidation.valid) {
+                throw new Error(keyValidation.error);
+            }
+            const apiKey = process.env[agent.apiKeyEnvVar];
+            if (!apiKey) {
+                throw new Error(`Missing ${agent.apiKeyEnvVar} environment variable`);
+            }
+            headers.Authorization = `Bearer ${apiKey}`;
+        }
+
+        console.log('=== OPENAI-COMPATIBLE API REQUEST ===');
+        console.log('API URL:', agent.apiUrl, 'Model:', agent.backendModel, 'History length:', history.length);
+
+        const response = await fetch(agent.apiUrl, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify({
+                model: agent.backendModel || 'gpt-4o',
+                messages,
+            }),
+        });
+
+        if (!response.ok) {
+            const errorDetails = await response.text().catch(() => '');
+            throw new Error(`API request failed with status ${response.status}: ${errorDetails}`);
+        }
+
+        const data = await response.json();
+        const text: string = data.choices?.[0]?.message?.content || '';
+
+        await saveChatHistory(agent.id, activeChatId, [
+            ...history,
+            { role: 'user', content: message },
+            { role: 'assistant', content: text },
+        ]);
+
+        return {
+            text,
+            question: message,
+            chatId: activeChatId,
+            chatMessageId: data.id || createChatId('msg'),
+            sessionId: activeChatId,
+            memoryType: 'openai-compatible',
+        };
+    },
+};
+
+// ============ MOCK ============
+
+// Walks the agent's own graph.json locally and answers from its mock script,
+// so simulations and behavior tests run without network access or API spend
+export const mockBackend: AgentBackend = {
+    type: 'mock',
+    label: 'Local mock',
+    requiresFullPrompts: true,
+    // The mock never leaves the process, so any URL (or none) is fine
+    validateUrl: () => ({ valid: true }),
+    sendMessage: async (agent, message, chatId, overrideConfig) => {
+        const graph = await loadAgentGraph(agent.id);
+        if (!graph) {
+            throw new Error(`Agent graph not found for agent: ${agent.id}`);
+        }
+        const script = await loadMockScript(agent.id);
+
+        const activeChatId = chatId || createChatId('mock');
+        // Count answered turns from the stored conversation, so recorded replies stay in step
+        // after a restart or when a resumed simulation picks its chat back up
+        const history = await loadHistory(agent.id, activeChatId);
+        const turnIndex = history.filter(m => m.role === 'assistant').length;
+
+        const { text, agentReasoning } = runMockPolarisTurn(graph, message, turnIndex, script, overrideConfig);
+
+        await saveChatHistory(agent.id, activeChatId, [
+            ...history,
+            { role: 'user', content: message },
+            { role: 'assistant', content: text },
+        ]);
+
+        return {
+            text,
+            question: message,
+            chatId: activeChatId,
+            chatMessageId: `${activeChatId}-${turnIndex + 1}`,
+            sessionId: activeChatId,
+            memoryType: 'mock',
+            agentReasoning,
+        };
+    },
+};
+
+// ============ REGISTRY ============
+
+const BACKENDS: Record<AgentBackendType, AgentBackend> = {
+    'polaris': polarisBackend,
+    'openai-compatible': openAICompatibleBackend,
+    'mock': mockBackend,
+};
+
+// Resolve the backend adapter for an agent (agents registered before adapters existed are Polaris).
+// Setting AGENT_BACKEND=mock routes every agent through the local mock, e.g. in CI
+// (and the persona, judge and refinement calls through mock-models).
+export function getAgentBackend(type?: AgentBackendType): AgentBackend {
+    if (isMockModelMode()) {
+        return mockBackend;
+    }
+    return BACKENDS[type || 'polaris'] || polarisBackend;
+}
@@ -1,12 +1,19 @@
 import Braintrust from 'braintrust';
 import OpenAI from 'openai';
-import { BehaviorTest, BehaviorTestResult, ConversationTurn } from '@/types/behavior-test';
+import { BehaviorTest, BehaviorTestResult, ConversationTurn, TurnBlame } from '@/types/behavior-test';
 import { Persona } from '@/types/simulation';
+import { isMockModelMode, mockScorerPrompt, mockScoreConversation, mockExperimentInsights, mockClusterFailures } from './mock-models';
 
-// Initialize OpenAI for LLM judge
-const openai = new OpenAI({
-    apiKey: process.env.OPENAI_API_KEY,
-});
+// OpenAI client for the LLM judge, created on first use so mock mode can load this module without a key
+let openaiClient: OpenAI | null = null;
+
+function getOpenAI(): OpenAI {
+    if (!process.env.OPENAI_API_KEY) {
+        throw new Error('Missing OPENAI_API_KEY environment variable');
+    }
+    openaiClient ??= new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+    return openaiClient;
+}
 
 // Generate scorer prompt from user's problem description
 export async function generateScorerPrompt(problemDescription: string): Promise<{
@@ -14,6 +21,10 @@ export async function generateScorerPrompt(problemDescription: string): Promise<
     testName: string;
     personaHint: string;
 }> {
+    if (isMockModelMode()) {
+        return mockScorerPrompt(problemDescription);
+    }
+
     const systemPrompt = `You are an expert at creating evaluation criteria for AI agents.
 
 Given a problem description, generate:
@@ -45,7 +56,7 @@ Example of GOOD scorer logic:
 
 Return JSON with: { "scorerPrompt": string, "testName": string, "personaHint": string }`;
 
-    const completion = await openai.chat.completions.create({
+    const completion = await getOpenAI().chat.completions.create({
         model: 'gpt-5.2',
         messages: [
             { role: 'system', content: systemPrompt },
@@ -60,14 +71,19 @@ Return JSON with: { "scorerPrompt": string, "testName": string, "personaHint": s
     return JSON.parse(content);
 }
 
-// Run the LLM judge on a conversation
+// Run the LLM judge on a conversation. Turns are numbered so the judge can point at the
+// agent turns that cost points.
 export async function scoreConversation(
     scorerPrompt: string,
     conversation: ConversationTurn[],
     persona: Persona
-): Promise<{ score: number; rationale: string }> {
+): Promise<{ score: number; rationale: string; blamedTurns: TurnBlame[] }> {
+    if (isMockModelMode()) {
+        return mockScoreConversation(conversation);
+    }
+
     const conversationText = conversation
-        .map(turn => `${turn.role === 'user' ? 'Lead' : 'Agent'}: ${turn.content}`)
+        .map((turn, i) => `[Turn ${i}] ${turn.role === 'user' ? 'Lead' : 'Agent'}: ${turn.content}`)
         .join('\n\n');
 
     const personaText = `Name: ${persona.name}
@@ -80,13 +96,15 @@ Tone: ${persona.tone}`;
         .replace('{{conversation}}', conversationText)
         .replace('{{persona}}', personaText);
 
-    const completion = await openai.chat.completions.create({
+    const completion = await getOpenAI().chat.completions.create({
         model: 'gpt-5.2',
         reasoning_effort: 'low',
         messages: [
             {
                 role: 'system',
-                content: `You are an expert evaluator. Analyze the conversation and score it based on the criteria provided. Return JSON with: { "score": number (0-1), "rationale": string }`
+                content: `You are an expert evaluator. Analyze the conversation and score it based on the criteria provided. Return JSON with: { "score": number (0-1), "rationale": string, "blamedTurns": [{ "turn": number, "comment": string }] }
+
+blamedTurns lists the Agent turns, by their [Turn N] number, that caused a deduction, each with a one-sentence comment on what the agent got wrong there. Leave it empty if nothing was deducted or the problem is something the agent never said rather than a specific turn.`
             },
             { role: 'user', content: filledPrompt }
         ],
@@ -97,9 +115,19 @@ Tone: ${persona.tone}`;
     if (!content) throw new Error('Failed to score conversation');
 
     const result = JSON.parse(content);
+
+    // Keep only real agent turns, once each
+    const blamedTurns: TurnBlame[] = [];
+    for (const blame of Array.isArray(result.blamedTurns) ? result.blamedTurns : []) {
+        const turnIndex = Number(blame?.turn);
+        if (conversation[turnIndex]?.role !== 'assistant' || blamedTurns.some(b => b.turnIndex === turnIndex)) continue;
+        blamedTurns.push({ turnIndex, comment: String(blame.comment || '') });
+    }
+
     return {
         score: Math.max(0, Math.min(1, result.score)),
-        rationale: result.rationale || 'No rationale provided'
+        rationale: result.rationale || 'No rationale provided',
+        blamedTurns: blamedTurns.sort((a, b) => a.turnIndex - b.turnIndex),
     };
 }
 
@@ -143,6 +171,10 @@ export async function logToBraintrust(
         expected: 'Agent should exhibit correct behavior as described in the test',
         scores: {
             behaviorCompliance: result.score,
+            // One score per rubric criterion, so Braintrust can chart them separately
+            ...(result.criteria && result.criteria.length > 1
+                ? Object.fromEntries(result.criteria.map(c => [c.name, c.score]))
+                : {}),
         },
         metadata: {
             testId: test.id,
@@ -178,6 +210,10 @@ export async function generateExperimentInsights(
     test: BehaviorTest,
     results: BehaviorTestResult[]
 ): Promise<{ aiSummary: string; recommendations: string[] }> {
+    if (isMockModelMode()) {
+        return mockExperimentInsights(results);
+    }
+
     const passedCount = results.filter(r => r.passed).length;
     const failedCount = results.length - passedCount;
     const avgScore = results.reduce((sum, r) => sum + r.score, 0) / results.length;
@@ -222,7 +258,7 @@ Provide your analysis as JSON:
 }`;
 
     try {
-        const completion = await openai.chat.completions.create({
+        const completion = await getOpenAI().chat.completions.create({
             model: 'gpt-5.2',
             messages: [
                 { role: 'system', content: systemPrompt },
@@ -252,3 +288,83 @@ Provide your analysis as JSON:
         };
     }
 }
+
+// Group failed conversations by how they failed. The model sees short ids (F1, F2...) and clusters
+// come back as positions in `failures`, which stay stable when a cassette replays the call.
+export async function clusterFailures(
+    test: BehaviorTest,
+    failures: BehaviorTestResult[]
+): Promise<{ name: string; description: string; failureIndexes: number[]; exampleIndexes: number[] }[]> {
+    if (isMockModelMode()) {
+        return mockClusterFailures(failures);
+    }
+
+    const failureBlocks = failures.map((r, i) => {
+        // The judge's rationale carries most of the signal; the last few turns show what actually happened
+        const excerpt = r.conversation
+            .slice(-6)
+            .map(turn => `${turn.role === 'user' ? 'Lead' : 'Agent'}: ${turn.content.slice(0, 250)}`)
+            .join('\n');
+        return `[F${i + 1}] ${r.persona.name} (${r.persona.role}), score ${r.score.toFixed(2)}
+Rationale: ${r.rationale}
+Conversation excerpt:
+${excerpt}`;
+    }).join('\n\n');
+
+    const systemPrompt = `You are an expert AI agent evaluator. Group failed test conversations into failure modes - clusters of conversations where the agent went wrong in the same way.
+
+Rules:
+- Every failure id must appear in exactly one cluster
+- Prefer a few meaningful clusters over many tiny ones; a single failure can be its own cluster if it is genuinely different
+- Name each cluster in 2-6 words after the agent's mistake, e.g. "Skips budget question"
+- Pick up to 3 representative failure ids per cluster - the clearest examples of that failure mode`;
+
+    const userPrompt = `## Behavior Test: ${test.name}
+
+**Problem Being Tested:**
+${test.problemDescription}
+
+**Failed Conversations (${failures.length}):**
+
+${failureBlocks}
+
+Respond as JSON:
+{
+    "clusters": [
+        {
+            "name": "Short failure mode name",
+            "description": "One or two sentences on what the agent does wrong in these conversations",
+            "failureIds": ["F1", "F4"],
+            "representativeIds": ["F1"]
+        }
+    ]
+}`;
+
+    const completion = await getOpenAI().chat.completions.create({
+        model: 'gpt-5.2',
+        messages: [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: userPrompt }
+        ],
+        response_format: { type: 'json_object' },
+    });
+
+    const content = completion.choices[0].message.content;
+    if (!content) {
+        throw new Error('No response from OpenAI');
+    }
+
+    const result = JSON.parse(content) as {
+        clusters?: { name?: string; description?: string; failureIds?: string[]; representativeIds?: string[] }[];
+    };
+    const toIndexes = (shortIds: string[] = []) => shortIds
+        .map(shortId => Number(String(shortId).replace(/^F/i, '')) - 1)
+        .filter(index => Number.isInteger(index) && index >= 0 && index < failures.length);
+
+    return (result.clusters || []).map(c => ({
+        name: c.name || 'Unnamed failure mode',
+        description: c.description || '',
+        failureIndexes: toIndexes(c.failureIds),
+        exampleIndexes: toIndexes(c.representativeIds),
+    }));
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { CalibrationLabel, CalibrationPrediction } from '@/types/behavior-test';
+import { computeCalibrationMetrics } from './calibration';
+
+function prediction(label: CalibrationLabel, predicted?: CalibrationLabel): CalibrationPrediction {
+    return { conversationId: `${label}-${predicted}`, label, predicted, rationale: '' };
+}
+
+describe('computeCalibrationMetrics', () => {
+    it('counts agreement with fail as the positive class', () => {
+        const metrics = computeCalibrationMetrics([
+            prediction('pass', 'pass'),
+            prediction('pass', 'pass'),
+            prediction('pass', 'pass'),
+            prediction('pass', 'fail'),
+            prediction('fail', 'fail'),
+            prediction('fail', 'fail'),
+            prediction('fail', 'fail'),
+            prediction('fail', 'pass'),
+            prediction('fail', 'pass'),
+        ]);
+
+        expect(metrics.confusion).toEqual({ truePass: 3, falsePass: 2, trueFail: 3, falseFail: 1 });
+        expect(metrics.total).toBe(9);
+        expect(metrics.agreement).toBe(67);
+        expect(metrics.precision).toBe(0.75);
+        expect(metrics.recall).toBe(0.6);
+        expect(metrics.f1).toBe(0.667);
+    });
+
+    it('leaves judge errors out of the metrics and only counts them', () => {
+        const metrics = computeCalibrationMetrics([prediction('fail', 'fail'), prediction('pass'), prediction('fail')]);
+
+        expect(metrics.total).toBe(1);
+        expect(metrics.errors).toBe(2);
+        expect(metrics.agreement).toBe(100);
+        expect(metrics.precision).toBe(1);
+        expect(metrics.recall).toBe(1);
+    });
+
+    it('scores zero rather than dividing by zero', () => {
+        expect(computeCalibrationMetrics([prediction('pass', 'pass')])).toMatchObject({ agreement: 100, precision: 0, recall: 0, f1: 0 });
+        expect(computeCalibrationMetrics([])).toMatchObject({ total: 0, errors: 0, agreement: 0 });
+    });
+});
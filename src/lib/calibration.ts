@@ -0,0 +1,43 @@
+import { CalibrationMetrics, CalibrationPrediction, ConversationTurn } from '@/types/behavior-test';
+import { SimulationTurn } from '@/types/simulation';
+
+// Simulation transcripts carry the same turns as behavior test results
+export function simulationTurnsToConversation(turns: SimulationTurn[]): ConversationTurn[] {
+    return turns.map(t => ({ role: t.role, content: t.content, traceData: t.traceData }));
+}
+
+function ratio(numerator: number, denominator: number): number {
+    return denominator > 0 ? Math.round((numerator / denominator) * 1000) / 1000 : 0;
+}
+
+// How well the judge's verdicts agree with the human labels. Conversations the judge errored on
+// say nothing about its judgement, so they are only counted.
+export function computeCalibrationMetrics(allPredictions: CalibrationPrediction[]): CalibrationMetrics {
+    const confusion = { truePass: 0, falsePass: 0, trueFail: 0, falseFail: 0 };
+    const predictions = allPredictions.filter(p => p.predicted !== undefined);
+
+    for (const p of predictions) {
+        if (p.label === 'pass') {
+            if (p.predicted === 'pass') confusion.truePass++;
+            else confusion.falseFail++;
+        } else {
+            if (p.predicted === 'fail') confusion.trueFail++;
+            else confusion.falsePass++;
+        }
+    }
+
+    const precision = ratio(confusion.trueFail, confusion.trueFail + confusion.falseFail);
+    const recall = ratio(confusion.trueFail, confusion.trueFail + confusion.falsePass);
+
+    return {
+        total: predictions.length,
+        errors: allPredictions.length - predictions.length,
+        agreement: predictions.length > 0
+            ? Math.round(((confusion.truePass + confusion.trueFail) / predictions.length) * 100)
+            : 0,
+        precision,
+        recall,
+        f1: ratio(2 * precision * recall, precision + recall),
+        confusion,
+    };
+}
@@ -0,0 +1,189 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Cassette } from '@/types/cassette';
+import { BehaviorTest, ConversationTurn } from '@/types/behavior-test';
+import { Persona } from '@/types/simulation';
+import { cassetteCall, withCassette, ResolvedCassetteOptions } from './cassette';
+import { scoreBehaviorConversation } from '@/app/actions';
+import { scoreConversation } from './braintrust';
+
+const FIXTURES_DIR = path.join(__dirname, '__fixtures__', 'cassettes');
+
+// Cassettes recorded by a test, by id. Anything else is read from the committed fixtures.
+const savedCassettes = new Map<string, Cassette>();
+
+vi.mock('./persistence', async importOriginal => ({
+    ...await importOriginal<typeof import('./persistence')>(),
+    loadCassette: vi.fn(async (_agentId: string, cassetteId: string) => {
+        const saved = savedCassettes.get(cassetteId);
+        if (saved) return structuredClone(saved);
+        try {
+            return JSON.parse(await readFile(path.join(FIXTURES_DIR, `${cassetteId}.json`), 'utf-8'));
+        } catch {
+            return null;
+        }
+    }),
+    saveCassette: vi.fn(async (_agentId: string, cassette: Cassette) => {
+        savedCassettes.set(cassette.id, structuredClone(cassette));
+    }),
+}));
+
+// A replayed run must never reach the live judge
+vi.mock('./braintrust', async importOriginal => ({
+    ...await importOriginal<typeof import('./braintrust')>(),
+    scoreConversation: vi.fn(async () => {
+        throw new Error('Live judge called during replay');
+    }),
+}));
+
+const AGENT_ID = 'agent-test';
+const SOURCE: Cassette['source'] = { type: 'experiment', id: 'exp-test' };
+
+function record(cassetteId: string): ResolvedCassetteOptions {
+    return { mode: 'record', cassetteId, liveKinds: [] };
+}
+
+function replay(cassetteId: string, liveKinds: ResolvedCassetteOptions['liveKinds'] = []): ResolvedCassetteOptions {
+    return { mode: 'replay', cassetteId, liveKinds };
+}
+
+beforeEach(() => {
+    savedCassettes.clear();
+    vi.mocked(scoreConversation).mockClear();
+});
+
+describe('cassette keys', () => {
+    it('replays a request recorded with its keys in a different order', async () => {
+        await withCassette(AGENT_ID, record('keys'), SOURCE, { nodes: [] }, () =>
+            cassetteCall('judge', { scorerPrompt: 'p', personaId: 'a', extra: undefined }, async () => 'recorded')
+        );
+
+        const live = vi.fn(async () => 'live');
+        const response = await withCassette(AGENT_ID, replay('keys'), SOURCE, { nodes: [] }, () =>
+            cassetteCall('judge', { personaId: 'a', scorerPrompt: 'p' }, live)
+        );
+
+        expect(response).toBe('recorded');
+        expect(live).not.toHaveBeenCalled();
+    });
+
+    it('keys the same request differently per call kind', async () => {
+        await withCassette(AGENT_ID, record('kinds'), SOURCE, { nodes: [] }, () =>
+            cassetteCall('judge', { message: 'hi' }, async () => 'judged')
+        );
+
+        await expect(withCassette(AGENT_ID, replay('kinds'), SOURCE, { nodes: [] }, () =>
+            cassetteCall('agent', { message: 'hi' }, async () => 'live')
+        )).rejects.toThrow('has no recorded agent response');
+    });
+});
+
+describe('cassette replay', () => {
+    it('replays identical requests in the order they were recorded', async () => {
+        const replies = ['first', 'second'];
+        await withCassette(AGENT_ID, record('order'), SOURCE, { nodes: [] }, async () => {
+            for (const reply of replies) {
+                await cassetteCall('persona-response', { history: [] }, async () => reply);
+            }
+        });
+
+        const replayed = await withCassette(AGENT_ID, replay('order'), SOURCE, { nodes: [] }, async () => [
+            await cassetteCall('persona-response', { history: [] }, async () => 'live'),
+            await cassetteCall('persona-response', { history: [] }, async () => 'live'),
+        ]);
+
+        expect(replayed).toEqual(replies);
+    });
+
+    it('fails on a cache miss instead of calling the live model', async () => {
+        await withCassette(AGENT_ID, record('miss'), SOURCE, { nodes: [] }, () =>
+            cassetteCall('persona-response', { history: [] }, async () => 'only once')
+        );
+
+        const live = vi.fn(async () => 'live');
+        await expect(withCassette(AGENT_ID, replay('miss'), SOURCE, { nodes: [] }, async () => {
+            await cassetteCall('persona-response', { history: [] }, live);
+            await cassetteCall('persona-response', { history: [] }, live);
+        })).rejects.toThrow('Cassette miss has no recorded persona-response response for this request');
+        expect(live).not.toHaveBeenCalled();
+    });
+
+    it('calls live kinds through even when they were recorded', async () => {
+        await withCassette(AGENT_ID, record('live-kinds'), SOURCE, { nodes: [] }, () =>
+            cassetteCall('judge', { score: 'me' }, async () => 'old scorer')
+        );
+
+        const response = await withCassette(AGENT_ID, replay('live-kinds', ['judge']), SOURCE, { nodes: [] }, () =>
+            cassetteCall('judge', { score: 'me' }, async () => 'new scorer')
+        );
+
+        expect(response).toBe('new scorer');
+    });
+
+    it('throws when the cassette to replay does not exist', async () => {
+        await expect(withCassette(AGENT_ID, replay('missing'), SOURCE, { nodes: [] }, async () => 'ran'))
+            .rejects.toThrow('Cassette not found: missing');
+    });
+});
+
+// ============ FIXTURE REPLAY ============
+
+// The run recorded in __fixtures__/cassettes/judge-replay.json
+const persona: Persona = {
+    id: 'persona-fixture-1',
+    name: 'Dana Price',
+    role: 'Small business owner',
+    goal: 'Book an installation appointment',
+    context: 'Opening a second store next month',
+    tone: 'Direct',
+};
+
+const conversation: ConversationTurn[] = [
+    { role: 'user', content: 'Hi, I need internet set up at my new store.' },
+    { role: 'assistant', content: 'Hi Dana, thanks for reaching out! I can help with that.' },
+    { role: 'user', content: 'Great. When can someone come out?' },
+    { role: 'assistant', content: 'Our team will be in touch soon.' },
+];
+
+const test: BehaviorTest = {
+    id: 'test-fixture',
+    name: 'Books installations',
+    problemDescription: 'The agent should greet the caller and offer a concrete appointment time',
+    scorerPrompt: 'Did the agent greet the caller and offer a concrete appointment time?\n\n{{conversation}}',
+    personaHint: 'Customers asking for installation',
+    simulationCount: 1,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    criteria: [
+        { id: 'greets', name: 'Greets the caller', weight: 1, passThreshold: 0.7, type: 'llm-judge', judgePrompt: 'Did the agent greet the caller by name?\n\n{{conversation}}' },
+        { id: 'offers-time', name: 'Offers an appointment', weight: 1, passThreshold: 0.7, type: 'llm-judge', judgePrompt: 'Did the agent offer a concrete appointment time?\n\n{{conversation}}' },
+    ],
+};
+
+describe('scoreBehaviorConversation replay', () => {
+    it('scores the recorded conversation from the fixture without calling the judge', async () => {
+        const result = await withCassette(AGENT_ID, replay('judge-replay'), SOURCE, { nodes: [] }, () =>
+            scoreBehaviorConversation(test, conversation, persona)
+        );
+
+        expect(scoreConversation).not.toHaveBeenCalled();
+        expect(result.score).toBeCloseTo(0.6);
+        expect(result.passed).toBe(false);
+        expect(result.criteria.map(c => [c.criterionId, c.score, c.passed])).toEqual([
+            ['greets', 1, true],
+            ['offers-time', 0.2, false],
+        ]);
+        expect(result.blamedTurns).toEqual([
+            { turnIndex: 3, comment: 'Says the team will be in touch instead of proposing a time', criterionName: 'Offers an appointment' },
+        ]);
+    });
+
+    it('fails the replay when the conversation no longer matches the recording', async () => {
+        const edited = conversation.map((turn, i) => i === 3 ? { ...turn, content: 'How about Tuesday at 10am?' } : turn);
+
+        await expect(withCassette(AGENT_ID, replay('judge-replay'), SOURCE, { nodes: [] }, () =>
+            scoreBehaviorConversation(test, edited, persona)
+        )).rejects.toThrow('has no recorded judge response');
+        expect(scoreConversation).not.toHaveBeenCalled();
+    });
+});
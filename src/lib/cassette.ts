@@ -0,0 +1,165 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
+import { Cassette, CassetteCallKind, CassetteMode, CassetteOptions } from '@/types/cassette';
+import { OverridableNode } from '@/types/polaris';
+import { loadCassette, saveCassette } from './persistence';
+
+interface ActiveCassette {
+    agentId: string;
+    mode: CassetteMode;
+    cassette: Cassette;
+    liveKinds: CassetteCallKind[];
+    // How many entries with a given key have been replayed, so repeated identical requests replay in order
+    replayCursors: Map<string, number>;
+    // Recordings are written as they grow, one write at a time, so an interrupted run keeps what it captured
+    pendingSave: Promise<void>;
+}
+
+// Batches and experiments run concurrently in the same server process, so the active
+// cassette follows each run's async call chain instead of living in a module variable
+const cassetteStorage = new AsyncLocalStorage<ActiveCassette>();
+
+export interface ResolvedCassetteOptions {
+    mode: CassetteMode;
+    cassetteId: string;
+    liveKinds: CassetteCallKind[];
+}
+
+// ============ OPTIONS ============
+
+// Explicit options win; otherwise CASSETTE_MODE (and CASSETTE_ID for replay) turn cassettes on for every run, e.g. in CI
+export function resolveCassetteOptions(
+    options: CassetteOptions | undefined,
+    defaultCassetteId: string
+): ResolvedCassetteOptions | null {
+    const envMode = process.env.CASSETTE_MODE;
+    const mode = options?.mode || (envMode === 'record' || envMode === 'replay' ? envMode : undefined);
+    if (!mode) return null;
+
+    const cassetteId = options?.cassetteId
+        || (options ? undefined : process.env.CASSETTE_ID)
+        || (mode === 'record' ? defaultCassetteId : undefined);
+    if (!cassetteId) {
+        throw new Error('A cassette id is required to replay a run');
+    }
+
+    return { mode, cassetteId, liveKinds: options?.liveKinds || [] };
+}
+
+// ============ KEYS ============
+
+// JSON with sorted object keys, so logically equal requests hash the same
+function stableStringify(value: unknown): string {
+    if (Array.isArray(value)) {
+        return `[${value.map(stableStringify).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+        const record = value as Record<string, unknown>;
+        return `{${Object.keys(record)
+            .filter(key => record[key] !== undefined)
+            .sort()
+            .map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`)
+            .join(',')}}`;
+    }
+    return JSON.stringify(value) ?? 'null';
+}
+
+function getRequestKey(kind: CassetteCallKind, serializedRequest: string): string {
+    return createHash('sha256').update(`${kind}:${serializedRequest}`).digest('hex').substring(0, 16);
+}
+
+// ============ RECORD / REPLAY ============
+
+// Run fn with a cassette attached to every call it makes through cassetteCall.
+// Recording into an existing cassette appends to it, so resumed runs extend their recording.
+export async function withCassette<T>(
+    agentId: string,
+    options: ResolvedCassetteOptions,
+    source: Cassette['source'],
+    inputs: { nodes: OverridableNode[]; stateOverrides?: Record<string, string> },
+    fn: () => Promise<T>
+): Promise<T> {
+    let cassette: Cassette;
+
+    if (options.mode === 'replay') {
+        const recorded = await loadCassette(agentId, options.cassetteId);
+        if (!recorded) {
+            throw new Error(`Cassette not found: ${options.cassetteId}`);
+        }
+        cassette = recorded;
+    } else {
+        const now = new Date().toISOString();
+        cassette = await loadCassette(agentId, options.cassetteId) || {
+            id: options.cassetteId,
+            source,
+            nodes: inputs.nodes,
+            stateOverrides: inputs.stateOverrides,
+            entries: [],
+            createdAt: now,
+            updatedAt: now,
+        };
+    }
+
+    console.log(`[Cassette] ${options.mode === 'record' ? 'Recording' : 'Replaying'} ${options.cassetteId}`);
+
+    const active: ActiveCassette = {
+        agentId,
+        mode: options.mode,
+        cassette,
+        liveKinds: options.liveKinds,
+        replayCursors: new Map(),
+        pendingSave: Promise.resolve(),
+    };
+
+    try {
+        return await cassetteStorage.run(active, fn);
+    } finally {
+        if (options.mode === 'record') {
+            await active.pendingSave;
+            await saveCassette(agentId, cassette);
+            console.log(`[Cassette] Saved ${cassette.entries.length} entries to ${cassette.id}`);
+        }
+    }
+}
+
+// Route a model or agent call through the active cassette, if any.
+// `request` should hold only the inputs that determine the response - no timestamps or random ids -
+// so the same run replays against the same keys.
+export async function cassetteCall<T>(
+    kind: CassetteCallKind,
+    request: unknown,
+    fn: () => Promise<T>
+): Promise<T> {
+    const active = cassetteStorage.getStore();
+    if (!active || active.liveKinds.includes(kind)) {
+        return fn();
+    }
+
+    // Serialize now - callers keep mutating history arrays after the call
+    const serializedRequest = stableStringify(request);
+    const key = getRequestKey(kind, serializedRequest);
+
+    if (active.mode === 'replay') {
+        const cursor = active.replayCursors.get(key) || 0;
+        const entry = active.cassette.entries.filter(e => e.key === key)[cursor];
+        if (!entry) {
+            throw new Error(`Cassette ${active.cassette.id} has no recorded ${kind} response for this request`);
+        }
+        active.replayCursors.set(key, cursor + 1);
+        // Hand out a copy so callers can't alter the recording for later lookups
+        return structuredClone(entry.response) as T;
+    }
+
+    const response = await fn();
+    active.cassette.entries.push({
+        kind,
+        key,
+        request: JSON.parse(serializedRequest),
+        response,
+        recordedAt: new Date().toISOString(),
+    });
+    active.pendingSave = active.pendingSave
+        .then(() => saveCassette(active.agentId, active.cassette))
+        .catch(error => console.error(`[Cassette] Failed to save ${active.cassette.id}:`, error));
+    return response;
+}
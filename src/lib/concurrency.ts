@@ -0,0 +1,156 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { AgentBackendType } from '@/types/polaris';
+
+// One pool per agent backend, plus one for our own OpenAI calls (persona simulator, judge, insights)
+export type ConcurrencyPool = AgentBackendType | 'openai';
+
+// Defaults, overridable with CONCURRENCY_POLARIS, CONCURRENCY_OPENAI_COMPATIBLE, CONCURRENCY_MOCK and CONCURRENCY_OPENAI
+const DEFAULT_POOL_LIMITS: Record<ConcurrencyPool, number> = {
+    'polaris': 4,
+    'openai-compatible': 4,
+    'mock': 16,
+    'openai': 8,
+};
+
+// How many conversations a single experiment or batch runs at once (CONCURRENCY_CONVERSATIONS)
+const DEFAULT_CONVERSATION_LIMIT = 5;
+
+// Retry settings for rate limits and server errors (RETRY_MAX_ATTEMPTS caps the retries)
+const DEFAULT_MAX_RETRIES = 4;
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+
+interface Pool {
+    limit: number;
+    active: number;
+    waiting: (() => void)[];
+}
+
+const pools = new Map<ConcurrencyPool, Pool>();
+
+// Retries made inside the current conversation, see trackRetries
+const retryCounter = new AsyncLocalStorage<{ retries: number }>();
+
+// ============ LIMITS ============
+
+function readLimit(envVar: string, fallback: number, min = 1): number {
+    const value = parseInt(process.env[envVar] || '', 10);
+    return Number.isFinite(value) && value >= min ? value : fallback;
+}
+
+function getPool(name: ConcurrencyPool): Pool {
+    let pool = pools.get(name);
+    if (!pool) {
+        const envVar = `CONCURRENCY_${name.toUpperCase().replace(/-/g, '_')}`;
+        pool = { limit: readLimit(envVar, DEFAULT_POOL_LIMITS[name]), active: 0, waiting: [] };
+        pools.set(name, pool);
+    }
+    return pool;
+}
+
+export function getConversationConcurrency(): number {
+    return readLimit('CONCURRENCY_CONVERSATIONS', DEFAULT_CONVERSATION_LIMIT);
+}
+
+// Run fn once the pool has a free slot. The pool is shared by every run in the process,
+// so two experiments against the same backend together stay under its limit.
+async function runInPool<T>(name: ConcurrencyPool, fn: () => Promise<T>): Promise<T> {
+    const pool = getPool(name);
+    if (pool.active < pool.limit) {
+        pool.active++;
+    } else {
+        // Wait for a finishing call to hand over its slot
+        await new Promise<void>(resolve => pool.waiting.push(resolve));
+    }
+    try {
+        return await fn();
+    } finally {
+        const next = pool.waiting.shift();
+        if (next) {
+            next();
+        } else {
+            pool.active--;
+        }
+    }
+}
+
+// Map over items with at most `limit` in flight, keeping results in input order
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let nextIndex = 0;
+
+    const worker = async () => {
+        while (nextIndex < items.length) {
+            const index = nextIndex++;
+            results[index] = await fn(items[index], index);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+}
+
+// ============ BACKOFF ============
+
+function getErrorStatus(error: unknown): number | undefined {
+    // OpenAI SDK errors carry the status; our fetch-based backends put it in the message
+    if (error && typeof error === 'object' && 'status' in error && typeof error.status === 'number') {
+        return error.status;
+    }
+    const match = error instanceof Error ? error.message.match(/status (\d{3})/) : null;
+    return match ? parseInt(match[1], 10) : undefined;
+}
+
+function isRetryable(error: unknown): boolean {
+    const status = getErrorStatus(error);
+    if (status !== undefined) {
+        return status === 429 || status >= 500;
+    }
+    // Dropped connections and timeouts never got a status
+    return error instanceof Error && /fetch failed|ECONNRESET|ETIMEDOUT|socket hang up/i.test(error.message);
+}
+
+function getBackoffDelay(attempt: number): number {
+    const exponential = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+    // Full jitter, so parallel conversations that hit a 429 together don't retry together
+    return Math.floor(Math.random() * exponential);
+}
+
+// Call a backend through its concurrency pool, retrying 429s and 5xx with exponential backoff.
+// The pool slot is released while waiting to retry.
+export async function withBackoff<T>(pool: ConcurrencyPool, fn: () => Promise<T>): Promise<T> {
+    const maxRetries = readLimit('RETRY_MAX_ATTEMPTS', DEFAULT_MAX_RETRIES, 0);
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await runInPool(pool, fn);
+        } catch (error) {
+            if (attempt >= maxRetries || !isRetryable(error)) {
+                throw error;
+            }
+
+            const delay = getBackoffDelay(attempt);
+            const counter = retryCounter.getStore();
+            if (counter) counter.retries++;
+
+            console.warn(`[Backoff] ${pool} call failed (status ${getErrorStatus(error) ?? 'none'}), retry ${attempt + 1}/${maxRetries} in ${delay}ms`);
+            await new Promise(r => setTimeout(r, delay));
+        }
+    }
+}
+
+// Run one conversation and count the retries its calls needed
+export async function trackRetries<T>(fn: () => Promise<T>): Promise<{ result: T; retries: number }> {
+    const counter = { retries: 0 };
+    const result = await retryCounter.run(counter, fn);
+    return { result, retries: counter.retries };
+}
+
+// Retries so far in the conversation being tracked, for runs that record the count as they go
+export function getRetryCount(): number {
+    return retryCounter.getStore()?.retries ?? 0;
+}
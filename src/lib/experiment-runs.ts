@@ -0,0 +1,25 @@
+// Behavior experiments and regression suites running in this server process, so a later request
+// can cancel one. Their files are the source of truth for progress; this only holds the abort handles.
+const runningExperiments = new Map<string, AbortController>();
+
+export function registerExperimentRun(experimentId: string): AbortSignal {
+    const controller = new AbortController();
+    runningExperiments.set(experimentId, controller);
+    return controller.signal;
+}
+
+export function finishExperimentRun(experimentId: string) {
+    runningExperiments.delete(experimentId);
+}
+
+export function isExperimentRunning(experimentId: string): boolean {
+    return runningExperiments.has(experimentId);
+}
+
+// Returns false when the experiment isn't running here (already finished, or orphaned by a restart)
+export function cancelExperimentRun(experimentId: string): boolean {
+    const controller = runningExperiments.get(experimentId);
+    if (!controller) return false;
+    controller.abort();
+    return true;
+}
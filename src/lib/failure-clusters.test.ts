@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { BehaviorTestResult } from '@/types/behavior-test';
+import { normalizeFailureClusters } from './failure-clusters';
+
+function failure(id: string, personaId: string): BehaviorTestResult {
+    return {
+        id,
+        personaId,
+        persona: { id: personaId, name: `Persona ${personaId}`, role: 'Customer', goal: 'Book', context: '', tone: 'Calm' },
+        conversation: [],
+        score: 0.2,
+        passed: false,
+        rationale: '',
+        scoredAt: '2026-01-01T00:00:00.000Z',
+    };
+}
+
+const failures = [failure('f1', 'p1'), failure('f2', 'p1'), failure('f3', 'p2'), failure('f4', 'p3'), failure('f5', 'p2')];
+
+describe('normalizeFailureClusters', () => {
+    it('puts each failure in the first cluster that claims it and collects the rest', () => {
+        const clusters = normalizeFailureClusters([
+            { name: 'Skips phone', description: 'Never asks for a phone number', failureIndexes: [0, 2, 9], exampleIndexes: [2, 4] },
+            { name: 'Too long', description: 'Rambles', failureIndexes: [0, 1, 4], exampleIndexes: [] },
+            { name: 'Empty', description: 'Nothing left to claim', failureIndexes: [1], exampleIndexes: [1] },
+        ], failures);
+
+        expect(clusters).toMatchObject([
+            {
+                name: 'Skips phone',
+                description: 'Never asks for a phone number',
+                resultIds: ['f1', 'f3'],
+                exampleResultIds: ['f3'],
+                personas: [{ personaId: 'p1', personaName: 'Persona p1' }, { personaId: 'p2', personaName: 'Persona p2' }],
+            },
+            {
+                name: 'Too long',
+                description: 'Rambles',
+                resultIds: ['f2', 'f5'],
+                exampleResultIds: ['f2', 'f5'],
+                personas: [{ personaId: 'p1', personaName: 'Persona p1' }, { personaId: 'p2', personaName: 'Persona p2' }],
+            },
+            {
+                name: 'Other failures',
+                description: 'Failures that were not grouped with any other failure mode.',
+                resultIds: ['f4'],
+                exampleResultIds: ['f4'],
+                personas: [{ personaId: 'p3', personaName: 'Persona p3' }],
+            },
+        ]);
+        expect(new Set(clusters.map(c => c.id)).size).toBe(3);
+    });
+
+    it('orders clusters largest first and caps the examples', () => {
+        const clusters = normalizeFailureClusters([
+            { name: 'Small', description: '', failureIndexes: [0], exampleIndexes: [] },
+            { name: 'Large', description: '', failureIndexes: [1, 2, 3, 4], exampleIndexes: [] },
+        ], failures);
+
+        expect(clusters.map(c => [c.name, c.resultIds.length])).toEqual([['Large', 4], ['Small', 1]]);
+        expect(clusters[0].exampleResultIds).toEqual(['f2', 'f3', 'f4']);
+    });
+
+    it('falls back to a single catch-all cluster when nothing is grouped', () => {
+        expect(normalizeFailureClusters([], failures).map(c => [c.name, c.resultIds.length])).toEqual([['Other failures', 5]]);
+    });
+});
@@ -0,0 +1,60 @@
+import { BehaviorTestResult, FailureCluster } from '@/types/behavior-test';
+
+const MAX_EXAMPLES = 3;
+
+// Turn the model's grouping into clean clusters: each failure in exactly one cluster (first claim wins),
+// failures it left out collected under "Other failures", and clusters ordered largest first
+export function normalizeFailureClusters(
+    raw: { name: string; description: string; failureIndexes: number[]; exampleIndexes: number[] }[],
+    failures: BehaviorTestResult[]
+): FailureCluster[] {
+    const failuresById = new Map(failures.map(r => [r.id, r]));
+    const claimed = new Set<string>();
+    const stamp = Date.now();
+    const toResultIds = (indexes: number[]) => indexes.map(i => failures[i]?.id).filter((id): id is string => !!id);
+
+    const groups = raw.map(cluster => {
+        const resultIds: string[] = [];
+        for (const id of toResultIds(cluster.failureIndexes)) {
+            if (claimed.has(id)) continue;
+            claimed.add(id);
+            resultIds.push(id);
+        }
+        return {
+            name: cluster.name,
+            description: cluster.description,
+            resultIds,
+            exampleResultIds: toResultIds(cluster.exampleIndexes),
+        };
+    });
+
+    const unclaimed = failures.filter(r => !claimed.has(r.id)).map(r => r.id);
+    if (unclaimed.length > 0) {
+        groups.push({
+            name: 'Other failures',
+            description: 'Failures that were not grouped with any other failure mode.',
+            resultIds: unclaimed,
+            exampleResultIds: [],
+        });
+    }
+
+    return groups
+        .filter(g => g.resultIds.length > 0)
+        .sort((a, b) => b.resultIds.length - a.resultIds.length)
+        .map((group, i) => {
+            const examples = group.exampleResultIds.filter(id => group.resultIds.includes(id));
+            const personas = new Map(group.resultIds.map(id => {
+                const result = failuresById.get(id)!;
+                return [result.personaId, { personaId: result.personaId, personaName: result.persona.name }];
+            }));
+
+            return {
+                id: `cluster-${stamp}-${i}`,
+                name: group.name,
+                description: group.description,
+                resultIds: group.resultIds,
+                exampleResultIds: (examples.length > 0 ? examples : group.resultIds).slice(0, MAX_EXAMPLES),
+                personas: Array.from(personas.values()),
+            };
+        });
+}
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { PolarisGraph, PolarisNode } from '@/types/polaris';
+import { planGraphUpdate, resolveGraphUpdate } from './graph-merge';
+
+function agent(id: string, agentName: string, systemMessagePrompt: string): PolarisNode {
+    return {
+        id,
+        position: { x: 0, y: 0 },
+        type: 'customNode',
+        data: { id, label: 'Agent', name: 'seqAgent', type: 'Agent', inputs: { agentName, systemMessagePrompt } },
+    };
+}
+
+function state(defaults: Record<string, string>): PolarisNode {
+    const fields = Object.entries(defaults).map(([key, defaultValue]) => ({ key, type: 'string', defaultValue }));
+    return {
+        id: 'seqState_0',
+        position: { x: 0, y: 0 },
+        type: 'customNode',
+        data: { id: 'seqState_0', label: 'State', name: 'seqState', type: 'State', inputs: { stateMemoryUI: JSON.stringify(fields) } },
+    };
+}
+
+function graph(...nodes: PolarisNode[]): PolarisGraph {
+    return { nodes, edges: [] };
+}
+
+describe('planGraphUpdate', () => {
+    it('keeps our edit when only we changed a prompt and takes theirs when only they did', () => {
+        const oldGraph = graph(agent('a', 'Sales', 'base sales'), agent('b', 'Support', 'base support'));
+        const newGraph = graph(agent('a', 'Sales', 'base sales'), agent('b', 'Support', 'new support'));
+
+        const plan = planGraphUpdate(oldGraph, newGraph, {
+            prompts: { a: { systemMessagePrompt: 'our sales' } },
+            state: {},
+        });
+
+        expect(plan.promptOverrides).toEqual({ a: { systemMessagePrompt: 'our sales' } });
+        expect(plan.conflicts).toEqual([]);
+        expect(plan.nodeChanges).toEqual([
+            { kind: 'changed', nodeId: 'b', label: 'Support', type: 'Agent', changedPrompts: ['systemMessagePrompt'] },
+        ]);
+    });
+
+    it('adopts a change both sides made the same way', () => {
+        const plan = planGraphUpdate(graph(agent('a', 'Sales', 'base')), graph(agent('a', 'Sales', 'same')), {
+            prompts: { a: { systemMessagePrompt: 'same' } },
+            state: {},
+        });
+
+        expect(plan.promptOverrides).toEqual({});
+        expect(plan.adopted).toEqual([{ type: 'prompt', nodeId: 'a', nodeLabel: 'Sales', promptType: 'systemMessagePrompt' }]);
+    });
+
+    it('reports a conflict when both sides changed a prompt differently', () => {
+        const plan = planGraphUpdate(graph(agent('a', 'Sales', 'base')), graph(agent('a', 'Sales', 'theirs')), {
+            prompts: { a: { systemMessagePrompt: 'ours' } },
+            state: {},
+        });
+
+        expect(plan.conflicts).toEqual([{
+            id: 'prompt:a:systemMessagePrompt',
+            target: { type: 'prompt', nodeId: 'a', nodeLabel: 'Sales', promptType: 'systemMessagePrompt' },
+            base: 'base',
+            ours: 'ours',
+            theirs: 'theirs',
+        }]);
+    });
+
+    it('follows a node re-created under a new ID and drops edits to removed nodes', () => {
+        const oldGraph = graph(agent('a_0', 'Sales', 'base'), agent('b_0', 'Support', 'support'));
+        const newGraph = graph(agent('a_1', 'Sales', 'base'), agent('c_0', 'Billing', 'billing'));
+
+        const plan = planGraphUpdate(oldGraph, newGraph, {
+            prompts: { a_0: { systemMessagePrompt: 'ours' }, b_0: { systemMessagePrompt: 'gone' } },
+            state: {},
+        });
+
+        expect(plan.nodeIdMap).toEqual({ a_0: 'a_1' });
+        expect(plan.promptOverrides).toEqual({ a_1: { systemMessagePrompt: 'ours' } });
+        expect(plan.dropped).toEqual([{
+            target: { type: 'prompt', nodeId: 'b_0', nodeLabel: 'Support', promptType: 'systemMessagePrompt' },
+            value: 'gone',
+        }]);
+        expect(plan.nodeChanges.map(c => [c.kind, c.nodeId])).toEqual([['changed', 'a_1'], ['removed', 'b_0'], ['added', 'c_0']]);
+    });
+
+    it('matches a renamed, re-created node by its system prompt', () => {
+        const plan = planGraphUpdate(graph(agent('a_0', 'Sales', 'base')), graph(agent('a_1', 'Sales Rep', 'base')), {
+            prompts: {},
+            state: {},
+        });
+
+        expect(plan.nodeIdMap).toEqual({ a_0: 'a_1' });
+        expect(plan.nodeChanges).toEqual([
+            { kind: 'changed', nodeId: 'a_1', label: 'Sales Rep', type: 'Agent', previousId: 'a_0', previousLabel: 'Sales' },
+        ]);
+    });
+
+    it('merges state values against the field defaults', () => {
+        const oldGraph = graph(state({ brand: 'Acme', tone: 'warm', phone: '555', legacy: 'x' }));
+        const newGraph = graph(state({ brand: 'Acme', tone: 'formal', phone: '555', email: 'a@b.c' }));
+
+        const plan = planGraphUpdate(oldGraph, newGraph, {
+            prompts: {},
+            state: { brand: 'Globex', tone: 'playful', phone: '555', legacy: 'y' },
+        });
+
+        expect(plan.stateFieldChanges).toEqual([
+            { kind: 'default-changed', key: 'tone' },
+            { kind: 'removed', key: 'legacy' },
+            { kind: 'added', key: 'email' },
+        ]);
+        expect(plan.stateOverrides).toEqual({ brand: 'Globex' });
+        expect(plan.conflicts.map(c => c.id)).toEqual(['state:tone']);
+        expect(plan.dropped).toEqual([{ target: { type: 'state', key: 'legacy' }, value: 'y' }]);
+    });
+});
+
+describe('resolveGraphUpdate', () => {
+    const plan = planGraphUpdate(
+        graph(agent('a', 'Sales', 'base'), state({ tone: 'warm' })),
+        graph(agent('a', 'Sales', 'theirs'), state({ tone: 'formal' })),
+        { prompts: { a: { systemMessagePrompt: 'ours' } }, state: { tone: 'playful' } }
+    );
+
+    it('folds the chosen values into the overrides', () => {
+        expect(resolveGraphUpdate(plan, { 'prompt:a:systemMessagePrompt': 'merged', 'state:tone': 'playful' })).toEqual({
+            promptOverrides: { a: { systemMessagePrompt: 'merged' } },
+            stateOverrides: { tone: 'playful' },
+        });
+    });
+
+    it('needs no override when the new default is chosen', () => {
+        expect(resolveGraphUpdate(plan, { 'prompt:a:systemMessagePrompt': 'theirs', 'state:tone': 'formal' })).toEqual({
+            promptOverrides: {},
+            stateOverrides: {},
+        });
+    });
+
+    it('refuses to apply while a conflict is unresolved', () => {
+        expect(() => resolveGraphUpdate(plan, { 'prompt:a:systemMessagePrompt': 'ours' }))
+            .toThrow('Unresolved merge conflict in state field tone');
+    });
+});
@@ -0,0 +1,209 @@
+import {
+    PolarisGraph,
+    PolarisNode,
+    GraphNodeChange,
+    GraphMergeTarget,
+    GraphUpdatePlan,
+    NodePromptOverrides,
+    NodePromptType,
+} from '@/types/polaris';
+import { getNodeDisplayName } from './graph';
+import { extractStateFieldsFromGraph } from './polaris';
+
+const PROMPT_TYPES: NodePromptType[] = ['systemMessagePrompt', 'humanMessagePrompt'];
+
+// Our side of the merge - prompt and state values as we run them. Anything missing is the old default.
+export interface CurrentEdits {
+    prompts: NodePromptOverrides;
+    state: Record<string, string>;
+}
+
+function getNodeId(node: PolarisNode): string {
+    return node.data.id || node.id;
+}
+
+function getDefaultPrompt(node: PolarisNode, promptType: NodePromptType): string | undefined {
+    const prompt = node.data.inputs?.[promptType];
+    return typeof prompt === 'string' ? prompt : undefined;
+}
+
+// Pair each old node with its counterpart in the new graph: the same ID first, then the same kind of node
+// under the same name or with the same system prompt - how a node deleted and re-created in Polaris shows up
+function matchNodes(oldGraph: PolarisGraph, newGraph: PolarisGraph): Map<string, PolarisNode> {
+    const matches = new Map<string, PolarisNode>();
+    const newById = new Map(newGraph.nodes.map(n => [getNodeId(n), n]));
+    const claimed = new Set<string>();
+
+    for (const node of oldGraph.nodes) {
+        const counterpart = newById.get(getNodeId(node));
+        if (counterpart) {
+            matches.set(getNodeId(node), counterpart);
+            claimed.add(getNodeId(counterpart));
+        }
+    }
+
+    for (const node of oldGraph.nodes) {
+        if (matches.has(getNodeId(node))) continue;
+        const candidates = newGraph.nodes.filter(n => !claimed.has(getNodeId(n)) && n.data.name === node.data.name);
+        const systemPrompt = getDefaultPrompt(node, 'systemMessagePrompt');
+        const counterpart =
+            candidates.find(n => getNodeDisplayName(n) === getNodeDisplayName(node)) ||
+            (systemPrompt ? candidates.find(n => getDefaultPrompt(n, 'systemMessagePrompt') === systemPrompt) : undefined);
+        if (counterpart) {
+            matches.set(getNodeId(node), counterpart);
+            claimed.add(getNodeId(counterpart));
+        }
+    }
+
+    return matches;
+}
+
+// Three-way merge of one value against the old (base) and new (theirs) defaults
+function mergeValue(base: string, ours: string, theirs: string): 'ours' | 'theirs' | 'adopted' | 'conflict' {
+    if (ours === base) return 'theirs';
+    if (theirs === base) return 'ours';
+    if (ours === theirs) return 'adopted';
+    return 'conflict';
+}
+
+function getConflictId(target: GraphMergeTarget): string {
+    return target.type === 'prompt' ? `prompt:${target.nodeId}:${target.promptType}` : `state:${target.key}`;
+}
+
+export function planGraphUpdate(oldGraph: PolarisGraph, newGraph: PolarisGraph, current: CurrentEdits): GraphUpdatePlan {
+    const matches = matchNodes(oldGraph, newGraph);
+    const matchedNewIds = new Set([...matches.values()].map(getNodeId));
+
+    const plan: GraphUpdatePlan = {
+        nodeChanges: [],
+        stateFieldChanges: [],
+        nodeIdMap: {},
+        promptOverrides: {},
+        stateOverrides: {},
+        conflicts: [],
+        adopted: [],
+        dropped: [],
+    };
+
+    const addConflict = (target: GraphMergeTarget, base: string, ours: string, theirs: string) => {
+        plan.conflicts.push({ id: getConflictId(target), target, base, ours, theirs });
+    };
+
+    // ---- Nodes ----
+    for (const oldNode of oldGraph.nodes) {
+        const oldId = getNodeId(oldNode);
+        const newNode = matches.get(oldId);
+
+        if (!newNode) {
+            plan.nodeChanges.push({ kind: 'removed', nodeId: oldId, label: getNodeDisplayName(oldNode), type: oldNode.data.type || 'Unknown' });
+        } else {
+            const newId = getNodeId(newNode);
+            const change: GraphNodeChange = { kind: 'changed', nodeId: newId, label: getNodeDisplayName(newNode), type: newNode.data.type || 'Unknown' };
+            if (newId !== oldId) {
+                change.previousId = oldId;
+                plan.nodeIdMap[oldId] = newId;
+            }
+            if (getNodeDisplayName(oldNode) !== change.label) change.previousLabel = getNodeDisplayName(oldNode);
+            const changedPrompts = PROMPT_TYPES.filter(t => getDefaultPrompt(oldNode, t) !== getDefaultPrompt(newNode, t));
+            if (changedPrompts.length > 0) change.changedPrompts = changedPrompts;
+            if (change.previousId || change.previousLabel || change.changedPrompts) plan.nodeChanges.push(change);
+        }
+
+        const edits = current.prompts[oldId] || {};
+        for (const promptType of PROMPT_TYPES) {
+            const ours = edits[promptType];
+            const base = getDefaultPrompt(oldNode, promptType) ?? '';
+            if (ours === undefined || ours === base) continue;
+
+            const theirs = newNode ? getDefaultPrompt(newNode, promptType) : undefined;
+            if (!newNode || theirs === undefined) {
+                plan.dropped.push({
+                    target: { type: 'prompt', nodeId: oldId, nodeLabel: getNodeDisplayName(oldNode), promptType },
+                    value: ours,
+                });
+                continue;
+            }
+
+            const newId = getNodeId(newNode);
+            const target: GraphMergeTarget = { type: 'prompt', nodeId: newId, nodeLabel: getNodeDisplayName(newNode), promptType };
+            const outcome = mergeValue(base, ours, theirs);
+            if (outcome === 'ours') {
+                plan.promptOverrides[newId] = { ...plan.promptOverrides[newId], [promptType]: ours };
+            } else if (outcome === 'adopted') {
+                plan.adopted.push(target);
+            } else if (outcome === 'conflict') {
+                addConflict(target, base, ours, theirs);
+            }
+        }
+    }
+
+    for (const newNode of newGraph.nodes) {
+        if (matchedNewIds.has(getNodeId(newNode))) continue;
+        plan.nodeChanges.push({ kind: 'added', nodeId: getNodeId(newNode), label: getNodeDisplayName(newNode), type: newNode.data.type || 'Unknown' });
+    }
+
+    // ---- State fields ----
+    const oldDefaults = new Map(extractStateFieldsFromGraph(oldGraph).map(f => [f.key, f.defaultValue || '']));
+    const newDefaults = new Map(extractStateFieldsFromGraph(newGraph).map(f => [f.key, f.defaultValue || '']));
+
+    for (const [key, value] of oldDefaults) {
+        if (!newDefaults.has(key)) plan.stateFieldChanges.push({ kind: 'removed', key });
+        else if (newDefaults.get(key) !== value) plan.stateFieldChanges.push({ kind: 'default-changed', key });
+    }
+    for (const key of newDefaults.keys()) {
+        if (!oldDefaults.has(key)) plan.stateFieldChanges.push({ kind: 'added', key });
+    }
+
+    for (const [key, ours] of Object.entries(current.state)) {
+        const base = oldDefaults.get(key) ?? '';
+        if (ours === base) continue;
+
+        const target: GraphMergeTarget = { type: 'state', key };
+        const theirs = newDefaults.get(key);
+        if (theirs === undefined) {
+            plan.dropped.push({ target, value: ours });
+            continue;
+        }
+
+        const outcome = mergeValue(base, ours, theirs);
+        if (outcome === 'ours') {
+            plan.stateOverrides[key] = ours;
+        } else if (outcome === 'adopted') {
+            plan.adopted.push(target);
+        } else if (outcome === 'conflict') {
+            addConflict(target, base, ours, theirs);
+        }
+    }
+
+    return plan;
+}
+
+// Fold the chosen value for every conflict into the merged overrides. A choice equal to the new
+// default needs no override.
+export function resolveGraphUpdate(
+    plan: GraphUpdatePlan,
+    resolutions: Record<string, string>
+): { promptOverrides: NodePromptOverrides; stateOverrides: Record<string, string> } {
+    const promptOverrides: NodePromptOverrides = { ...plan.promptOverrides };
+    const stateOverrides = { ...plan.stateOverrides };
+
+    for (const conflict of plan.conflicts) {
+        const value = resolutions[conflict.id];
+        if (value === undefined) {
+            const where = conflict.target.type === 'prompt'
+                ? `${conflict.target.nodeLabel} ${conflict.target.promptType}`
+                : `state field ${conflict.target.key}`;
+            throw new Error(`Unresolved merge conflict in ${where}`);
+        }
+        if (value === conflict.theirs) continue;
+
+        if (conflict.target.type === 'prompt') {
+            const { nodeId, promptType } = conflict.target;
+            promptOverrides[nodeId] = { ...promptOverrides[nodeId], [promptType]: value };
+        } else {
+            stateOverrides[conflict.target.key] = value;
+        }
+    }
+
+    return { promptOverrides, stateOverrides };
+}
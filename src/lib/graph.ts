@@ -0,0 +1,114 @@
+import { PolarisGraph, PolarisNode, GraphView, GraphViewNode } from '@/types/polaris';
+
+type PolarisEdge = NonNullable<PolarisGraph['edges']>[number];
+
+// ============ GRAPH WALKING ============
+
+export function findNode(graph: PolarisGraph, nodeId: string): PolarisNode | undefined {
+    return graph.nodes.find(n => n.data.id === nodeId || n.id === nodeId);
+}
+
+// Start, LLM nodes, conditions, agents and ends - tools, models, memory and the state node feed into them
+export function isSequentialNode(node: PolarisNode): boolean {
+    return !!node.data.name?.startsWith('seq') && node.data.name !== 'seqState';
+}
+
+// Outgoing edges along the sequential flow - tool, model and memory edges point into nodes, not out of them
+export function getSequentialEdges(graph: PolarisGraph, nodeId: string): PolarisEdge[] {
+    return (graph.edges || []).filter(e => {
+        if (e.source !== nodeId) return false;
+        const target = findNode(graph, e.target);
+        return !!target && isSequentialNode(target);
+    });
+}
+
+export function getNodeDisplayName(node: PolarisNode): string {
+    const inputs = node.data.inputs || {};
+    return inputs.agentName || inputs.llmNodeName || inputs.conditionName || node.data.label || node.data.id;
+}
+
+// The condition branch an edge leaves through, from handles like seqCondition_0-output-new_sales_lead-Condition
+export function getEdgeRoute(edge: PolarisEdge): string | undefined {
+    return String(edge.sourceHandle || '').match(/-output-(.+)-Condition$/)?.[1];
+}
+
+// ============ GRAPH VIEW ============
+
+// Branches of a condition node: the rules from its condition table, or just the output names
+// when the condition is written as code
+function getConditions(node: PolarisNode): GraphViewNode['conditions'] {
+    if (node.data.name !== 'seqCondition') return undefined;
+
+    const conditionUI = node.data.inputs?.conditionUI;
+    if (conditionUI) {
+        try {
+            const rows: { variable?: string; operation?: string; value?: string; output?: string }[] = JSON.parse(conditionUI);
+            return rows.filter(r => r.output).map(r => ({
+                output: r.output as string,
+                rule: `${(r.variable || '').replace(/^\$this\.state\./, '')} ${r.operation || ''} ${r.value || ''}`.trim(),
+            }));
+        } catch {
+            console.log(`[Graph] Could not parse conditionUI for ${node.data.id}`);
+        }
+    }
+
+    const options: { name?: string }[] = node.data.outputAnchors?.[0]?.options || [];
+    return options.filter(o => o.name && o.name !== 'end').map(o => ({ output: o.name as string }));
+}
+
+export function buildGraphView(graph: PolarisGraph): GraphView {
+    const nodes: GraphViewNode[] = graph.nodes.map(node => {
+        const inputs = node.data.inputs || {};
+        const hasPrompts = typeof inputs.systemMessagePrompt === 'string' || typeof inputs.humanMessagePrompt === 'string';
+        return {
+            id: node.data.id || node.id,
+            label: getNodeDisplayName(node),
+            type: node.data.type || 'Unknown',
+            sequential: isSequentialNode(node),
+            position: node.position,
+            width: node.width || 300,
+            conditions: getConditions(node),
+            defaultPrompts: hasPrompts
+                ? { systemMessagePrompt: inputs.systemMessagePrompt, humanMessagePrompt: inputs.humanMessagePrompt }
+                : undefined,
+        };
+    });
+
+    const edges = (graph.edges || []).flatMap(edge => {
+        const source = findNode(graph, edge.source);
+        const target = findNode(graph, edge.target);
+        if (!source || !target) return [];
+        return [{
+            id: String(edge.id || `${edge.source}-${edge.target}`),
+            source: source.data.id || source.id,
+            target: target.data.id || target.id,
+            sequential: isSequentialNode(source) && isSequentialNode(target),
+            route: getEdgeRoute(edge),
+        }];
+    });
+
+    return { nodes, edges };
+}
+
+// ============ TRACE VISITS ============
+
+// How often each node ran across a conversation's agent turns, and the edges walked between them,
+// keyed "source->target", from the agentReasoning steps in each turn's traceData
+export function getTraceVisits(turns: { traceData?: unknown }[]): { nodeVisits: Record<string, number>; edgeKeys: string[] } {
+    const nodeVisits: Record<string, number> = {};
+    const edgeKeys = new Set<string>();
+
+    for (const turn of turns) {
+        if (!Array.isArray(turn.traceData)) continue;
+        let previous: string | undefined;
+        for (const step of turn.traceData) {
+            const nodeId = step?.nodeId;
+            if (typeof nodeId !== 'string') continue;
+            nodeVisits[nodeId] = (nodeVisits[nodeId] || 0) + 1;
+            if (previous) edgeKeys.add(`${previous}->${nodeId}`);
+            previous = nodeId;
+        }
+    }
+
+    return { nodeVisits, edgeKeys: [...edgeKeys] };
+}
@@ -0,0 +1,135 @@
+import { Persona, Intent, GeneratedSimulationOptions } from '@/types/simulation';
+import { BehaviorTestResult, ConversationTurn, TurnBlame } from '@/types/behavior-test';
+
+// Local stand-ins for the OpenAI calls around a run - persona simulator, judge, insights, clustering
+// and prompt refinement. With AGENT_BACKEND=mock the agent answers from the mock backend and these
+// answer everything else, so a whole batch or experiment runs without network access or API keys.
+
+// Persona messages before a mock customer says goodbye
+const MOCK_CONVERSATION_TURNS = 3;
+
+export function isMockModelMode(): boolean {
+    return process.env.AGENT_BACKEND === 'mock';
+}
+
+// ============ PERSONAS ============
+
+export function mockPersonas(count: number, description: string): Persona[] {
+    const timestamp = Date.now();
+    return Array.from({ length: count }, (_, i) => ({
+        id: `persona-${timestamp}-${i}`,
+        name: `Mock Customer ${i + 1}`,
+        role: 'Test customer',
+        goal: description || 'Get help from the agent',
+        context: `Scripted persona ${i + 1} for offline runs`,
+        tone: i % 2 === 0 ? 'Polite' : 'Impatient',
+    }));
+}
+
+export function mockSimulationOptions(): GeneratedSimulationOptions {
+    const timestamp = Date.now();
+    const intents: Pick<Intent, 'name' | 'flowType' | 'initialMessage'>[] = [
+        { name: 'New sales lead', flowType: 'NEW_SALES_LEAD', initialMessage: 'Hi, I would like to learn about your services.' },
+        { name: 'Existing customer', flowType: 'EXISTING_CUSTOMER', initialMessage: 'Hi, I have a problem with my account.' },
+        { name: 'Undetermined', flowType: 'UNDETERMINED', initialMessage: 'Hello?' },
+    ];
+
+    return {
+        personas: mockPersonas(2, ''),
+        emotions: [
+            { id: `emotion-${timestamp}-0`, name: 'Calm', description: 'Patient and friendly' },
+            { id: `emotion-${timestamp}-1`, name: 'Frustrated', description: 'Short answers, wants a fix quickly' },
+        ],
+        intents: intents.map((intent, i) => ({
+            id: `intent-${timestamp}-${i}`,
+            description: intent.name,
+            goal: intent.name,
+            ...intent,
+        })),
+        generatedAt: new Date().toISOString(),
+    };
+}
+
+// ============ PERSONA RESPONSES ============
+
+function countPersonaMessages(history: { role: string }[]): number {
+    return history.filter(h => h.role === 'user').length;
+}
+
+export function mockUserResponse(persona: Persona, history: { role: string; content: string }[]): string {
+    const turn = countPersonaMessages(history);
+    if (turn === 0) {
+        return `Hi, I'm ${persona.name}. ${persona.goal}`;
+    }
+    return `Thanks. Can you tell me more? (turn ${turn + 1})`;
+}
+
+export function mockEnhancedUserResponse(
+    intent: Intent,
+    history: { role: string; content: string }[]
+): { message: string; isComplete: boolean; outcome?: string } {
+    const turn = countPersonaMessages(history);
+    if (turn === 0) {
+        return { message: intent.initialMessage, isComplete: false };
+    }
+    if (turn >= MOCK_CONVERSATION_TURNS) {
+        return { message: 'Thanks, that is all I needed.', isComplete: true, outcome: 'Mock conversation completed' };
+    }
+    return { message: `Thanks. Can you tell me more? (turn ${turn + 1})`, isComplete: false };
+}
+
+// ============ JUDGE ============
+
+export function mockScorerPrompt(problemDescription: string): { scorerPrompt: string; testName: string; personaHint: string } {
+    return {
+        scorerPrompt: `Did the agent handle this correctly? ${problemDescription}\n\n{{conversation}}\n\n{{persona}}`,
+        testName: problemDescription.split(/\s+/).slice(0, 4).join(' ') || 'Mock test',
+        personaHint: problemDescription,
+    };
+}
+
+// Passes when every customer message got a non-empty agent reply; blames the empty ones
+export function mockScoreConversation(conversation: ConversationTurn[]): { score: number; rationale: string; blamedTurns: TurnBlame[] } {
+    const blamedTurns: TurnBlame[] = [];
+    let customerTurns = 0;
+
+    conversation.forEach((turn, i) => {
+        if (turn.role !== 'user') return;
+        customerTurns++;
+        const reply = conversation[i + 1];
+        if (reply?.role === 'assistant' && !reply.content.trim()) {
+            blamedTurns.push({ turnIndex: i + 1, comment: 'Empty agent reply' });
+        }
+    });
+
+    const answered = conversation.filter(t => t.role === 'assistant' && t.content.trim()).length;
+    const score = customerTurns > 0 ? Math.min(1, answered / customerTurns) : 0;
+
+    return {
+        score,
+        rationale: `Mock judge: agent answered ${answered} of ${customerTurns} customer messages`,
+        blamedTurns,
+    };
+}
+
+export function mockExperimentInsights(results: BehaviorTestResult[]): { aiSummary: string; recommendations: string[] } {
+    const passedCount = results.filter(r => r.passed).length;
+    return {
+        aiSummary: `Mock run: ${passedCount}/${results.length} tests passed.`,
+        recommendations: [],
+    };
+}
+
+// Every failure lands in one failure mode
+export function mockClusterFailures(
+    failures: BehaviorTestResult[]
+): { name: string; description: string; failureIndexes: number[]; exampleIndexes: number[] }[] {
+    if (failures.length === 0) return [];
+    const indexes = failures.map((_, i) => i);
+    return [{
+        name: 'Mock failure mode',
+        description: 'All failed conversations, grouped by the mock clusterer',
+        failureIndexes: indexes,
+        exampleIndexes: indexes.slice(0, 3),
+    }];
+}
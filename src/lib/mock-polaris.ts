@@ -0,0 +1,124 @@
+import { PolarisGraph, PolarisNode, OverrideConfig, MockPolarisScript, MockScriptRule } from '@/types/polaris';
+import { findNode, getSequentialEdges, getNodeDisplayName, getEdgeRoute } from './graph';
+
+export interface MockTurnResult {
+    text: string;
+    agentReasoning: MockReasoningStep[];
+}
+
+// Mirrors the agentReasoning steps Polaris returns, so TracePanel renders them unchanged
+export interface MockReasoningStep {
+    agentName: string;
+    messages: string[];
+    nodeName: string;
+    nodeId: string;
+    state?: Record<string, string>;
+    promptFingerprint?: string;      // Hash of the prompt the node ran with, to verify overrides arrive
+}
+
+// Safety net for malformed graphs with cycles between sequential nodes
+const MAX_GRAPH_STEPS = 25;
+
+// Small deterministic string hash (djb2) - stable across runs and processes
+export function fingerprint(text: string): string {
+    let hash = 5381;
+    for (let i = 0; i < text.length; i++) {
+        hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+    }
+    return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function getEffectivePrompt(node: PolarisNode, overrideConfig?: OverrideConfig): string {
+    const nodeId = node.data.id;
+    const system = overrideConfig?.systemMessagePrompt?.[nodeId] ?? node.data.inputs?.systemMessagePrompt ?? '';
+    const human = overrideConfig?.humanMessagePrompt?.[nodeId] ?? node.data.inputs?.humanMessagePrompt ?? '';
+    return `${system}\n${human}`;
+}
+
+function findMatchingRule(script: MockPolarisScript | null, message: string): MockScriptRule | undefined {
+    return script?.rules.find(rule => {
+        try {
+            return new RegExp(rule.match, 'i').test(message);
+        } catch {
+            // Treat an invalid pattern as a plain substring
+            return message.toLowerCase().includes(rule.match.toLowerCase());
+        }
+    });
+}
+
+// ============ TURN EXECUTION ============
+
+// Run one conversational turn through the graph without calling any model.
+// Same graph + overrides + script + message + turn index always produces the same result.
+export function runMockPolarisTurn(
+    graph: PolarisGraph,
+    message: string,
+    turnIndex: number,
+    script: MockPolarisScript | null,
+    overrideConfig?: OverrideConfig
+): MockTurnResult {
+    const rule = findMatchingRule(script, message);
+    const steps: MockReasoningStep[] = [];
+
+    let current = graph.nodes.find(n => n.data.name === 'seqStart');
+    let text = '';
+
+    for (let i = 0; current && i < MAX_GRAPH_STEPS; i++) {
+        const nodeId = current.data.id;
+        const nodeName = current.data.name;
+        const edges = getSequentialEdges(graph, nodeId);
+        let next = edges[0];
+
+        if (nodeName === 'seqLLMNode') {
+            steps.push({
+                agentName: getNodeDisplayName(current),
+                messages: [],
+                nodeName,
+                nodeId,
+                state: rule?.state || {},
+                promptFingerprint: fingerprint(getEffectivePrompt(current, overrideConfig)),
+            });
+        } else if (nodeName === 'seqCondition') {
+            // Follow the scripted route if one matches an output handle, otherwise the first branch
+            const routed = rule?.route
+                ? edges.find(e => String(e.sourceHandle || '').includes(`-output-${rule.route}-`))
+                : undefined;
+            next = routed || edges[0];
+            const route = (next && getEdgeRoute(next)) || 'default';
+            steps.push({
+                agentName: getNodeDisplayName(current),
+                messages: [route],
+                nodeName,
+                nodeId,
+            });
+        } else if (nodeName === 'seqAgent') {
+            const agentName = getNodeDisplayName(current);
+            text = rule?.response
+                ?? script?.recordedResponses?.[turnIndex]
+                ?? `Thanks for your message. This is a mock reply from ${agentName} (turn ${turnIndex + 1}).`;
+
+            steps.push({
+                agentName,
+                messages: [text],
+                nodeName,
+                nodeId,
+                state: {},
+                promptFingerprint: fingerprint(getEffectivePrompt(current, overrideConfig)),
+            });
+            // An agent's reply ends the turn - Polaris waits for the next user message
+            break;
+        } else if (nodeName === 'seqEnd') {
+            break;
+        }
+
+        current = next ? findNode(graph, next.target) : undefined;
+    }
+
+    if (!text) {
+        text = rule?.response
+            ?? script?.recordedResponses?.[turnIndex]
+            ?? `Thanks for your message. This is a mock reply (turn ${turnIndex + 1}).`;
+    }
+
+    return { text, agentReasoning: steps };
+}
@@ -0,0 +1,39 @@
+import { SimulationNote } from '@/types/simulation';
+
+// Turns quoted before the noted one, so the model sees what the agent was responding to
+const NOTE_CONTEXT_TURNS = 4;
+const MAX_TURN_CHARS = 600;
+
+export interface NoteWithTranscript {
+    note: SimulationNote;
+    turns: { role: 'user' | 'assistant'; content: string }[];  // Empty when the conversation is gone
+}
+
+// Each comment with the stretch of conversation it was left on, the noted turn marked
+function formatNotes(entries: NoteWithTranscript[]): string {
+    return entries.map(({ note, turns }, i) => {
+        const start = Math.max(0, note.turnIndex - NOTE_CONTEXT_TURNS);
+        const excerpt = turns.slice(start, note.turnIndex + 2).map((turn, offset) => {
+            const content = turn.content.length > MAX_TURN_CHARS ? `${turn.content.slice(0, MAX_TURN_CHARS)}...` : turn.content;
+            const marker = start + offset === note.turnIndex ? ' <-- flagged' : '';
+            return `  ${turn.role === 'user' ? 'Lead' : 'Agent'}: ${content}${marker}`;
+        });
+        return [`Note ${i + 1}: "${note.comment}"`, ...excerpt].join('\n');
+    }).join('\n\n');
+}
+
+// The problem description for a test drafted from reviewer notes
+export function buildNotesProblemDescription(entries: NoteWithTranscript[]): string {
+    return `Reviewers flagged the ${entries.length === 1 ? 'turn' : 'turns'} below. The agent should not repeat ${entries.length === 1 ? 'this behavior' : 'these behaviors'}.
+
+${formatNotes(entries)}`;
+}
+
+// The instruction handed to the prompt editor when fixing reviewer notes
+export function buildNotesRefineInstruction(entries: NoteWithTranscript[]): string {
+    return `Fix the agent so it no longer draws the reviewer ${entries.length === 1 ? 'note' : 'notes'} below. Each note quotes the conversation it was left on, with the flagged turn marked.
+
+${formatNotes(entries)}
+
+Make the smallest edits that address every note without changing unrelated behavior.`;
+}
@@ -1,5 +1,6 @@
 import OpenAI from 'openai';
 import { Persona, EmotionDimension, Intent, GeneratedSimulationOptions } from '@/types/simulation';
+import { isMockModelMode, mockPersonas, mockUserResponse, mockEnhancedUserResponse, mockSimulationOptions } from './mock-models';
 
 // Initialize OpenAI client
 // In a real app, ensure OPENAI_API_KEY is set in .env.local
@@ -21,6 +22,10 @@ export async function generatePersonas(
     description: string,
     agentContext?: AgentContext
 ): Promise<Persona[]> {
+    if (isMockModelMode()) {
+        return mockPersonas(count, description);
+    }
+
     if (!process.env.OPENAI_API_KEY) {
         throw new Error("Missing OPENAI_API_KEY environment variable");
     }
@@ -88,6 +93,10 @@ export async function generateBehaviorTestPersonas(
     personaHint: string,
     agentContext?: AgentContext
 ): Promise<Persona[]> {
+    if (isMockModelMode()) {
+        return mockPersonas(count, behaviorDescription);
+    }
+
     if (!process.env.OPENAI_API_KEY) {
         throw new Error("Missing OPENAI_API_KEY environment variable");
     }
@@ -215,6 +224,10 @@ export async function generatePersonasFromContext(
     count: number,
     agentContext: AgentContext
 ): Promise<Persona[]> {
+    if (isMockModelMode()) {
+        return mockPersonas(count, '');
+    }
+
     if (!process.env.OPENAI_API_KEY) {
         throw new Error("Missing OPENAI_API_KEY environment variable");
     }
@@ -268,6 +281,10 @@ Output ONLY valid JSON.`;
 }
 
 export async function generateUserResponse(persona: Persona, history: { role: string, content: string }[]): Promise<string> {
+    if (isMockModelMode()) {
+        return mockUserResponse(persona, history);
+    }
+
     if (!process.env.OPENAI_API_KEY) {
         throw new Error("Missing OPENAI_API_KEY environment variable");
     }
@@ -363,6 +380,10 @@ export async function generateFromOnboardingGuide(
     guideText: string,
     agentContext?: AgentContext
 ): Promise<GeneratedSimulationOptions> {
+    if (isMockModelMode()) {
+        return mockSimulationOptions();
+    }
+
     if (!process.env.OPENAI_API_KEY) {
         throw new Error("Missing OPENAI_API_KEY environment variable");
     }
@@ -504,6 +525,10 @@ export async function generateEnhancedUserResponse(
     customerPhone: string,
     customerEmail: string
 ): Promise<{ message: string; isComplete: boolean; outcome?: string }> {
+    if (isMockModelMode()) {
+        return mockEnhancedUserResponse(intent, history);
+    }
+
     if (!process.env.OPENAI_API_KEY) {
         throw new Error("Missing OPENAI_API_KEY environment variable");
     }
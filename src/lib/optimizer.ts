@@ -0,0 +1,89 @@
+import { BehaviorTest, BehaviorTestResult, OptimizationCandidate, OptimizationEdit } from '@/types/behavior-test';
+import { OverridableNode } from '@/types/polaris';
+import { getTestCriteria } from './rubric';
+
+export const DEFAULT_OPTIMIZATION_BUDGET = 5;
+export const MAX_OPTIMIZATION_BUDGET = 20;
+
+// Failing conversations quoted back to the editor - enough to see the pattern without blowing the context
+const MAX_FAILURES_IN_INSTRUCTION = 5;
+const MAX_RATIONALE_CHARS = 400;
+
+// Higher pass rate wins; average score breaks ties
+export function isBetterCandidate(candidate: OptimizationCandidate, best: OptimizationCandidate): boolean {
+    if (candidate.status !== 'completed' || candidate.passRate === undefined) return false;
+    if (best.status !== 'completed' || best.passRate === undefined) return true;
+    if (candidate.passRate !== best.passRate) return candidate.passRate > best.passRate;
+    return (candidate.avgScore ?? 0) > (best.avgScore ?? 0);
+}
+
+export function applyOptimizationEdits(
+    nodes: OverridableNode[],
+    stateValues: Record<string, string>,
+    edits: OptimizationEdit[]
+): { nodes: OverridableNode[]; stateValues: Record<string, string> } {
+    const updatedNodes = [...nodes];
+    const updatedState = { ...stateValues };
+
+    for (const edit of edits) {
+        if (edit.fieldType === 'state') {
+            updatedState[edit.field] = edit.after;
+        } else if (edit.fieldType === 'node' && edit.nodeId) {
+            const nodeIndex = updatedNodes.findIndex(n => n.id === edit.nodeId);
+            if (nodeIndex >= 0) {
+                updatedNodes[nodeIndex] = { ...updatedNodes[nodeIndex], [edit.promptType || 'systemMessagePrompt']: edit.after };
+            }
+        }
+    }
+
+    return { nodes: updatedNodes, stateValues: updatedState };
+}
+
+// What the candidates are scored against: the scorer prompt, or every rubric criterion with its weight and pass mark
+function describeJudging(test: BehaviorTest): string {
+    if (!test.criteria || test.criteria.length === 0) {
+        return test.scorerPrompt;
+    }
+
+    const lines = getTestCriteria(test).map(c => {
+        const how = c.type === 'check' && c.check
+            ? `automatic check ${JSON.stringify(c.check)}`
+            : c.judgePrompt || test.scorerPrompt;
+        return `- ${c.name} (weight ${c.weight}, passes at ${c.passThreshold}): ${how}`;
+    });
+    return `A conversation passes only when every criterion passes.\n${lines.join('\n')}`;
+}
+
+// The instruction handed to the prompt editor: what the test checks, how the best candidate
+// fails it, and which edits were already tried without beating it
+export function buildOptimizationInstruction(
+    test: BehaviorTest,
+    best: OptimizationCandidate,
+    failures: BehaviorTestResult[],
+    triedCandidates: OptimizationCandidate[]
+): string {
+    const failureLines = failures.slice(0, MAX_FAILURES_IN_INSTRUCTION).map(r =>
+        `- ${r.persona.name} (${r.persona.role}), score ${r.score.toFixed(2)}: ${r.rationale.slice(0, MAX_RATIONALE_CHARS)}`
+    );
+    const triedLines = triedCandidates
+        .filter(c => c.iteration > 0 && c.id !== best.id)
+        .map(c => `- ${c.changeSummary || 'Unnamed edit'} -> ${c.status === 'completed' ? `${c.passRate}% pass rate` : 'failed to run'}`);
+
+    return `Fix the agent so it passes this behavior test.
+
+BEHAVIOR BEING TESTED:
+${test.problemDescription}
+
+HOW CONVERSATIONS ARE JUDGED:
+${describeJudging(test)}
+
+The current configuration passes ${best.passRate}% of conversations (average score ${best.avgScore?.toFixed(2)}).
+${failureLines.length > 0 ? `
+FAILING CONVERSATIONS:
+${failureLines.join('\n')}
+` : ''}${triedLines.length > 0 ? `
+EDITS ALREADY TRIED THAT DID NOT BEAT THE CURRENT CONFIGURATION - try something different:
+${triedLines.join('\n')}
+` : ''}
+Make the smallest edit most likely to turn the failing conversations into passes without breaking the ones that already pass.`;
+}
@@ -1,8 +1,9 @@
 import fs from 'fs/promises';
 import path from 'path';
-import { Persona, EmotionDimension, Intent, GeneratedSimulationOptions, EnhancedSimulation, SimulationNote, SimulationNotesData, SimulationBatch } from '@/types/simulation';
-import { BehaviorTest, BehaviorExperiment } from '@/types/behavior-test';
-import { PromptSetVersion, OverridableNode, AgentConfig } from '@/types/polaris';
+import { Persona, EmotionDimension, Intent, GeneratedSimulationOptions, EnhancedSimulation, SimulationNote, SimulationNotesData, SimulationBatch, SimulationJob } from '@/types/simulation';
+import { BehaviorTest, BehaviorExperiment, CalibrationSet, RegressionSuiteRun, ABExperimentRun, PersonaSet, PromptOptimizationRun } from '@/types/behavior-test';
+import { PromptSetVersion, OverridableNode, AgentConfig, MockPolarisScript, ChatHistoryMessage } from '@/types/polaris';
+import { Cassette } from '@/types/cassette';
 
 const DATA_DIR = path.join(process.cwd(), 'data');
 const AGENTS_REGISTRY_FILE = path.join(DATA_DIR, 'agents.json');
@@ -30,6 +31,19 @@ async function ensureBaseDirectories() {
     await fs.mkdir(AGENTS_DIR, { recursive: true });
 }
 
+// Write through a temp file and rename it into place, so a reader never sees a half-written file.
+// The temp name doesn't end in .json, so directory listings skip it.
+async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+    const tempPath = `${filePath}.${process.pid}-${Math.random().toString(36).substring(2, 8)}.tmp`;
+    await fs.writeFile(tempPath, content);
+    try {
+        await fs.rename(tempPath, filePath);
+    } catch (error) {
+        await fs.unlink(tempPath).catch(() => {});
+        throw error;
+    }
+}
+
 // Load all registered agents
 export async function loadAgents(): Promise<AgentConfig[]> {
     try {
@@ -52,7 +66,8 @@ export async function registerAgent(
     apiUrl: string,
     graphJson: any,
     createdBy?: string,
-    description?: string
+    description?: string,
+    backendOptions?: Pick<AgentConfig, 'backend' | 'backendModel' | 'apiKeyEnvVar'>
 ): Promise<AgentConfig> {
     const agents = await loadAgents();
 
@@ -67,6 +82,7 @@ export async function registerAgent(
         updatedAt: now,
         createdBy,
         description,
+        ...backendOptions,
     };
 
     // Create agent directory and save graph
@@ -280,12 +296,45 @@ export async function deleteBehaviorTest(agentId: string, testId: string): Promi
     return updated;
 }
 
+// ============ PERSONA SETS (Agent-scoped) ============
+
+// Every version of a test's frozen persona sets, oldest first
+export async function loadPersonaSets(agentId: string, testId: string): Promise<PersonaSet[]> {
+    try {
+        const filePath = path.join(getAgentDir(agentId), 'persona-sets', `${testId}.json`);
+        const content = await fs.readFile(filePath, 'utf-8');
+        return JSON.parse(content);
+    } catch {
+        return [];
+    }
+}
+
+export async function loadPersonaSet(agentId: string, testId: string, personaSetId: string): Promise<PersonaSet | null> {
+    const sets = await loadPersonaSets(agentId, testId);
+    return sets.find(s => s.id === personaSetId) || null;
+}
+
+export async function savePersonaSet(agentId: string, personaSet: PersonaSet): Promise<void> {
+    await ensureAgentDirectories(agentId);
+    const setsDir = path.join(getAgentDir(agentId), 'persona-sets');
+    await fs.mkdir(setsDir, { recursive: true });
+    const sets = await loadPersonaSets(agentId, personaSet.testId);
+    const existing = sets.findIndex(s => s.id === personaSet.id);
+    if (existing >= 0) {
+        sets[existing] = personaSet;
+    } else {
+        sets.push(personaSet);
+    }
+    await fs.writeFile(path.join(setsDir, `${personaSet.testId}.json`), JSON.stringify(sets, null, 2));
+}
+
 // ============ BEHAVIOR EXPERIMENTS (Agent-scoped) ============
 
 export async function saveBehaviorExperiment(agentId: string, experiment: BehaviorExperiment): Promise<void> {
     await ensureAgentDirectories(agentId);
     const filePath = path.join(getAgentDir(agentId), 'experiments', `${experiment.id}.json`);
-    await fs.writeFile(filePath, JSON.stringify(experiment, null, 2));
+    // Rewritten after every result while the UI polls and lists experiments
+    await writeFileAtomic(filePath, JSON.stringify(experiment, null, 2));
 }
 
 export async function loadBehaviorExperiment(agentId: string, experimentId: string): Promise<BehaviorExperiment | null> {
@@ -306,11 +355,17 @@ export async function loadAllBehaviorExperiments(agentId: string): Promise<Behav
             files
                 .filter(f => f.endsWith('.json'))
                 .map(async f => {
-                    const content = await fs.readFile(path.join(experimentsDir, f), 'utf-8');
-                    return JSON.parse(content) as BehaviorExperiment;
+                    // One unreadable file shouldn't hide every other experiment
+                    try {
+                        const content = await fs.readFile(path.join(experimentsDir, f), 'utf-8');
+                        return JSON.parse(content) as BehaviorExperiment;
+                    } catch (error) {
+                        console.warn(`[Persistence] Skipping unreadable experiment ${f}:`, error);
+                        return null;
+                    }
                 })
         );
-        return experiments.sort((a, b) =>
+        return experiments.filter((e): e is BehaviorExperiment => e !== null).sort((a, b) =>
             new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
         );
     } catch {
@@ -341,6 +396,161 @@ export async function clearAllBehaviorExperiments(agentId: string): Promise<void
     }
 }
 
+// ============ REGRESSION SUITE RUNS (Agent-scoped) ============
+
+export async function saveRegressionSuiteRun(agentId: string, run: RegressionSuiteRun): Promise<void> {
+    await ensureAgentDirectories(agentId);
+    const suitesDir = path.join(getAgentDir(agentId), 'regression-suites');
+    await fs.mkdir(suitesDir, { recursive: true });
+    const filePath = path.join(suitesDir, `${run.id}.json`);
+    await fs.writeFile(filePath, JSON.stringify(run, null, 2));
+}
+
+export async function loadRegressionSuiteRun(agentId: string, runId: string): Promise<RegressionSuiteRun | null> {
+    try {
+        const filePath = path.join(getAgentDir(agentId), 'regression-suites', `${runId}.json`);
+        const content = await fs.readFile(filePath, 'utf-8');
+        return JSON.parse(content);
+    } catch {
+        return null;
+    }
+}
+
+export async function loadAllRegressionSuiteRuns(agentId: string): Promise<RegressionSuiteRun[]> {
+    const suitesDir = path.join(getAgentDir(agentId), 'regression-suites');
+    try {
+        const files = await fs.readdir(suitesDir);
+        const runs = await Promise.all(
+            files.filter(f => f.endsWith('.json')).map(async f => {
+                const content = await fs.readFile(path.join(suitesDir, f), 'utf-8');
+                return JSON.parse(content) as RegressionSuiteRun;
+            })
+        );
+        return runs.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    } catch {
+        return [];
+    }
+}
+
+export async function deleteRegressionSuiteRun(agentId: string, runId: string): Promise<void> {
+    const filePath = path.join(getAgentDir(agentId), 'regression-suites', `${runId}.json`);
+    try {
+        await fs.unlink(filePath);
+    } catch {
+        // File might not exist
+    }
+}
+
+// ============ A/B EXPERIMENTS (Agent-scoped) ============
+
+export async function saveABExperimentRun(agentId: string, run: ABExperimentRun): Promise<void> {
+    await ensureAgentDirectories(agentId);
+    const abDir = path.join(getAgentDir(agentId), 'ab-experiments');
+    await fs.mkdir(abDir, { recursive: true });
+    const filePath = path.join(abDir, `${run.id}.json`);
+    await fs.writeFile(filePath, JSON.stringify(run, null, 2));
+}
+
+export async function loadABExperimentRun(agentId: string, runId: string): Promise<ABExperimentRun | null> {
+    try {
+        const filePath = path.join(getAgentDir(agentId), 'ab-experiments', `${runId}.json`);
+        const content = await fs.readFile(filePath, 'utf-8');
+        return JSON.parse(content);
+    } catch {
+        return null;
+    }
+}
+
+export async function loadAllABExperimentRuns(agentId: string): Promise<ABExperimentRun[]> {
+    const abDir = path.join(getAgentDir(agentId), 'ab-experiments');
+    try {
+        const files = await fs.readdir(abDir);
+        const runs = await Promise.all(
+            files.filter(f => f.endsWith('.json')).map(async f => {
+                const content = await fs.readFile(path.join(abDir, f), 'utf-8');
+                return JSON.parse(content) as ABExperimentRun;
+            })
+        );
+        return runs.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    } catch {
+        return [];
+    }
+}
+
+export async function deleteABExperimentRun(agentId: string, runId: string): Promise<void> {
+    const filePath = path.join(getAgentDir(agentId), 'ab-experiments', `${runId}.json`);
+    try {
+        await fs.unlink(filePath);
+    } catch {
+        // File might not exist
+    }
+}
+
+// ============ PROMPT OPTIMIZATION RUNS (Agent-scoped) ============
+
+export async function savePromptOptimizationRun(agentId: string, run: PromptOptimizationRun): Promise<void> {
+    await ensureAgentDirectories(agentId);
+    const optimizationDir = path.join(getAgentDir(agentId), 'optimization-runs');
+    await fs.mkdir(optimizationDir, { recursive: true });
+    const filePath = path.join(optimizationDir, `${run.id}.json`);
+    await fs.writeFile(filePath, JSON.stringify(run, null, 2));
+}
+
+export async function loadPromptOptimizationRun(agentId: string, runId: string): Promise<PromptOptimizationRun | null> {
+    try {
+        const filePath = path.join(getAgentDir(agentId), 'optimization-runs', `${runId}.json`);
+        const content = await fs.readFile(filePath, 'utf-8');
+        return JSON.parse(content);
+    } catch {
+        return null;
+    }
+}
+
+export async function loadAllPromptOptimizationRuns(agentId: string): Promise<PromptOptimizationRun[]> {
+    const optimizationDir = path.join(getAgentDir(agentId), 'optimization-runs');
+    try {
+        const files = await fs.readdir(optimizationDir);
+        const runs = await Promise.all(
+            files.filter(f => f.endsWith('.json')).map(async f => {
+                const content = await fs.readFile(path.join(optimizationDir, f), 'utf-8');
+                return JSON.parse(content) as PromptOptimizationRun;
+            })
+        );
+        return runs.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    } catch {
+        return [];
+    }
+}
+
+export async function deletePromptOptimizationRun(agentId: string, runId: string): Promise<void> {
+    const filePath = path.join(getAgentDir(agentId), 'optimization-runs', `${runId}.json`);
+    try {
+        await fs.unlink(filePath);
+    } catch {
+        // File might not exist
+    }
+}
+
+// ============ JUDGE CALIBRATION (Agent-scoped) ============
+
+export async function saveCalibrationSet(agentId: string, set: CalibrationSet): Promise<void> {
+    await ensureAgentDirectories(agentId);
+    const calibrationDir = path.join(getAgentDir(agentId), 'calibration');
+    await fs.mkdir(calibrationDir, { recursive: true });
+    const filePath = path.join(calibrationDir, `${set.testId}.json`);
+    await fs.writeFile(filePath, JSON.stringify({ ...set, updatedAt: new Date().toISOString() }, null, 2));
+}
+
+export async function loadCalibrationSet(agentId: string, testId: string): Promise<CalibrationSet | null> {
+    try {
+        const filePath = path.join(getAgentDir(agentId), 'calibration', `${testId}.json`);
+        const content = await fs.readFile(filePath, 'utf-8');
+        return JSON.parse(content);
+    } catch {
+        return null;
+    }
+}
+
 // ============ MASTER VERSION (Agent-scoped) ============
 
 export interface MasterVersion {
@@ -428,7 +638,17 @@ export async function saveAgentOverride(
     }
     overrides[nodeId][type] = newPrompt;
     const filePath = path.join(getAgentDir(agentId), 'overrides.json');
-    await fs.writeFile(filePath, JSON.stringify(overrides, null, 2));
+    await writeFileAtomic(filePath, JSON.stringify(overrides, null, 2));
+}
+
+// Replace every prompt override at once, e.g. after merging onto an updated graph
+export async function saveAgentOverrides(
+    agentId: string,
+    overrides: Record<string, { systemMessagePrompt?: string, humanMessagePrompt?: string }>
+): Promise<void> {
+    await ensureAgentDirectories(agentId);
+    const filePath = path.join(getAgentDir(agentId), 'overrides.json');
+    await writeFileAtomic(filePath, JSON.stringify(overrides, null, 2));
 }
 
 // ============ STATE OVERRIDES (Agent-scoped) ============
@@ -448,7 +668,13 @@ export async function saveAgentStateOverride(agentId: string, key: string, value
     const overrides = await getAgentStateOverrides(agentId);
     overrides[key] = value;
     const filePath = path.join(getAgentDir(agentId), 'state-overrides.json');
-    await fs.writeFile(filePath, JSON.stringify(overrides, null, 2));
+    await writeFileAtomic(filePath, JSON.stringify(overrides, null, 2));
+}
+
+export async function saveAgentStateOverrides(agentId: string, overrides: Record<string, string>): Promise<void> {
+    await ensureAgentDirectories(agentId);
+    const filePath = path.join(getAgentDir(agentId), 'state-overrides.json');
+    await writeFileAtomic(filePath, JSON.stringify(overrides, null, 2));
 }
 
 // ============ PROMPT SET VERSIONS (Agent-scoped) ============
@@ -562,6 +788,111 @@ export async function updateNodePromptVersion(
     }
 }
 
+// Carry a node's prompt history over to its new ID when a graph update re-created the node
+export async function moveNodePromptVersions(agentId: string, fromNodeId: string, toNodeId: string): Promise<number> {
+    const versions = await loadNodePromptVersions(agentId, fromNodeId);
+    if (versions.length === 0) return 0;
+
+    const toDir = path.join(getAgentDir(agentId), 'versions', toNodeId);
+    await fs.mkdir(toDir, { recursive: true });
+    for (const version of versions) {
+        await fs.writeFile(path.join(toDir, `${version.id}.json`), JSON.stringify({ ...version, nodeId: toNodeId }, null, 2));
+    }
+    await fs.rm(path.join(getAgentDir(agentId), 'versions', fromNodeId), { recursive: true, force: true });
+    return versions.length;
+}
+
+// ============ MOCK POLARIS SCRIPT (Agent-scoped) ============
+
+export async function saveMockScript(agentId: string, script: MockPolarisScript): Promise<void> {
+    await ensureAgentDirectories(agentId);
+    const filePath = path.join(getAgentDir(agentId), 'mock-script.json');
+    await fs.writeFile(filePath, JSON.stringify({ ...script, updatedAt: new Date().toISOString() }, null, 2));
+}
+
+export async function loadMockScript(agentId: string): Promise<MockPolarisScript | null> {
+    try {
+        const filePath = path.join(getAgentDir(agentId), 'mock-script.json');
+        const content = await fs.readFile(filePath, 'utf-8');
+        return JSON.parse(content);
+    } catch {
+        return null;
+    }
+}
+
+// ============ CHAT HISTORIES (Agent-scoped) ============
+
+// Histories kept per agent. Simulations take theirs with them when deleted; experiment and
+// chat conversations have nothing to be deleted with, so the oldest go past this many.
+const MAX_CHAT_HISTORIES = 1000;
+
+// Conversations held for local backends, one file per chat so they survive restarts
+export async function saveChatHistory(agentId: string, chatId: string, messages: ChatHistoryMessage[]): Promise<void> {
+    await ensureAgentDirectories(agentId);
+    const historiesDir = path.join(getAgentDir(agentId), 'chat-histories');
+    await fs.mkdir(historiesDir, { recursive: true });
+    await fs.writeFile(path.join(historiesDir, `${chatId}.json`), JSON.stringify(messages, null, 2));
+    await pruneChatHistories(historiesDir);
+}
+
+async function pruneChatHistories(historiesDir: string): Promise<void> {
+    const files = (await fs.readdir(historiesDir)).filter(f => f.endsWith('.json'));
+    if (files.length <= MAX_CHAT_HISTORIES) return;
+
+    const withTimes = await Promise.all(files.map(async f => {
+        const stat = await fs.stat(path.join(historiesDir, f)).catch(() => null);
+        return { file: f, mtime: stat?.mtimeMs ?? 0 };
+    }));
+    const oldest = withTimes.sort((a, b) => a.mtime - b.mtime).slice(0, files.length - MAX_CHAT_HISTORIES);
+    await Promise.all(oldest.map(({ file }) => fs.unlink(path.join(historiesDir, file)).catch(() => {})));
+}
+
+export async function deleteChatHistories(agentId: string, chatIds: string[]): Promise<void> {
+    const historiesDir = path.join(getAgentDir(agentId), 'chat-histories');
+    await Promise.all(chatIds.map(chatId =>
+        fs.unlink(path.join(historiesDir, `${chatId}.json`)).catch(() => {})
+    ));
+}
+
+export async function loadChatHistory(agentId: string, chatId: string): Promise<ChatHistoryMessage[]> {
+    try {
+        const filePath = path.join(getAgentDir(agentId), 'chat-histories', `${chatId}.json`);
+        const content = await fs.readFile(filePath, 'utf-8');
+        return JSON.parse(content);
+    } catch {
+        return [];
+    }
+}
+
+// ============ CASSETTES (Agent-scoped) ============
+
+export async function saveCassette(agentId: string, cassette: Cassette): Promise<void> {
+    await ensureAgentDirectories(agentId);
+    const cassettesDir = path.join(getAgentDir(agentId), 'cassettes');
+    await fs.mkdir(cassettesDir, { recursive: true });
+    const filePath = path.join(cassettesDir, `${cassette.id}.json`);
+    await fs.writeFile(filePath, JSON.stringify({ ...cassette, updatedAt: new Date().toISOString() }, null, 2));
+}
+
+export async function loadCassette(agentId: string, cassetteId: string): Promise<Cassette | null> {
+    try {
+        const filePath = path.join(getAgentDir(agentId), 'cassettes', `${cassetteId}.json`);
+        const content = await fs.readFile(filePath, 'utf-8');
+        return JSON.parse(content);
+    } catch {
+        return null;
+    }
+}
+
+export async function deleteCassette(agentId: string, cassetteId: string): Promise<void> {
+    const filePath = path.join(getAgentDir(agentId), 'cassettes', `${cassetteId}.json`);
+    try {
+        await fs.unlink(filePath);
+    } catch {
+        // File might not exist
+    }
+}
+
 // ============ ONBOARDING GUIDE (Agent-scoped) ============
 
 export async function saveOnboardingGuide(agentId: string, guideText: string): Promise<void> {
@@ -651,6 +982,8 @@ export async function loadAllEnhancedSimulations(agentId: string): Promise<Enhan
 
 export async function clearAllEnhancedSimulations(agentId: string): Promise<void> {
     const simulationsDir = path.join(getAgentDir(agentId), 'enhanced-simulations');
+    const simulations = await loadAllEnhancedSimulations(agentId);
+    await deleteChatHistories(agentId, simulations.flatMap(s => s.chatId ? [s.chatId] : []));
     try {
         const files = await fs.readdir(simulationsDir);
         await Promise.all(
@@ -748,8 +1081,12 @@ export async function deleteSimulationBatch(agentId: string, batchId: string): P
         // File might not exist
     }
 
+    // Delete the batch's job record
+    await deleteSimulationJob(agentId, getSimulationJobId(batchId));
+
     // Delete all simulations in this batch
     const simulations = await loadSimulationsByBatch(agentId, batchId);
+    await deleteChatHistories(agentId, simulations.flatMap(s => s.chatId ? [s.chatId] : []));
     const simulationsDir = path.join(getAgentDir(agentId), 'enhanced-simulations');
     await Promise.all(
         simulations.map(s =>
@@ -770,6 +1107,95 @@ export async function getNextBatchNumber(agentId: string): Promise<number> {
     return Math.max(...numbers) + 1;
 }
 
+// ============ SIMULATION JOBS (Agent-scoped) ============
+
+// Each batch has exactly one job
+export function getSimulationJobId(batchId: string): string {
+    return `job-${batchId}`;
+}
+
+export async function saveSimulationJob(agentId: string, job: SimulationJob): Promise<void> {
+    await ensureAgentDirectories(agentId);
+    const jobsDir = path.join(getAgentDir(agentId), 'simulation-jobs');
+    await fs.mkdir(jobsDir, { recursive: true });
+    const filePath = path.join(jobsDir, `${job.id}.json`);
+    await writeFileAtomic(filePath, JSON.stringify(job, null, 2));
+}
+
+export async function loadSimulationJob(agentId: string, jobId: string): Promise<SimulationJob | null> {
+    try {
+        const filePath = path.join(getAgentDir(agentId), 'simulation-jobs', `${jobId}.json`);
+        const content = await fs.readFile(filePath, 'utf-8');
+        return JSON.parse(content);
+    } catch {
+        return null;
+    }
+}
+
+export async function loadAllSimulationJobs(agentId: string): Promise<SimulationJob[]> {
+    const jobsDir = path.join(getAgentDir(agentId), 'simulation-jobs');
+    try {
+        const files = await fs.readdir(jobsDir);
+        const jobs = await Promise.all(
+            files
+                .filter(f => f.endsWith('.json'))
+                .map(async f => {
+                    // One unreadable file shouldn't stop every other job from resuming
+                    try {
+                        const content = await fs.readFile(path.join(jobsDir, f), 'utf-8');
+                        return JSON.parse(content) as SimulationJob;
+                    } catch (error) {
+                        console.warn(`[Persistence] Skipping unreadable simulation job ${f}:`, error);
+                        return null;
+                    }
+                })
+        );
+        // Oldest first, so resumed jobs keep their queue order
+        return jobs.filter((j): j is SimulationJob => j !== null).sort((a, b) =>
+            new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+        );
+    } catch {
+        return [];
+    }
+}
+
+// Pending updates per job file - each one reads the file only after the previous one has written it
+const simulationJobUpdates = new Map<string, Promise<SimulationJob | null>>();
+
+export async function updateSimulationJob(
+    agentId: string,
+    jobId: string,
+    updates: Partial<SimulationJob>
+): Promise<SimulationJob | null> {
+    const key = `${agentId}/${jobId}`;
+    const update = (simulationJobUpdates.get(key) ?? Promise.resolve(null))
+        .catch(() => null)
+        .then(async () => {
+            const job = await loadSimulationJob(agentId, jobId);
+            if (!job) return null;
+
+            const updatedJob = { ...job, ...updates };
+            await saveSimulationJob(agentId, updatedJob);
+            return updatedJob;
+        });
+    simulationJobUpdates.set(key, update);
+
+    try {
+        return await update;
+    } finally {
+        if (simulationJobUpdates.get(key) === update) simulationJobUpdates.delete(key);
+    }
+}
+
+export async function deleteSimulationJob(agentId: string, jobId: string): Promise<void> {
+    const filePath = path.join(getAgentDir(agentId), 'simulation-jobs', `${jobId}.json`);
+    try {
+        await fs.unlink(filePath);
+    } catch {
+        // File might not exist
+    }
+}
+
 // ============ SIMULATION NOTES (Agent-scoped) ============
 
 export async function loadSimulationNotes(agentId: string): Promise<SimulationNote[]> {
@@ -814,6 +1240,7 @@ export async function updateNoteResolved(agentId: string, noteId: string, resolv
         notes[noteIndex].resolved = resolved;
         notes[noteIndex].resolvedAt = resolved ? new Date().toISOString() : undefined;
         notes[noteIndex].resolutionNote = resolved ? resolutionNote : undefined;
+        notes[noteIndex].resolvedByVersionId = undefined;
 
         const data: SimulationNotesData = {
             agentId,
@@ -828,6 +1255,36 @@ export async function updateNoteResolved(agentId: string, noteId: string, resolv
     return notes;
 }
 
+// Resolve several notes at once with the prompt version that fixed them
+export async function resolveSimulationNotesWithVersion(
+    agentId: string,
+    noteIds: string[],
+    versionId: string,
+    resolutionNote: string
+): Promise<SimulationNote[]> {
+    const notes = await loadSimulationNotes(agentId);
+    const resolvedAt = new Date().toISOString();
+
+    // A note resolved in the meantime keeps the version that actually fixed it
+    for (const note of notes) {
+        if (!noteIds.includes(note.id) || note.resolved) continue;
+        note.resolved = true;
+        note.resolvedAt = resolvedAt;
+        note.resolutionNote = resolutionNote;
+        note.resolvedByVersionId = versionId;
+    }
+
+    const data: SimulationNotesData = {
+        agentId,
+        notes,
+        updatedAt: resolvedAt
+    };
+
+    const filePath = path.join(getAgentDir(agentId), 'simulation-notes.json');
+    await fs.writeFile(filePath, JSON.stringify(data, null, 2));
+    return notes;
+}
+
 export async function deleteSimulationNote(agentId: string, noteId: string): Promise<SimulationNote[]> {
     const notes = await loadSimulationNotes(agentId);
     const updated = notes.filter(n => n.id !== noteId);
@@ -1,4 +1,4 @@
-import { PolarisGraph, OverridableNode, StateField, StateMemory } from '@/types/polaris';
+import { PolarisGraph, PolarisNodeData, OverridableNode, OverrideConfig, StateField, StateMemory } from '@/types/polaris';
 import {
     loadAgentGraph,
     getAgentOverrides,
@@ -8,8 +8,10 @@ import {
     saveNodePromptVersion,
     loadNodePromptVersions,
     updateNodePromptVersion,
-    saveMasterVersion
+    saveMasterVersion,
+    getAgent
 } from './persistence';
+import { injectStateValues, resolveTemplate, DEFAULT_PLACEHOLDER_ALIASES, RenderedNodePrompts } from './templates';
 
 // ============ AGENT GRAPH FUNCTIONS ============
 
@@ -151,26 +153,10 @@ export async function updatePromptVersion(agentId: string, nodeId: string, versi
 
 // ============ STATE VALUE INJECTION ============
 
-// Helper to inject state values into a prompt template
-// Replaces {variable_name} with actual values from state
-function injectStateValues(promptTemplate: string, stateValues: Record<string, string>): string {
-    let result = promptTemplate;
-
-    // FIRST: Handle common aliases (like {system_base} -> brand_system_base)
-    // This must happen BEFORE the main loop so nested placeholders get resolved
-    if (stateValues.brand_system_base) {
-        result = result.replace(/\{system_base\}/g, stateValues.brand_system_base);
-    }
-
-    // Replace all {variable_name} patterns with actual values
-    // This will now also resolve placeholders that were inside brand_system_base
-    // (like {additional_general_rules})
-    for (const [key, value] of Object.entries(stateValues)) {
-        const pattern = new RegExp(`\\{${key}\\}`, 'g');
-        result = result.replace(pattern, value || '');
-    }
-
-    return result;
+// The agent's {alias} -> state field map, or the defaults if it has none of its own
+export async function getPlaceholderAliases(agentId: string): Promise<Record<string, string>> {
+    const agent = await getAgent(agentId);
+    return agent?.placeholderAliases ?? DEFAULT_PLACEHOLDER_ALIASES;
 }
 
 // Build a complete system prompt by combining all node prompts with injected state values
@@ -225,17 +211,49 @@ Business Hours: ${stateValues.brand_business_hours || ''} (${stateValues.brand_b
 
 // ============ OVERRIDE CONFIG ============
 
-// Helper to calculate the override config for the API
-// When forceAll is true, builds a complete prompt with all state values injected
-export async function calculateOverrideConfig(
-    agentId: string,
-    currentNodes: OverridableNode[],
-    stateOverrides?: Record<string, string>,
-    forceAll: boolean = false
-) {
-    const graph = await getPolarisGraph(agentId);
+// Prompt types Polaris accepts in overrideConfig, keyed by node ID
+const PROMPT_TYPES = ['systemMessagePrompt', 'humanMessagePrompt'] as const;
+
+type PromptType = typeof PROMPT_TYPES[number];
 
-    // Get original state values from the graph - flexible detection
+// Build node-specific overrides for every prompt type with state values injected
+// Polaris expects: { systemMessagePrompt: { nodeId: prompt }, humanMessagePrompt: { nodeId: prompt } }
+function buildPromptOverrides(
+    nodes: OverridableNode[],
+    stateValues: Record<string, string>,
+    aliases: Record<string, string>
+): OverrideConfig {
+    const overrideConfig: OverrideConfig = {};
+
+    for (const type of PROMPT_TYPES) {
+        const promptOverrides: Record<string, string> = {};
+
+        for (const node of nodes) {
+            const prompt = node[type];
+            // An empty prompt is a deliberate clear and must still override the default
+            if (prompt !== undefined) {
+                promptOverrides[node.id] = injectStateValues(prompt, stateValues, aliases);
+            }
+        }
+
+        if (Object.keys(promptOverrides).length > 0) {
+            overrideConfig[type] = promptOverrides;
+        }
+    }
+
+    return overrideConfig;
+}
+
+// Check if a node's prompt differs from the default in the graph
+function promptDiffers(currentNode: OverridableNode, originalInputs: PolarisNodeData['inputs'], type: PromptType): boolean {
+    const original = originalInputs?.[type];
+    const current = currentNode[type];
+    // Treat missing and empty prompts as the same so untouched fields don't force overrides
+    return (current || '') !== (original || '');
+}
+
+// State field defaults from the graph - flexible detection of the state node
+function getDefaultStateValues(graph: PolarisGraph): Record<string, string> {
     const stateNode = graph.nodes.find(n =>
         n.data.name === 'seqState' ||
         n.data.id?.includes('State') ||
@@ -243,7 +261,7 @@ export async function calculateOverrideConfig(
         n.data.inputs?.stateMemoryUI
     );
 
-    let originalStateValues: Record<string, string> = {};
+    const originalStateValues: Record<string, string> = {};
 
     if (stateNode) {
         const stateMemoryUI = stateNode.data.inputs?.stateMemoryUI;
@@ -259,6 +277,41 @@ export async function calculateOverrideConfig(
         }
     }
 
+    return originalStateValues;
+}
+
+// Render every node prompt the way the override config would, keeping which field each span came from
+export async function resolveNodePrompts(
+    agentId: string,
+    nodes: OverridableNode[],
+    stateOverrides?: Record<string, string>
+): Promise<Record<string, RenderedNodePrompts>> {
+    const graph = await getPolarisGraph(agentId);
+    const stateValues = { ...getDefaultStateValues(graph), ...(stateOverrides || {}) };
+    const aliases = await getPlaceholderAliases(agentId);
+
+    const resolved: Record<string, RenderedNodePrompts> = {};
+    for (const node of nodes) {
+        resolved[node.id] = {};
+        for (const type of PROMPT_TYPES) {
+            const prompt = node[type];
+            if (prompt) resolved[node.id][type] = resolveTemplate(prompt, stateValues, aliases);
+        }
+    }
+    return resolved;
+}
+
+// Helper to calculate the override config for the API
+// When forceAll is true, every node prompt is sent with all state values injected
+export async function calculateOverrideConfig(
+    agentId: string,
+    currentNodes: OverridableNode[],
+    stateOverrides?: Record<string, string>,
+    forceAll: boolean = false
+): Promise<OverrideConfig | undefined> {
+    const graph = await getPolarisGraph(agentId);
+    const originalStateValues = getDefaultStateValues(graph);
+
     // Merge original state with overrides
     const mergedStateValues = {
         ...originalStateValues,
@@ -266,28 +319,14 @@ export async function calculateOverrideConfig(
     };
 
     if (forceAll) {
-        // Build node-specific overrides with all variables injected
-        // Polaris expects: { systemMessagePrompt: { nodeId: prompt, ... } }
-        const systemMessagePromptOverrides: Record<string, string> = {};
-
-        for (const node of currentNodes) {
-            if (node.systemMessagePrompt) {
-                // Inject all state values into the prompt
-                const injectedPrompt = injectStateValues(node.systemMessagePrompt, mergedStateValues);
-                systemMessagePromptOverrides[node.id] = injectedPrompt;
-            }
-        }
-
-        const overrideConfig: Record<string, any> = {};
-
-        if (Object.keys(systemMessagePromptOverrides).length > 0) {
-            overrideConfig.systemMessagePrompt = systemMessagePromptOverrides;
-        }
+        const overrideConfig = buildPromptOverrides(currentNodes, mergedStateValues, await getPlaceholderAliases(agentId));
 
         console.log('=== OVERRIDE CONFIG DEBUG ===');
-        console.log('Nodes being overridden:', Object.keys(systemMessagePromptOverrides));
-        for (const [nodeId, prompt] of Object.entries(systemMessagePromptOverrides)) {
-            console.log(`Node ${nodeId} prompt preview:`, typeof prompt, prompt.substring(0, 200));
+        for (const [type, prompts] of Object.entries(overrideConfig)) {
+            console.log(`Nodes being overridden (${type}):`, Object.keys(prompts));
+            for (const [nodeId, prompt] of Object.entries(prompts)) {
+                console.log(`Node ${nodeId} ${type} preview:`, typeof prompt, prompt.substring(0, 200));
+            }
         }
 
         return overrideConfig;
@@ -295,7 +334,6 @@ export async function calculateOverrideConfig(
 
     // For non-forced overrides (normal chat), check if anything changed
     let hasOverrides = false;
-    const overrideConfig: Record<string, any> = {};
 
     // Check if any state values differ
     for (const [key, value] of Object.entries(stateOverrides || {})) {
@@ -305,34 +343,22 @@ export async function calculateOverrideConfig(
         }
     }
 
-    // Check if any node prompts differ
-    for (const currentNode of currentNodes) {
-        const originalNode = graph.nodes.find(n => n.data.id === currentNode.id);
-        if (!originalNode) continue;
+    // Check if any node prompts differ (system or human)
+    if (!hasOverrides) {
+        hasOverrides = currentNodes.some(currentNode => {
+            const originalNode = graph.nodes.find(n => n.data.id === currentNode.id);
+            if (!originalNode) return false;
 
-        const originalSystem = originalNode.data.inputs?.systemMessagePrompt;
-        if (currentNode.systemMessagePrompt !== originalSystem) {
-            hasOverrides = true;
-            break;
-        }
+            return PROMPT_TYPES.some(type => promptDiffers(currentNode, originalNode.data.inputs, type));
+        });
     }
 
     if (hasOverrides) {
-        // Build node-specific overrides with variables injected
-        const systemMessagePromptOverrides: Record<string, string> = {};
+        const overrideConfig = buildPromptOverrides(currentNodes, mergedStateValues, await getPlaceholderAliases(agentId));
 
-        for (const node of currentNodes) {
-            if (node.systemMessagePrompt) {
-                const injectedPrompt = injectStateValues(node.systemMessagePrompt, mergedStateValues);
-                systemMessagePromptOverrides[node.id] = injectedPrompt;
-            }
+        for (const [type, prompts] of Object.entries(overrideConfig)) {
+            console.log(`Built node-specific ${type} overrides for nodes:`, Object.keys(prompts));
         }
-
-        if (Object.keys(systemMessagePromptOverrides).length > 0) {
-            overrideConfig.systemMessagePrompt = systemMessagePromptOverrides;
-        }
-
-        console.log('Built node-specific overrides for nodes:', Object.keys(systemMessagePromptOverrides));
         return overrideConfig;
     }
 
@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from 'vitest';
+import { BehaviorTest, BehaviorTestResult, ConversationTurn } from '@/types/behavior-test';
+import { DEFAULT_PASS_THRESHOLD, getTestCriteria, JudgeFn, scoreRubric, summarizeCriteria } from './rubric';
+
+const conversation: ConversationTurn[] = [
+    { role: 'user', content: 'Hi, I need a quote.' },
+    { role: 'assistant', content: 'Hello Dr. Smith! Our price is $99.' },
+];
+
+const baseTest: BehaviorTest = {
+    id: 'test-1',
+    name: 'Quotes politely',
+    problemDescription: 'Greets with the title and never quotes a price',
+    scorerPrompt: 'Single judge prompt {{conversation}}',
+    personaHint: '',
+    simulationCount: 1,
+    createdAt: '2026-01-01T00:00:00.000Z',
+};
+
+// Scores each judge prompt from a lookup, so tests can tell which prompt was judged
+function judgeFrom(scores: Record<string, number>): JudgeFn {
+    return vi.fn(async (judgePrompt: string) => ({ score: scores[judgePrompt] ?? 0, rationale: `judged ${judgePrompt}` }));
+}
+
+describe('getTestCriteria', () => {
+    it('falls back to one judge on the scorer prompt for tests without a rubric', () => {
+        expect(getTestCriteria(baseTest)).toEqual([{
+            id: 'default',
+            name: 'Quotes politely',
+            weight: 1,
+            passThreshold: DEFAULT_PASS_THRESHOLD,
+            type: 'llm-judge',
+            judgePrompt: baseTest.scorerPrompt,
+        }]);
+    });
+});
+
+describe('scoreRubric', () => {
+    it('keeps the single judge score and rationale for tests without a rubric', async () => {
+        const judge = judgeFrom({ [baseTest.scorerPrompt]: 0.8 });
+        const result = await scoreRubric(baseTest, conversation, judge);
+
+        expect(judge).toHaveBeenCalledWith(baseTest.scorerPrompt);
+        expect(result).toMatchObject({ score: 0.8, passed: true, rationale: `judged ${baseTest.scorerPrompt}` });
+    });
+
+    it('blends criteria by weight and passes only when every criterion passes', async () => {
+        const test: BehaviorTest = {
+            ...baseTest,
+            criteria: [
+                { id: 'title', name: 'Uses title', weight: 3, passThreshold: 0.5, type: 'llm-judge', judgePrompt: 'title' },
+                { id: 'price', name: 'No price', weight: 1, passThreshold: 1, type: 'check', check: { kind: 'regex', pattern: '\\$\\d+', mode: 'must-not-match' } },
+            ],
+        };
+        const result = await scoreRubric(test, conversation, judgeFrom({ title: 1 }));
+
+        expect(result.score).toBeCloseTo(0.75);
+        expect(result.passed).toBe(false);
+        expect(result.criteria.map(c => [c.criterionId, c.score, c.passed])).toEqual([['title', 1, true], ['price', 0, false]]);
+        // Failed criteria lead the rationale
+        expect(result.rationale.split('\n')[0]).toMatch(/^FAIL No price/);
+        expect(result.blamedTurns).toEqual([{ turnIndex: 1, comment: 'Matches forbidden /\\$\\d+/', criterionName: 'No price' }]);
+    });
+});
+
+describe('summarizeCriteria', () => {
+    it('gives each criterion its pass rate and average score across results', () => {
+        const withCriteria = (title: number, price: number) => ({
+            criteria: [
+                { criterionId: 'title', name: 'Uses title', score: title, passed: title >= 0.5, rationale: '' },
+                { criterionId: 'price', name: 'No price', score: price, passed: price >= 1, rationale: '' },
+            ],
+        }) as BehaviorTestResult;
+
+        expect(summarizeCriteria([withCriteria(1, 0), withCriteria(0.2, 1), withCriteria(0.9, 1)])).toEqual([
+            { criterionId: 'title', name: 'Uses title', passed: 2, failed: 1, passRate: 67, avgScore: 0.7 },
+            { criterionId: 'price', name: 'No price', passed: 2, failed: 1, passRate: 67, avgScore: 0.67 },
+        ]);
+    });
+});
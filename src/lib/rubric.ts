@@ -0,0 +1,113 @@
+import {
+    BehaviorTest,
+    BehaviorTestResult,
+    ConversationTurn,
+    CriterionScore,
+    CriterionSummary,
+    ScoringCriterion,
+    TurnBlame
+} from '@/types/behavior-test';
+import { runAssertion } from './assertions';
+
+// Pass mark for tests scored by their single scorerPrompt
+export const DEFAULT_PASS_THRESHOLD = 0.7;
+
+// Scores one judge prompt against the conversation - callers supply the LLM call
+export type JudgeFn = (judgePrompt: string) => Promise<{ score: number; rationale: string; blamedTurns?: TurnBlame[] }>;
+
+export interface RubricScore {
+    score: number;
+    passed: boolean;
+    rationale: string;
+    criteria: CriterionScore[];
+    blamedTurns: TurnBlame[];
+}
+
+// The criteria a test is scored on. Tests without a rubric behave exactly as before:
+// one LLM judge using scorerPrompt, passing at 0.7.
+export function getTestCriteria(test: BehaviorTest): ScoringCriterion[] {
+    if (test.criteria && test.criteria.length > 0) {
+        return test.criteria;
+    }
+    return [{
+        id: 'default',
+        name: test.name,
+        weight: 1,
+        passThreshold: DEFAULT_PASS_THRESHOLD,
+        type: 'llm-judge',
+        judgePrompt: test.scorerPrompt,
+    }];
+}
+
+// ============ SCORING ============
+
+export async function scoreRubric(
+    test: BehaviorTest,
+    conversation: ConversationTurn[],
+    judge: JudgeFn
+): Promise<RubricScore> {
+    const criteria = getTestCriteria(test);
+
+    const criterionScores = await Promise.all(criteria.map(async (criterion): Promise<CriterionScore> => {
+        const { score, rationale, blamedTurns } = criterion.type === 'check' && criterion.check
+            ? runAssertion(criterion.check, conversation)
+            : await judge(criterion.judgePrompt || test.scorerPrompt);
+
+        return {
+            criterionId: criterion.id,
+            name: criterion.name,
+            score,
+            passed: score >= criterion.passThreshold,
+            rationale,
+            blamedTurns: blamedTurns && blamedTurns.length > 0 ? blamedTurns : undefined,
+        };
+    }));
+
+    const totalWeight = criteria.reduce((sum, c) => sum + Math.max(0, c.weight), 0);
+    const score = totalWeight > 0
+        ? criterionScores.reduce((sum, cs, i) => sum + cs.score * Math.max(0, criteria[i].weight), 0) / totalWeight
+        : 0;
+
+    // A single criterion keeps the judge's rationale as-is; rubrics lead with what failed
+    const rationale = criterionScores.length === 1
+        ? criterionScores[0].rationale
+        : [...criterionScores]
+            .sort((a, b) => Number(a.passed) - Number(b.passed))
+            .map(cs => `${cs.passed ? 'PASS' : 'FAIL'} ${cs.name} (${cs.score.toFixed(2)}): ${cs.rationale}`)
+            .join('\n');
+
+    // Every criterion's blame in conversation order, tagged with the criterion when there are several
+    const blamedTurns = criterionScores
+        .flatMap(cs => (cs.blamedTurns || []).map(b => criterionScores.length > 1 ? { ...b, criterionName: cs.name } : b))
+        .sort((a, b) => a.turnIndex - b.turnIndex);
+
+    return {
+        score,
+        passed: criterionScores.every(cs => cs.passed),
+        rationale,
+        criteria: criterionScores,
+        blamedTurns,
+    };
+}
+
+export function summarizeCriteria(results: BehaviorTestResult[]): CriterionSummary[] {
+    const byCriterion = new Map<string, CriterionScore[]>();
+    for (const result of results) {
+        for (const cs of result.criteria || []) {
+            byCriterion.set(cs.criterionId, [...(byCriterion.get(cs.criterionId) || []), cs]);
+        }
+    }
+
+    return Array.from(byCriterion.entries()).map(([criterionId, scores]) => {
+        const passed = scores.filter(s => s.passed).length;
+        const avgScore = scores.reduce((sum, s) => sum + s.score, 0) / scores.length;
+        return {
+            criterionId,
+            name: scores[0].name,
+            passed,
+            failed: scores.length - passed,
+            passRate: Math.round((passed / scores.length) * 100),
+            avgScore: Math.round(avgScore * 100) / 100,
+        };
+    });
+}
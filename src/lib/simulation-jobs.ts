@@ -0,0 +1,262 @@
+import { SimulationJob, SimulationJobStatus } from '@/types/simulation';
+import {
+    saveSimulationJob,
+    loadSimulationJob,
+    loadAllSimulationJobs,
+    updateSimulationJob,
+    loadSimulationsByBatch,
+    saveEnhancedSimulation,
+    updateSimulationBatch
+} from './persistence';
+
+// Runs a job's unfinished simulations. Must return promptly once the signal is aborted.
+export type SimulationJobRunner = (job: SimulationJob, signal: AbortSignal) => Promise<void>;
+
+interface PendingJob {
+    agentId: string;
+    jobId: string;
+    runner: SimulationJobRunner;
+}
+
+// Each job already runs its simulations in parallel, so keep the number of jobs small
+const MAX_CONCURRENT_JOBS = 2;
+const HEARTBEAT_INTERVAL_MS = 15000;
+// A running job whose worker hasn't checked in for this long is assumed dead (restart, serverless timeout)
+const STALE_JOB_MS = 60000;
+const STOP_POLL_INTERVAL_MS = 1000;
+
+// Identifies this server process in job files, so jobs left behind by a previous process can be told apart
+const WORKER_ID = `worker-${process.pid}-${Date.now()}`;
+
+const pendingJobs: PendingJob[] = [];
+const activeJobs = new Map<string, AbortController>();
+const jobWaiters = new Map<string, { promise: Promise<void>; resolve: () => void }>();
+
+// ============ QUEUE ============
+
+function trackWaiter(jobId: string) {
+    if (jobWaiters.has(jobId)) return;
+    let resolve: () => void = () => {};
+    const promise = new Promise<void>(r => { resolve = r; });
+    jobWaiters.set(jobId, { promise, resolve });
+}
+
+function releaseWaiter(jobId: string) {
+    jobWaiters.get(jobId)?.resolve();
+    jobWaiters.delete(jobId);
+}
+
+function scheduleJob(entry: PendingJob) {
+    if (activeJobs.has(entry.jobId) || pendingJobs.some(j => j.jobId === entry.jobId)) return;
+
+    trackWaiter(entry.jobId);
+    pendingJobs.push(entry);
+    drainQueue();
+}
+
+function drainQueue() {
+    while (activeJobs.size < MAX_CONCURRENT_JOBS && pendingJobs.length > 0) {
+        const next = pendingJobs.shift()!;
+        const controller = new AbortController();
+        activeJobs.set(next.jobId, controller);
+
+        runJob(next, controller)
+            .catch(error => console.error(`[Jobs] ${next.jobId} crashed:`, error))
+            .finally(() => {
+                activeJobs.delete(next.jobId);
+                releaseWaiter(next.jobId);
+                drainQueue();
+            });
+    }
+}
+
+// Persist a new job and queue it to run in this process
+export async function enqueueSimulationJob(job: SimulationJob, runner: SimulationJobRunner): Promise<void> {
+    await saveSimulationJob(job.agentId, { ...job, workerId: WORKER_ID });
+    scheduleJob({ agentId: job.agentId, jobId: job.id, runner });
+}
+
+// Resolves once the job has finished in this process (immediately if it isn't tracked here)
+export function waitForSimulationJob(jobId: string): Promise<void> {
+    return jobWaiters.get(jobId)?.promise ?? Promise.resolve();
+}
+
+// Resolves once the job has stopped wherever it runs: here through its waiter, elsewhere by watching
+// its file until the other worker settles it or stops sending heartbeats
+export async function waitForSimulationJobToStop(agentId: string, jobId: string): Promise<void> {
+    await waitForSimulationJob(jobId);
+
+    const deadline = Date.now() + STALE_JOB_MS;
+    while (Date.now() < deadline) {
+        const job = await loadSimulationJob(agentId, jobId);
+        if (!job || job.status !== 'running' || !isHeartbeatFresh(job)) return;
+        await new Promise(resolve => setTimeout(resolve, STOP_POLL_INTERVAL_MS));
+    }
+}
+
+// ============ EXECUTION ============
+
+async function runJob({ agentId, jobId, runner }: PendingJob, controller: AbortController): Promise<void> {
+    const job = await loadSimulationJob(agentId, jobId);
+    if (!job) return;
+
+    if (job.cancelRequested) {
+        await finishJob(agentId, job, 'cancelled');
+        return;
+    }
+
+    const now = new Date().toISOString();
+    // Only the fields this worker owns, so a cancel requested meanwhile survives
+    const started: Partial<SimulationJob> = {
+        status: 'running',
+        attempts: job.attempts + 1,
+        workerId: WORKER_ID,
+        heartbeatAt: now,
+        startedAt: job.startedAt || now,
+    };
+    Object.assign(job, started);
+    await updateSimulationJob(agentId, jobId, started);
+    await updateSimulationBatch(agentId, job.batchId, { status: 'running' });
+
+    console.log(`[Jobs] Running ${jobId} (attempt ${job.attempts})`);
+
+    // Keep the job visibly alive, and pick up cancellations requested by other processes
+    let heartbeat: Promise<void> = Promise.resolve();
+    const heartbeatTimer = setInterval(() => {
+        heartbeat = heartbeat.then(async () => {
+            const latest = await loadSimulationJob(agentId, jobId);
+            if (!latest || latest.status !== 'running') return;
+            // Write only the heartbeat, so a cancel requested meanwhile isn't overwritten,
+            // and check for one after the write
+            await updateSimulationJob(agentId, jobId, { heartbeatAt: new Date().toISOString() });
+            if ((await loadSimulationJob(agentId, jobId))?.cancelRequested) {
+                controller.abort();
+            }
+        }).catch(error => console.error(`[Jobs] Heartbeat failed for ${jobId}:`, error));
+    }, HEARTBEAT_INTERVAL_MS);
+
+    let status: SimulationJobStatus = 'completed';
+    let error: string | undefined;
+
+    try {
+        await runner(job, controller.signal);
+        if (controller.signal.aborted) {
+            status = 'cancelled';
+        }
+    } catch (err) {
+        status = controller.signal.aborted ? 'cancelled' : 'failed';
+        error = err instanceof Error ? err.message : 'Unknown error';
+        console.error(`[Jobs] ${jobId} failed:`, err);
+    } finally {
+        clearInterval(heartbeatTimer);
+        // Let an in-flight heartbeat land before the final write so it can't overwrite it
+        await heartbeat;
+    }
+
+    await finishJob(agentId, job, status, error);
+}
+
+// Settle the job and make its batch and simulations agree with how it ended
+async function finishJob(agentId: string, job: SimulationJob, status: SimulationJobStatus, error?: string): Promise<void> {
+    const completedAt = new Date().toISOString();
+    const simulations = await loadSimulationsByBatch(agentId, job.batchId);
+
+    // Nothing may stay 'running' once its job has stopped
+    for (const simulation of simulations.filter(s => s.status === 'running')) {
+        simulation.status = status === 'cancelled' ? 'cancelled' : 'failed';
+        simulation.metadata.outcome = status === 'cancelled'
+            ? 'Cancelled'
+            : `Error: ${error || 'Simulation job stopped before this simulation finished'}`;
+        simulation.completedAt = completedAt;
+        await saveEnhancedSimulation(agentId, simulation);
+    }
+
+    const failedCount = simulations.filter(s => s.status === 'failed').length;
+
+    await updateSimulationBatch(agentId, job.batchId, {
+        status: status === 'cancelled' ? 'cancelled' : failedCount > 0 ? 'partial' : 'completed',
+        completedAt,
+        completedCount: simulations.length,
+    });
+
+    await updateSimulationJob(agentId, job.id, { status, error, completedAt });
+    console.log(`[Jobs] ${job.id} ${status}`);
+}
+
+// ============ CANCELLATION ============
+
+function isHeartbeatFresh(job: SimulationJob): boolean {
+    return !!job.heartbeatAt && Date.now() - new Date(job.heartbeatAt).getTime() < STALE_JOB_MS;
+}
+
+export async function cancelSimulationJob(agentId: string, jobId: string): Promise<SimulationJob | null> {
+    const job = await loadSimulationJob(agentId, jobId);
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) return job;
+
+    await updateSimulationJob(agentId, jobId, { cancelRequested: true });
+
+    const active = activeJobs.get(jobId);
+    if (active) {
+        // runJob settles the job once the simulations notice the abort
+        active.abort();
+    } else {
+        const pendingIndex = pendingJobs.findIndex(j => j.jobId === jobId);
+        if (pendingIndex >= 0) {
+            pendingJobs.splice(pendingIndex, 1);
+            await finishJob(agentId, job, 'cancelled');
+            releaseWaiter(jobId);
+        } else if (!(job.status === 'running' && isHeartbeatFresh(job))) {
+            // Nobody is running it - settle it here. A live worker elsewhere sees the flag on its next heartbeat.
+            await finishJob(agentId, job, 'cancelled');
+        }
+    }
+
+    return await loadSimulationJob(agentId, jobId);
+}
+
+// ============ RESUME ============
+
+// Pick up jobs a previous server process left queued or running. Their simulations
+// continue from the last saved turn, since every turn is persisted as it happens.
+export async function resumeStalledSimulationJobs(agentId: string, runner: SimulationJobRunner): Promise<number> {
+    const jobs = await loadAllSimulationJobs(agentId);
+    let resumed = 0;
+
+    for (const job of jobs) {
+        if (job.status !== 'queued' && job.status !== 'running') continue;
+        if (activeJobs.has(job.id) || pendingJobs.some(j => j.jobId === job.id)) continue;
+        if (job.workerId === WORKER_ID) continue;
+        if (job.status === 'running' && isHeartbeatFresh(job)) continue;
+
+        console.log(`[Jobs] Resuming ${job.id} left behind by ${job.workerId || 'unknown worker'}`);
+        await updateSimulationJob(agentId, job.id, { status: 'queued', workerId: WORKER_ID });
+        await updateSimulationBatch(agentId, job.batchId, { status: 'queued' });
+        scheduleJob({ agentId, jobId: job.id, runner });
+        resumed++;
+    }
+
+    return resumed;
+}
+
+let recoveryTimer: ReturnType<typeof setInterval> | null = null;
+
+// Resume left-behind jobs for every agent now, then keep sweeping: a job whose worker died moments
+// before a restart still has a fresh heartbeat and only looks stale a little later
+export function startSimulationJobRecovery(listAgentIds: () => Promise<string[]>, runner: SimulationJobRunner): void {
+    if (recoveryTimer) return;
+
+    const sweep = async () => {
+        try {
+            for (const agentId of await listAgentIds()) {
+                await resumeStalledSimulationJobs(agentId, runner);
+            }
+        } catch (error) {
+            console.error('[Jobs] Recovery sweep failed:', error);
+        }
+    };
+
+    recoveryTimer = setInterval(sweep, STALE_JOB_MS);
+    // Don't keep the process alive just to sweep
+    recoveryTimer.unref();
+    void sweep();
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { fisherExactPValue, mean, signTestPValue, wilsonInterval } from './stats';
+
+describe('mean', () => {
+    it('averages values and is 0 for none', () => {
+        expect(mean([0.2, 0.4, 0.9])).toBeCloseTo(0.5);
+        expect(mean([])).toBe(0);
+    });
+});
+
+describe('signTestPValue', () => {
+    it('matches the exact binomial tail, doubled', () => {
+        expect(signTestPValue(8, 0)).toBeCloseTo(2 / 256, 10);
+        expect(signTestPValue(9, 1)).toBeCloseTo(2 * 11 / 1024, 10);
+    });
+
+    it('is symmetric in wins and losses', () => {
+        expect(signTestPValue(2, 12)).toBeCloseTo(signTestPValue(12, 2), 12);
+    });
+
+    it('caps at 1 for an even split and is 1 with no decided pairs', () => {
+        expect(signTestPValue(5, 5)).toBe(1);
+        expect(signTestPValue(0, 0)).toBe(1);
+    });
+
+    it('stays finite for large samples', () => {
+        const p = signTestPValue(600, 400);
+        expect(p).toBeGreaterThan(0);
+        expect(p).toBeLessThan(1e-9);
+    });
+});
+
+describe('wilsonInterval', () => {
+    it('matches the textbook interval for 5 of 10', () => {
+        const { low, high } = wilsonInterval(5, 10);
+        expect(low).toBeCloseTo(0.2366, 4);
+        expect(high).toBeCloseTo(0.7634, 4);
+    });
+
+    it('stays inside 0-1 at 0% and 100%', () => {
+        expect(wilsonInterval(0, 10)).toEqual({ low: 0, high: expect.closeTo(0.2775, 4) });
+        expect(wilsonInterval(10, 10)).toEqual({ low: expect.closeTo(0.7225, 4), high: 1 });
+    });
+
+    it('is the whole range with no trials', () => {
+        expect(wilsonInterval(0, 0)).toEqual({ low: 0, high: 1 });
+    });
+});
+
+describe('fisherExactPValue', () => {
+    it('matches the tea-tasting example', () => {
+        expect(fisherExactPValue(3, 1, 1, 3)).toBeCloseTo(0.4857, 4);
+    });
+
+    it('counts both tails of a perfect split', () => {
+        expect(fisherExactPValue(10, 0, 0, 10)).toBeCloseTo(2 / 184756, 10);
+    });
+
+    it('is 1 for identical runs and when either run is empty', () => {
+        expect(fisherExactPValue(6, 4, 6, 4)).toBeCloseTo(1, 6);
+        expect(fisherExactPValue(0, 0, 3, 2)).toBe(1);
+    });
+});
@@ -0,0 +1,77 @@
+// Small statistics helpers for comparing experiment runs. Sample sizes here are tens of
+// conversations, so exact tests are cheap and avoid normal approximations.
+
+export function mean(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+// log(n choose k), so large n doesn't overflow
+function logChoose(n: number, k: number): number {
+    let result = 0;
+    for (let i = 1; i <= k; i++) {
+        result += Math.log(n - k + i) - Math.log(i);
+    }
+    return result;
+}
+
+// Exact two-sided sign test: how likely a win/loss split at least this lopsided is
+// if neither side is actually better. Ties carry no information and are left out.
+export function signTestPValue(wins: number, losses: number): number {
+    const n = wins + losses;
+    if (n === 0) return 1;
+
+    const k = Math.min(wins, losses);
+    let tail = 0;
+    for (let i = 0; i <= k; i++) {
+        tail += Math.exp(logChoose(n, i) - n * Math.LN2);
+    }
+    return Math.min(1, 2 * tail);
+}
+
+// 95% Wilson score interval for a proportion - stays inside 0-1 and behaves at small n and 0%/100%
+export function wilsonInterval(successes: number, total: number, z = 1.96): { low: number; high: number } {
+    if (total === 0) return { low: 0, high: 1 };
+
+    const p = successes / total;
+    const z2 = z * z;
+    const center = (p + z2 / (2 * total)) / (1 + z2 / total);
+    const margin = (z / (1 + z2 / total)) * Math.sqrt((p * (1 - p)) / total + z2 / (4 * total * total));
+    return { low: Math.max(0, center - margin), high: Math.min(1, center + margin) };
+}
+
+function logFactorial(n: number): number {
+    let result = 0;
+    for (let i = 2; i <= n; i++) {
+        result += Math.log(i);
+    }
+    return result;
+}
+
+// Exact two-sided Fisher test on a 2x2 table of passes and failures from two runs:
+// how likely pass rates at least this far apart are if both runs share one true pass rate
+export function fisherExactPValue(passedA: number, failedA: number, passedB: number, failedB: number): number {
+    const rowA = passedA + failedA;
+    const rowB = passedB + failedB;
+    const passedTotal = passedA + passedB;
+    const n = rowA + rowB;
+    if (rowA === 0 || rowB === 0) return 1;
+
+    const logTableProbability = (a: number) => {
+        const b = rowA - a;
+        const c = passedTotal - a;
+        const d = rowB - c;
+        return logFactorial(rowA) + logFactorial(rowB) + logFactorial(passedTotal) + logFactorial(n - passedTotal)
+            - logFactorial(n) - logFactorial(a) - logFactorial(b) - logFactorial(c) - logFactorial(d);
+    };
+
+    const observed = logTableProbability(passedA);
+    let pValue = 0;
+    for (let a = Math.max(0, passedTotal - rowB); a <= Math.min(rowA, passedTotal); a++) {
+        const logP = logTableProbability(a);
+        // Tables no more likely than the observed one are at least as extreme (small slack for float error)
+        if (logP <= observed + 1e-7) {
+            pValue += Math.exp(logP);
+        }
+    }
+    return Math.min(1, pValue);
+}
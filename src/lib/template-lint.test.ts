@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { OverridableNode, StateField } from '@/types/polaris';
+import { getFieldLintIssues, getNodeLintIssues, lintTemplates, mergeStateValues } from './template-lint';
+
+function field(key: string, defaultValue = ''): StateField {
+    return { key, type: 'string', defaultValue };
+}
+
+function node(id: string, systemMessagePrompt: string): OverridableNode {
+    return { id, label: `Node ${id}`, type: 'Agent', systemMessagePrompt };
+}
+
+describe('mergeStateValues', () => {
+    it('puts saved overrides on top of field defaults', () => {
+        expect(mergeStateValues([field('brand', 'Acme'), field('rules', 'Be nice')], { rules: 'Be brief' }))
+            .toEqual({ brand: 'Acme', rules: 'Be brief' });
+    });
+});
+
+describe('lintTemplates', () => {
+    const fields = [field('brand_name', 'Acme'), field('extra_rules'), field('unused_notes', 'x')];
+    const values = mergeStateValues(fields);
+
+    it('reports unknown placeholders with a suggestion for near misses', () => {
+        const issues = lintTemplates([node('n1', 'Welcome to {brand_nme}. {mystery}')], fields, values);
+        const unknown = issues.filter(i => i.kind === 'unknown-placeholder');
+
+        expect(unknown.map(i => [i.variable, i.severity, i.message])).toEqual([
+            ['brand_nme', 'error', '{brand_nme} does not match any state field - did you mean {brand_name}?'],
+            ['mystery', 'error', '{mystery} does not match any state field'],
+        ]);
+        // A typo in the prompt is reported once, not again as left unresolved
+        expect(issues.some(i => i.kind === 'unresolved-placeholder')).toBe(false);
+    });
+
+    it('warns about empty referenced fields and fields no prompt uses', () => {
+        const issues = lintTemplates([node('n1', 'Hi from {brand_name}. {extra_rules}')], fields, values);
+
+        expect(issues.map(i => [i.kind, i.variable])).toEqual([
+            ['empty-field', 'extra_rules'],
+            ['unused-field', 'unused_notes'],
+        ]);
+    });
+
+    it('follows the default aliases', () => {
+        const issues = lintTemplates([node('n1', '{system_base}')], [field('brand_system_base', 'Base')], { brand_system_base: 'Base' });
+        expect(issues).toEqual([]);
+    });
+
+    it('flags placeholders nested in state values that stay unresolved', () => {
+        const nestedValues = { ...values, extra_rules: 'Always {unknown_rule}' };
+        const issues = lintTemplates([node('n1', '{brand_name} {extra_rules}')], fields, nestedValues);
+
+        expect(issues.filter(i => i.location.type === 'node').map(i => [i.kind, i.variable])).toEqual([
+            ['unresolved-placeholder', 'unknown_rule'],
+        ]);
+        expect(getFieldLintIssues(issues, 'extra_rules').map(i => [i.kind, i.variable])).toEqual([
+            ['unknown-placeholder', 'unknown_rule'],
+        ]);
+    });
+
+    it('reports a cycle on every prompt and field it runs through', () => {
+        const cyclic = [field('a', '{b}'), field('b', '{a}')];
+        const issues = lintTemplates([node('n1', '{a}')], cyclic, mergeStateValues(cyclic));
+
+        expect(issues.filter(i => i.kind === 'cyclic-reference').map(i => [i.location, i.message])).toEqual([
+            [{ type: 'node', nodeId: 'n1', nodeLabel: 'Node n1', promptType: 'systemMessagePrompt' }, 'Cyclic reference {a} -> {b} -> {a} is left unresolved'],
+            [{ type: 'state', key: 'a' }, 'Cyclic reference {a} -> {b} -> {a} is left unresolved'],
+            [{ type: 'state', key: 'b' }, 'Cyclic reference {b} -> {a} -> {b} is left unresolved'],
+        ]);
+    });
+});
+
+describe('lint issue filters', () => {
+    it('splits issues between node editors and state fields', () => {
+        const fields = [field('brand_name'), field('rules', 'x')];
+        const issues = lintTemplates([node('n1', '{brand_name}'), node('n2', '{brand_name} {rules}')], fields, mergeStateValues(fields));
+
+        expect(getNodeLintIssues(issues, 'n2').map(i => i.kind)).toEqual(['empty-field']);
+        expect(getFieldLintIssues(issues, 'brand_name')).toEqual([expect.objectContaining({
+            kind: 'empty-field',
+            location: { type: 'state', key: 'brand_name' },
+            message: 'Empty, but used by Node n1, Node n2',
+        })]);
+    });
+});
@@ -0,0 +1,180 @@
+import { OverridableNode, StateField } from '@/types/polaris';
+import { extractPlaceholders, resolveTemplate, resolvePlaceholderKey, DEFAULT_PLACEHOLDER_ALIASES } from './templates';
+
+export type TemplateLintKind =
+    | 'unknown-placeholder'      // {name} matches no state field
+    | 'unused-field'             // No prompt or state value references the field
+    | 'unresolved-placeholder'   // {name} survives injection
+    | 'cyclic-reference'         // Fields that include each other, so injection can't finish
+    | 'empty-field';             // A referenced field is empty, so it injects as nothing
+
+export type PromptType = 'systemMessagePrompt' | 'humanMessagePrompt';
+
+// Where an issue shows up: a node prompt, or a state field's value
+export type TemplateLocation =
+    | { type: 'node'; nodeId: string; nodeLabel: string; promptType: PromptType }
+    | { type: 'state'; key: string };
+
+export interface TemplateLintIssue {
+    kind: TemplateLintKind;
+    severity: 'error' | 'warning';
+    variable: string;            // The placeholder or state field key
+    location: TemplateLocation;
+    message: string;
+}
+
+const PROMPT_TYPES: PromptType[] = ['systemMessagePrompt', 'humanMessagePrompt'];
+
+// Closest known key within a couple of typos, for "did you mean" hints
+function suggestKey(name: string, keys: string[]): string | undefined {
+    let best: { key: string; distance: number } | undefined;
+    for (const key of keys) {
+        const distance = editDistance(name.toLowerCase(), key.toLowerCase());
+        if (distance <= 2 && (!best || distance < best.distance)) best = { key, distance };
+    }
+    return best?.key;
+}
+
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+// Field defaults with saved overrides on top - the values the override config injects
+export function mergeStateValues(fields: StateField[], overrides: Record<string, string> = {}): Record<string, string> {
+    const values: Record<string, string> = {};
+    for (const field of fields) {
+        values[field.key] = field.defaultValue || '';
+    }
+    return { ...values, ...overrides };
+}
+
+function cycleIssue(cycle: string[], location: TemplateLocation): TemplateLintIssue {
+    return {
+        kind: 'cyclic-reference',
+        severity: 'error',
+        variable: cycle[0],
+        location,
+        message: `Cyclic reference ${cycle.map(key => `{${key}}`).join(' -> ')} is left unresolved`,
+    };
+}
+
+export function lintTemplates(
+    nodes: OverridableNode[],
+    fields: StateField[],
+    values: Record<string, string>,
+    aliases: Record<string, string> = DEFAULT_PLACEHOLDER_ALIASES
+): TemplateLintIssue[] {
+    const issues: TemplateLintIssue[] = [];
+    const knownKeys = fields.map(f => f.key);
+    const isKnown = (name: string) => knownKeys.includes(resolvePlaceholderKey(name, aliases));
+    const referencedKeys = new Set<string>();
+
+    const unknownIssues = (template: string, location: TemplateLocation): TemplateLintIssue[] =>
+        extractPlaceholders(template).filter(name => !isKnown(name)).map(name => {
+            const suggestion = suggestKey(name, [...knownKeys, ...Object.keys(aliases)]);
+            return {
+                kind: 'unknown-placeholder',
+                severity: 'error',
+                variable: name,
+                location,
+                message: `{${name}} does not match any state field${suggestion ? ` - did you mean {${suggestion}}?` : ''}`,
+            };
+        });
+
+    for (const node of nodes) {
+        for (const promptType of PROMPT_TYPES) {
+            const template = node[promptType];
+            if (!template) continue;
+            const location: TemplateLocation = { type: 'node', nodeId: node.id, nodeLabel: node.label, promptType };
+
+            const nodeUnknown = unknownIssues(template, location);
+            issues.push(...nodeUnknown);
+
+            const resolution = resolveTemplate(template, values, aliases);
+            resolution.referencedKeys.forEach(key => referencedKeys.add(key));
+            issues.push(...resolution.cycles.map(cycle => cycleIssue(cycle, location)));
+
+            // Leftovers that aren't just this prompt's own typos - placeholders nested in state values
+            const reported = new Set(nodeUnknown.map(i => i.variable));
+            for (const name of resolution.unresolved) {
+                if (reported.has(name)) continue;
+                issues.push({
+                    kind: 'unresolved-placeholder',
+                    severity: 'error',
+                    variable: name,
+                    location,
+                    message: `{${name}} is still in the prompt after state values are injected`,
+                });
+            }
+
+            for (const key of resolution.referencedKeys) {
+                if (!knownKeys.includes(key) || values[key]?.trim()) continue;
+                issues.push({
+                    kind: 'empty-field',
+                    severity: 'warning',
+                    variable: key,
+                    location,
+                    message: `{${key}} is empty, so it is injected as nothing`,
+                });
+            }
+        }
+    }
+
+    for (const field of fields) {
+        const value = values[field.key];
+        if (value) issues.push(...unknownIssues(value, { type: 'state', key: field.key }));
+
+        // Cycles through this field, found by rendering it as if a prompt used it
+        const { cycles } = resolveTemplate(`{${field.key}}`, values, aliases);
+        issues.push(...cycles.filter(c => c[0] === field.key).map(cycle => cycleIssue(cycle, { type: 'state', key: field.key })));
+
+        if (!referencedKeys.has(field.key)) {
+            issues.push({
+                kind: 'unused-field',
+                severity: 'warning',
+                variable: field.key,
+                location: { type: 'state', key: field.key },
+                message: `No prompt uses {${field.key}}`,
+            });
+        }
+    }
+
+    return issues;
+}
+
+// Issues to show on one node's prompt editor
+export function getNodeLintIssues(issues: TemplateLintIssue[], nodeId: string): TemplateLintIssue[] {
+    return issues.filter(i => i.location.type === 'node' && i.location.nodeId === nodeId);
+}
+
+// Issues to show on one state field: typos in its value, and whether prompts use it or get nothing from it
+export function getFieldLintIssues(issues: TemplateLintIssue[], key: string): TemplateLintIssue[] {
+    const fieldIssues = issues.filter(i => i.location.type === 'state' && i.location.key === key);
+
+    const emptyIn = issues.flatMap(i =>
+        i.kind === 'empty-field' && i.variable === key && i.location.type === 'node' ? [i.location.nodeLabel] : []
+    );
+    if (emptyIn.length > 0) {
+        fieldIssues.push({
+            kind: 'empty-field',
+            severity: 'warning',
+            variable: key,
+            location: { type: 'state', key },
+            message: `Empty, but used by ${[...new Set(emptyIn)].join(', ')}`,
+        });
+    }
+
+    return fieldIssues;
+}
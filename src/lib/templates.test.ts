@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { extractPlaceholders, injectStateValues, resolvePlaceholderKey, resolveTemplate } from './templates';
+
+describe('extractPlaceholders', () => {
+    it('lists each placeholder once in order of first use', () => {
+        expect(extractPlaceholders('{b} {a} {b} {not valid} {_ok1}')).toEqual(['b', 'a', '_ok1']);
+    });
+});
+
+describe('resolvePlaceholderKey', () => {
+    it('maps aliases to their field and leaves other names alone', () => {
+        expect(resolvePlaceholderKey('system_base')).toBe('brand_system_base');
+        expect(resolvePlaceholderKey('brand_name')).toBe('brand_name');
+        expect(resolvePlaceholderKey('base', { base: 'brand_base' })).toBe('brand_base');
+        expect(resolvePlaceholderKey('system_base', {})).toBe('system_base');
+    });
+
+    it('ignores inherited object keys', () => {
+        expect(resolvePlaceholderKey('constructor')).toBe('constructor');
+    });
+});
+
+describe('resolveTemplate', () => {
+    it('resolves placeholders inside field values, however deep', () => {
+        const result = resolveTemplate('{system_base} Bye.', {
+            brand_system_base: 'You work for {brand_name}. {rules}',
+            brand_name: 'Acme',
+            rules: 'Be brief.',
+        });
+
+        expect(result.text).toBe('You work for Acme. Be brief. Bye.');
+        expect(result.referencedKeys).toEqual(['brand_system_base', 'brand_name', 'rules']);
+        expect(result.unresolved).toEqual([]);
+        expect(result.cycles).toEqual([]);
+    });
+
+    it('records which field chain each span of text came from', () => {
+        const result = resolveTemplate('Hi {greeting}!', { greeting: 'from {brand}', brand: 'Acme' });
+
+        expect(result.segments).toEqual([
+            { text: 'Hi ', start: 0, end: 3, fieldPath: [] },
+            { text: 'from ', start: 3, end: 8, fieldPath: ['greeting'] },
+            { text: 'Acme', start: 8, end: 12, fieldPath: ['greeting', 'brand'] },
+            { text: '!', start: 12, end: 13, fieldPath: [] },
+        ]);
+        for (const segment of result.segments) {
+            expect(result.text.slice(segment.start, segment.end)).toBe(segment.text);
+        }
+    });
+
+    it('leaves placeholders with no field as written', () => {
+        const result = resolveTemplate('Call {phone} or {phone}', {});
+        expect(result.text).toBe('Call {phone} or {phone}');
+        expect(result.unresolved).toEqual(['phone']);
+    });
+
+    it('stops at cycles and reports each once', () => {
+        const result = resolveTemplate('{a} {a}', { a: 'A({b})', b: 'B({a})' });
+
+        expect(result.text).toBe('A(B({a})) A(B({a}))');
+        expect(result.cycles).toEqual([['a', 'b', 'a']]);
+    });
+
+    it('treats a field that includes itself as a cycle', () => {
+        expect(resolveTemplate('{self}', { self: 'x{self}' }).cycles).toEqual([['self', 'self']]);
+    });
+
+    it('uses per-agent aliases', () => {
+        expect(injectStateValues('{company}', { brand_name: 'Acme' }, { company: 'brand_name' })).toBe('Acme');
+    });
+});
@@ -0,0 +1,120 @@
+// Prompt templates reference state fields as {field_key}. Kept free of server imports so the
+// editors can check templates client-side with the same rules the override config uses.
+
+// {alias} -> state field key. Agents without their own aliases use these.
+export const DEFAULT_PLACEHOLDER_ALIASES: Record<string, string> = {
+    system_base: 'brand_system_base',
+};
+
+const PLACEHOLDER_PATTERN = /\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+export const PLACEHOLDER_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+// A stretch of rendered text and the chain of fields it was injected through
+export interface TemplateSegment {
+    text: string;
+    start: number;               // Offsets into the rendered text
+    end: number;
+    fieldPath: string[];         // Outermost field first; empty for the template's own text
+}
+
+export interface TemplateResolution {
+    text: string;
+    segments: TemplateSegment[];
+    referencedKeys: string[];    // Every field pulled in, directly or nested, in order of first use
+    unresolved: string[];        // Placeholders with no state field to read, left in the text as written
+    cycles: string[][];          // Field chains that lead back to themselves, e.g. [a, b, a]
+}
+
+// A node's prompts as the override config sends them
+export interface RenderedNodePrompts {
+    systemMessagePrompt?: TemplateResolution;
+    humanMessagePrompt?: TemplateResolution;
+}
+
+// Every distinct {placeholder} name in a template, in order of first appearance
+export function extractPlaceholders(template: string): string[] {
+    const names = new Set<string>();
+    for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+        names.add(match[1]);
+    }
+    return [...names];
+}
+
+// The state field a placeholder reads
+export function resolvePlaceholderKey(name: string, aliases: Record<string, string> = DEFAULT_PLACEHOLDER_ALIASES): string {
+    return Object.hasOwn(aliases, name) ? aliases[name] : name;
+}
+
+// Render a template, replacing each placeholder with its field's value and resolving placeholders
+// inside those values in turn. A placeholder that would re-enter a field it is already inside is
+// a cycle and is left as written, as are placeholders with no field.
+export function resolveTemplate(
+    template: string,
+    values: Record<string, string>,
+    aliases: Record<string, string> = DEFAULT_PLACEHOLDER_ALIASES
+): TemplateResolution {
+    const segments: TemplateSegment[] = [];
+    const referencedKeys = new Set<string>();
+    const unresolved = new Set<string>();
+    const cycles: string[][] = [];
+    let length = 0;
+
+    const emit = (text: string, fieldPath: string[]) => {
+        if (!text) return;
+        const last = segments[segments.length - 1];
+        if (last && last.fieldPath.join('/') === fieldPath.join('/')) {
+            last.text += text;
+            last.end += text.length;
+        } else {
+            segments.push({ text, start: length, end: length + text.length, fieldPath });
+        }
+        length += text.length;
+    };
+
+    const render = (text: string, fieldPath: string[]) => {
+        let cursor = 0;
+        for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+            const index = match.index ?? 0;
+            emit(text.slice(cursor, index), fieldPath);
+            cursor = index + match[0].length;
+
+            const key = resolvePlaceholderKey(match[1], aliases);
+            if (!Object.hasOwn(values, key)) {
+                unresolved.add(match[1]);
+                emit(match[0], fieldPath);
+            } else if (fieldPath.includes(key)) {
+                const cycle = [...fieldPath.slice(fieldPath.indexOf(key)), key];
+                if (!cycles.some(c => c.join('/') === cycle.join('/'))) cycles.push(cycle);
+                emit(match[0], fieldPath);
+            } else {
+                referencedKeys.add(key);
+                render(values[key] || '', [...fieldPath, key]);
+            }
+        }
+        emit(text.slice(cursor), fieldPath);
+    };
+
+    render(template, []);
+
+    return {
+        text: segments.map(s => s.text).join(''),
+        segments,
+        referencedKeys: [...referencedKeys],
+        unresolved: [...unresolved],
+        cycles,
+    };
+}
+
+// Rough token count for display - about four characters per token for English prompt text
+export function estimateTokenCount(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+// Inject state values into a prompt template - the rendered text of resolveTemplate
+export function injectStateValues(
+    promptTemplate: string,
+    stateValues: Record<string, string>,
+    aliases: Record<string, string> = DEFAULT_PLACEHOLDER_ALIASES
+): string {
+    return resolveTemplate(promptTemplate, stateValues, aliases).text;
+}
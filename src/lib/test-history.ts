@@ -0,0 +1,53 @@
+import { BehaviorExperiment, TestHistoryPoint } from '@/types/behavior-test';
+import { PromptSetVersion } from '@/types/polaris';
+import { fisherExactPValue } from './stats';
+
+const SIGNIFICANCE_LEVEL = 0.05;
+export const UNSAVED_CONFIG_LABEL = 'Unsaved config';
+
+// Oldest-first pass-rate history for one test. Only completed runs are plotted - cancelled
+// and failed runs have partial results that would read as regressions - and optimizer
+// candidates are left out since they ran throwaway configs.
+export function buildTestHistory(
+    experiments: BehaviorExperiment[],
+    testId: string,
+    versions: PromptSetVersion[]
+): TestHistoryPoint[] {
+    const versionNames = new Map(versions.map(v => [v.id, v.name]));
+    const runs = experiments
+        .filter(e => e.testId === testId && e.status === 'completed' && e.summary.total > 0 && !e.optimizationRunId)
+        .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+    return runs.map((experiment, i) => {
+        const { passed, total, passRate, avgScore, passRateInterval } = experiment.summary;
+        const previous = i > 0 ? runs[i - 1] : undefined;
+
+        let regression: TestHistoryPoint['regression'];
+        if (previous && passRate < previous.summary.passRate) {
+            const pValue = fisherExactPValue(
+                passed, total - passed,
+                previous.summary.passed, previous.summary.total - previous.summary.passed
+            );
+            if (pValue < SIGNIFICANCE_LEVEL) {
+                regression = { fromPassRate: previous.summary.passRate, pValue: Math.round(pValue * 1000) / 1000 };
+            }
+        }
+
+        return {
+            experimentId: experiment.id,
+            createdAt: experiment.createdAt,
+            passed,
+            total,
+            passRate,
+            avgScore,
+            passRateInterval,
+            versionId: experiment.versionId,
+            versionName: experiment.versionId
+                ? versionNames.get(experiment.versionId) || 'Deleted version'
+                : UNSAVED_CONFIG_LABEL,
+            origin: experiment.suiteRunId ? 'suite' : experiment.abRunId ? 'ab' : 'run',
+            versionChanged: !!previous && previous.versionId !== experiment.versionId,
+            regression,
+        };
+    });
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { BehaviorExperiment, BehaviorTestResult } from '@/types/behavior-test';
+import { compareWithPreviousRun, getTrialsPerPersona, passRateInterval, summarizePersonaPassRates } from './trials';
+
+function result(personaId: string, passed: boolean): BehaviorTestResult {
+    return {
+        id: `${personaId}-${passed}`,
+        personaId,
+        persona: { id: personaId, name: `Persona ${personaId}`, role: 'Customer', goal: 'Book', context: '', tone: 'Calm' },
+        conversation: [],
+        score: passed ? 1 : 0,
+        passed,
+        rationale: '',
+        scoredAt: '2026-01-01T00:00:00.000Z',
+    };
+}
+
+describe('getTrialsPerPersona', () => {
+    it('defaults to one and rounds down to a whole trial count', () => {
+        expect(getTrialsPerPersona({})).toBe(1);
+        expect(getTrialsPerPersona({ trialsPerPersona: 0 })).toBe(1);
+        expect(getTrialsPerPersona({ trialsPerPersona: 3.7 })).toBe(3);
+    });
+});
+
+describe('passRateInterval', () => {
+    it('reports the Wilson interval as rounded percentages', () => {
+        expect(passRateInterval(5, 10)).toEqual({ low: 24, high: 76 });
+    });
+});
+
+describe('summarizePersonaPassRates', () => {
+    it('gives each persona its own pass rate over its trials', () => {
+        const summary = summarizePersonaPassRates([
+            result('p1', true), result('p1', false), result('p2', true), result('p1', true),
+        ]);
+
+        expect(summary).toEqual([
+            { personaId: 'p1', personaName: 'Persona p1', passed: 2, total: 3, passRate: 67, interval: passRateInterval(2, 3) },
+            { personaId: 'p2', personaName: 'Persona p2', passed: 1, total: 1, passRate: 100, interval: passRateInterval(1, 1) },
+        ]);
+    });
+});
+
+describe('compareWithPreviousRun', () => {
+    const previous = {
+        id: 'exp-previous',
+        createdAt: '2026-01-01T00:00:00.000Z',
+        summary: { total: 10, passed: 0, failed: 10, passRate: 0, avgScore: 0 },
+    } as BehaviorExperiment;
+
+    it('flags a jump in pass rate as significant', () => {
+        expect(compareWithPreviousRun(10, 10, previous)).toEqual({
+            experimentId: 'exp-previous',
+            createdAt: '2026-01-01T00:00:00.000Z',
+            passed: 0,
+            total: 10,
+            passRate: 0,
+            delta: 100,
+            pValue: 0,
+            significant: true,
+        });
+    });
+
+    it('does not flag a small change', () => {
+        const comparison = compareWithPreviousRun(1, 10, previous);
+        expect(comparison.delta).toBe(10);
+        expect(comparison.significant).toBe(false);
+    });
+});
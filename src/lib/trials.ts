@@ -0,0 +1,64 @@
+import {
+    BehaviorExperiment,
+    BehaviorTestResult,
+    PassRateInterval,
+    PersonaPassRate,
+    PreviousRunComparison
+} from '@/types/behavior-test';
+import { fisherExactPValue, wilsonInterval } from './stats';
+
+export const DEFAULT_TRIALS_PER_PERSONA = 1;
+const SIGNIFICANCE_LEVEL = 0.05;
+
+export function getTrialsPerPersona(test: { trialsPerPersona?: number }): number {
+    return Math.max(1, Math.floor(test.trialsPerPersona || DEFAULT_TRIALS_PER_PERSONA));
+}
+
+// Wilson interval as 0-100 percentages, rounded like passRate
+export function passRateInterval(passed: number, total: number): PassRateInterval {
+    const { low, high } = wilsonInterval(passed, total);
+    return { low: Math.round(low * 100), high: Math.round(high * 100) };
+}
+
+// Group results by persona so each persona's trials give it its own pass rate and interval
+export function summarizePersonaPassRates(results: BehaviorTestResult[]): PersonaPassRate[] {
+    const byPersona = new Map<string, BehaviorTestResult[]>();
+    for (const result of results) {
+        byPersona.set(result.personaId, [...(byPersona.get(result.personaId) || []), result]);
+    }
+
+    return Array.from(byPersona, ([personaId, trials]) => {
+        const passed = trials.filter(r => r.passed).length;
+        return {
+            personaId,
+            personaName: trials[0].persona.name,
+            passed,
+            total: trials.length,
+            passRate: Math.round((passed / trials.length) * 100),
+            interval: passRateInterval(passed, trials.length),
+        };
+    });
+}
+
+// Compare pass/fail counts against an earlier run of the same test. Every conversation counts
+// as one trial, so repeated trials per persona give the test more power.
+export function compareWithPreviousRun(
+    passed: number,
+    total: number,
+    previous: BehaviorExperiment
+): PreviousRunComparison {
+    const { passed: previousPassed, total: previousTotal, passRate: previousPassRate } = previous.summary;
+    const passRate = total > 0 ? Math.round((passed / total) * 100) : 0;
+    const pValue = fisherExactPValue(passed, total - passed, previousPassed, previousTotal - previousPassed);
+
+    return {
+        experimentId: previous.id,
+        createdAt: previous.createdAt,
+        passed: previousPassed,
+        total: previousTotal,
+        passRate: previousPassRate,
+        delta: passRate - previousPassRate,
+        pValue: Math.round(pValue * 1000) / 1000,
+        significant: pValue < SIGNIFICANCE_LEVEL,
+    };
+}
@@ -1,4 +1,5 @@
 import { Persona } from './simulation';
+import { OverridableNode, NodePromptType } from './polaris';
 
 export interface BehaviorTest {
     id: string;
@@ -8,6 +9,91 @@ export interface BehaviorTest {
     personaHint: string;         // Hint for generating relevant personas
     simulationCount: number;     // 10, 20, 50
     createdAt: string;
+    criteria?: ScoringCriterion[];  // Named rubric; when absent, scorerPrompt is the single criterion
+    personaSetId?: string;       // Frozen persona set version to run on instead of generating personas
+    freshPersonaCount?: number;  // Extra freshly generated personas added on top of the frozen set
+    trialsPerPersona?: number;   // Conversations run per persona (default 1); more trials narrow the pass-rate interval
+    sourceNoteIds?: string[];    // Reviewer notes the test was drafted from
+}
+
+// A test's personas saved as a fixture, so pass rates move with the prompts rather than persona noise.
+// Editing a set saves a new version; experiments record which version they ran.
+export interface PersonaSet {
+    id: string;
+    testId: string;
+    name: string;
+    version: number;             // 1, 2, 3... per test
+    personas: Persona[];
+    sourceExperimentId?: string; // Experiment the personas were first frozen from
+    createdAt: string;
+}
+
+// ============ Assertion Types ============
+
+// A JSON Schema subset for tool inputs: type, properties, required, enum, items,
+// string/number bounds and additionalProperties: false
+export interface JsonSchema {
+    type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    additionalProperties?: boolean;
+    items?: JsonSchema;
+    enum?: unknown[];
+    pattern?: string;
+    minLength?: number;
+    maxLength?: number;
+    minimum?: number;
+    maximum?: number;
+}
+
+// Code-based check on the conversation - exact, free and reproducible, unlike a judge call.
+// Text assertions look at the agent's messages; tool assertions look at their traceData.
+export type BehaviorAssertion =
+    | { kind: 'regex'; pattern: string; flags?: string; mode: 'must-match' | 'must-not-match' }
+    | { kind: 'max-length'; maxChars: number }
+    // The first agent message matching `pattern` must come within the first `withinTurns`
+    // agent messages and/or before the first one matching `beforePattern`
+    | { kind: 'turn-position'; pattern: string; flags?: string; withinTurns?: number; beforePattern?: string }
+    | { kind: 'tool-called'; tool: string; mode: 'must-call' | 'must-not-call' }
+    | { kind: 'tool-input-schema'; tool: string; schema: JsonSchema };
+
+export type BehaviorAssertionKind = BehaviorAssertion['kind'];
+
+// ============ Scoring Rubric Types ============
+
+export interface ScoringCriterion {
+    id: string;
+    name: string;                // e.g., "Uses Dr. title", "Never quotes a price"
+    weight: number;              // Relative weight in the blended score
+    passThreshold: number;       // 0-1, the criterion passes at or above this score
+    type: 'llm-judge' | 'check';
+    judgePrompt?: string;        // For llm-judge - supports {{conversation}} and {{persona}}
+    check?: BehaviorAssertion;   // For check
+}
+
+export interface CriterionScore {
+    criterionId: string;
+    name: string;
+    score: number;               // 0-1
+    passed: boolean;
+    rationale: string;
+    blamedTurns?: TurnBlame[];
+}
+
+// An assistant turn the judge held responsible for a deduction
+export interface TurnBlame {
+    turnIndex: number;           // Index into the conversation
+    comment: string;
+    criterionName?: string;      // Criterion that blamed it, on multi-criterion tests
+}
+
+export interface CriterionSummary {
+    criterionId: string;
+    name: string;
+    passed: number;
+    failed: number;
+    passRate: number;            // 0-100
+    avgScore: number;            // 0-1
 }
 
 export interface BehaviorTestResult {
@@ -15,10 +101,14 @@ export interface BehaviorTestResult {
     personaId: string;
     persona: Persona;
     conversation: ConversationTurn[];
-    score: number;              // 0-1
-    passed: boolean;            // score >= 0.7
+    score: number;              // 0-1, weighted across criteria
+    passed: boolean;            // Every criterion met its threshold
     rationale: string;          // LLM judge's explanation
+    criteria?: CriterionScore[];
+    blamedTurns?: TurnBlame[];  // Agent turns that cost points, in conversation order
     scoredAt: string;
+    retryCount?: number;        // Backend calls retried after a 429/5xx during this conversation
+    trial?: number;             // 1-based trial number for this persona when a test runs repeated trials
 }
 
 export interface ConversationTurn {
@@ -35,9 +125,17 @@ export interface BehaviorExperiment {
     summary: ExperimentSummary;
     braintrustExperimentId?: string;
     braintrustUrl?: string;
-    status: 'running' | 'completed' | 'failed';
+    status: 'running' | 'completed' | 'failed' | 'cancelled';
     createdAt: string;
     completedAt?: string;
+    cassetteId?: string;        // Cassette this experiment was recorded to or replayed from
+    progress?: RunningExperimentState['progress'];  // Saved as conversations finish, for live polling
+    versionId?: string;         // PromptSetVersion the experiment ran against, when run from a saved version
+    suiteRunId?: string;        // Regression suite run that launched this experiment
+    abRunId?: string;           // A/B run this experiment is one side of
+    optimizationRunId?: string; // Optimization run this experiment scored a candidate for
+    personas?: Persona[];       // Every persona the experiment ran, including any whose conversation errored
+    personaSetId?: string;      // Frozen persona set version the experiment ran on
 }
 
 export interface ExperimentSummary {
@@ -47,17 +145,277 @@ export interface ExperimentSummary {
     passRate: number;           // 0-100
     avgScore: number;           // 0-1
     duration?: number;          // ms
+    criteria?: CriterionSummary[];  // Per-criterion pass rates, to see which rule regressed
+    passRateInterval?: PassRateInterval;  // 95% confidence interval around passRate
+    trialsPerPersona?: number;
+    personas?: PersonaPassRate[];   // Pass rate across each persona's trials
+    previousRun?: PreviousRunComparison;
+    failureClusters?: FailureCluster[];  // Failed conversations grouped by how they failed, largest first
     aiSummary?: string;         // LLM-generated summary of results
     recommendations?: string[]; // LLM-generated recommendations for improvement
 }
 
+// Failed conversations that went wrong the same way, named by an LLM
+export interface FailureCluster {
+    id: string;
+    name: string;
+    description: string;
+    resultIds: string[];
+    exampleResultIds: string[];  // The most representative failures, up to 3
+    personas: { personaId: string; personaName: string }[];
+}
+
+export interface PassRateInterval {
+    low: number;                // 0-100
+    high: number;               // 0-100
+}
+
+export interface PersonaPassRate {
+    personaId: string;
+    personaName: string;
+    passed: number;
+    total: number;
+    passRate: number;           // 0-100
+    interval: PassRateInterval;
+}
+
+// Whether this run's pass rate differs from the last completed run of the same test
+// by more than trial-to-trial noise explains
+export interface PreviousRunComparison {
+    experimentId: string;
+    createdAt: string;
+    passed: number;
+    total: number;
+    passRate: number;           // 0-100
+    delta: number;              // This run's pass rate minus the previous one, in points
+    pValue: number;             // Fisher's exact test on passed/failed counts
+    significant: boolean;
+}
+
+// One completed run of a test on its pass-rate history chart
+export interface TestHistoryPoint {
+    experimentId: string;
+    createdAt: string;
+    passed: number;
+    total: number;
+    passRate: number;           // 0-100
+    avgScore: number;           // 0-1
+    passRateInterval?: PassRateInterval;
+    versionId?: string;
+    versionName: string;        // Saved version name, or "Unsaved config" for runs on the working config
+    origin: 'run' | 'suite' | 'ab';
+    versionChanged: boolean;    // Ran on a different version than the run before it
+    regression?: {              // Pass rate dropped significantly from the run before it
+        fromPassRate: number;
+        pValue: number;
+    };
+}
+
 export interface RunningExperimentState {
     experimentId: string;
     test: BehaviorTest;
+    status: BehaviorExperiment['status'];
     progress: {
         completed: number;
         total: number;
         currentPersona?: string;
     };
-    results: BehaviorTestResult[];
+    results: BehaviorTestResult[];  // Finished conversations so far, in completion order
+    summary: ExperimentSummary;     // Live pass rate over the finished conversations
+}
+
+// ============ Judge Calibration Types ============
+
+export type CalibrationLabel = 'pass' | 'fail';
+
+// A transcript hand-labeled pass/fail for a test, copied in so the label survives
+// deleting the simulation or experiment it came from
+export interface LabeledConversation {
+    id: string;
+    source:
+        | { type: 'simulation'; simulationId: string; batchId: string }
+        | { type: 'behavior-result'; resultId: string; experimentId: string };
+    persona: Persona;
+    conversation: ConversationTurn[];
+    label: CalibrationLabel;
+    notes?: string;
+    labeledAt: string;
+}
+
+// Counts with 'fail' as the positive class - the judge's job is to catch failures
+export interface CalibrationMetrics {
+    total: number;              // Conversations the judge scored
+    errors?: number;            // Conversations the judge errored on - left out of every other number
+    agreement: number;          // 0-100, judge verdict matches the human label
+    precision: number;          // 0-1, of the conversations the judge failed, how many we failed
+    recall: number;             // 0-1, of the conversations we failed, how many the judge failed
+    f1: number;                 // 0-1
+    confusion: {
+        truePass: number;       // Human pass, judge pass
+        falsePass: number;      // Human fail, judge pass - the judge let a failure through
+        trueFail: number;       // Human fail, judge fail
+        falseFail: number;      // Human pass, judge fail - the judge was too strict
+    };
+}
+
+export interface CalibrationPrediction {
+    conversationId: string;
+    label: CalibrationLabel;
+    predicted?: CalibrationLabel;    // Missing when the judge errored
+    score?: number;
+    rationale: string;
+    error?: string;
+}
+
+export interface CalibrationRun {
+    id: string;
+    scorerPrompt: string;
+    passThreshold: number;
+    predictions: CalibrationPrediction[];
+    metrics: CalibrationMetrics;
+    createdAt: string;
+}
+
+// One per behavior test - its labeled conversations and every scorer prompt tried against them
+export interface CalibrationSet {
+    testId: string;
+    testName: string;
+    conversations: LabeledConversation[];
+    runs: CalibrationRun[];     // Newest first
+    createdAt: string;
+    updatedAt: string;
+}
+
+// ============ Regression Suite Types ============
+
+export interface RegressionSuiteTestRun {
+    testId: string;
+    testName: string;
+    experimentId?: string;      // Set once the test's experiment starts
+    status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+    passRate?: number;          // 0-100
+    passed?: number;
+    total?: number;
+    verdict?: 'pass' | 'fail';  // passRate met the suite's minPassRate
+    error?: string;
+}
+
+// Every saved behavior test run against one PromptSetVersion - the release report for that version
+export interface RegressionSuiteRun {
+    id: string;
+    versionId: string;
+    versionName: string;
+    minPassRate: number;        // 0-100, each test must reach this to pass
+    tests: RegressionSuiteTestRun[];
+    status: 'running' | 'completed' | 'failed' | 'cancelled';
+    verdict?: 'pass' | 'fail';  // Pass only if every test passed
+    overallPassRate?: number;   // 0-100, across every conversation in the suite
+    createdAt: string;
+    completedAt?: string;
+}
+
+// ============ A/B Experiment Types ============
+
+// Which prompts a variant runs: the editor's current config, the saved master, or a saved version
+export type ABVariantSource =
+    | { kind: 'current' }
+    | { kind: 'master' }
+    | { kind: 'version'; versionId: string };
+
+export interface ABVariant {
+    label: string;              // e.g. "Current Config", "v3 - Fixed Dr. issue"
+    source: ABVariantSource;
+    experimentId?: string;      // The behavior experiment this variant ran as
+}
+
+// One persona's result under both variants - the delta is B minus A
+export interface ABPersonaComparison {
+    personaId: string;
+    personaName: string;
+    scoreA: number;
+    scoreB: number;
+    passedA: boolean;
+    passedB: boolean;
+    delta: number;
+    outcome: 'win' | 'loss' | 'tie';  // From B's point of view
+}
+
+export interface ABSummary {
+    pairs: number;              // Personas that finished under both variants
+    meanScoreA: number;
+    meanScoreB: number;
+    meanDelta: number;
+    passRateA: number;          // 0-100
+    passRateB: number;          // 0-100
+    wins: number;
+    losses: number;
+    ties: number;
+    pValue: number;             // Two-sided sign test over wins and losses
+    significant: boolean;       // pValue below 0.05
+}
+
+// Two variants run on one shared persona set, so per-persona scores can be compared directly
+export interface ABExperimentRun {
+    id: string;
+    testId: string;
+    test: BehaviorTest;
+    variantA: ABVariant;
+    variantB: ABVariant;
+    personas: Persona[];
+    status: 'running' | 'completed' | 'failed' | 'cancelled';
+    comparisons: ABPersonaComparison[];
+    summary?: ABSummary;
+    error?: string;
+    createdAt: string;
+    completedAt?: string;
+}
+
+// ============ Prompt Optimization Types ============
+
+// One field the optimizer rewrote, relative to the candidate it started from
+export interface OptimizationEdit {
+    fieldType: 'state' | 'node';
+    field: string;              // State key, or the node label
+    nodeId?: string;
+    promptType?: NodePromptType;    // Node prompt the edit rewrites - system prompt when missing
+    before: string;
+    after: string;
+    explanation: string;
+}
+
+// A prompt configuration the optimizer tried. Iteration 0 is the unedited starting config.
+export interface OptimizationCandidate {
+    id: string;
+    iteration: number;
+    parentId?: string;          // Candidate the edits were applied to - the best one at the time
+    edits: OptimizationEdit[];
+    changeSummary?: string;
+    nodes: OverridableNode[];
+    stateValues: Record<string, string>;
+    status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+    experimentId?: string;
+    passed?: number;
+    total?: number;
+    passRate?: number;          // 0-100
+    avgScore?: number;          // 0-1
+    error?: string;
+}
+
+// Propose edits, run the test on each candidate, keep the best - every candidate talks to the same personas
+export interface PromptOptimizationRun {
+    id: string;
+    testId: string;
+    testName: string;
+    test: BehaviorTest;
+    startingLabel: string;      // Config the run started from, e.g. "Current Config"
+    budget: number;             // Edited candidates to try, not counting the starting config
+    personas: Persona[];
+    candidates: OptimizationCandidate[];  // In the order they were tried
+    bestCandidateId?: string;
+    savedVersionId?: string;    // PromptSetVersion the winner was saved as
+    savedVersionName?: string;
+    status: 'running' | 'completed' | 'failed' | 'cancelled';
+    error?: string;
+    createdAt: string;
+    completedAt?: string;
 }
@@ -0,0 +1,41 @@
+import { OverridableNode } from './polaris';
+
+// 'record' captures every model/agent call of a run, 'replay' answers them from disk
+export type CassetteMode = 'record' | 'replay';
+
+// The non-deterministic calls a simulation batch or behavior experiment makes
+export type CassetteCallKind =
+    | 'persona-generation'   // generateBehaviorTestPersonas
+    | 'persona-response'     // generateUserResponse / generateEnhancedUserResponse
+    | 'agent'                // Agent backend (Polaris, OpenAI-compatible, mock)
+    | 'judge'                // scoreConversation
+    | 'insights'             // generateExperimentInsights
+    | 'failure-clusters';    // clusterFailures
+
+export interface CassetteEntry {
+    kind: CassetteCallKind;
+    key: string;             // Hash of kind + request, used to look the entry up on replay
+    request: unknown;
+    response: unknown;
+    recordedAt: string;
+}
+
+export interface Cassette {
+    id: string;
+    source: {
+        type: 'batch' | 'experiment';
+        id: string;
+    };
+    // Prompts and state the run was recorded with, so it can be replayed without the caller re-supplying them
+    nodes: OverridableNode[];
+    stateOverrides?: Record<string, string>;
+    entries: CassetteEntry[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface CassetteOptions {
+    mode: CassetteMode;
+    cassetteId?: string;             // Defaults to the batch/experiment id when recording; required to replay
+    liveKinds?: CassetteCallKind[];  // Call kinds that bypass the cassette, e.g. ['judge'] to rescore with a new scorer
+}
@@ -29,6 +29,31 @@ export interface PolarisGraph {
   edges?: any[];
 }
 
+// Read-only picture of graph.json for the graph canvas - layout and routing, prompts only as defaults
+export interface GraphViewNode {
+  id: string;
+  label: string;                   // Agent, LLM node or condition name, falling back to the node label
+  type: string;                    // Start, LLMNode, Condition, Agent, End, or the tool/model/memory type
+  sequential: boolean;             // On the conversation flow, rather than attached to a node on it
+  position: { x: number; y: number };
+  width: number;
+  conditions?: { output: string; rule?: string }[];  // Condition branches, e.g. customerType Is new_sales_lead
+  defaultPrompts?: { systemMessagePrompt?: string; humanMessagePrompt?: string };
+}
+
+export interface GraphViewEdge {
+  id: string;
+  source: string;
+  target: string;
+  sequential: boolean;
+  route?: string;                  // Condition branch the edge leaves through
+}
+
+export interface GraphView {
+  nodes: GraphViewNode[];
+  edges: GraphViewEdge[];
+}
+
 export interface StateField {
   key: string;
   type: string;
@@ -79,13 +104,96 @@ export interface PromptSetVersion {
   basedOnExperimentId?: string;
 }
 
+// Prompt overrides sent with each chat request, keyed by prompt type then node ID
+// e.g. { systemMessagePrompt: { seqAgent_0: "..." }, humanMessagePrompt: { ... } }
+export type OverrideConfig = Record<string, Record<string, string>>;
+
+// Which adapter an agent's chat requests are sent through
+export type AgentBackendType = 'polaris' | 'openai-compatible' | 'mock';
+
 // Agent configuration for multi-agent support
 export interface AgentConfig {
   id: string;                      // Unique agent ID (generated)
   name: string;                    // Display name (e.g., "iProspect Agent", "Support Bot")
-  apiUrl: string;                  // Polaris API endpoint URL
+  apiUrl: string;                  // Chat endpoint URL (Polaris prediction URL for Polaris agents)
+  backend?: AgentBackendType;      // Chat backend adapter - missing means 'polaris'
+  backendModel?: string;           // Model name for OpenAI-compatible backends
+  apiKeyEnvVar?: string;           // AGENT_API_KEY_* env var holding the API key for OpenAI-compatible backends
   createdAt: string;
   updatedAt: string;
   createdBy?: string;              // Optional: who created this agent
   description?: string;            // Optional description
+  placeholderAliases?: Record<string, string>;  // {alias} -> state field key; missing means the defaults
+}
+
+// One message of a conversation kept for backends that are stateless between requests
+export interface ChatHistoryMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// A scripted reply, chosen when the user's message matches
+export interface MockScriptRule {
+  match: string;                   // Case-insensitive regex tested against the user message
+  response: string;                // Agent reply to return
+  route?: string;                  // Condition branch to follow (e.g. "existing_customer")
+  state?: Record<string, string>;  // State updates reported in the trace
+}
+
+// Per-agent script for the local mock Polaris backend
+export interface MockPolarisScript {
+  rules: MockScriptRule[];
+  // Replayed in order when no rule matches - typically recorded from a real simulation
+  recordedResponses?: string[];
+  recordedFromSimulationId?: string;
+  updatedAt?: string;
+}
+
+// ============ Graph Update Types ============
+
+export type NodePromptType = 'systemMessagePrompt' | 'humanMessagePrompt';
+
+// Prompt overrides as stored in overrides.json, keyed by node ID
+export type NodePromptOverrides = Record<string, Partial<Record<NodePromptType, string>>>;
+
+// One node that differs between the current graph.json and the one being imported
+export interface GraphNodeChange {
+  kind: 'added' | 'removed' | 'changed';
+  nodeId: string;                  // ID in the new graph, or the old ID for removed nodes
+  label: string;
+  type: string;
+  previousId?: string;             // The node's ID in the old graph, when it changed
+  previousLabel?: string;          // Set when the node was renamed
+  changedPrompts?: NodePromptType[];  // Default prompts that differ from the old graph
+}
+
+export interface StateFieldChange {
+  kind: 'added' | 'removed' | 'default-changed';
+  key: string;
+}
+
+export type GraphMergeTarget =
+  | { type: 'prompt'; nodeId: string; nodeLabel: string; promptType: NodePromptType }
+  | { type: 'state'; key: string };
+
+// Both sides changed the same prompt or state value - someone has to pick
+export interface GraphMergeConflict {
+  id: string;
+  target: GraphMergeTarget;
+  base: string;                    // Default in the current graph
+  ours: string;                    // Our edited value
+  theirs: string;                  // Default in the imported graph
+}
+
+// The result of diffing the imported graph against the current one and merging our edits onto it.
+// Merged overrides leave out conflicted values until they are resolved.
+export interface GraphUpdatePlan {
+  nodeChanges: GraphNodeChange[];
+  stateFieldChanges: StateFieldChange[];
+  nodeIdMap: Record<string, string>;         // Old ID -> new ID for nodes whose ID changed
+  promptOverrides: NodePromptOverrides;
+  stateOverrides: Record<string, string>;
+  conflicts: GraphMergeConflict[];
+  adopted: GraphMergeTarget[];               // Edits dropped because the new default already matches them
+  dropped: { target: GraphMergeTarget; value: string }[];  // Edits to nodes or fields the new graph no longer has
 }
@@ -1,3 +1,6 @@
+import { OverridableNode } from './polaris';
+import { CassetteOptions } from './cassette';
+
 export interface Persona {
     id: string;
     name: string;
@@ -43,6 +46,8 @@ export interface SimulationMetadata {
     persona: Persona;
     intent: Intent;
     emotion: EmotionDimension;
+    customerPhone?: string; // Contact details the persona gives out, kept so a resumed run is the same customer
+    customerEmail?: string;
     outcome?: string;       // Result captured from END signal
 }
 
@@ -55,9 +60,10 @@ export interface EnhancedSimulation {
     chatId?: string;
     createdAt: string;
     completedAt?: string;
-    status: 'running' | 'completed' | 'failed';
+    status: 'running' | 'completed' | 'failed' | 'cancelled';
     reviewed?: boolean;        // Has this simulation been reviewed?
     reviewedAt?: string;       // When it was marked as reviewed
+    retryCount?: number;       // Backend calls retried after a 429/5xx, across resumed attempts
 }
 
 export interface SimulationBatch {
@@ -65,10 +71,34 @@ export interface SimulationBatch {
     name: string;              // e.g., "Round 1", "Round 2"
     createdAt: string;
     completedAt?: string;
-    status: 'running' | 'completed' | 'partial';  // partial = some failed
+    status: 'queued' | 'running' | 'completed' | 'partial' | 'cancelled';  // partial = some failed
     simulationCount: number;   // Total simulations in this batch
     completedCount: number;    // How many have completed
     reviewedCount: number;     // How many have been reviewed
+    cassetteId?: string;       // Cassette this batch was recorded to or replayed from
+}
+
+// ============ Simulation Job Types ============
+
+export type SimulationJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// Durable record of a batch run, so it can be resumed after a restart and cancelled from any request
+export interface SimulationJob {
+    id: string;
+    agentId: string;
+    batchId: string;
+    status: SimulationJobStatus;
+    nodes: OverridableNode[];                 // Prompts the batch runs with
+    stateOverrides?: Record<string, string>;
+    cassette?: CassetteOptions;               // Resolved cassette settings, re-applied on resume
+    attempts: number;                         // How many times a worker has started the job
+    workerId?: string;                        // Server process currently running the job
+    heartbeatAt?: string;                     // Last time that process reported the job alive
+    cancelRequested?: boolean;
+    error?: string;
+    createdAt: string;
+    startedAt?: string;
+    completedAt?: string;
 }
 
 export interface SimulationConfig {
@@ -89,7 +119,8 @@ export interface GeneratedSimulationOptions {
 
 export interface SimulationNote {
     id: string;
-    simulationId: string;      // Which simulation this note belongs to
+    simulationId: string;      // Which simulation this note belongs to - the result id for behavior test notes
+    experimentId?: string;     // Set when the note is on a behavior test result
     turnIndex: number;         // Which message in the conversation
     turnRole: 'user' | 'assistant';  // Whether it's customer or agent message
     comment: string;           // The feedback comment
@@ -97,6 +128,7 @@ export interface SimulationNote {
     resolved: boolean;         // Has this been addressed?
     resolvedAt?: string;
     resolutionNote?: string;   // Note explaining how it was resolved
+    resolvedByVersionId?: string;  // Prompt version saved to fix it, when resolved from a refinement
 }
 
 export interface SimulationNotesData {